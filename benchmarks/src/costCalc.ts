@@ -8,6 +8,20 @@ function clamp01(x: number): number {
   return Math.max(0, Math.min(1, x))
 }
 
+/**
+ * Estimated USD cost of a single call. Prices are per million tokens, as
+ * derived from the OpenRouter catalog (`pricing.prompt * 1_000_000`).
+ * The chat Cloud Function applies the same formula to recorded usage.
+ */
+export function estimateCallCost(
+  inputTokens: number,
+  outputTokens: number,
+  pricing: Pick<ModelCandidate, 'promptPrice' | 'completionPrice'>,
+): number {
+  return (inputTokens / 1_000_000) * pricing.promptPrice
+    + (outputTokens / 1_000_000) * pricing.completionPrice
+}
+
 /**
  * Calculates the estimated monthly cost per user for a model based on
  * catalog pricing and the app's usage patterns.
@@ -24,9 +38,7 @@ export function calculateCost(candidate: ModelCandidate): CostResult {
   let monthlyCost = 0
 
   for (const usage of MONTHLY_USAGE) {
-    const inputCost = (usage.calls * usage.inputTokens / 1_000_000) * candidate.promptPrice
-    const outputCost = (usage.calls * usage.outputTokens / 1_000_000) * candidate.completionPrice
-    const patternCost = inputCost + outputCost
+    const patternCost = usage.calls * estimateCallCost(usage.inputTokens, usage.outputTokens, candidate)
 
     breakdown.push({
       pattern: usage.pattern,
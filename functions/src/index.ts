@@ -2,8 +2,8 @@ import { onRequest } from 'firebase-functions/v2/https'
 import { defineSecret } from 'firebase-functions/params'
 import { initializeApp } from 'firebase-admin/app'
 import { getAuth } from 'firebase-admin/auth'
-import { getFirestore } from 'firebase-admin/firestore'
-import { createHash } from 'crypto'
+import { getFirestore, FieldValue } from 'firebase-admin/firestore'
+import { createHash, randomUUID } from 'crypto'
 
 initializeApp()
 
@@ -32,26 +32,560 @@ const MAX_TOKENS_CAP = 500
 const MAX_MESSAGE_CHARS = 8000 // per-message content length cap
 const MAX_MESSAGES = 50 // max messages per request
 
-// Best-effort per-instance rate limiter (not shared across Cloud Function instances)
-const rateLimitMap = new Map<string, { count: number; resetAt: number }>()
+// ─── Cached global config ─────────────────────────────────
+
+const CONFIG_CACHE_TTL_MS = 60_000
+let globalConfigCache: { config: Record<string, unknown>; fetchedAt: number } | null = null
+
+// Admin edits reach every instance within a minute without a config read per request
+async function getCachedGlobalConfig(): Promise<Record<string, unknown>> {
+  if (globalConfigCache && Date.now() - globalConfigCache.fetchedAt < CONFIG_CACHE_TTL_MS) {
+    return globalConfigCache.config
+  }
+  try {
+    const snap = await getFirestore().collection('appConfig').doc('global').get()
+    globalConfigCache = { config: snap.data() ?? {}, fetchedAt: Date.now() }
+  } catch (error) {
+    console.error('Failed to read global config:', error)
+    // Keep serving the last known config (or defaults) until Firestore recovers
+    return globalConfigCache?.config ?? {}
+  }
+  return globalConfigCache.config
+}
+
+// ─── Rate limiting & token budgets ──────────────────────────
+// State lives in Firestore (rateLimits/{id}, server-only) so every function
+// instance enforces the same per-minute window and daily/monthly budgets.
+
 const RATE_LIMIT_WINDOW_MS = 60_000
-const RATE_LIMIT_MAX = 30 // requests per minute per uid
 
-function checkRateLimit(uid: string): boolean {
-  const now = Date.now()
-  const entry = rateLimitMap.get(uid)
-  if (!entry || now > entry.resetAt) {
-    rateLimitMap.set(uid, { count: 1, resetAt: now + RATE_LIMIT_WINDOW_MS })
-    return true
+interface RateLimits {
+  requestsPerMinute: number
+  embeddingRequestsPerMinute: number
+  mcpRequestsPerMinute: number
+  dailyTokenBudget: number   // 0 = unlimited
+  monthlyTokenBudget: number // 0 = unlimited
+}
+
+const DEFAULT_RATE_LIMITS: RateLimits = {
+  requestsPerMinute: 30,
+  embeddingRequestsPerMinute: 20,
+  mcpRequestsPerMinute: 60,
+  dailyTokenBudget: 200_000,
+  monthlyTokenBudget: 3_000_000,
+}
+
+async function getRateLimits(): Promise<RateLimits> {
+  const configured = (await getCachedGlobalConfig()).rateLimits as Partial<RateLimits> | undefined
+  const limits = { ...DEFAULT_RATE_LIMITS }
+  for (const key of Object.keys(DEFAULT_RATE_LIMITS) as (keyof RateLimits)[]) {
+    const value = configured?.[key]
+    if (typeof value === 'number' && value >= 0) limits[key] = value
+  }
+  return limits
+}
+
+interface RateLimitState {
+  windowStart: number
+  windowCount: number
+  day: string   // UTC YYYY-MM-DD
+  dayTokens: number
+  month: string // UTC YYYY-MM
+  monthTokens: number
+}
+
+type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'minute' | 'daily' | 'monthly'; retryAfterSeconds: number; limit: number; used: number }
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
+
+function utcMonth(now: number): string {
+  return new Date(now).toISOString().slice(0, 7)
+}
+
+// Rolls day/month counters over so a stale document never blocks a new period
+function currentRateLimitState(data: Partial<RateLimitState> | undefined, now: number): RateLimitState {
+  const day = utcDay(now)
+  const month = utcMonth(now)
+  return {
+    windowStart: data?.windowStart ?? 0,
+    windowCount: data?.windowCount ?? 0,
+    day,
+    dayTokens: data?.day === day ? data.dayTokens ?? 0 : 0,
+    month,
+    monthTokens: data?.month === month ? data.monthTokens ?? 0 : 0,
+  }
+}
+
+function secondsUntil(ms: number, now: number): number {
+  return Math.max(1, Math.ceil((ms - now) / 1000))
+}
+
+/**
+ * Counts one request against `id` unless it is over its per-minute limit or
+ * (when `checkBudgets`) its token budgets. Denied requests aren't counted.
+ */
+async function consumeRateLimit(
+  id: string,
+  requestsPerMinute: number,
+  limits: RateLimits,
+  checkBudgets: boolean,
+): Promise<RateLimitDecision> {
+  const db = getFirestore()
+  const ref = db.collection('rateLimits').doc(id)
+  return db.runTransaction(async (tx) => {
+    const now = Date.now()
+    const snap = await tx.get(ref)
+    const state = currentRateLimitState(snap.data() as Partial<RateLimitState> | undefined, now)
+
+    if (checkBudgets) {
+      if (limits.dailyTokenBudget > 0 && state.dayTokens >= limits.dailyTokenBudget) {
+        const tomorrow = Date.parse(`${state.day}T00:00:00Z`) + 24 * 60 * 60 * 1000
+        return { allowed: false, reason: 'daily', retryAfterSeconds: secondsUntil(tomorrow, now), limit: limits.dailyTokenBudget, used: state.dayTokens }
+      }
+      if (limits.monthlyTokenBudget > 0 && state.monthTokens >= limits.monthlyTokenBudget) {
+        const d = new Date(now)
+        const nextMonth = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1)
+        return { allowed: false, reason: 'monthly', retryAfterSeconds: secondsUntil(nextMonth, now), limit: limits.monthlyTokenBudget, used: state.monthTokens }
+      }
+    }
+
+    if (now - state.windowStart >= RATE_LIMIT_WINDOW_MS) {
+      state.windowStart = now
+      state.windowCount = 0
+    }
+    if (state.windowCount >= requestsPerMinute) {
+      return {
+        allowed: false,
+        reason: 'minute',
+        retryAfterSeconds: secondsUntil(state.windowStart + RATE_LIMIT_WINDOW_MS, now),
+        limit: requestsPerMinute,
+        used: state.windowCount,
+      }
+    }
+
+    state.windowCount++
+    tx.set(ref, { ...state, updatedAt: now })
+    return { allowed: true }
+  })
+}
+
+async function recordTokenUsage(uid: string, tokens: number): Promise<void> {
+  if (!(tokens > 0)) return
+  const db = getFirestore()
+  const ref = db.collection('rateLimits').doc(uid)
+  await db.runTransaction(async (tx) => {
+    const now = Date.now()
+    const snap = await tx.get(ref)
+    const state = currentRateLimitState(snap.data() as Partial<RateLimitState> | undefined, now)
+    state.dayTokens += tokens
+    state.monthTokens += tokens
+    tx.set(ref, { ...state, updatedAt: now })
+  })
+}
+
+function rateLimitMessage(decision: Extract<RateLimitDecision, { allowed: false }>): string {
+  switch (decision.reason) {
+    case 'minute': return 'Too many requests. Please wait a moment.'
+    case 'daily': return 'Daily AI usage limit reached. It resets at midnight UTC.'
+    case 'monthly': return 'Monthly AI usage limit reached. It resets on the 1st (UTC).'
   }
-  entry.count++
-  return entry.count <= RATE_LIMIT_MAX
 }
 
 function isModelAllowed(model: string): boolean {
   return ALLOWED_MODEL_PREFIXES.some((prefix) => model.startsWith(prefix))
 }
 
+// ─── LLM providers & routing ──────────────────────────────
+// Routes are tried in order: the first is the primary, the rest are fallbacks
+// used only when a provider returns 5xx, times out, or can't be reached.
+// Client errors (4xx) are returned as-is — another provider won't fix them.
+
+type LlmProviderId = 'openrouter' | 'openai-compatible' | 'mock'
+
+interface LlmRoute {
+  provider: LlmProviderId
+  model?: string // overrides the model the client asked for
+}
+
+interface LlmRouting {
+  routes: LlmRoute[]
+  openAiCompatibleUrl: string // base URL, e.g. http://localhost:8080/v1
+  timeoutMs: number // per attempt, until response headers arrive
+}
+
+interface ChatCompletionRequest {
+  model: string
+  messages: { role: string; content: string }[]
+  max_tokens: number
+  temperature: number
+  frequency_penalty?: number
+  stream: boolean
+}
+
+const LLM_PROVIDERS: readonly LlmProviderId[] = ['openrouter', 'openai-compatible', 'mock']
+const DEFAULT_LLM_TIMEOUT_MS = 20_000
+
+function isLlmProvider(value: unknown): value is LlmProviderId {
+  return typeof value === 'string' && (LLM_PROVIDERS as readonly string[]).includes(value)
+}
+
+// LLM_PROVIDER (+ LLM_BASE_URL) in the functions environment overrides the
+// admin config, so the emulator can run fully offline against the mock or a
+// local llama.cpp/vLLM server.
+async function getLlmRouting(): Promise<LlmRouting> {
+  const envProvider = process.env.LLM_PROVIDER
+  if (isLlmProvider(envProvider)) {
+    return {
+      routes: [{ provider: envProvider, model: process.env.LLM_MODEL || undefined }],
+      openAiCompatibleUrl: process.env.LLM_BASE_URL || 'http://localhost:8080/v1',
+      timeoutMs: DEFAULT_LLM_TIMEOUT_MS,
+    }
+  }
+
+  const configured = (await getCachedGlobalConfig()).llmRouting as Partial<LlmRouting> | undefined
+  const routes = Array.isArray(configured?.routes)
+    ? configured.routes
+      .filter((r) => isLlmProvider(r?.provider))
+      .map((r) => ({ provider: r.provider, model: typeof r.model === 'string' && r.model ? r.model : undefined }))
+    : []
+  return {
+    routes: routes.length > 0 ? routes : [{ provider: 'openrouter' }],
+    openAiCompatibleUrl: typeof configured?.openAiCompatibleUrl === 'string' ? configured.openAiCompatibleUrl : '',
+    timeoutMs: typeof configured?.timeoutMs === 'number' && configured.timeoutMs > 0
+      ? configured.timeoutMs
+      : DEFAULT_LLM_TIMEOUT_MS,
+  }
+}
+
+const MOCK_REPLIES = [
+  'Something in that sentence wants a little more room.',
+  'I notice you slowed down there. What were you about to say?',
+  'That sounds heavy. You don\'t have to carry it all at once.',
+  'There is a thread here worth following.',
+  'What would it feel like to say that more plainly?',
+]
+
+// Same messages in → same reply out, so offline runs and tests are reproducible
+function mockCompletion(request: ChatCompletionRequest): Response {
+  const lastMessage = request.messages[request.messages.length - 1]?.content ?? ''
+  const digest = createHash('sha256').update(lastMessage).digest()
+  const wantsJson = request.messages.some((m) => m.role === 'system' && m.content.includes('JSON'))
+  const content = wantsJson ? '{}' : MOCK_REPLIES[digest[0] % MOCK_REPLIES.length]
+  const promptTokens = Math.ceil(request.messages.reduce((n, m) => n + m.content.length, 0) / 4)
+  const completionTokens = Math.ceil(content.length / 4)
+  const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens }
+  const id = `mock-${digest.toString('hex').slice(0, 12)}`
+
+  if (!request.stream) {
+    return Response.json({
+      id,
+      model: request.model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage,
+    })
+  }
+
+  const events = content.split(/(?<= )/).map((token) =>
+    `data: ${JSON.stringify({ id, model: request.model, choices: [{ index: 0, delta: { content: token } }] })}\n\n`)
+  events.push(`data: ${JSON.stringify({ id, model: request.model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage })}\n\n`)
+  events.push('data: [DONE]\n\n')
+  return new Response(events.join(''), { headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+async function sendToProvider(
+  route: LlmRoute,
+  request: ChatCompletionRequest,
+  routing: LlmRouting,
+  signal: AbortSignal,
+): Promise<Response> {
+  switch (route.provider) {
+    case 'mock':
+      return mockCompletion(request)
+    case 'openai-compatible': {
+      if (!routing.openAiCompatibleUrl) throw new Error('No OpenAI-compatible endpoint configured')
+      const apiKey = process.env.SELF_HOSTED_LLM_API_KEY
+      return fetch(`${routing.openAiCompatibleUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...request, stream_options: request.stream ? { include_usage: true } : undefined }),
+        signal,
+      })
+    }
+    case 'openrouter':
+      return fetch('https://openrouter.ai/api/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${openRouterKey.value()}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': 'https://undersurface.me',
+          'X-Title': 'UnderSurface',
+        },
+        body: JSON.stringify({
+          ...request,
+          usage: { include: true }, // token counts for budget accounting
+        }),
+        signal,
+      })
+  }
+}
+
+type RoutedCompletion =
+  | { ok: true; response: Response; provider: LlmProviderId; model: string }
+  | { ok: false; status: number }
+
+// Tries each route in turn — shared by chat completions and embeddings
+async function tryRoutes(
+  routing: LlmRouting,
+  modelFor: (route: LlmRoute) => string,
+  send: (route: LlmRoute, model: string, signal: AbortSignal) => Promise<Response>,
+): Promise<RoutedCompletion> {
+  let lastStatus = 502
+  for (const route of routing.routes) {
+    const model = modelFor(route)
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), routing.timeoutMs)
+    try {
+      const response = await send(route, model, controller.signal)
+      if (response.ok) return { ok: true, response, provider: route.provider, model }
+      const errorBody = await response.text().catch(() => '')
+      console.error(`${route.provider} error: ${response.status} model=${model}`, errorBody)
+      if (response.status < 500) return { ok: false, status: response.status }
+      lastStatus = response.status
+    } catch (error) {
+      const timedOut = controller.signal.aborted
+      console.error(`${route.provider} ${timedOut ? 'timed out' : 'failed'} model=${model}:`, timedOut ? '' : error)
+      lastStatus = timedOut ? 504 : 502
+    } finally {
+      // Headers are in — streaming bodies aren't bound by the attempt timeout
+      clearTimeout(timer)
+    }
+  }
+  return { ok: false, status: lastStatus }
+}
+
+async function routeChatCompletion(request: ChatCompletionRequest, routing: LlmRouting): Promise<RoutedCompletion> {
+  return tryRoutes(
+    routing,
+    (route) => route.model || request.model,
+    (route, model, signal) => sendToProvider(route, { ...request, model }, routing, signal),
+  )
+}
+
+// ─── Embeddings ───────────────────────────────────────────
+// Semantic retrieval (echoes, quotes, threads) embeds entries, summaries and
+// memories through the chat endpoint: a body with `input` instead of
+// `messages`. Routes follow llmRouting, but a route's model override names a
+// chat model, so the embedding model is always the one the client asked for.
+
+const ALLOWED_EMBEDDING_MODEL_PREFIXES = [
+  'openai/text-embedding',
+  'google/gemini-embedding',
+  'mistralai/mistral-embed',
+  'qwen/qwen3-embedding',
+]
+const MAX_EMBEDDING_INPUTS = 32
+const MOCK_EMBEDDING_DIMENSIONS = 64
+
+interface EmbeddingRequest {
+  model: string
+  input: string[]
+}
+
+// Feature-hashed bag of words: texts sharing words land close together, so
+// offline runs still exercise retrieval end to end
+function mockEmbeddings(request: EmbeddingRequest): Response {
+  const data = request.input.map((text, index) => {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0)
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      const digest = createHash('sha256').update(word).digest()
+      vector[digest[0] % MOCK_EMBEDDING_DIMENSIONS] += digest[1] & 1 ? 1 : -1
+    }
+    const norm = Math.hypot(...vector) || 1
+    return { object: 'embedding', index, embedding: vector.map((v) => v / norm) }
+  })
+  const promptTokens = Math.ceil(request.input.reduce((n, t) => n + t.length, 0) / 4)
+  return Response.json({
+    object: 'list',
+    model: request.model,
+    data,
+    usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+  })
+}
+
+async function sendEmbeddingsToProvider(
+  route: LlmRoute,
+  request: EmbeddingRequest,
+  routing: LlmRouting,
+  signal: AbortSignal,
+): Promise<Response> {
+  switch (route.provider) {
+    case 'mock':
+      return mockEmbeddings(request)
+    case 'openai-compatible': {
+      if (!routing.openAiCompatibleUrl) throw new Error('No OpenAI-compatible endpoint configured')
+      const apiKey = process.env.SELF_HOSTED_LLM_API_KEY
+      return fetch(`${routing.openAiCompatibleUrl.replace(/\/+$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+        signal,
+      })
+    }
+    case 'openrouter':
+      return fetch('https://openrouter.ai/api/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${openRouterKey.value()}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': 'https://undersurface.me',
+          'X-Title': 'UnderSurface',
+        },
+        body: JSON.stringify(request),
+        signal,
+      })
+  }
+}
+
+async function handleEmbeddingRequest(
+  uid: string,
+  body: { input?: unknown; model?: unknown },
+): Promise<{ status: number; body: unknown }> {
+  const input = body.input
+  if (
+    !Array.isArray(input) || input.length === 0 || input.length > MAX_EMBEDDING_INPUTS
+    || !input.every((text) => typeof text === 'string' && text.length > 0 && text.length <= MAX_MESSAGE_CHARS)
+  ) {
+    return { status: 400, body: { error: `Invalid input (1-${MAX_EMBEDDING_INPUTS} strings, max ${MAX_MESSAGE_CHARS} chars each)` } }
+  }
+  const model = typeof body.model === 'string' && body.model ? body.model : 'openai/text-embedding-3-small'
+  if (!ALLOWED_EMBEDDING_MODEL_PREFIXES.some((prefix) => model.startsWith(prefix))) {
+    return { status: 400, body: { error: `Model not allowed: ${model}` } }
+  }
+  console.log(`uid=${uid.slice(0, 8)} site=embedding model=${model} inputs=${input.length}`)
+
+  const request: EmbeddingRequest = { model, input: input as string[] }
+  const routing = await getLlmRouting()
+  const routed = await tryRoutes(
+    routing,
+    () => model,
+    (route, _model, signal) => sendEmbeddingsToProvider(route, request, routing, signal),
+  )
+  if (!routed.ok) return { status: routed.status, body: { error: 'AI service temporarily unavailable' } }
+
+  const data = await routed.response.json()
+  await recordUsage(uid, 'embedding', routed.provider, model, extractUsage(data))
+    .catch((error) => console.error('Failed to record usage:', error))
+  return { status: 200, body: data }
+}
+
+// ─── Usage & cost accounting ──────────────────────────────
+// One document per user per UTC day (usage/{day}_{uid}, server-only) with
+// running totals broken down by call site and model. Cost is an estimate from
+// OpenRouter catalog prices; self-hosted and mock calls cost nothing.
+
+// Mirrors CallSite in src/ai/openrouter.ts — unknown labels are filed under 'other'
+const CALL_SITES = new Set([
+  'part-thought', 'interaction-reply', 'emotion', 'reflection', 'emergence',
+  'growth', 'exploration', 'autocorrect', 'session-message', 'session-note',
+  'session-reflection', 'closing-phrase', 'letter', 'disagreement', 'fossil',
+  'blank-page', 'session-phase', 'session-summary', 'embedding', 'memory-consolidation',
+  'part-introduction',
+])
+
+interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+// Providers report usage on the response body, or on the last SSE chunk when
+// streaming. Embedding responses carry prompt tokens only.
+function extractUsage(data: unknown): TokenUsage | null {
+  const usage = (data as { usage?: { prompt_tokens?: unknown; completion_tokens?: unknown } } | null)?.usage
+  if (typeof usage?.prompt_tokens !== 'number') return null
+  if (usage.completion_tokens !== undefined && typeof usage.completion_tokens !== 'number') return null
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 }
+}
+
+interface ModelPricing {
+  promptPrice: number     // USD per 1M tokens
+  completionPrice: number // USD per 1M tokens
+}
+
+const PRICING_TTL_MS = 6 * 60 * 60 * 1000
+let pricingCache: { byModel: Map<string, ModelPricing>; fetchedAt: number } | null = null
+
+async function getModelPricing(model: string): Promise<ModelPricing | null> {
+  if (!pricingCache || Date.now() - pricingCache.fetchedAt > PRICING_TTL_MS) {
+    try {
+      const response = await fetch('https://openrouter.ai/api/v1/models')
+      if (!response.ok) throw new Error(`status ${response.status}`)
+      const catalog = await response.json() as { data?: { id: string; pricing?: { prompt?: string; completion?: string } }[] }
+      const byModel = new Map<string, ModelPricing>()
+      for (const m of catalog.data ?? []) {
+        byModel.set(m.id, {
+          promptPrice: (parseFloat(m.pricing?.prompt ?? '') || 0) * 1_000_000,
+          completionPrice: (parseFloat(m.pricing?.completion ?? '') || 0) * 1_000_000,
+        })
+      }
+      pricingCache = { byModel, fetchedAt: Date.now() }
+    } catch (error) {
+      console.error('Failed to fetch model pricing:', error)
+      if (!pricingCache) return null
+    }
+  }
+  return pricingCache?.byModel.get(model) ?? null
+}
+
+// Same formula as estimateCallCost in benchmarks/src/costCalc.ts — functions
+// deploy on their own, so the benchmark package can't be imported here
+function estimateCallCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return (usage.promptTokens / 1_000_000) * pricing.promptPrice
+    + (usage.completionTokens / 1_000_000) * pricing.completionPrice
+}
+
+async function recordUsage(
+  uid: string,
+  callSite: string,
+  provider: LlmProviderId,
+  model: string,
+  usage: TokenUsage | null,
+): Promise<void> {
+  // Embeddings are limited on their own and stay out of the chat token budget
+  const budgetTokens = usage && callSite !== 'embedding' ? usage.promptTokens + usage.completionTokens : 0
+  const pricing = usage && provider === 'openrouter' ? await getModelPricing(model) : null
+  const cost = usage && pricing ? estimateCallCost(usage, pricing) : 0
+
+  const now = Date.now()
+  const day = utcDay(now)
+  const totals = () => ({
+    calls: FieldValue.increment(1),
+    promptTokens: FieldValue.increment(usage?.promptTokens ?? 0),
+    completionTokens: FieldValue.increment(usage?.completionTokens ?? 0),
+    cost: FieldValue.increment(cost),
+  })
+  await Promise.all([
+    recordTokenUsage(uid, budgetTokens),
+    getFirestore().collection('usage').doc(`${day}_${uid}`).set({
+      uid,
+      day,
+      ...totals(),
+      byFeature: { [callSite]: totals() },
+      byModel: { [model]: totals() },
+      updatedAt: now,
+    }, { merge: true }),
+  ])
+}
+
 export const chat = onRequest(
   {
     secrets: [openRouterKey],
@@ -82,14 +616,42 @@ export const chat = onRequest(
       return
     }
 
-    // Rate limit
-    if (!checkRateLimit(uid)) {
-      res.status(429).json({ error: 'Too many requests. Please wait a moment.' })
+    // Rate limit + token budgets (shared across instances). If Firestore is
+    // unavailable the request goes through rather than taking chat down.
+    // Embeddings (a body with `input`) have their own bucket and no budget, so
+    // indexing and pause lookups never use up the writer's replies.
+    const isEmbedding = req.body?.input !== undefined
+    const limits = await getRateLimits()
+    let decision: RateLimitDecision = { allowed: true }
+    try {
+      decision = isEmbedding
+        ? await consumeRateLimit(`embed_${uid}`, limits.embeddingRequestsPerMinute, limits, false)
+        : await consumeRateLimit(uid, limits.requestsPerMinute, limits, true)
+    } catch (error) {
+      console.error('Rate limit check failed:', error)
+    }
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', String(decision.retryAfterSeconds))
+      res.status(429).json({
+        error: rateLimitMessage(decision),
+        code: 'rate_limited',
+        reason: decision.reason,
+        retryAfter: decision.retryAfterSeconds,
+        limit: decision.limit,
+        used: decision.used,
+      })
+      return
+    }
+
+    if (isEmbedding) {
+      const result = await handleEmbeddingRequest(uid, req.body)
+      res.status(result.status).json(result.body)
       return
     }
 
     // Validate request body
-    const { messages, model, max_tokens, temperature, stream, frequency_penalty } = req.body || {}
+    const { messages, model, max_tokens, temperature, stream, frequency_penalty, callSite } = req.body || {}
+    const resolvedCallSite = CALL_SITES.has(callSite) ? callSite as string : 'other'
     if (!Array.isArray(messages) || messages.length === 0) {
       res.status(400).json({ error: 'Invalid messages' })
       return
@@ -123,46 +685,54 @@ export const chat = onRequest(
       typeof max_tokens === 'number' && max_tokens > 0 ? max_tokens : 150,
       MAX_TOKENS_CAP,
     )
-    console.log(`uid=${uid.slice(0, 8)} model=${resolvedModel} stream=${!!stream} max_tokens=${resolvedMaxTokens}`)
-
-    const openRouterResponse = await fetch(
-      'https://openrouter.ai/api/v1/chat/completions',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openRouterKey.value()}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://undersurface.me',
-          'X-Title': 'UnderSurface',
-        },
-        body: JSON.stringify({
-          model: resolvedModel,
-          messages,
-          max_tokens: resolvedMaxTokens,
-          temperature: typeof temperature === 'number' ? Math.min(temperature, 2) : 0.9,
-          frequency_penalty: typeof frequency_penalty === 'number' ? Math.min(Math.max(frequency_penalty, 0), 2) : undefined,
-          stream: !!stream,
-        }),
-      },
-    )
-
-    if (!openRouterResponse.ok) {
-      const errorBody = await openRouterResponse.text().catch(() => '')
-      console.error(`OpenRouter error: ${openRouterResponse.status}`, errorBody)
-      res.status(openRouterResponse.status).json({
+    console.log(`uid=${uid.slice(0, 8)} site=${resolvedCallSite} model=${resolvedModel} stream=${!!stream} max_tokens=${resolvedMaxTokens}`)
+
+    const routed = await routeChatCompletion({
+      model: resolvedModel,
+      messages,
+      max_tokens: resolvedMaxTokens,
+      temperature: typeof temperature === 'number' ? Math.min(temperature, 2) : 0.9,
+      frequency_penalty: typeof frequency_penalty === 'number' ? Math.min(Math.max(frequency_penalty, 0), 2) : undefined,
+      stream: !!stream,
+    }, await getLlmRouting())
+
+    if (!routed.ok) {
+      res.status(routed.status).json({
         error: 'AI service temporarily unavailable',
       })
       return
     }
+    if (routed.provider !== 'openrouter' || routed.model !== resolvedModel) {
+      console.log(`uid=${uid.slice(0, 8)} routed to ${routed.provider} model=${routed.model}`)
+    }
+    const upstream = routed.response
 
-    if (stream && openRouterResponse.body) {
+    if (stream && upstream.body) {
       res.setHeader('Content-Type', 'text/event-stream')
       res.setHeader('Cache-Control', 'no-cache, no-transform')
       res.setHeader('X-Accel-Buffering', 'no')
 
       const MAX_STREAM_BYTES = 1_048_576 // 1 MiB safety cap
       let totalBytes = 0
-      const reader = openRouterResponse.body.getReader()
+      const reader = upstream.body.getReader()
+      // Chunks are passed through untouched; a side copy is scanned for the usage chunk
+      const decoder = new TextDecoder()
+      let lineBuffer = ''
+      let usage: TokenUsage | null = null
+      const scanLines = (text: string) => {
+        lineBuffer += text
+        const lines = lineBuffer.split('\n')
+        lineBuffer = lines.pop() || ''
+        for (const line of lines) {
+          const trimmed = line.trim()
+          if (!trimmed.startsWith('data: ') || !trimmed.includes('"usage"')) continue
+          try {
+            usage = extractUsage(JSON.parse(trimmed.slice(6))) ?? usage
+          } catch {
+            // Partial or non-JSON line — ignore
+          }
+        }
+      }
       try {
         while (true) {
           const { done, value } = await reader.read()
@@ -173,12 +743,20 @@ export const chat = onRequest(
             break
           }
           res.write(value)
+          scanLines(decoder.decode(value, { stream: true }))
         }
+        scanLines('\n')
       } finally {
+        // Recorded before the response ends — work after it can be throttled
+        // or dropped, and the token budget depends on it
+        await recordUsage(uid, resolvedCallSite, routed.provider, routed.model, usage)
+          .catch((error) => console.error('Failed to record usage:', error))
         res.end()
       }
     } else {
-      const data = await openRouterResponse.json()
+      const data = await upstream.json()
+      await recordUsage(uid, resolvedCallSite, routed.provider, routed.model, extractUsage(data))
+        .catch((error) => console.error('Failed to record usage:', error))
       res.json(data)
     }
   },
@@ -211,6 +789,32 @@ function countWords(text: string): number {
   return text.split(/\s+/).filter((w: string) => w.length > 0).length
 }
 
+// Users can encrypt their journal client-side. Sealed fields are stored as
+// 'enc:v1:<payload>' and only their passphrase opens them, so the server
+// treats them as absent and reports metadata only.
+const ENCRYPTED_PREFIX = 'enc:v1:'
+
+function isEncrypted(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX)
+}
+
+function readableText(value: unknown): string {
+  return typeof value === 'string' && !isEncrypted(value) ? value : ''
+}
+
+function withoutEncrypted(data: FirebaseFirestore.DocumentData): FirebaseFirestore.DocumentData {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => !isEncrypted(value)))
+}
+
+function readableList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+async function isEncryptedUser(uid: string): Promise<boolean> {
+  const snap = await getFirestore().collection('users').doc(uid).collection('encryption').doc('primary').get()
+  return snap.exists
+}
+
 function computeLastActive(
   entries: Array<{ updatedAt?: number }>,
   sessions: Array<{ startedAt?: number }>,
@@ -283,7 +887,7 @@ async function handleGetOverview() {
       rawActivity.push({
         uid,
         itemId: (type === 'entry' ? (data.id as string) : null) || doc.id,
-        preview: ((data[previewField] as string) || fallback).slice(0, 100),
+        preview: (readableText(data[previewField]) || fallback).slice(0, 100),
         updatedAt: (data[timeField] as number) || 0,
         type,
       })
@@ -343,7 +947,7 @@ async function handleGetUserList() {
     let totalWords = 0
     const entryData = entriesSnap.docs.map((doc) => {
       const data = doc.data()
-      totalWords += countWords(data.plainText || '')
+      totalWords += countWords(readableText(data.plainText))
       return { updatedAt: data.updatedAt || 0 }
     })
     const sessionData = conversationsSnap.docs.map((doc) => ({ startedAt: doc.data().startedAt || 0 }))
@@ -372,7 +976,7 @@ async function handleGetUserDetail(uid: string) {
   // Get user info from Auth
   const userRecord = await getAuth().getUser(uid)
 
-  const [entries, parts, thoughts, interactions, memories, entrySummaries, userProfileDocs, sessionLog, sessions, innerWeather, letters, fossils] =
+  const [entries, parts, thoughts, interactions, memories, entrySummaries, userProfileDocs, sessionLog, sessions, innerWeather, letters, fossils, encrypted] =
     await Promise.all([
       getCollectionDocs(uid, 'entries'),
       getCollectionDocs(uid, 'parts'),
@@ -386,11 +990,17 @@ async function handleGetUserDetail(uid: string) {
       getCollectionDocs(uid, 'innerWeather'),
       getCollectionDocs(uid, 'letters'),
       getCollectionDocs(uid, 'fossils'),
+      isEncryptedUser(uid),
     ])
 
+  // Fields sealed only on their next write can still be plaintext, so an
+  // encrypted journal gets metadata only whatever each field looks like
+  const text = (value: unknown) => (encrypted ? '' : readableText(value))
+  const list = (value: unknown) => (encrypted ? [] : readableList(value))
+
   let totalWords = 0
   for (const entry of entries) {
-    totalWords += countWords((entry.plainText as string) || '')
+    totalWords += countWords(text(entry.plainText))
   }
   const lastActive = computeLastActive(
     entries.map((e) => ({ updatedAt: (e.updatedAt as number) || 0 })),
@@ -411,13 +1021,14 @@ async function handleGetUserDetail(uid: string) {
       totalWords,
       lastActive,
       createdAt: new Date(userRecord.metadata.creationTime).getTime(),
+      encrypted,
     },
     entries: entries.map((e) => ({
       id: e.id,
-      plainText: e.plainText || '',
+      plainText: text(e.plainText),
       createdAt: e.createdAt || 0,
       updatedAt: e.updatedAt || 0,
-      intention: e.intention || null,
+      intention: text(e.intention) || null,
     })),
     parts: parts.map((p) => ({
       id: p.id,
@@ -425,27 +1036,27 @@ async function handleGetUserDetail(uid: string) {
       color: p.color,
       colorLight: p.colorLight,
       ifsRole: p.ifsRole,
-      concern: p.concern,
+      concern: text(p.concern),
       isSeeded: p.isSeeded,
-      learnedKeywords: p.learnedKeywords,
+      learnedKeywords: list(p.learnedKeywords),
       learnedEmotions: p.learnedEmotions,
-      systemPromptAddition: p.systemPromptAddition,
+      systemPromptAddition: text(p.systemPromptAddition),
       growthVersion: p.growthVersion,
     })),
     thoughts: thoughts.map((t) => ({
       id: t.id,
       partId: t.partId,
       entryId: t.entryId,
-      content: t.content,
+      content: text(t.content),
       timestamp: t.timestamp || 0,
     })),
     interactions: interactions.map((i) => ({
       id: i.id,
       partId: i.partId,
       entryId: i.entryId,
-      partOpening: i.partOpening,
-      userResponse: i.userResponse,
-      partReply: i.partReply,
+      partOpening: text(i.partOpening),
+      userResponse: text(i.userResponse),
+      partReply: text(i.partReply),
       status: i.status,
       timestamp: i.timestamp || 0,
     })),
@@ -453,17 +1064,17 @@ async function handleGetUserDetail(uid: string) {
       id: m.id,
       partId: m.partId,
       entryId: m.entryId,
-      content: m.content,
+      content: text(m.content),
       type: m.type,
       timestamp: m.timestamp || 0,
     })),
-    userProfile: userProfileDocs.length > 0 ? userProfileDocs[0] : null,
+    userProfile: userProfileDocs.length > 0 && !encrypted ? withoutEncrypted(userProfileDocs[0]) : null,
     entrySummaries: entrySummaries.map((s) => ({
       id: s.id,
       entryId: s.entryId,
-      themes: s.themes,
-      emotionalArc: s.emotionalArc,
-      keyMoments: s.keyMoments,
+      themes: list(s.themes),
+      emotionalArc: text(s.emotionalArc),
+      keyMoments: list(s.keyMoments),
       timestamp: s.timestamp || 0,
     })),
     sessions: sessionLog.map((s) => ({
@@ -482,9 +1093,9 @@ async function handleGetUserDetail(uid: string) {
       status: c.status || 'closed',
       hostPartId: c.hostPartId || '',
       phase: c.phase || 'opening',
-      sessionNote: c.sessionNote || null,
+      sessionNote: text(c.sessionNote) || null,
       messageCount: c.messageCount || 0,
-      firstLine: c.firstLine || '',
+      firstLine: text(c.firstLine),
       isTherapistSession: c.isTherapistSession ?? false,
       favorited: c.favorited ?? false,
     })),
@@ -499,7 +1110,7 @@ async function handleGetUserDetail(uid: string) {
     letters: letters.map((l) => ({
       id: l.id,
       partIds: l.partIds || [],
-      content: l.content || '',
+      content: text(l.content),
       triggerType: l.triggerType || 'milestone',
       createdAt: l.createdAt || 0,
       isRead: l.isRead ?? false,
@@ -508,7 +1119,7 @@ async function handleGetUserDetail(uid: string) {
       id: f.id,
       entryId: f.entryId || '',
       partId: f.partId || '',
-      commentary: f.commentary || '',
+      commentary: text(f.commentary),
       createdAt: f.createdAt || 0,
     })),
   }
@@ -527,10 +1138,11 @@ async function handleGetSessionMessages(uid: string, sessionId: string) {
       speaker: m.speaker || 'user',
       partId: m.partId || null,
       partName: m.partName || null,
-      content: m.content || '',
+      content: readableText(m.content),
       timestamp: m.timestamp || 0,
       phase: m.phase || 'opening',
       isEmergence: m.isEmergence ?? false,
+      encrypted: isEncrypted(m.content),
     }
   })
 
@@ -604,7 +1216,7 @@ async function computeAndCacheAnalytics() {
     for (const doc of entriesSnap.docs) {
       const data = doc.data()
       totalEntries++
-      const text = (data.plainText as string) || ''
+      const text = readableText(data.plainText)
       totalWords += text.split(/\s+/).filter((w: string) => w.length > 0).length
       const updatedAt = (data.updatedAt as number) || 0
       if (updatedAt > userLastActive) userLastActive = updatedAt
@@ -805,7 +1417,8 @@ async function handleGetConfig() {
 }
 
 const ALLOWED_CONFIG_KEYS = new Set([
-  'features', 'tuning', 'defaultModel', 'grounding', 'announcement',
+  'features', 'tuning', 'defaultModel', 'grounding', 'announcement', 'rateLimits', 'llmRouting',
+  'sessionPhases', 'embeddings',
 ])
 
 async function handleUpdateConfig(
@@ -834,6 +1447,73 @@ async function handleUpdateConfig(
   return { config: updated.data() }
 }
 
+interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+}
+
+function addTotals(target: UsageTotals, source: Partial<UsageTotals> | undefined) {
+  target.calls += source?.calls ?? 0
+  target.promptTokens += source?.promptTokens ?? 0
+  target.completionTokens += source?.completionTokens ?? 0
+  target.cost += source?.cost ?? 0
+}
+
+// Spend over the last `days` UTC days, grouped by call site, model, user and day
+async function handleGetUsage(days: number) {
+  const since = utcDay(Date.now() - (days - 1) * 24 * 60 * 60 * 1000)
+  const [snap, allAuthUsers] = await Promise.all([
+    getFirestore().collection('usage').where('day', '>=', since).get(),
+    getAllUsers(),
+  ])
+
+  const totals = emptyTotals()
+  const byFeature = new Map<string, UsageTotals>()
+  const byModel = new Map<string, UsageTotals>()
+  const byUser = new Map<string, UsageTotals>()
+  const byDay = new Map<string, UsageTotals>()
+  const bucket = (map: Map<string, UsageTotals>, key: string) => {
+    let t = map.get(key)
+    if (!t) map.set(key, t = emptyTotals())
+    return t
+  }
+
+  for (const doc of snap.docs) {
+    const d = doc.data()
+    addTotals(totals, d)
+    addTotals(bucket(byUser, d.uid as string), d)
+    addTotals(bucket(byDay, d.day as string), d)
+    for (const [site, t] of Object.entries((d.byFeature ?? {}) as Record<string, UsageTotals>)) {
+      addTotals(bucket(byFeature, site), t)
+    }
+    for (const [model, t] of Object.entries((d.byModel ?? {}) as Record<string, UsageTotals>)) {
+      addTotals(bucket(byModel, model), t)
+    }
+  }
+
+  const usersById = new Map(allAuthUsers.map((u) => [u.uid, u]))
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.calls - a.calls
+  return {
+    days,
+    totals,
+    byFeature: [...byFeature].map(([callSite, t]) => ({ callSite, ...t })).sort(byCost),
+    byModel: [...byModel].map(([model, t]) => ({ model, ...t })).sort(byCost),
+    byUser: [...byUser].map(([uid, t]) => ({
+      uid,
+      email: usersById.get(uid)?.email ?? '',
+      displayName: usersById.get(uid)?.displayName ?? '',
+      ...t,
+    })).sort(byCost).slice(0, 50),
+    byDay: [...byDay].map(([date, t]) => ({ date, ...t })).sort((a, b) => a.date.localeCompare(b.date)),
+  }
+}
+
 async function handleGenerateInsights(apiKey: string) {
   // Collect summaries and profiles across all users (pseudonymous — no PII sent to AI)
   const allAuthUsers = await getAllUsers()
@@ -844,15 +1524,17 @@ async function handleGenerateInsights(apiKey: string) {
     const user = allAuthUsers[i]
     const label = `User ${i + 1}`
 
+    if (await isEncryptedUser(user.uid)) continue
+
     const summaries = await getCollectionDocs(user.uid, 'entrySummaries')
     for (const s of summaries) {
-      const themes = (s.themes as string[])?.join(', ') || ''
-      const arc = (s.emotionalArc as string) || ''
+      const themes = readableList(s.themes).join(', ')
+      const arc = readableText(s.emotionalArc)
       allSummaries.push(`[${label}] Themes: ${themes}. Arc: ${arc}`)
     }
 
     const profiles = await getCollectionDocs(user.uid, 'userProfile')
-    if (profiles.length > 0) {
+    if (profiles.length > 0 && !Object.values(profiles[0]).some(isEncrypted)) {
       const p = profiles[0]
       allProfiles.push(
         `[${label}] Landscape: ${p.innerLandscape || 'none'}. ` +
@@ -976,7 +1658,7 @@ export const accountApi = onRequest(
             'entries', 'parts', 'memories', 'thoughts', 'interactions',
             'entrySummaries', 'userProfile', 'fossils', 'letters',
             'sessionLog', 'innerWeather', 'consent', 'sessions',
-            'hrvSessions',
+            'hrvSessions', 'encryption', 'embeddings', 'growthSnapshots',
           ]
           for (const coll of collections) {
             await deleteCollection(uid, coll)
@@ -1100,6 +1782,11 @@ export const adminApi = onRequest(
         case 'refreshAnalytics':
           res.json(await computeAndCacheAnalytics())
           return
+        case 'getUsage': {
+          const days = typeof params.days === 'number' ? Math.min(Math.max(Math.round(params.days), 1), 90) : 30
+          res.json(await handleGetUsage(days))
+          return
+        }
         case 'generateInsights':
           res.json(await handleGenerateInsights(openRouterKey.value()))
           return
@@ -1134,25 +1821,47 @@ export const adminApi = onRequest(
 
 // ─── MCP API ──────────────────────────────────────────────────
 
-// Separate rate limiter for MCP: 60 req/min per API key hash
-const mcpRateLimitMap = new Map<string, { count: number; resetAt: number }>()
-const MCP_RATE_LIMIT_WINDOW_MS = 60_000
-const MCP_RATE_LIMIT_MAX = 60
+type ApiKeyScope = 'read' | 'write' | 'inner-world'
+
+// Tools that need more than the base 'read' scope (entries and conversations).
+// 'write' changes the journal; 'inner-world' exposes derived structure —
+// parts, memories, profile, body map, weather, letters.
+const MCP_TOOL_SCOPES: Record<string, ApiKeyScope> = {
+  'create-entry': 'write',
+  'append-to-entry': 'write',
+  'set-intention': 'write',
+  'favorite-entry': 'write',
+  'start-conversation': 'write',
+  'send-message': 'write',
+  'list-parts': 'inner-world',
+  'get-part-memories': 'inner-world',
+  'get-user-profile': 'inner-world',
+  'get-entry-summary': 'inner-world',
+  'get-inner-weather': 'inner-world',
+  'get-body-map': 'inner-world',
+  'list-letters': 'inner-world',
+}
 
-function checkMcpRateLimit(keyHash: string): boolean {
-  const now = Date.now()
-  const entry = mcpRateLimitMap.get(keyHash)
-  if (!entry || now > entry.resetAt) {
-    mcpRateLimitMap.set(keyHash, { count: 1, resetAt: now + MCP_RATE_LIMIT_WINDOW_MS })
-    return true
+// Scopes a JSON-RPC body (single or batch) needs for the tools it calls
+function requiredMcpScopes(body: unknown): ApiKeyScope[] {
+  const calls = (Array.isArray(body) ? body : [body]) as { method?: unknown; params?: { name?: unknown } }[]
+  const scopes = new Set<ApiKeyScope>(['read'])
+  for (const c of calls) {
+    if (c?.method !== 'tools/call') continue
+    const scope = MCP_TOOL_SCOPES[c.params?.name as string]
+    if (scope) scopes.add(scope)
   }
-  entry.count++
-  return entry.count <= MCP_RATE_LIMIT_MAX
+  return [...scopes]
 }
 
-async function resolveApiKey(bearer: string): Promise<{ uid: string; keyHash: string } | null> {
+type ResolvedApiKey =
+  | { ok: true; uid: string; keyHash: string; scopes: ApiKeyScope[] }
+  | { ok: false; status: 401 | 403; message: string }
+
+async function resolveApiKey(bearer: string, requiredScopes: ApiKeyScope[]): Promise<ResolvedApiKey> {
+  const invalid = { ok: false, status: 401, message: 'Invalid API key' } as const
   // Validate format: must start with us_ and be 67 chars total
-  if (!bearer.startsWith('us_') || bearer.length !== 67) return null
+  if (!bearer.startsWith('us_') || bearer.length !== 67) return invalid
 
   const keyHash = createHash('sha256').update(bearer).digest('hex')
   const db = getFirestore()
@@ -1163,17 +1872,132 @@ async function resolveApiKey(bearer: string): Promise<{ uid: string; keyHash: st
     .limit(1)
     .get()
 
-  if (snap.empty) return null
+  if (snap.empty) return invalid
 
   const doc = snap.docs[0]
   // Path: users/{uid}/apiKeys/{keyId} — parent.parent is the user doc
   const uid = doc.ref.parent.parent?.id
-  if (!uid) return null
+  if (!uid) return invalid
+
+  // Keys created before scopes existed could only read
+  const stored = doc.data().scopes
+  const scopes: ApiKeyScope[] = Array.isArray(stored)
+    ? stored.filter((s): s is ApiKeyScope => s === 'read' || s === 'write' || s === 'inner-world')
+    : ['read']
+  const missing = requiredScopes.find((scope) => !scopes.includes(scope))
+  if (missing) {
+    return { ok: false, status: 403, message: `This API key does not have the '${missing}' scope` }
+  }
 
   // Fire-and-forget: update lastUsedAt
   doc.ref.update({ lastUsedAt: Date.now() }).catch(() => {})
 
-  return { uid, keyHash }
+  return { ok: true, uid, keyHash, scopes }
+}
+
+// Port of computeHomunculusState in src/engine/bodyMapEngine.ts — functions
+// deploy on their own and can't import app code, so keep the two in sync.
+const BODY_REGIONS = [
+  'head', 'eyes', 'throat', 'chest', 'stomach',
+  'shoulders', 'hands', 'back', 'hips', 'legs',
+]
+
+const EMOTION_FAMILY_COLORS: Array<{ keywords: string[]; color: string }> = [
+  { keywords: ['love', 'grief', 'loss', 'miss', 'longing', 'connection'], color: '#C45C5C' },
+  { keywords: ['anger', 'frustration', 'rage', 'irritation', 'resentment', 'furious'], color: '#C4785C' },
+  { keywords: ['anxiety', 'fear', 'worry', 'panic', 'dread', 'nervous'], color: '#5C7C8B' },
+  { keywords: ['sad', 'lonely', 'empty', 'hollow', 'despair', 'melancholy'], color: '#5C5C8B' },
+  { keywords: ['hope', 'growth', 'healing', 'possibility', 'courage'], color: '#5C8B6B' },
+  { keywords: ['joy', 'happy', 'warmth', 'gratitude', 'peace', 'comfort'], color: '#C4A85C' },
+  { keywords: ['shame', 'guilt', 'guarded', 'hidden', 'small'], color: '#7C5C8B' },
+]
+const NEUTRAL_BODY_COLOR = '#D4CFC8'
+
+function mapEmotionToColor(emotion: string): string {
+  const lower = emotion.toLowerCase()
+  return EMOTION_FAMILY_COLORS.find((f) => f.keywords.some((kw) => lower.includes(kw)))?.color ?? NEUTRAL_BODY_COLOR
+}
+
+interface SomaticMemoryDoc {
+  bodyRegion?: string
+  quote?: string
+  emotion?: string
+  entryId?: string
+  timestamp?: number
+  source?: string
+}
+
+function computeHomunculusState(memories: SomaticMemoryDoc[]) {
+  const regionData = new Map(BODY_REGIONS.map((r) => [r, {
+    emotions: [] as string[],
+    manualCount: 0,
+    quotes: [] as Array<{ text: string; date: string; entryId: string; manual: boolean }>,
+  }]))
+
+  for (const mem of memories) {
+    const data = regionData.get(mem.bodyRegion ?? '')
+    if (!data) continue
+    const manual = mem.source === 'manual'
+    if (mem.emotion) {
+      data.emotions.push(mem.emotion)
+      if (manual) data.manualCount++
+    }
+    if (mem.quote) {
+      data.quotes.push({
+        text: mem.quote,
+        // No user locale on the server — ISO dates instead of toLocaleDateString()
+        date: mem.timestamp ? new Date(mem.timestamp).toISOString().slice(0, 10) : '',
+        entryId: mem.entryId || '',
+        manual,
+      })
+    }
+  }
+
+  const maxSignals = Math.max(...BODY_REGIONS.map((r) => regionData.get(r)!.emotions.length), 1)
+
+  return Object.fromEntries(BODY_REGIONS.map((region) => {
+    const data = regionData.get(region)!
+    const signalCount = data.emotions.length
+    const emotionCounts: Record<string, { count: number; color: string }> = {}
+    for (const emotion of data.emotions) {
+      const key = emotion.toLowerCase()
+      if (!emotionCounts[key]) emotionCounts[key] = { count: 0, color: mapEmotionToColor(emotion) }
+      emotionCounts[key].count++
+    }
+    const dominantEmotions = Object.entries(emotionCounts)
+      .map(([emotion, { count, color }]) => ({ emotion, count, color }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 3)
+    return [region, {
+      signalCount,
+      manualCount: data.manualCount,
+      dominantEmotions,
+      sizeFactor: signalCount === 0 ? 1.0 : 0.6 + (signalCount / maxSignals) * 1.2,
+      fillColor: dominantEmotions.length > 0 ? dominantEmotions[0].color : NEUTRAL_BODY_COLOR,
+      quotes: data.quotes.slice(-5).reverse(),
+    }]
+  }))
+}
+
+// Limits mirror the app's own inputs (IntentionInput, chat message cap)
+const MCP_MAX_ENTRY_CHARS = 50_000
+const MCP_MAX_INTENTION_CHARS = 120
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Same shape the editor saves: one <p> per line, plainText joined like TipTap's getText()
+function textToEntryContent(text: string): { html: string; plainText: string } {
+  const paragraphs = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0)
+  return {
+    html: paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join(''),
+    plainText: paragraphs.join('\n\n'),
+  }
 }
 
 export const mcpApi = onRequest(
@@ -1207,15 +2031,31 @@ export const mcpApi = onRequest(
     }
 
     const apiKey = authHeader.slice(7)
-    const resolved = await resolveApiKey(apiKey)
-    if (!resolved) {
-      jsonRpcError(-32000, 'Invalid API key', 401)
+    const resolved = await resolveApiKey(apiKey, requiredMcpScopes(req.body))
+    if (!resolved.ok) {
+      jsonRpcError(-32000, resolved.message, resolved.status)
       return
     }
 
-    // Rate limit by key hash
-    if (!checkMcpRateLimit(resolved.keyHash)) {
-      jsonRpcError(-32000, 'Rate limit exceeded — 60 requests per minute', 429)
+    // Rate limit by key hash — MCP tools make no LLM calls, so no token budget
+    const limits = await getRateLimits()
+    let decision: RateLimitDecision = { allowed: true }
+    try {
+      decision = await consumeRateLimit(`mcp_${resolved.keyHash}`, limits.mcpRequestsPerMinute, limits, false)
+    } catch (error) {
+      console.error('MCP rate limit check failed:', error)
+    }
+    if (!decision.allowed) {
+      res.setHeader('Retry-After', String(decision.retryAfterSeconds))
+      res.status(429).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: `Rate limit exceeded — ${decision.limit} requests per minute`,
+          data: { reason: decision.reason, retryAfter: decision.retryAfterSeconds },
+        },
+        id: null,
+      })
       return
     }
 
@@ -1235,10 +2075,17 @@ export const mcpApi = onRequest(
 
     const db = getFirestore()
 
+    // Encrypted journals return metadata only, including fields written
+    // before they were sealed. The server can't encrypt for the user, so
+    // sealed journals are also read-only here.
+    const encryptedJournal = await isEncryptedUser(uid)
+    const privateText = (value: unknown) => (encryptedJournal ? '' : readableText(value))
+    const privateList = (value: unknown) => (encryptedJournal ? [] : readableList(value))
+
     // ── Tool: list-entries ──────────────────────────────────
     server.tool(
       'list-entries',
-      'List diary entries with optional filtering',
+      'List diary entries with optional filtering (encrypted entries return metadata only)',
       {
         limit: z.number().int().min(1).max(100).default(20),
         offset: z.number().int().min(0).default(0),
@@ -1260,14 +2107,16 @@ export const mcpApi = onRequest(
 
         const entries = docs.map((d) => {
           const data = d.data()
-          const plainText = (data.plainText as string) || ''
+          const encrypted = encryptedJournal || isEncrypted(data.plainText)
+          const plainText = privateText(data.plainText)
           return {
             id: (data.id as string) || d.id,
             createdAt: data.createdAt || 0,
             updatedAt: data.updatedAt || 0,
             preview: plainText.slice(0, 200),
-            intention: data.intention || null,
-            wordCount: plainText.split(/\s+/).filter((w: string) => w.length > 0).length,
+            intention: privateText(data.intention) || null,
+            wordCount: encrypted ? null : plainText.split(/\s+/).filter((w: string) => w.length > 0).length,
+            encrypted,
           }
         })
 
@@ -1280,7 +2129,7 @@ export const mcpApi = onRequest(
     // ── Tool: get-entry ─────────────────────────────────────
     server.tool(
       'get-entry',
-      'Get a single diary entry by ID',
+      'Get a single diary entry by ID (text is empty when the journal is encrypted)',
       {
         entryId: z.string(),
       },
@@ -1297,12 +2146,13 @@ export const mcpApi = onRequest(
         const data = snap.data()!
         const entry = {
           id: snap.id,
-          plainText: (data.plainText as string) || '',
+          plainText: privateText(data.plainText),
+          encrypted: encryptedJournal || isEncrypted(data.plainText),
           createdAt: data.createdAt || 0,
           updatedAt: data.updatedAt || 0,
-          intention: data.intention || null,
-          themes: data.themes || null,
-          emotionalArc: data.emotionalArc || null,
+          intention: privateText(data.intention) || null,
+          themes: data.themes ? privateList(data.themes) : null,
+          emotionalArc: privateText(data.emotionalArc) || null,
         }
 
         return {
@@ -1347,7 +2197,7 @@ export const mcpApi = onRequest(
             hostPartId: data.hostPartId || '',
             phase: data.phase || 'opening',
             messageCount: data.messageCount || 0,
-            firstLine: data.firstLine || '',
+            firstLine: privateText(data.firstLine),
             isTherapistSession: data.isTherapistSession ?? false,
           }
         })
@@ -1361,7 +2211,7 @@ export const mcpApi = onRequest(
     // ── Tool: get-conversation ──────────────────────────────
     server.tool(
       'get-conversation',
-      'Get a conversation session with all messages',
+      'Get a conversation session with all messages (message text is empty when encrypted)',
       {
         sessionId: z.string(),
       },
@@ -1386,9 +2236,10 @@ export const mcpApi = onRequest(
           return {
             speaker: m.speaker || 'user',
             partName: m.partName || null,
-            content: m.content || '',
+            content: privateText(m.content),
             timestamp: m.timestamp || 0,
             phase: m.phase || 'opening',
+            encrypted: encryptedJournal || isEncrypted(m.content),
           }
         })
 
@@ -1398,7 +2249,7 @@ export const mcpApi = onRequest(
           endedAt: data.endedAt || null,
           hostPartId: data.hostPartId || '',
           phase: data.phase || 'opening',
-          sessionNote: data.sessionNote || null,
+          sessionNote: privateText(data.sessionNote) || null,
           isTherapistSession: data.isTherapistSession ?? false,
           messages,
         }
@@ -1409,6 +2260,389 @@ export const mcpApi = onRequest(
       },
     )
 
+    // ── Inner-world tools (keys with the 'inner-world' scope only) ──
+    if (resolved.scopes.includes('inner-world')) {
+      const userRef = db.collection('users').doc(uid)
+      const toolResult = (value: unknown) => ({
+        content: [{ type: 'text' as const, text: JSON.stringify(value) }],
+      })
+
+      // ── Tool: list-parts ────────────────────────────────
+      server.tool(
+        'list-parts',
+        'List the inner parts (voices) with their role, growth version, learned keywords and catchphrases (what they learned is empty when encrypted)',
+        {},
+        async () => {
+          const snap = await userRef.collection('parts').orderBy('createdAt', 'asc').get()
+          const parts = snap.docs.map((d) => {
+            const p = d.data()
+            return {
+              id: (p.id as string) || d.id,
+              name: p.name || '',
+              ifsRole: p.ifsRole || null,
+              color: p.color || null,
+              concern: privateText(p.concern),
+              voiceDescription: privateText(p.voiceDescription),
+              isSeeded: p.isSeeded ?? false,
+              growthVersion: p.growthVersion ?? 0,
+              lastGrowthAt: p.lastGrowthAt ?? null,
+              learnedKeywords: privateList(p.learnedKeywords),
+              learnedEmotions: p.learnedEmotions ?? [],
+              catchphrases: privateList(p.catchphrases),
+              lastActiveAt: p.lastActiveAt ?? null,
+              createdAt: p.createdAt || 0,
+            }
+          })
+          return toolResult(parts)
+        },
+      )
+
+      // ── Tool: get-part-memories ─────────────────────────
+      server.tool(
+        'get-part-memories',
+        'Get what a part remembers about the writer, newest first (memory text is empty when encrypted)',
+        {
+          partId: z.string(),
+          limit: z.number().int().min(1).max(100).default(30),
+          type: z.enum(['observation', 'interaction', 'reflection', 'pattern', 'somatic']).optional(),
+        },
+        async (args) => {
+          let query = userRef.collection('memories')
+            .where('partId', '==', args.partId) as FirebaseFirestore.Query
+          if (args.type) query = query.where('type', '==', args.type)
+          const snap = await query.orderBy('timestamp', 'desc').limit(args.limit).get()
+          const memories = snap.docs.map((d) => {
+            const m = d.data()
+            return {
+              id: (m.id as string) || d.id,
+              type: m.type || 'observation',
+              content: privateText(m.content),
+              encrypted: encryptedJournal || isEncrypted(m.content),
+              entryId: m.entryId || null,
+              sessionId: m.sessionId || null,
+              source: m.source || 'journal',
+              timestamp: m.timestamp || 0,
+            }
+          })
+          return toolResult(memories)
+        },
+      )
+
+      // ── Tool: get-user-profile ──────────────────────────
+      server.tool(
+        'get-user-profile',
+        'Get the writer profile built from reflections: themes, emotional and avoidance patterns, growth signals (empty when encrypted)',
+        {},
+        async () => {
+          const snap = await userRef.collection('userProfile').limit(1).get()
+          if (snap.empty) return toolResult(null)
+          const p = snap.docs[0].data()
+          // Everything in the profile is drawn from the diary
+          if (encryptedJournal) return toolResult({ lastUpdated: p.lastUpdated ?? null, encrypted: true })
+          const encrypted = Object.values(p).some(isEncrypted)
+          return toolResult({
+            ...withoutEncrypted(p),
+            encrypted,
+          })
+        },
+      )
+
+      // ── Tool: get-entry-summary ─────────────────────────
+      server.tool(
+        'get-entry-summary',
+        'Get the reflection summary of a diary entry: themes, emotional arc and key moments',
+        {
+          entryId: z.string(),
+        },
+        async (args) => {
+          const snap = await userRef.collection('entrySummaries')
+            .where('entryId', '==', args.entryId)
+            .limit(1)
+            .get()
+          if (snap.empty) {
+            return {
+              isError: true,
+              content: [{ type: 'text' as const, text: `No summary for entry: ${args.entryId}` }],
+            }
+          }
+          const d = snap.docs[0].data()
+          return toolResult({
+            entryId: args.entryId,
+            themes: privateList(d.themes),
+            emotionalArc: privateText(d.emotionalArc),
+            keyMoments: privateList(d.keyMoments),
+            timestamp: d.timestamp || 0,
+          })
+        },
+      )
+
+      // ── Tool: get-inner-weather ─────────────────────────
+      server.tool(
+        'get-inner-weather',
+        'Get the current inner weather (dominant emotion, intensity, trend) and recent history',
+        {
+          history: z.number().int().min(0).max(50).default(10),
+        },
+        async (args) => {
+          const snap = await userRef.collection('innerWeather')
+            .orderBy('updatedAt', 'desc')
+            .limit(args.history + 1)
+            .get()
+          const readings = snap.docs.map((d) => {
+            const w = d.data()
+            return {
+              dominantEmotion: w.dominantEmotion || 'neutral',
+              secondaryEmotion: w.secondaryEmotion || null,
+              intensity: w.intensity ?? 0,
+              trend: w.trend || 'steady',
+              updatedAt: w.updatedAt || 0,
+            }
+          })
+          return toolResult({ current: readings[0] ?? null, history: readings.slice(1) })
+        },
+      )
+
+      // ── Tool: get-body-map ──────────────────────────────
+      server.tool(
+        'get-body-map',
+        'Get the body map: per body region, how often feelings were located there (and how many the user checked in by hand), dominant emotions and recent quotes',
+        {},
+        async () => {
+          const snap = await userRef.collection('memories').where('partId', '==', '_somatic').get()
+          const memories = snap.docs
+            .map((d) => d.data())
+            .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+            .map((m) => ({
+              bodyRegion: m.bodyRegion as string | undefined,
+              // Encrypted quotes still count as signals, just without their text
+              quote: privateText(m.quote) || undefined,
+              emotion: m.emotion as string | undefined,
+              entryId: m.entryId as string | undefined,
+              timestamp: m.timestamp as number | undefined,
+              source: m.source as string | undefined,
+            }))
+          return toolResult(computeHomunculusState(memories))
+        },
+      )
+
+      // ── Tool: list-letters ──────────────────────────────
+      server.tool(
+        'list-letters',
+        'List letters the parts have written to the writer, newest first',
+        {
+          limit: z.number().int().min(1).max(50).default(10),
+        },
+        async (args) => {
+          const [lettersSnap, partsSnap] = await Promise.all([
+            userRef.collection('letters').orderBy('createdAt', 'desc').limit(args.limit).get(),
+            userRef.collection('parts').get(),
+          ])
+          const partNames = new Map(partsSnap.docs.map((d) => [d.id, (d.data().name as string) || '']))
+          const letters = lettersSnap.docs.map((d) => {
+            const l = d.data()
+            const partIds = (l.partIds as string[]) ?? []
+            return {
+              id: (l.id as string) || d.id,
+              partIds,
+              partNames: partIds.map((id) => partNames.get(id) || id),
+              content: privateText(l.content),
+              encrypted: encryptedJournal || isEncrypted(l.content),
+              triggerType: l.triggerType || null,
+              createdAt: l.createdAt || 0,
+              isRead: l.isRead ?? false,
+            }
+          })
+          return toolResult(letters)
+        },
+      )
+    }
+
+    // ── Write tools (keys with the 'write' scope only) ──────
+    if (resolved.scopes.includes('write')) {
+      const userRef = db.collection('users').doc(uid)
+      const toolError = (text: string) => ({
+        isError: true,
+        content: [{ type: 'text' as const, text }],
+      })
+      const toolResult = (value: unknown) => ({
+        content: [{ type: 'text' as const, text: JSON.stringify(value) }],
+      })
+
+      const ENCRYPTED_WRITE_ERROR = 'This journal is end-to-end encrypted — it can only be written from the app'
+
+      // ── Tool: create-entry ──────────────────────────────
+      server.tool(
+        'create-entry',
+        'Create a new diary entry. Lines become paragraphs.',
+        {
+          text: z.string().min(1).max(MCP_MAX_ENTRY_CHARS),
+          intention: z.string().max(MCP_MAX_INTENTION_CHARS).optional(),
+        },
+        async (args) => {
+          if (encryptedJournal) return toolError(ENCRYPTED_WRITE_ERROR)
+          const { html, plainText } = textToEntryContent(args.text)
+          if (!plainText) return toolError('Entry text is empty')
+
+          const id = randomUUID()
+          const now = Date.now()
+          const intention = args.intention?.trim()
+          await userRef.collection('entries').doc(id).set({
+            id,
+            content: html,
+            plainText,
+            createdAt: now,
+            updatedAt: now,
+            ...(intention ? { intention } : {}),
+          })
+          return toolResult({ id, createdAt: now })
+        },
+      )
+
+      // ── Tool: append-to-entry ───────────────────────────
+      server.tool(
+        'append-to-entry',
+        'Append paragraphs to the end of an existing diary entry',
+        {
+          entryId: z.string(),
+          text: z.string().min(1).max(MCP_MAX_ENTRY_CHARS),
+        },
+        async (args) => {
+          if (encryptedJournal) return toolError(ENCRYPTED_WRITE_ERROR)
+          const addition = textToEntryContent(args.text)
+          if (!addition.plainText) return toolError('Text to append is empty')
+
+          const ref = userRef.collection('entries').doc(args.entryId)
+          return db.runTransaction(async (tx) => {
+            const snap = await tx.get(ref)
+            if (!snap.exists) return toolError(`Entry not found: ${args.entryId}`)
+            const data = snap.data()!
+            const content = (data.content as string) || ''
+            const plainText = (data.plainText as string) || ''
+            if (content.length + addition.html.length > MCP_MAX_ENTRY_CHARS * 2) {
+              return toolError('Entry would become too long')
+            }
+            const updatedAt = Date.now()
+            tx.update(ref, {
+              content: content + addition.html,
+              plainText: plainText ? `${plainText}\n\n${addition.plainText}` : addition.plainText,
+              updatedAt,
+            })
+            return toolResult({ id: args.entryId, updatedAt })
+          })
+        },
+      )
+
+      // ── Tool: set-intention ─────────────────────────────
+      server.tool(
+        'set-intention',
+        'Set or clear (empty string) the intention of a diary entry',
+        {
+          entryId: z.string(),
+          intention: z.string().max(MCP_MAX_INTENTION_CHARS),
+        },
+        async (args) => {
+          if (encryptedJournal) return toolError(ENCRYPTED_WRITE_ERROR)
+          const ref = userRef.collection('entries').doc(args.entryId)
+          if (!(await ref.get()).exists) return toolError(`Entry not found: ${args.entryId}`)
+          const intention = args.intention.trim()
+          await ref.update({ intention: intention || FieldValue.delete() })
+          return toolResult({ id: args.entryId, intention: intention || null })
+        },
+      )
+
+      // ── Tool: favorite-entry ────────────────────────────
+      server.tool(
+        'favorite-entry',
+        'Mark or unmark a diary entry as a favorite',
+        {
+          entryId: z.string(),
+          favorited: z.boolean().default(true),
+        },
+        async (args) => {
+          const ref = userRef.collection('entries').doc(args.entryId)
+          if (!(await ref.get()).exists) return toolError(`Entry not found: ${args.entryId}`)
+          await ref.update({ favorited: args.favorited })
+          return toolResult({ id: args.entryId, favorited: args.favorited })
+        },
+      )
+
+      const addUserMessage = async (sessionId: string, content: string, phase: string) => {
+        const message = {
+          id: randomUUID(),
+          speaker: 'user',
+          partId: null,
+          partName: null,
+          content,
+          timestamp: Date.now(),
+          phase,
+          isEmergence: false,
+        }
+        await userRef.collection('sessions').doc(sessionId).collection('messages').doc(message.id).set(message)
+        return message
+      }
+
+      // ── Tool: start-conversation ────────────────────────
+      server.tool(
+        'start-conversation',
+        'Start a new conversation, optionally with your first message. Replies are generated when the conversation is opened in the app.',
+        {
+          message: z.string().min(1).max(MAX_MESSAGE_CHARS).optional(),
+        },
+        async (args) => {
+          if (encryptedJournal) return toolError(ENCRYPTED_WRITE_ERROR)
+          const id = randomUUID()
+          const now = Date.now()
+          const content = args.message?.trim() || ''
+          await userRef.collection('sessions').doc(id).set({
+            id,
+            startedAt: now,
+            endedAt: null,
+            status: 'active',
+            hostPartId: 'therapist',
+            participantPartIds: [],
+            openingMethod: 'open_invitation', // the user speaks first
+            sessionNote: null,
+            messageCount: content ? 1 : 0,
+            firstLine: content.slice(0, 100),
+            phase: 'opening',
+            favorited: false,
+            isTherapistSession: true,
+            mode: 'therapist',
+          })
+          if (content) await addUserMessage(id, content, 'opening')
+          return toolResult({ id, startedAt: now })
+        },
+      )
+
+      // ── Tool: send-message ──────────────────────────────
+      server.tool(
+        'send-message',
+        'Add a message from you to an active conversation. The reply is generated when the conversation is next opened in the app.',
+        {
+          sessionId: z.string(),
+          message: z.string().min(1).max(MAX_MESSAGE_CHARS),
+        },
+        async (args) => {
+          if (encryptedJournal) return toolError(ENCRYPTED_WRITE_ERROR)
+          const content = args.message.trim()
+          if (!content) return toolError('Message is empty')
+
+          const sessionRef = userRef.collection('sessions').doc(args.sessionId)
+          const sessionSnap = await sessionRef.get()
+          if (!sessionSnap.exists) return toolError(`Conversation not found: ${args.sessionId}`)
+          const session = sessionSnap.data()!
+          if (session.status !== 'active') return toolError('Conversation is closed')
+
+          const message = await addUserMessage(args.sessionId, content, (session.phase as string) || 'opening')
+          await sessionRef.update({
+            messageCount: FieldValue.increment(1),
+            ...(session.firstLine ? {} : { firstLine: content.slice(0, 100) }),
+          })
+          return toolResult({ id: message.id, sessionId: args.sessionId, timestamp: message.timestamp })
+        },
+      )
+    }
+
     // Connect via stateless StreamableHTTP transport
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined,
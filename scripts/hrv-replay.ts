@@ -0,0 +1,98 @@
+/**
+ * Replay camera HRV recordings through the signal-processing pipeline and
+ * report error metrics per algorithm variant.
+ *
+ * Runs a synthetic suite with known heart rate and RMSSD, plus any stored
+ * signal dumps passed as files. A file can be a backup archive from the app,
+ * an array of HrvSessionData, a single session, or an array of HrvSignalDump.
+ *
+ * Usage:
+ *   npx tsx scripts/hrv-replay.ts                         # synthetic suite only
+ *   npx tsx scripts/hrv-replay.ts backup.json             # + stored dumps
+ *   npx tsx scripts/hrv-replay.ts backup.json --per-case --variant chrom
+ *   npx tsx scripts/hrv-replay.ts backup.json --no-synthetic
+ *
+ * Dumps keep only the last 150 RGB samples, too few for extraction, so they
+ * replay from the stored CHROM pulse and are compared with what the app
+ * measured live rather than with ground truth.
+ */
+
+import { readFileSync } from 'fs'
+import {
+  HRV_VARIANTS,
+  syntheticSuite,
+  caseFromSignalDump,
+  evaluateVariants,
+  formatReport,
+} from '../src/engine/hrvReplay'
+import type { ReplayCase } from '../src/engine/hrvReplay'
+import type { HrvSessionData, HrvSignalDump } from '../src/types/hrv'
+
+const args = process.argv.slice(2)
+const files = args.filter((a, i) => !a.startsWith('--') && args[i - 1] !== '--variant')
+const perCase = args.includes('--per-case')
+const synthetic = !args.includes('--no-synthetic')
+const variantName = args[args.indexOf('--variant') + 1]
+
+function isDump(value: unknown): value is HrvSignalDump {
+  return typeof value === 'object' && value !== null && 'chromPulse' in value && 'fps' in value
+}
+
+function dumpsFrom(json: unknown): HrvSignalDump[] {
+  if (Array.isArray(json)) return json.flatMap((item) => (isDump(item) ? [item] : dumpsFrom(item)))
+  if (typeof json !== 'object' || json === null) return []
+  const record = json as Record<string, unknown>
+  if (Array.isArray(record.signalDumps)) return (record as unknown as HrvSessionData).signalDumps
+  if (typeof record.collections === 'object' && record.collections !== null) {
+    return dumpsFrom((record.collections as Record<string, unknown>).hrvSessions ?? [])
+  }
+  return []
+}
+
+function loadCases(): ReplayCase[] {
+  const cases: ReplayCase[] = synthetic ? syntheticSuite() : []
+  for (const file of files) {
+    const dumps = dumpsFrom(JSON.parse(readFileSync(file, 'utf8')))
+    console.log(`${file}: ${dumps.length} signal dumps`)
+    dumps.forEach((dump, i) => cases.push(caseFromSignalDump(dump, `${file}#${i + 1}`)))
+  }
+  return cases
+}
+
+function main() {
+  const variants = args.includes('--variant')
+    ? HRV_VARIANTS.filter((v) => v.name === variantName)
+    : HRV_VARIANTS
+  if (variants.length === 0) {
+    console.error(`Unknown variant "${variantName}". Known: ${HRV_VARIANTS.map((v) => v.name).join(', ')}`)
+    process.exit(1)
+  }
+
+  const cases = loadCases()
+  if (cases.length === 0) {
+    console.error('Nothing to replay')
+    process.exit(1)
+  }
+
+  console.log(`\nReplaying ${cases.length} recordings through ${variants.length} variants\n`)
+  for (const v of variants) console.log(`  ${v.name.padEnd(16)} ${v.description}`)
+
+  const reports = evaluateVariants(cases, variants)
+  console.log('\n' + formatReport(reports))
+
+  if (perCase) {
+    for (const report of reports) {
+      console.log(`\n--- ${report.variant} ---`)
+      report.results.forEach(({ label, result }, i) => {
+        const c = cases[i]
+        const expected = c.truth
+          ? `truth ${c.truth.hr.toFixed(1)} bpm / ${c.truth.rmssd.toFixed(1)} ms`
+          : `live ${c.recorded?.hr?.toFixed(1) ?? '–'} bpm / ${c.recorded?.rmssd?.toFixed(1) ?? '–'} ms`
+        const got = `${result.hr?.toFixed(1) ?? '–'} bpm / ${result.rmssd?.toFixed(1) ?? '–'} ms, ${result.ibis.length} IBIs`
+        console.log(`  ${label.padEnd(24)} ${got.padEnd(32)} (${expected})`)
+      })
+    }
+  }
+}
+
+main()
@@ -6,7 +6,7 @@ import { EntriesList } from './components/Sidebar/EntriesList'
 import { LoginScreen } from './components/LoginScreen'
 import { AnnouncementBanner } from './components/AnnouncementBanner'
 import { useAuth } from './auth/useAuth'
-import { initializeDB, db, generateId } from './store/db'
+import { initializeDB, configureStorage, isEncryptionEnabled, db, generateId } from './store/db'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function lazyWithRetry<T extends React.ComponentType<any>>(factory: () => Promise<{ default: T }>) {
@@ -31,9 +31,11 @@ import { useHandwritingMode } from './hooks/useHandwritingMode'
 import { useGroundingMode } from './hooks/useGroundingMode'
 import { InnerWeather } from './components/InnerWeather'
 import { getWeatherEngine } from './store/weatherStore'
+import { loadActiveParts } from './store/partManagement'
 import type { RitualEngine } from './engine/ritualEngine'
 import { IntentionInput } from './components/Editor/IntentionInput'
 import { ExplorationCard } from './components/Editor/ExplorationCard'
+const UnlockScreen = lazyWithRetry(() => import('./components/UnlockScreen').then(m => ({ default: m.UnlockScreen })))
 const Onboarding = lazyWithRetry(() => import('./components/Onboarding').then(m => ({ default: m.Onboarding })))
 const EntryChoice = lazyWithRetry(() => import('./components/EntryChoice').then(m => ({ default: m.EntryChoice })))
 const CrisisResources = lazyWithRetry(() => import('./components/CrisisResources').then(m => ({ default: m.CrisisResources })))
@@ -101,6 +103,8 @@ function App() {
   const [isReady, setIsReady] = useState(false)
   const [initError, setInitError] = useState<string | null>(null)
   const [hasConsent, setHasConsent] = useState<boolean | null>(null)
+  // Resolver for the pending unlock — set while an encrypted journal waits for its passphrase
+  const [pendingUnlock, setPendingUnlock] = useState<(() => void) | null>(null)
   const [activeEntryId, setActiveEntryId] = useState<string>('')
   const [initialContent, setInitialContent] = useState('')
   const [isEditorBlank, setIsEditorBlank] = useState(true)
@@ -172,6 +176,11 @@ function App() {
     const init = async () => {
       try {
         initGlobalConfig()
+        await configureStorage(getSettings().storageMode, user.uid)
+        if (await isEncryptionEnabled()) {
+          await new Promise<void>((resolve) => setPendingUnlock(() => resolve))
+          setPendingUnlock(null)
+        }
         await initializeDB()
 
         const consentDoc = await db.consent.get('terms')
@@ -256,6 +265,22 @@ function App() {
     }
   }, [isReady])
 
+  // Catch the semantic index up with the journal in the background
+  useEffect(() => {
+    if (!isReady || !user) return
+    let stop: (() => void) | null = null
+    let cancelled = false
+    import('./engine/semanticIndex').then(({ startIndexBackfill, stopIndexBackfill }) => {
+      if (cancelled) return
+      startIndexBackfill()
+      stop = stopIndexBackfill
+    })
+    return () => {
+      cancelled = true
+      stop?.()
+    }
+  }, [isReady, user])
+
   // Auto-save with debounce
   const handleContentChange = useCallback(
     (content: string, plainText: string) => {
@@ -281,7 +306,7 @@ function App() {
       const { ReflectionEngine } = await import('./engine/reflectionEngine')
       reflectionEngineRef.current = new ReflectionEngine()
     }
-    const parts = await db.parts.toArray()
+    const parts = await loadActiveParts()
     reflectionEngineRef.current.reflect(entryIdToReflect, parts)
       .catch((error: unknown) => console.error('Reflection error:', error))
   }, [])
@@ -314,7 +339,7 @@ function App() {
       setFossilThought(null)
       const entryCreatedAt = entry.createdAt
       if (entryCreatedAt) {
-        db.parts.toArray().then(async (parts) => {
+        loadActiveParts().then(async (parts) => {
           if (!fossilEngineRef.current) {
             const { FossilEngine } = await import('./engine/fossilEngine')
             fossilEngineRef.current = new FossilEngine()
@@ -509,6 +534,11 @@ function App() {
     ? routePath.split('/future-self/')[1]
     : null
 
+  // Encryption gate — nothing can be read until the passphrase unwraps the key
+  if (pendingUnlock) {
+    return <Suspense fallback={<SplashScreen />}><UnlockScreen onUnlocked={pendingUnlock} /></Suspense>
+  }
+
   // Consent gate — show onboarding if user hasn't accepted terms
   if (hasConsent === false) {
     const handleOnboardingComplete = async () => {
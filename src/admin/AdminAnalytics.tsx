@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import { adminFetch } from './adminApi'
-import type { AdminAnalyticsResponse } from './adminTypes'
+import type { AdminAnalyticsResponse, AdminUsageResponse, UsageTotals } from './adminTypes'
 
 const cardStyle = {
   background: '#FFFFFF',
@@ -42,6 +42,140 @@ function BarChart({ items, labelKey, valueKey, colorKey }: {
   )
 }
 
+function formatCost(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(4)}`
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k`
+      : String(tokens)
+}
+
+function UsageTable({ title, rows }: {
+  title: string
+  rows: Array<UsageTotals & { label: string; sublabel?: string }>
+}) {
+  const cellStyle = { padding: '6px 8px', fontSize: 12, textAlign: 'right' as const }
+  return (
+    <div>
+      <h4 style={{ fontSize: 13, fontWeight: 500, margin: '0 0 8px' }}>{title}</h4>
+      <div style={cardStyle}>
+        {rows.length === 0 ? (
+          <div style={{ fontSize: 12, color: '#A09A94' }}>No usage recorded</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: '#A09A94' }}>
+                <th style={{ ...cellStyle, textAlign: 'left', fontWeight: 400 }}></th>
+                <th style={{ ...cellStyle, fontWeight: 400 }}>Calls</th>
+                <th style={{ ...cellStyle, fontWeight: 400 }}>Prompt</th>
+                <th style={{ ...cellStyle, fontWeight: 400 }}>Completion</th>
+                <th style={{ ...cellStyle, fontWeight: 400 }}>Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label + (row.sublabel ?? '')} style={{ borderTop: '1px solid #F5F2EF' }}>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>
+                    {row.label}
+                    {row.sublabel && <div style={{ fontSize: 11, color: '#A09A94' }}>{row.sublabel}</div>}
+                  </td>
+                  <td style={cellStyle}>{row.calls.toLocaleString()}</td>
+                  <td style={cellStyle}>{formatTokens(row.promptTokens)}</td>
+                  <td style={cellStyle}>{formatTokens(row.completionTokens)}</td>
+                  <td style={{ ...cellStyle, fontWeight: 500 }}>{formatCost(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const USAGE_PERIODS = [7, 30, 90]
+
+function UsageSection() {
+  const [days, setDays] = useState(30)
+  const [usage, setUsage] = useState<AdminUsageResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    adminFetch<AdminUsageResponse>('getUsage', { days })
+      .then((result) => { if (!cancelled) { setUsage(result); setError(null) } })
+      .catch((e) => { if (!cancelled) setError(e.message) })
+    return () => { cancelled = true }
+  }, [days])
+
+  const summary = usage ? [
+    { label: 'LLM calls', value: usage.totals.calls.toLocaleString() },
+    { label: 'Tokens', value: formatTokens(usage.totals.promptTokens + usage.totals.completionTokens) },
+    { label: 'Est. cost', value: formatCost(usage.totals.cost) },
+  ] : []
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 }}>
+        <h3 style={{ fontSize: 14, fontWeight: 500, margin: 0 }}>Usage & Cost</h3>
+        <div style={{ display: 'flex', gap: 4 }}>
+          {USAGE_PERIODS.map((d) => (
+            <button
+              key={d}
+              onClick={() => setDays(d)}
+              style={{
+                fontFamily: "'Inter', sans-serif",
+                fontSize: 11,
+                padding: '4px 10px',
+                border: '1px solid #E8E4DF',
+                borderRadius: 6,
+                background: days === d ? '#2D2B29' : '#FFFFFF',
+                color: days === d ? '#FFFFFF' : '#6B6560',
+                cursor: 'pointer',
+              }}
+            >
+              {d}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div style={{ color: '#B91C1C', fontSize: 13 }}>Error: {error}</div>}
+      {!usage && !error && <div style={{ fontSize: 13, color: '#A09A94' }}>Loading usage...</div>}
+      {usage && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 16 }}>
+            {summary.map((m) => (
+              <div key={m.label} style={cardStyle}>
+                <div style={{ fontSize: 12, color: '#A09A94', marginBottom: 8 }}>{m.label}</div>
+                <div style={{ fontSize: 28, fontWeight: 600 }}>{m.value}</div>
+              </div>
+            ))}
+          </div>
+          <UsageTable
+            title="By feature"
+            rows={usage.byFeature.map((r) => ({ ...r, label: r.callSite }))}
+          />
+          <UsageTable
+            title="By model"
+            rows={usage.byModel.map((r) => ({ ...r, label: r.model }))}
+          />
+          <UsageTable
+            title="By user (top 50 by cost)"
+            rows={usage.byUser.map((r) => ({
+              ...r,
+              label: r.displayName || r.email || r.uid.slice(0, 8),
+              sublabel: r.displayName ? r.email : undefined,
+            }))}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function AdminAnalytics() {
   const [data, setData] = useState<AdminAnalyticsResponse | null>(null)
   const [error, setError] = useState<string | null>(null)
@@ -176,6 +310,8 @@ export function AdminAnalytics() {
           </div>
         </div>
       )}
+
+      <UsageSection />
     </div>
   )
 }
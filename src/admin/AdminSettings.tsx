@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import { adminFetch } from './adminApi'
-import type { GlobalConfig } from './adminTypes'
+import type { GlobalConfig, LlmRoute } from './adminTypes'
 
 const DEFAULTS: GlobalConfig = {
   defaultModel: 'google/gemini-3-flash-preview',
@@ -31,6 +31,7 @@ const DEFAULTS: GlobalConfig = {
     lettersFromParts: false,
     ritualsNotStreaks: false,
     unfinishedThreads: false,
+    semanticRetrieval: false,
     emergencyGrounding: false,
     intentionsEnabled: false,
     guidedExplorations: false,
@@ -86,6 +87,31 @@ const DEFAULTS: GlobalConfig = {
     minSessions: 3,
     voiceExcerptCount: 8,
   },
+  embeddings: {
+    provider: 'proxy',
+    model: 'openai/text-embedding-3-small',
+    minSimilarity: 0.3,
+  },
+  sessionPhases: {
+    deepeningAfter: 3,
+    closingAfter: 12,
+    maxTokens: { opening: 150, deepening: 250, closing: 300 },
+    holdDeepeningOnDistress: false,
+    maxDistressExtension: 6,
+    detectWrapUp: false,
+  },
+  llmRouting: {
+    routes: [{ provider: 'openrouter' }],
+    openAiCompatibleUrl: '',
+    timeoutMs: 20_000,
+  },
+  rateLimits: {
+    requestsPerMinute: 30,
+    embeddingRequestsPerMinute: 20,
+    mcpRequestsPerMinute: 60,
+    dailyTokenBudget: 200_000,
+    monthlyTokenBudget: 3_000_000,
+  },
   announcement: null,
   updatedAt: 0,
   updatedBy: '',
@@ -180,6 +206,31 @@ export function AdminSettings() {
   const setFutureSelf = (key: string, value: number) =>
     setConfig({ ...config, futureSelf: { ...config.futureSelf, [key]: value } })
 
+  const setEmbeddings = (patch: Partial<NonNullable<GlobalConfig['embeddings']>>) =>
+    setConfig({ ...config, embeddings: { ...config.embeddings, ...patch } })
+
+  const setPhases = (key: string, value: number | boolean) =>
+    setConfig({ ...config, sessionPhases: { ...config.sessionPhases, [key]: value } })
+
+  const setPhaseTokens = (phase: 'opening' | 'deepening' | 'closing', value: number) =>
+    setConfig({
+      ...config,
+      sessionPhases: { ...config.sessionPhases, maxTokens: { ...config.sessionPhases?.maxTokens, [phase]: value } },
+    })
+
+  const routes: LlmRoute[] = config.llmRouting?.routes?.length
+    ? config.llmRouting.routes
+    : DEFAULTS.llmRouting!.routes!
+
+  const setRouting = (patch: Partial<NonNullable<GlobalConfig['llmRouting']>>) =>
+    setConfig({ ...config, llmRouting: { ...config.llmRouting, ...patch } })
+
+  const setRoute = (index: number, patch: Partial<LlmRoute>) =>
+    setRouting({ routes: routes.map((r, i) => (i === index ? { ...r, ...patch } : r)) })
+
+  const setRateLimit = (key: string, value: number) =>
+    setConfig({ ...config, rateLimits: { ...config.rateLimits, [key]: value } })
+
   const inputStyle = {
     padding: '8px 12px',
     fontSize: 13,
@@ -687,6 +738,42 @@ export function AdminSettings() {
             />
           </>
         )}
+
+        <ToggleRow
+          label="Semantic Retrieval (echoes, quotes, threads by meaning)"
+          checked={!!config.features.semanticRetrieval}
+          onChange={(v) => setFeature('semanticRetrieval', v)}
+        />
+        {config.features.semanticRetrieval && (
+          <>
+            <label style={labelStyle}>Embeddings</label>
+            <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+              <select
+                value={config.embeddings?.provider ?? 'proxy'}
+                onChange={(e) => setEmbeddings({ provider: e.target.value as 'proxy' | 'local' })}
+                style={{ ...inputStyle, width: 170, flexShrink: 0 }}
+              >
+                <option value="proxy">Chat proxy</option>
+                <option value="local">Local stand-in</option>
+              </select>
+              {config.embeddings?.provider !== 'local' && (
+                <input
+                  type="text"
+                  placeholder="openai/text-embedding-3-small"
+                  value={config.embeddings?.model ?? ''}
+                  onChange={(e) => setEmbeddings({ model: e.target.value || undefined })}
+                  style={inputStyle}
+                />
+              )}
+            </div>
+            <SliderRow
+              label="Min Similarity"
+              value={config.embeddings?.minSimilarity ?? 0.3}
+              min={0.1} max={0.8} step={0.05}
+              onChange={(v) => setEmbeddings({ minSimilarity: v })}
+            />
+          </>
+        )}
       </CollapsibleSection>
 
       {/* Safety & Wellbeing */}
@@ -811,6 +898,173 @@ export function AdminSettings() {
         )}
       </CollapsibleSection>
 
+      {/* Session Phases */}
+      <CollapsibleSection
+        title="Session Phases"
+        isExpanded={!!expanded.sessionPhases}
+        onToggle={() => toggle('sessionPhases')}
+        style={sectionStyle}
+      >
+        <SliderRow
+          label="Deepening After (user messages)"
+          value={config.sessionPhases?.deepeningAfter ?? 3}
+          min={1} max={10} step={1}
+          onChange={(v) => setPhases('deepeningAfter', v)}
+        />
+        <SliderRow
+          label="Closing After (user messages)"
+          value={config.sessionPhases?.closingAfter ?? 12}
+          min={4} max={40} step={1}
+          onChange={(v) => setPhases('closingAfter', v)}
+        />
+        <SliderRow
+          label="Opening Max Tokens"
+          value={config.sessionPhases?.maxTokens?.opening ?? 150}
+          min={50} max={600} step={10}
+          onChange={(v) => setPhaseTokens('opening', v)}
+        />
+        <SliderRow
+          label="Deepening Max Tokens"
+          value={config.sessionPhases?.maxTokens?.deepening ?? 250}
+          min={50} max={600} step={10}
+          onChange={(v) => setPhaseTokens('deepening', v)}
+        />
+        <SliderRow
+          label="Closing Max Tokens"
+          value={config.sessionPhases?.maxTokens?.closing ?? 300}
+          min={50} max={600} step={10}
+          onChange={(v) => setPhaseTokens('closing', v)}
+        />
+        <ToggleRow
+          label="Hold Deepening While Distress Rises"
+          checked={!!config.sessionPhases?.holdDeepeningOnDistress}
+          onChange={(v) => setPhases('holdDeepeningOnDistress', v)}
+        />
+        {config.sessionPhases?.holdDeepeningOnDistress && (
+          <SliderRow
+            label="Max Extra Messages"
+            value={config.sessionPhases?.maxDistressExtension ?? 6}
+            min={1} max={20} step={1}
+            onChange={(v) => setPhases('maxDistressExtension', v)}
+          />
+        )}
+        <ToggleRow
+          label="Close on Wrap-Up Signal (extra AI call per message)"
+          checked={!!config.sessionPhases?.detectWrapUp}
+          onChange={(v) => setPhases('detectWrapUp', v)}
+        />
+      </CollapsibleSection>
+
+      {/* AI Providers */}
+      <CollapsibleSection
+        title="AI Providers"
+        isExpanded={!!expanded.providers}
+        onToggle={() => toggle('providers')}
+        style={sectionStyle}
+      >
+        <label style={labelStyle}>Routes (first is primary, the rest are fallbacks on 5xx/timeout)</label>
+        {routes.map((route, i) => (
+          <div key={i} style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+            <select
+              value={route.provider}
+              onChange={(e) => setRoute(i, { provider: e.target.value as LlmRoute['provider'] })}
+              style={{ ...inputStyle, width: 170, flexShrink: 0 }}
+            >
+              <option value="openrouter">OpenRouter</option>
+              <option value="openai-compatible">OpenAI-compatible</option>
+              <option value="mock">Mock (deterministic)</option>
+            </select>
+            <input
+              type="text"
+              placeholder="Model (empty = client's choice)"
+              value={route.model ?? ''}
+              onChange={(e) => setRoute(i, { model: e.target.value || undefined })}
+              style={inputStyle}
+            />
+            <button
+              onClick={() => setRouting({ routes: routes.filter((_, j) => j !== i) })}
+              disabled={routes.length === 1}
+              style={{
+                padding: '0 10px',
+                fontSize: 13,
+                border: '1px solid #E8E4DF',
+                borderRadius: 6,
+                background: '#FFFFFF',
+                color: routes.length === 1 ? '#E8E4DF' : '#6B6560',
+                cursor: routes.length === 1 ? 'default' : 'pointer',
+              }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setRouting({ routes: [...routes, { provider: 'openrouter' }] })}
+          style={{
+            padding: '6px 12px',
+            fontSize: 12,
+            fontFamily: "'Inter', sans-serif",
+            border: '1px solid #E8E4DF',
+            borderRadius: 6,
+            background: '#FFFFFF',
+            color: '#6B6560',
+            cursor: 'pointer',
+            marginBottom: 16,
+          }}
+        >
+          + Add fallback
+        </button>
+
+        <div style={{ marginBottom: 16 }}>
+          <label style={labelStyle}>OpenAI-compatible Base URL</label>
+          <input
+            type="text"
+            placeholder="http://my-vllm-host:8000/v1"
+            value={config.llmRouting?.openAiCompatibleUrl ?? ''}
+            onChange={(e) => setRouting({ openAiCompatibleUrl: e.target.value })}
+            style={inputStyle}
+          />
+        </div>
+
+        <SliderRow
+          label="Attempt Timeout (s)"
+          value={Math.round((config.llmRouting?.timeoutMs ?? 20_000) / 1000)}
+          min={5} max={60} step={1}
+          onChange={(v) => setRouting({ timeoutMs: v * 1000 })}
+        />
+      </CollapsibleSection>
+
+      {/* Rate Limits & Budgets */}
+      <CollapsibleSection
+        title="Rate Limits & Budgets"
+        isExpanded={!!expanded.rateLimits}
+        onToggle={() => toggle('rateLimits')}
+        style={sectionStyle}
+      >
+        {([
+          ['requestsPerMinute', 'Chat Requests per Minute (per user)'],
+          ['embeddingRequestsPerMinute', 'Embedding Requests per Minute (per user)'],
+          ['mcpRequestsPerMinute', 'MCP Requests per Minute (per API key)'],
+          ['dailyTokenBudget', 'Daily Token Budget (per user)'],
+          ['monthlyTokenBudget', 'Monthly Token Budget (per user)'],
+        ] as const).map(([key, label]) => (
+          <div key={key} style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>{label}</label>
+            <input
+              type="number"
+              min={0}
+              step={key.endsWith('Budget') ? 1000 : 1}
+              value={config.rateLimits?.[key] ?? DEFAULTS.rateLimits![key]}
+              onChange={(e) => setRateLimit(key, Math.max(0, Math.round(Number(e.target.value) || 0)))}
+              style={inputStyle}
+            />
+          </div>
+        ))}
+        <div style={{ fontSize: 11, color: '#A09A94', lineHeight: 1.5 }}>
+          Shared across all function instances. Budgets count OpenRouter chat tokens (prompt + completion) per UTC day and month; embeddings have their own per-minute limit and don't count toward them. 0 means unlimited. Changes take up to a minute to apply.
+        </div>
+      </CollapsibleSection>
+
       <div style={sectionStyle}>
         <h3 style={{ fontSize: 14, fontWeight: 500, marginTop: 0, marginBottom: 20 }}>Announcement</h3>
 
@@ -74,6 +74,11 @@ export function AdminUserDetail({ uid, onBack }: Props) {
               Joined {new Date(data.user.createdAt).toLocaleDateString()}
             </div>
           )}
+          {data.user.encrypted && (
+            <div style={{ fontSize: 11, color: '#8B8580', marginTop: 4 }}>
+              Journal encrypted — entries, memories, profile and messages are not readable here
+            </div>
+          )}
         </div>
       </div>
 
@@ -540,7 +545,7 @@ function ConversationsTab({ conversations, uid, parts }: {
                           )}
                         </div>
                         <div style={{ fontSize: 12, color: '#6B6560', lineHeight: 1.5, whiteSpace: 'pre-wrap' }}>
-                          {msg.content}
+                          {msg.encrypted ? <span style={{ color: '#C4BEB8', fontStyle: 'italic' }}>Encrypted</span> : msg.content}
                         </div>
                       </div>
                     )
@@ -1,3 +1,10 @@
+export type LlmProviderId = 'openrouter' | 'openai-compatible' | 'mock'
+
+export interface LlmRoute {
+  provider: LlmProviderId
+  model?: string // overrides the client-selected model
+}
+
 export interface GlobalConfig {
   defaultModel: string
   defaultResponseSpeed: number
@@ -28,6 +35,7 @@ export interface GlobalConfig {
     lettersFromParts?: boolean
     ritualsNotStreaks?: boolean
     unfinishedThreads?: boolean
+    semanticRetrieval?: boolean
     // Visual Effects (individual)
     paragraphFade?: boolean
     inkWeight?: boolean
@@ -113,6 +121,42 @@ export interface GlobalConfig {
     minSessions?: number
     voiceExcerptCount?: number
   }
+
+  // Session phase policy — thresholds count user messages
+  sessionPhases?: {
+    deepeningAfter?: number
+    closingAfter?: number
+    maxTokens?: { opening?: number; deepening?: number; closing?: number }
+    holdDeepeningOnDistress?: boolean
+    maxDistressExtension?: number
+    detectWrapUp?: boolean
+  }
+
+  // Vectors behind semantic retrieval (echoes, quotes, threads)
+  embeddings?: {
+    provider?: 'proxy' | 'local'
+    model?: string
+    /** Cosine similarity a past item needs to count as related */
+    minSimilarity?: number
+  }
+
+  // Provider routes for the chat proxy: first is primary, the rest are
+  // fallbacks tried in order on 5xx/timeout
+  llmRouting?: {
+    routes?: LlmRoute[]
+    openAiCompatibleUrl?: string
+    timeoutMs?: number
+  }
+
+  // Enforced server-side across all function instances (0 budget = unlimited)
+  rateLimits?: {
+    requestsPerMinute?: number
+    /** Semantic index and pause lookups, kept apart from chat so they never crowd out replies */
+    embeddingRequestsPerMinute?: number
+    mcpRequestsPerMinute?: number
+    dailyTokenBudget?: number
+    monthlyTokenBudget?: number
+  }
 }
 
 export interface WritingHabits {
@@ -172,6 +216,7 @@ export interface AdminUser {
   partCount: number
   sessionCount: number
   createdAt: number | null
+  encrypted?: boolean // journal content is sealed client-side — only metadata is visible
 }
 
 export interface AdminSession {
@@ -326,6 +371,22 @@ export interface AdminAnalyticsResponse {
   refreshedAt?: number
 }
 
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  cost: number // estimated USD
+}
+
+export interface AdminUsageResponse {
+  days: number
+  totals: UsageTotals
+  byFeature: Array<UsageTotals & { callSite: string }>
+  byModel: Array<UsageTotals & { model: string }>
+  byUser: Array<UsageTotals & { uid: string; email: string; displayName: string }>
+  byDay: Array<UsageTotals & { date: string }>
+}
+
 // Real conversation session (from sessions/{id})
 export interface AdminConversation {
   id: string
@@ -351,6 +412,7 @@ export interface AdminSessionMessage {
   timestamp: number
   phase: string
   isEmergence: boolean
+  encrypted?: boolean
 }
 
 export type AdminAction =
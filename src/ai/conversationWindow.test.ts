@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  estimateTokens, selectRecentWindow, planSummaryUpdate, formatRunningSummary, MAX_WINDOW_MESSAGES,
+} from './conversationWindow'
+import type { SessionMessage } from '../types'
+
+function makeMessages(count: number, content = 'short'): SessionMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `msg-${i}`,
+    speaker: i % 2 === 0 ? 'user' as const : 'therapist' as const,
+    partId: null,
+    partName: null,
+    content,
+    timestamp: i,
+    phase: 'deepening' as const,
+    isEmergence: false,
+  }))
+}
+
+describe('estimateTokens', () => {
+  it('counts roughly four characters per token', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcd')).toBe(1)
+    expect(estimateTokens('abcde')).toBe(2)
+  })
+})
+
+describe('selectRecentWindow', () => {
+  it('keeps a short conversation whole', () => {
+    const history = makeMessages(6)
+    expect(selectRecentWindow(history)).toEqual(history)
+  })
+
+  it('keeps the most recent messages that fit the token budget', () => {
+    const history = makeMessages(10, 'x'.repeat(400))
+    const window = selectRecentWindow(history, { tokenBudget: 350 })
+    expect(window.map(m => m.id)).toEqual(['msg-7', 'msg-8', 'msg-9'])
+  })
+
+  it('caps the message count below the proxy limit', () => {
+    const window = selectRecentWindow(makeMessages(100))
+    expect(window).toHaveLength(MAX_WINDOW_MESSAGES)
+    expect(window[window.length - 1].id).toBe('msg-99')
+  })
+
+  it('keeps turns the running summary does not cover yet', () => {
+    const history = makeMessages(10, 'x'.repeat(400))
+    const window = selectRecentWindow(history, { tokenBudget: 350, summarizedThrough: 4 })
+    expect(window.map(m => m.id)).toEqual(['msg-4', 'msg-5', 'msg-6', 'msg-7', 'msg-8', 'msg-9'])
+    expect(selectRecentWindow(history, { tokenBudget: 350, summarizedThrough: 9 })).toHaveLength(3)
+  })
+
+  it('stays under the proxy limit when summaries have fallen far behind', () => {
+    const window = selectRecentWindow(makeMessages(100), { summarizedThrough: 0 })
+    expect(window.length).toBeLessThanOrEqual(48)
+    expect(window[window.length - 1].id).toBe('msg-99')
+  })
+
+  it('always keeps the latest message, even over budget', () => {
+    const history = makeMessages(3, 'x'.repeat(40_000))
+    expect(selectRecentWindow(history).map(m => m.id)).toEqual(['msg-2'])
+  })
+})
+
+describe('planSummaryUpdate', () => {
+  it('returns null until enough turns fall out of the window', () => {
+    expect(planSummaryUpdate(makeMessages(45), 0)).toBeNull()
+  })
+
+  it('covers the unsummarized turns before the window', () => {
+    expect(planSummaryUpdate(makeMessages(60), 0)).toEqual({ from: 0, to: 20 })
+    expect(planSummaryUpdate(makeMessages(60), 12)).toEqual({ from: 12, to: 20 })
+  })
+})
+
+describe('formatRunningSummary', () => {
+  it('is empty without a summary', () => {
+    expect(formatRunningSummary(undefined)).toBe('')
+    expect(formatRunningSummary('  ')).toBe('')
+  })
+
+  it('labels the summary as earlier conversation', () => {
+    expect(formatRunningSummary('They talked about work.')).toContain('Earlier in this conversation')
+  })
+})
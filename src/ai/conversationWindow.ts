@@ -0,0 +1,74 @@
+import type { SessionMessage } from '../types'
+import { sanitizeForPrompt } from './promptSafety'
+
+// ── Conversation window ──
+// Long sessions are sent as a running summary of the older turns plus the
+// most recent turns verbatim. The window is bounded by an estimated token
+// budget and a message cap that stays under the proxy's 50-message limit
+// (system prompt and trailing instruction included).
+
+export const HISTORY_TOKEN_BUDGET = 3000
+export const MAX_WINDOW_MESSAGES = 40
+/** Unsummarized turns that must pile up behind the window before a summary pass */
+export const SUMMARY_CHUNK_SIZE = 8
+/** Hard ceiling on verbatim turns: the proxy's 50 less the system prompt and trailing instruction */
+const MAX_SENT_MESSAGES = 48
+
+export interface WindowOptions {
+  tokenBudget?: number
+  maxMessages?: number
+  /**
+   * How many leading messages the running summary covers. Turns after it that
+   * are older than the window stay in the window until a summary pass folds
+   * them in, so no turn is in neither.
+   */
+  summarizedThrough?: number
+}
+
+/** Rough token count — ~4 characters per token, good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/** Index of the first message that fits in the recent window. Always keeps the last message. */
+export function windowStart(history: SessionMessage[], options: WindowOptions = {}): number {
+  const budget = options.tokenBudget ?? HISTORY_TOKEN_BUDGET
+  const maxMessages = options.maxMessages ?? MAX_WINDOW_MESSAGES
+  let used = 0
+  let start = history.length
+  while (start > 0 && history.length - start < maxMessages) {
+    const cost = estimateTokens(history[start - 1].content)
+    if (start < history.length && used + cost > budget) break
+    used += cost
+    start--
+  }
+  return start
+}
+
+export function selectRecentWindow(history: SessionMessage[], options: WindowOptions = {}): SessionMessage[] {
+  let start = windowStart(history, options)
+  if (options.summarizedThrough !== undefined) {
+    start = Math.max(Math.min(start, options.summarizedThrough), history.length - MAX_SENT_MESSAGES, 0)
+  }
+  return history.slice(start)
+}
+
+/**
+ * Messages to fold into the running summary next, or null when fewer than
+ * SUMMARY_CHUNK_SIZE unsummarized turns have fallen out of the window.
+ */
+export function planSummaryUpdate(
+  history: SessionMessage[],
+  summarizedThrough: number,
+  options: WindowOptions = {},
+): { from: number; to: number } | null {
+  const to = windowStart(history, options)
+  if (to - summarizedThrough < SUMMARY_CHUNK_SIZE) return null
+  return { from: summarizedThrough, to }
+}
+
+/** System-prompt block for the running summary; empty when there is none. */
+export function formatRunningSummary(summary: string | undefined): string {
+  if (!summary?.trim()) return ''
+  return `Earlier in this conversation (summary — the most recent messages follow in full):\n${sanitizeForPrompt(summary.trim())}`
+}
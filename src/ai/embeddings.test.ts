@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const config = vi.hoisted(() => ({ current: null as null | { embeddings?: { provider?: string; model?: string } } }))
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => config.current,
+}))
+vi.mock('./openrouter', () => ({
+  createEmbeddings: vi.fn(async (texts: string[]) => texts.map(() => [1, 0])),
+}))
+
+import {
+  localEmbedding, cosineSimilarity, embedTexts, getEmbeddingModel,
+  DEFAULT_EMBEDDING_MODEL, LOCAL_EMBEDDING_MODEL, EMBEDDING_BATCH_SIZE,
+} from './embeddings'
+import { createEmbeddings } from './openrouter'
+
+describe('localEmbedding', () => {
+  it('returns unit vectors', () => {
+    const v = localEmbedding('a quiet morning by the window')
+    expect(Math.hypot(...v)).toBeCloseTo(1)
+  })
+
+  it('puts texts that share words and word forms closer than unrelated ones', () => {
+    const anxious = localEmbedding('I felt anxious before the meeting')
+    const anxiety = localEmbedding('so much anxiety about meetings lately')
+    const garden = localEmbedding('planted tomatoes in the garden')
+    expect(cosineSimilarity(anxious, anxiety)).toBeGreaterThan(cosineSimilarity(anxious, garden))
+  })
+
+  it('handles scripts without spaces', () => {
+    expect(Math.hypot(...localEmbedding('今日は雨でした'))).toBeCloseTo(1)
+  })
+
+  it('is all zeros for text without words', () => {
+    expect(localEmbedding('…').every((x) => x === 0)).toBe(true)
+  })
+})
+
+describe('cosineSimilarity', () => {
+  it('is zero for mismatched or empty vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0)
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+  })
+})
+
+describe('embedTexts', () => {
+  beforeEach(() => {
+    config.current = null
+    vi.mocked(createEmbeddings).mockClear()
+  })
+
+  it('uses the proxy with the default model', async () => {
+    expect(getEmbeddingModel()).toBe(DEFAULT_EMBEDDING_MODEL)
+    await embedTexts(['one', 'two'])
+    expect(createEmbeddings).toHaveBeenCalledWith(['one', 'two'], DEFAULT_EMBEDDING_MODEL)
+  })
+
+  it('splits large requests into proxy-sized batches', async () => {
+    const texts = Array.from({ length: EMBEDDING_BATCH_SIZE + 5 }, (_, i) => `text ${i}`)
+    const vectors = await embedTexts(texts)
+    expect(vectors).toHaveLength(texts.length)
+    expect(createEmbeddings).toHaveBeenCalledTimes(2)
+  })
+
+  it('stays on device with the local stand-in', async () => {
+    config.current = { embeddings: { provider: 'local' } }
+    expect(getEmbeddingModel()).toBe(LOCAL_EMBEDDING_MODEL)
+    const [vector] = await embedTexts(['hello there'])
+    expect(vector).toHaveLength(256)
+    expect(createEmbeddings).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,77 @@
+import { getGlobalConfig } from '../store/globalConfig'
+import { createEmbeddings } from './openrouter'
+
+// ── Embeddings ──
+// Vectors for semantic retrieval. 'proxy' asks the chat proxy for a real
+// embedding model; 'local' is an on-device stand-in (feature-hashed words and
+// character trigrams) that needs no network and catches shared wording and
+// word forms, though not paraphrase.
+
+export const DEFAULT_EMBEDDING_MODEL = 'openai/text-embedding-3-small'
+export const LOCAL_EMBEDDING_MODEL = 'local/hashed-256'
+const LOCAL_DIMENSIONS = 256
+/** The proxy accepts at most this many texts per request */
+export const EMBEDDING_BATCH_SIZE = 32
+/** Longer texts are cut — the proxy caps each input at 8000 characters */
+export const MAX_EMBEDDING_CHARS = 4000
+
+/** Model id stored with each vector; retrieval only compares vectors with the same id. */
+export function getEmbeddingModel(): string {
+  const config = getGlobalConfig()?.embeddings
+  if (config?.provider === 'local') return LOCAL_EMBEDDING_MODEL
+  return config?.model || DEFAULT_EMBEDDING_MODEL
+}
+
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const model = getEmbeddingModel()
+  const inputs = texts.map((t) => t.slice(0, MAX_EMBEDDING_CHARS))
+  if (model === LOCAL_EMBEDDING_MODEL) return inputs.map(localEmbedding)
+
+  const vectors: number[][] = []
+  for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+    vectors.push(...await createEmbeddings(inputs.slice(i, i + EMBEDDING_BATCH_SIZE), model))
+  }
+  return vectors
+}
+
+// FNV-1a, 32-bit
+function hashString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function localEmbedding(text: string): number[] {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0)
+  const add = (feature: string, weight: number) => {
+    const hash = hashString(feature)
+    // Sign bit spreads collisions around zero instead of piling them up
+    vector[hash % LOCAL_DIMENSIONS] += (hash & 0x80000000) ? -weight : weight
+  }
+
+  const words = text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? []
+  for (const word of words) {
+    add(`w:${word}`, 1)
+    const padded = `^${word}$`
+    for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5)
+  }
+
+  const norm = Math.hypot(...vector)
+  return norm > 0 ? vector.map((v) => v / norm) : vector
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
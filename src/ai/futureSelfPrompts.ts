@@ -2,6 +2,7 @@ import type { PartMemory, UserProfile, SessionMessage, SessionPhase } from '../t
 import { languageDirective, formatDateTime, formatTime, formatShortDate } from './partPrompts'
 import { sanitizeForPrompt, UNTRUSTED_CONTENT_PREAMBLE } from './promptSafety'
 import { SAFETY_RULES } from './therapistPrompts'
+import { selectRecentWindow, formatRunningSummary } from './conversationWindow'
 
 // Deliberately ambiguous time framing — "somewhere further on" rather than a fixed year count.
 // Avoids the awkwardness of specific dates and fits the app's contemplative voice.
@@ -54,6 +55,10 @@ export interface FutureSelfPromptOptions {
   currentEmotion?: string
   isGrounding?: boolean
   hrvContext?: string
+  /** Rolling summary of turns older than the recent window */
+  runningSummary?: string
+  /** Messages the running summary covers, so the window can pick up where it ends */
+  summarizedThrough?: number
 }
 
 export function buildFutureSelfSystemPrompt(options: FutureSelfPromptOptions): string {
@@ -127,6 +132,9 @@ ${SAFETY_RULES}`)
     if (blocks.length > 0) parts.push(blocks.join('\n\n'))
   }
 
+  const summary = formatRunningSummary(options.runningSummary)
+  if (summary) parts.push(summary)
+
   if (options.currentEmotion && options.currentEmotion !== 'neutral') {
     parts.push(`They seem to be feeling: ${sanitizeForPrompt(options.currentEmotion)}`)
   }
@@ -163,7 +171,7 @@ export function buildFutureSelfMessages(
     return messages
   }
 
-  for (const msg of history) {
+  for (const msg of selectRecentWindow(history, { summarizedThrough: options.summarizedThrough })) {
     if (msg.speaker === 'user') {
       const time = formatTime(msg.timestamp)
       messages.push({ role: 'user', content: `[${time}] ${msg.content}` })
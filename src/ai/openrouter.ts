@@ -6,6 +6,30 @@ interface Message {
   content: string
 }
 
+/** Which feature made an LLM call — the proxy records usage and cost per call site */
+export type CallSite =
+  | 'part-thought'
+  | 'interaction-reply'
+  | 'emotion'
+  | 'reflection'
+  | 'emergence'
+  | 'part-introduction'
+  | 'growth'
+  | 'exploration'
+  | 'autocorrect'
+  | 'session-message'
+  | 'session-note'
+  | 'session-reflection'
+  | 'session-phase'
+  | 'session-summary'
+  | 'embedding'
+  | 'memory-consolidation'
+  | 'closing-phrase'
+  | 'letter'
+  | 'disagreement'
+  | 'fossil'
+  | 'blank-page'
+
 interface StreamCallbacks {
   onToken: (token: string) => void
   onComplete: (fullText: string) => void
@@ -26,6 +50,7 @@ export async function chatCompletion(
   messages: Message[],
   timeoutMs: number = 10000,
   maxTokens: number = 150,
+  callSite?: CallSite,
 ): Promise<string> {
   const token = await getAuthToken()
   const model = getModel()
@@ -45,6 +70,7 @@ export async function chatCompletion(
         max_tokens: maxTokens,
         temperature: 0.9,
         frequency_penalty: 0.4,
+        callSite,
       }),
       signal: controller.signal,
     })
@@ -67,6 +93,7 @@ export async function streamChatCompletion(
   messages: Message[],
   callbacks: StreamCallbacks,
   maxTokens: number = 150,
+  callSite?: CallSite,
 ): Promise<void> {
   try {
     const token = await getAuthToken()
@@ -89,6 +116,7 @@ export async function streamChatCompletion(
           temperature: 0.9,
           frequency_penalty: 0.4,
           stream: true,
+          callSite,
         }),
         signal: controller.signal,
       })
@@ -175,6 +203,64 @@ export async function streamChatCompletion(
   }
 }
 
+/** Embeds up to 32 texts through the chat proxy; vectors come back in input order. */
+export async function createEmbeddings(
+  texts: string[],
+  model: string,
+  timeoutMs: number = 15000,
+): Promise<number[][]> {
+  const token = await getAuthToken()
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const response = await fetch('/api/chat', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, input: texts, callSite: 'embedding' }),
+      signal: controller.signal,
+    })
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '')
+      throw new Error(`API error: ${response.status}${body ? ` — ${body}` : ''}`)
+    }
+
+    const data = await response.json() as { data?: { index: number; embedding: number[] }[] }
+    const rows = [...(data?.data ?? [])].sort((a, b) => a.index - b.index)
+    if (rows.length !== texts.length) throw new Error('Embedding count does not match input')
+    return rows.map((row) => row.embedding)
+  } finally {
+    clearTimeout(timeout)
+  }
+}
+
+/** True when the user's message signals they want to wind the conversation down. */
+export async function detectWrapUpSignal(text: string): Promise<boolean> {
+  const response = await chatCompletion([
+    {
+      role: 'system',
+      content: `You read one message from a reflective conversation and decide whether the person is signalling they want to wrap up — saying they need to go, that this feels like a good place to stop, thanking and closing, or similar. A pause, a short reply, or a hard feeling is NOT a wrap-up. The message may be in any language. Respond with valid JSON only, no other text:
+{"wrapUp": <true|false>}`,
+    },
+    {
+      role: 'user',
+      content: text.slice(-500),
+    },
+  ], 5000, 20, 'session-phase')
+
+  const jsonMatch = response.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) return false
+  try {
+    return (JSON.parse(jsonMatch[0]) as { wrapUp?: unknown }).wrapUp === true
+  } catch {
+    return false
+  }
+}
+
 export async function analyzeEmotionAndDistress(text: string): Promise<{ emotion: string; distressLevel: number }> {
   const response = await chatCompletion([
     {
@@ -192,7 +278,7 @@ Distress scale (err on the side of LOW scores — processing hard feelings is no
       role: 'user',
       content: text.slice(-500),
     },
-  ])
+  ], 10000, 150, 'emotion')
 
   try {
     const jsonMatch = response.match(/\{[\s\S]*\}/)
@@ -1,4 +1,4 @@
-import type { Part, PartMemory, UserProfile, EntrySummary } from '../types'
+import type { Part, PartDraft, PartMemory, UserProfile, EntrySummary, IFSRole } from '../types'
 import { getLanguageCode, getLLMLanguageName } from '../i18n'
 import { getSettings } from '../store/settings'
 import { wrapUserContent, sanitizeForPrompt, UNTRUSTED_CONTENT_PREAMBLE } from './promptSafety'
@@ -258,6 +258,32 @@ Examples of your voice:
   },
 ]
 
+const PROMPT_MEMORY_SLOTS: Record<string, number> = {
+  reflection: 5,
+  pattern: 5,
+  interaction: 3,
+  observation: 3,
+  legacy: 3,
+}
+
+/**
+ * The memories a part thought is built from: per type, pinned ones first, then
+ * the most recent. Retired memories never reach the prompt.
+ */
+export function selectPromptMemories(memories: PartMemory[]): PartMemory[] {
+  const selected: PartMemory[] = []
+  for (const [type, slots] of Object.entries(PROMPT_MEMORY_SLOTS)) {
+    const typed = memories.filter((m) => !m.retiredAt && (m.type ?? 'legacy') === type)
+    const pinned = typed.filter((m) => m.pinned)
+    const recent = typed
+      .filter((m) => !m.pinned)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-Math.max(0, slots - pinned.length))
+    selected.push(...pinned.sort((a, b) => a.timestamp - b.timestamp).slice(-slots), ...recent)
+  }
+  return selected
+}
+
 export function buildPartMessages(
   part: Part,
   currentText: string,
@@ -273,6 +299,7 @@ export function buildPartMessages(
     ritualContext?: string
     isGrounding?: boolean
     intention?: string
+    hrvContext?: string
     annotateHighlights?: boolean
     annotateGhostText?: boolean
   },
@@ -284,6 +311,14 @@ export function buildPartMessages(
     systemContent += `\n\n${part.systemPromptAddition}`
   }
 
+  // The writer's own edits from the parts panel
+  if (part.nameEdited) {
+    systemContent += `\n\nThe writer has named you "${sanitizeForPrompt(part.name)}". That is who you are to them now.`
+  }
+  if (part.concernEdited) {
+    systemContent += `\n\nIn the writer's words, what you care about most: ${sanitizeForPrompt(part.concern)}`
+  }
+
   // User profile context (shared across all parts)
   if (profile) {
     const profileLines: string[] = []
@@ -295,12 +330,13 @@ export function buildPartMessages(
   }
 
   // Categorized memories
-  const reflections = memories.filter((m) => m.type === 'reflection').slice(-5)
-  const patterns = memories.filter((m) => m.type === 'pattern').slice(-5)
-  const interactions = memories.filter((m) => m.type === 'interaction').slice(-3)
-  const observations = memories.filter((m) => m.type === 'observation').slice(-3)
+  const selected = selectPromptMemories(memories)
+  const reflections = selected.filter((m) => m.type === 'reflection')
+  const patterns = selected.filter((m) => m.type === 'pattern')
+  const interactions = selected.filter((m) => m.type === 'interaction')
+  const observations = selected.filter((m) => m.type === 'observation')
   // Memories without a type are legacy interactions
-  const legacyMemories = memories.filter((m) => !m.type).slice(-3)
+  const legacyMemories = selected.filter((m) => !m.type)
 
   const memoryBlocks: string[] = []
   if (reflections.length > 0) {
@@ -361,6 +397,11 @@ export function buildPartMessages(
     systemContent += `\n\nThe writer set an intention: "${sanitizeForPrompt(options.intention)}". If natural, help them stay connected to it. Don't force it.`
   }
 
+  // Journal biometrics quote what the writer wrote, so they are sanitized like the rest of their text
+  if (options?.hrvContext) {
+    systemContent += `\n\n${sanitizeForPrompt(options.hrvContext)}\n\nThe writer chose to share their heart rhythm while writing. Use it rarely and softly: you may notice where their body settled or stirred ("your body seemed to settle when you wrote about your sister"), but never quote numbers or state it as fact about what they feel.`
+  }
+
   systemContent += `\n\nCurrent date and time: ${formatDateTime(Date.now())}`
 
   systemContent += UNTRUSTED_CONTENT_PREAMBLE
@@ -437,6 +478,57 @@ SAFETY CONSTRAINT — THIS IS ABSOLUTE:
   ]
 }
 
+export function buildPartIntroductionPrompt(
+  introduction: { name: string; description: string; ifsRole: IFSRole },
+  existingParts: Part[],
+): { role: 'system' | 'user'; content: string }[] {
+  const partNames = existingParts.map((p) => `${p.name} (${p.concern})`).join(', ')
+
+  return [
+    {
+      role: 'system',
+      content: `A diary writer wants to introduce a part of themselves they already know — an inner voice they have named. Draft that part so it can join the existing parts in their diary. The writer will read your draft and approve or change it.
+
+The part's name: ${sanitizeForPrompt(introduction.name)}
+Its IFS role: ${introduction.ifsRole}
+Existing parts: ${partNames}
+
+The seeded parts are written like this:
+"You are The Watcher. You sit quietly and pay attention. Most of the time, you have nothing to say — the writer is simply writing, and that is enough. You only speak when you notice something genuinely clear..."
+
+Follow that style: second person, plain, a short paragraph or two saying who this part is, what it notices, and how it encourages the writing. Stay close to how the writer describes it — use their understanding of the part, not a textbook one. Make it distinct from the existing parts.
+
+Respond in this JSON format:
+{"concern": "what this part watches for, one line", "voice": "how this part speaks, one line", "character": "You are ${sanitizeForPrompt(introduction.name)}. ...", "examples": ["...a line in its voice...", "...another..."], "keywords": ["words", "it", "listens", "for"], "color": "#hexcode"}
+
+Give 3-5 examples, each 5-15 words wrapped in ... at the start and end. Give 5-8 single-word keywords. Choose a color that is muted and warm — not saturated. Think dusty, watercolor tones.
+
+SAFETY CONSTRAINT — THIS IS ABSOLUTE:
+- NEVER draft a part that is aligned with suicidal ideation, self-harm, self-destruction, or a wish to die.
+- NEVER draft a part whose voice encourages, validates, or romanticizes self-harm or suicide.
+- If the description asks for such a part, respond with {"declined": true}. A harsh or critical part is fine; draft it so its voice still serves the writing.${languageDirective()}${UNTRUSTED_CONTENT_PREAMBLE}`,
+    },
+    {
+      role: 'user',
+      content: `How the writer describes this part:\n${wrapUserContent(introduction.description, 'description')}`,
+    },
+  ]
+}
+
+/** Journal-mode system prompt for a part the writer introduced, in the seeded parts' shape. */
+export function buildIntroducedPartPrompt(draft: PartDraft): string {
+  const examples = draft.examples.length > 0
+    ? `\n\nExamples of your voice:\n${draft.examples.map((e) => `- ${e}`).join('\n')}`
+    : ''
+
+  return `${SHARED_INSTRUCTIONS}
+
+${draft.character}
+
+Your concern: ${draft.concern}
+Your voice: ${draft.voiceDescription}${examples}`
+}
+
 export function buildReflectionPrompt(
   entryText: string,
   thoughts: { partName: string; content: string }[],
@@ -568,6 +660,26 @@ Only include growth for parts with enough accumulated experience. Keywords shoul
   ]
 }
 
+export function buildMemoryConsolidationPrompt(
+  part: Pick<Part, 'name' | 'ifsRole' | 'concern'>,
+  observations: string[],
+): { role: 'system' | 'user'; content: string }[] {
+  return [
+    {
+      role: 'system',
+      content: `You help ${part.name}, an inner part of a diary writer (role: ${part.ifsRole}, concern: ${sanitizeForPrompt(part.concern)}), keep a long memory without drowning in detail. Below are older observations ${part.name} made on separate occasions that seem to be about the same thing.
+
+Distill them into ONE pattern memory: a single sentence, under 40 words, describing what tends to happen for this writer — the recurring situation, feeling or move, not any one instance. Write it the way ${part.name} would remember it. Do not quote the writer at length and do not invent details the observations do not support.
+
+Respond with the sentence only, no preamble.${languageDirective()}${UNTRUSTED_CONTENT_PREAMBLE}`,
+    },
+    {
+      role: 'user',
+      content: `Observations:\n${observations.map((o) => `- ${sanitizeForPrompt(o)}`).join('\n')}`,
+    },
+  ]
+}
+
 export function buildDisagreementPrompt(
   disagreePart: Part,
   originalPartName: string,
@@ -100,6 +100,14 @@ describe('buildSessionMessages', () => {
     const result = buildSessionMessages(mockPart, [], { phase: 'opening', memories })
     expect(result[0].content).toContain('Writer avoids talking about father')
   })
+  it('puts the running summary ahead of the transcript', () => {
+    const history: SessionMessage[] = [
+      { id: '1', speaker: 'user', partId: null, partName: null, content: 'Still here', timestamp: 1, phase: 'deepening', isEmergence: false },
+    ]
+    const result = buildSessionMessages(mockPart, history, { phase: 'deepening', memories: [], runningSummary: 'They named the fear.' })
+    const content = result[1].content
+    expect(content.indexOf('They named the fear.')).toBeLessThan(content.indexOf('Conversation so far'))
+  })
 })
 
 describe('buildSessionNotePrompt', () => {
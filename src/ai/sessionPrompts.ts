@@ -1,6 +1,7 @@
 import type { Part, PartMemory, UserProfile, SessionMessage, SessionPhase } from '../types'
 import { languageDirective } from './partPrompts'
 import { wrapUserContent, sanitizeForPrompt, UNTRUSTED_CONTENT_PREAMBLE } from './promptSafety'
+import { selectRecentWindow, formatRunningSummary } from './conversationWindow'
 
 export const SESSION_INSTRUCTIONS = `You are a part of the writer's inner world. You are in a session — a sustained conversation, not a one-line nudge.
 
@@ -47,6 +48,10 @@ export interface SessionPromptOptions {
   otherParts?: string[]
   emergenceContext?: string
   isClosing?: boolean
+  /** Rolling summary of turns older than the recent window */
+  runningSummary?: string
+  /** Messages the running summary covers, so the window can pick up where it ends */
+  summarizedThrough?: number
 }
 
 function formatPhaseHint(phase: SessionPhase): string {
@@ -142,9 +147,11 @@ export function buildSessionMessages(
     userParts.push(`Recent journal context: ${sanitizeForPrompt(options.recentEntryContext)}`)
   }
 
-  // Conversation history
+  // Conversation history — summary of older turns, then the recent window verbatim
+  const summary = formatRunningSummary(options.runningSummary)
+  if (summary) userParts.push(summary)
   if (history.length > 0) {
-    userParts.push(`Conversation so far:\n${formatTranscript(history)}`)
+    userParts.push(`Conversation so far:\n${formatTranscript(selectRecentWindow(history, { summarizedThrough: options.summarizedThrough }))}`)
   }
 
   // Closing instruction
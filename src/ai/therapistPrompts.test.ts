@@ -5,7 +5,10 @@ vi.mock('../i18n', () => ({
   getLLMLanguageName: vi.fn(() => 'English'),
 }))
 
-import { buildTherapistSystemPrompt, buildTherapistMessages, buildTherapistSessionNotePrompt, buildSessionReflectionPrompt } from './therapistPrompts'
+import {
+  buildTherapistSystemPrompt, buildTherapistMessages, buildTherapistSessionNotePrompt, buildSessionReflectionPrompt,
+  buildRunningSummaryPrompt,
+} from './therapistPrompts'
 import type { SessionMessage, PartMemory, UserProfile, EntrySummary } from '../types'
 
 function makeMessage(overrides: Partial<SessionMessage> = {}): SessionMessage {
@@ -125,6 +128,17 @@ describe('buildTherapistMessages', () => {
     expect(result[result.length - 1].role).toBe('user')
     expect(result[result.length - 1].content).toContain('closing reflection')
   })
+
+  it('sends the running summary and only the recent window of a long session', () => {
+    const history = Array.from({ length: 80 }, (_, i) =>
+      makeMessage({ id: `m${i}`, speaker: i % 2 === 0 ? 'user' : 'therapist', content: `turn ${i}` }))
+    const result = buildTherapistMessages(history, { phase: 'deepening', runningSummary: 'They talked about moving.' })
+    expect(result[0].content).toContain('They talked about moving.')
+    // Under the proxy's 50-message cap, including the system prompt
+    expect(result.length).toBeLessThanOrEqual(50)
+    expect(result.some(m => m.content === 'turn 79')).toBe(true)
+    expect(result.some(m => m.content.endsWith('turn 0'))).toBe(false)
+  })
 })
 
 describe('buildTherapistSessionNotePrompt', () => {
@@ -138,6 +152,24 @@ describe('buildTherapistSessionNotePrompt', () => {
     expect(result[1].content).toContain('Companion: Hello')
     expect(result[1].content).toContain('Hi there')
   })
+
+  it('prefixes the running summary when given one', () => {
+    const result = buildTherapistSessionNotePrompt([makeMessage({ content: 'Later' })], 'Earlier they spoke of home.')
+    expect(result[1].content).toContain('Summary of the earlier conversation:\nEarlier they spoke of home.')
+  })
+})
+
+describe('buildRunningSummaryPrompt', () => {
+  it('folds new messages into the previous summary', () => {
+    const result = buildRunningSummaryPrompt('So far: work.', [makeMessage({ content: 'My sister called' })])
+    expect(result[1].content).toContain('Summary so far:\nSo far: work.')
+    expect(result[1].content).toContain('<user_message>My sister called</user_message>')
+  })
+
+  it('starts fresh without a previous summary', () => {
+    const result = buildRunningSummaryPrompt(undefined, [makeMessage()])
+    expect(result[1].content).not.toContain('Summary so far')
+  })
 })
 
 describe('buildSessionReflectionPrompt', () => {
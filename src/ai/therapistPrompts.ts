@@ -1,6 +1,7 @@
 import type { PartMemory, UserProfile, EntrySummary, SessionMessage, SessionPhase } from '../types'
 import { languageDirective, formatDateTime, formatTime, formatShortDate } from './partPrompts'
 import { wrapUserContent, sanitizeForPrompt, UNTRUSTED_CONTENT_PREAMBLE } from './promptSafety'
+import { selectRecentWindow, formatRunningSummary } from './conversationWindow'
 
 // Shared across therapist and futureSelf prompts — must be included verbatim
 // in any AI persona that responds to the writer. Do not paraphrase.
@@ -63,6 +64,10 @@ export interface TherapistPromptOptions {
   currentEmotion?: string
   isGrounding?: boolean
   hrvContext?: string
+  /** Rolling summary of turns older than the recent window */
+  runningSummary?: string
+  /** Messages the running summary covers, so the window can pick up where it ends */
+  summarizedThrough?: number
 }
 
 export function buildTherapistSystemPrompt(options: TherapistPromptOptions): string {
@@ -121,6 +126,9 @@ export function buildTherapistSystemPrompt(options: TherapistPromptOptions): str
     }
   }
 
+  const summary = formatRunningSummary(options.runningSummary)
+  if (summary) parts.push(summary)
+
   if (options.currentEmotion && options.currentEmotion !== 'neutral') {
     parts.push(`The writer's current emotional tone seems: ${sanitizeForPrompt(options.currentEmotion)}`)
   }
@@ -170,8 +178,9 @@ export function buildTherapistMessages(
 
   // Build alternating user/assistant messages from history
   // Timestamps on user messages only — adding them to assistant messages
-  // causes the LLM to mirror the pattern in its own responses
-  for (const msg of history) {
+  // causes the LLM to mirror the pattern in its own responses.
+  // Older turns are carried by the running summary in the system prompt.
+  for (const msg of selectRecentWindow(history, { summarizedThrough: options.summarizedThrough })) {
     if (msg.speaker === 'user') {
       const time = formatTime(msg.timestamp)
       messages.push({ role: 'user', content: `[${time}] ${msg.content}` })
@@ -188,14 +197,23 @@ export function buildTherapistMessages(
   return messages
 }
 
-export function buildTherapistSessionNotePrompt(
-  history: SessionMessage[],
-): { role: 'system' | 'user'; content: string }[] {
-  const transcript = history.map(msg => {
+function formatCompanionTranscript(history: SessionMessage[]): string {
+  return history.map(msg => {
     const time = formatTime(msg.timestamp)
     if (msg.speaker === 'user') return `[${time}] Writer: ${wrapUserContent(msg.content, 'message')}`
     return `[${time}] Companion: ${msg.content}`
   }).join('\n')
+}
+
+/** With a running summary, `history` only needs the turns the summary does not cover. */
+export function buildTherapistSessionNotePrompt(
+  history: SessionMessage[],
+  runningSummary?: string,
+): { role: 'system' | 'user'; content: string }[] {
+  const transcript = formatCompanionTranscript(history)
+  const earlier = runningSummary?.trim()
+    ? `Summary of the earlier conversation:\n${sanitizeForPrompt(runningSummary.trim())}\n\n`
+    : ''
 
   return [
     {
@@ -204,7 +222,27 @@ export function buildTherapistSessionNotePrompt(
     },
     {
       role: 'user',
-      content: `Transcript:\n${transcript}\n\nWrite the session note.`,
+      content: `${earlier}Transcript:\n${transcript}\n\nWrite the session note.`,
+    },
+  ]
+}
+
+export function buildRunningSummaryPrompt(
+  previousSummary: string | undefined,
+  history: SessionMessage[],
+): { role: 'system' | 'user'; content: string }[] {
+  const previous = previousSummary?.trim()
+    ? `Summary so far:\n${sanitizeForPrompt(previousSummary.trim())}\n\n`
+    : ''
+
+  return [
+    {
+      role: 'system',
+      content: `You keep a running summary of a long conversation between a writer and their companion, so the companion can keep talking without rereading every message. Fold the new messages into the summary. Keep what the writer shared, names and specifics they used, feelings and how they shifted, and anything the companion offered that the writer picked up. Drop small talk. Write in third person about 'the writer', in plain prose, at most 200 words. Output only the updated summary.${UNTRUSTED_CONTENT_PREAMBLE}`,
+    },
+    {
+      role: 'user',
+      content: `${previous}New messages:\n${formatCompanionTranscript(history)}\n\nWrite the updated summary.`,
     },
   ]
 }
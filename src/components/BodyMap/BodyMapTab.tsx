@@ -1,6 +1,8 @@
-import { useState, useEffect } from 'react'
-import { db } from '../../store/db'
-import { computeHomunculusState, DORMANT_THRESHOLD, BODY_REGIONS } from '../../engine/bodyMapEngine'
+import { useState, useEffect, useCallback } from 'react'
+import { db, generateId } from '../../store/db'
+import { computeHomunculusState, buildSomaticCheckIn, DORMANT_THRESHOLD, BODY_REGIONS } from '../../engine/bodyMapEngine'
+import type { SomaticCheckIn } from '../../engine/bodyMapEngine'
+import { trackEvent } from '../../services/analytics'
 import { HomunculusSVG } from './HomunculusSVG'
 import { RegionDetail } from './RegionDetail'
 import { useTranslation } from '../../i18n'
@@ -11,6 +13,7 @@ function emptyState(): HomunculusState {
   for (const region of BODY_REGIONS) {
     state[region] = {
       signalCount: 0,
+      manualCount: 0,
       dominantEmotions: [],
       sizeFactor: 1.0,
       fillColor: '#D4CFC8',
@@ -24,6 +27,7 @@ export function BodyMapTab() {
   const [state, setState] = useState<HomunculusState>(emptyState)
   const [selectedRegion, setSelectedRegion] = useState<BodyRegion | null>(null)
   const [totalSignals, setTotalSignals] = useState(0)
+  const [reloadKey, setReloadKey] = useState(0)
   const t = useTranslation()
 
   useEffect(() => {
@@ -40,10 +44,30 @@ export function BodyMapTab() {
 
     load()
     return () => { cancelled = true }
+  }, [reloadKey])
+
+  const handleCheckIn = useCallback(async (checkIn: SomaticCheckIn) => {
+    await db.memories.add(buildSomaticCheckIn(checkIn, generateId()))
+    trackEvent('somatic_check_in', { region: checkIn.region, intensity: checkIn.intensity, has_note: checkIn.note.trim().length > 0 })
+    setReloadKey(k => k + 1)
   }, [])
 
+  const toggleRegion = (region: BodyRegion) => setSelectedRegion(
+    selectedRegion === region ? null : region
+  )
+
   const isDormant = totalSignals < DORMANT_THRESHOLD
 
+  const detail = selectedRegion && (
+    <RegionDetail
+      key={selectedRegion}
+      region={selectedRegion}
+      state={state[selectedRegion]}
+      onClose={() => setSelectedRegion(null)}
+      onCheckIn={handleCheckIn}
+    />
+  )
+
   return (
     <div
       style={{ padding: '0 4px' }}
@@ -59,35 +83,31 @@ export function BodyMapTab() {
         }}>
           <HomunculusSVG
             state={emptyState()}
-            onRegionTap={() => {}}
-            selectedRegion={null}
+            onRegionTap={toggleRegion}
+            selectedRegion={selectedRegion}
           />
-          <p style={{
-            fontSize: 12,
-            color: 'var(--text-ghost)',
-            fontStyle: 'italic',
-            textAlign: 'center',
-            letterSpacing: '0.02em',
-          }}>
-            {t['bodyMap.dormant']}
-          </p>
+          {detail ? <div style={{ width: '100%' }}>{detail}</div> : (
+            <p style={{
+              fontSize: 12,
+              color: 'var(--text-ghost)',
+              fontStyle: 'italic',
+              textAlign: 'center',
+              letterSpacing: '0.02em',
+            }}>
+              {t['bodyMap.dormant']}
+              <br />
+              {t['bodyMap.checkIn.hint']}
+            </p>
+          )}
         </div>
       ) : (
         <>
           <HomunculusSVG
             state={state}
-            onRegionTap={(region) => setSelectedRegion(
-              selectedRegion === region ? null : region
-            )}
+            onRegionTap={toggleRegion}
             selectedRegion={selectedRegion}
           />
-          {selectedRegion && (
-            <RegionDetail
-              region={selectedRegion}
-              state={state[selectedRegion]}
-              onClose={() => setSelectedRegion(null)}
-            />
-          )}
+          {detail}
         </>
       )}
     </div>
@@ -78,7 +78,10 @@ export function HomunculusSVG({ state, onRegionTap, selectedRegion }: Props) {
               transformOrigin: `${center.x}px ${center.y}px`,
               cursor: 'pointer',
             }}
-            onClick={() => onRegionTap(region)}
+            onClick={(e) => {
+              e.stopPropagation()
+              onRegionTap(region)
+            }}
           >
             <path
               d={regionPaths[region]}
@@ -1,14 +1,96 @@
-import type { BodyRegion, HomunculusRegionState } from '../../types'
+import { useState } from 'react'
+import type { BodyRegion, HomunculusRegionState, SomaticMemory } from '../../types'
+import { CHECK_IN_EMOTIONS, CHECK_IN_NOTE_MAX, mapEmotionToColor } from '../../engine/bodyMapEngine'
+import type { SomaticCheckIn } from '../../engine/bodyMapEngine'
 import { useTranslation } from '../../i18n'
+import type { TranslationKey } from '../../i18n'
+
+const INTENSITIES: SomaticMemory['intensity'][] = ['low', 'medium', 'high']
 
 interface Props {
   region: BodyRegion
   state: HomunculusRegionState
   onClose: () => void
+  onCheckIn: (checkIn: SomaticCheckIn) => Promise<void>
 }
 
-export function RegionDetail({ region, state, onClose }: Props) {
+const chipStyle = (active: boolean, color = 'var(--text-secondary)') => ({
+  fontSize: 10,
+  fontFamily: "'Inter', sans-serif",
+  padding: '2px 8px',
+  borderRadius: 10,
+  border: `1px solid ${active ? color : 'var(--border-subtle)'}`,
+  background: active ? 'var(--overlay-subtle)' : 'none',
+  color: active ? color : 'var(--text-ghost)',
+  cursor: 'pointer',
+}) as const
+
+function CheckInForm({ region, onSave, onCancel }: {
+  region: BodyRegion
+  onSave: (checkIn: SomaticCheckIn) => Promise<void>
+  onCancel: () => void
+}) {
   const t = useTranslation()
+  const [emotion, setEmotion] = useState<string | null>(null)
+  const [intensity, setIntensity] = useState<SomaticMemory['intensity']>('medium')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const save = async () => {
+    if (!emotion || saving) return
+    setSaving(true)
+    try {
+      await onSave({ region, emotion, intensity, note })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 12 }}>
+      <div style={{ fontSize: 11, color: 'var(--text-secondary)' }}>{t['bodyMap.checkIn.prompt']}</div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+        {CHECK_IN_EMOTIONS.map(e => (
+          <button key={e} style={chipStyle(e === emotion, mapEmotionToColor(e))} onClick={() => setEmotion(e)}>
+            {t[`bodyMap.checkIn.emotion.${e}` as TranslationKey] ?? e}
+          </button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 4 }}>
+        {INTENSITIES.map(i => (
+          <button key={i} style={chipStyle(i === intensity)} onClick={() => setIntensity(i)}>
+            {t[`bodyMap.checkIn.intensity.${i}`]}
+          </button>
+        ))}
+      </div>
+      <input
+        type="text"
+        value={note}
+        maxLength={CHECK_IN_NOTE_MAX}
+        placeholder={t['bodyMap.checkIn.notePlaceholder']}
+        onChange={e => setNote(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter') save() }}
+        style={{
+          fontSize: 12,
+          fontFamily: "'Inter', sans-serif",
+          padding: '4px 6px',
+          border: '1px solid var(--border-subtle)',
+          borderRadius: 4,
+          background: 'none',
+          color: 'var(--text-primary)',
+        }}
+      />
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+        <button style={chipStyle(false)} onClick={onCancel}>{t['bodyMap.checkIn.cancel']}</button>
+        <button style={chipStyle(true)} disabled={!emotion || saving} onClick={save}>{t['bodyMap.checkIn.save']}</button>
+      </div>
+    </div>
+  )
+}
+
+export function RegionDetail({ region, state, onClose, onCheckIn }: Props) {
+  const t = useTranslation()
+  const [checkingIn, setCheckingIn] = useState(false)
   const regionKey = `bodyMap.region.${region}` as keyof typeof t
 
   return (
@@ -51,6 +133,24 @@ export function RegionDetail({ region, state, onClose }: Props) {
         </button>
       </div>
 
+      {checkingIn ? (
+        <CheckInForm
+          region={region}
+          onSave={async (checkIn) => {
+            await onCheckIn(checkIn)
+            setCheckingIn(false)
+          }}
+          onCancel={() => setCheckingIn(false)}
+        />
+      ) : (
+        <button
+          style={{ ...chipStyle(false), marginBottom: 10 }}
+          onClick={() => setCheckingIn(true)}
+        >
+          {t['bodyMap.checkIn.open']}
+        </button>
+      )}
+
       {state.dominantEmotions.length > 0 && (
         <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 10 }}>
           {state.dominantEmotions.map(({ emotion, color }) => (
@@ -81,13 +181,13 @@ export function RegionDetail({ region, state, onClose }: Props) {
               }}>
                 &ldquo;{q.text}&rdquo;
               </span>
-              {q.date && (
+              {(q.date || q.manual) && (
                 <span style={{
                   fontSize: 10,
                   color: 'var(--text-ghost)',
                   marginLeft: 6,
                 }}>
-                  {q.date}
+                  {[q.date, q.manual ? t['bodyMap.checkIn.manual'] : ''].filter(Boolean).join(' · ')}
                 </span>
               )}
             </div>
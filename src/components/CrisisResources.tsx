@@ -1,5 +1,10 @@
 import { useState } from 'react'
-import { useTranslation, getLanguageCode } from '../i18n'
+import { useTranslation } from '../i18n'
+import { useSettings, DEFAULT_TIMEZONE } from '../store/settings'
+import { CRISIS_REGIONS, getCrisisResources, resolveCrisisRegion } from '../engine/crisisResources'
+import type { CrisisContact } from '../engine/crisisResources'
+
+const linkStyle = { color: 'var(--color-still)', textDecoration: 'underline', textUnderlineOffset: 3 } as const
 
 interface CrisisResourcesProps {
   visible: boolean
@@ -14,10 +19,20 @@ export function CrisisResources({ visible }: CrisisResourcesProps) {
 function CrisisResourcesCard() {
   const [dismissed, setDismissed] = useState(false)
   const t = useTranslation()
-  const isEnglish = getLanguageCode() === 'en'
+  const settings = useSettings()
+  const region = resolveCrisisRegion(settings, DEFAULT_TIMEZONE)
+  const resources = getCrisisResources(region, settings.language)
+  const emergency = region ? CRISIS_REGIONS[region]?.emergency : undefined
+  const hasLocal = resources.length > 0
 
   if (dismissed) return null
 
+  const contactLabel = (contact: CrisisContact) => {
+    if (contact.kind === 'phone') return t['crisis.call']
+    if (contact.kind === 'chat') return t['crisis.chat']
+    return contact.keyword ? t['crisis.textKeyword'].replace('{keyword}', contact.keyword) : t['crisis.text']
+  }
+
   return (
     <div
       className="crisis-resources"
@@ -66,47 +81,44 @@ function CrisisResourcesCard() {
       </div>
 
       <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
-        {isEnglish && (
-          <>
-            <div style={{ fontSize: 13, color: 'var(--text-secondary)', lineHeight: 1.5 }}>
-              <strong>{t['crisis.988.name']}</strong>
-              <br />
-              {t['crisis.988.action']}{' '}
-              <a
-                href="tel:988"
-                style={{ color: 'var(--color-still)', textDecoration: 'underline', textUnderlineOffset: 3 }}
-              >
-                988
-              </a>
-            </div>
+        {resources.map((resource) => (
+          <div key={resource.name} style={{ fontSize: 13, color: 'var(--text-secondary)', lineHeight: 1.5 }}>
+            <strong>{resource.name}</strong>
+            {resource.contacts.map((contact) => (
+              <div key={contact.href}>
+                {contactLabel(contact)}{' '}
+                <a
+                  href={contact.href}
+                  {...(contact.kind === 'chat' ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+                  style={linkStyle}
+                >
+                  {contact.value}
+                </a>
+              </div>
+            ))}
+          </div>
+        ))}
 
-            <div style={{ fontSize: 13, color: 'var(--text-secondary)', lineHeight: 1.5 }}>
-              <strong>{t['crisis.textLine.name']}</strong>
-              <br />
-              {t['crisis.textLine.action']}{' '}
-              <a
-                href="sms:741741&body=HOME"
-                style={{ color: 'var(--color-still)', textDecoration: 'underline', textUnderlineOffset: 3 }}
-              >
-                741741
-              </a>
-            </div>
-          </>
+        {emergency && (
+          <div style={{ fontSize: 13, color: 'var(--text-secondary)', lineHeight: 1.5 }}>
+            {t['crisis.emergency']}{' '}
+            <a href={`tel:${emergency}`} style={linkStyle}>{emergency}</a>
+          </div>
         )}
 
         <div style={{
-          fontSize: isEnglish ? 12 : 13,
-          color: isEnglish ? 'var(--text-ghost)' : 'var(--text-secondary)',
+          fontSize: hasLocal ? 12 : 13,
+          color: hasLocal ? 'var(--text-ghost)' : 'var(--text-secondary)',
           lineHeight: 1.5,
-          paddingTop: isEnglish ? 4 : 0,
-          borderTop: isEnglish ? '1px solid var(--border-light)' : 'none',
+          paddingTop: hasLocal ? 4 : 0,
+          borderTop: hasLocal ? '1px solid var(--border-light)' : 'none',
         }}>
-          {isEnglish ? t['crisis.international'] : t['crisis.internationalOnly']}{' '}
+          {hasLocal ? t['crisis.elsewhere'] : t['crisis.internationalOnly']}{' '}
           <a
             href="https://findahelpline.com"
             target="_blank"
             rel="noopener noreferrer"
-            style={{ color: 'var(--color-still)', textDecoration: 'underline', textUnderlineOffset: 3 }}
+            style={linkStyle}
           >
             {t['crisis.findHelpline']}
           </a>
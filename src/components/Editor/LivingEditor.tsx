@@ -5,6 +5,7 @@ import Placeholder from '@tiptap/extension-placeholder'
 import { InkWeight } from '../../extensions/inkWeight'
 import { ParagraphSettle } from '../../extensions/paragraphSettle'
 import { MarginTraces, marginTracesKey } from '../../extensions/marginTraces'
+import { BiometricShifts, biometricShiftsKey } from '../../extensions/biometricShifts'
 import { ColorBleed, colorBleedKey } from '../../extensions/colorBleed'
 import { TextHighlight, textHighlightKey } from '../../extensions/textHighlight'
 import { GhostText, ghostTextKey } from '../../extensions/ghostText'
@@ -14,9 +15,12 @@ import { PartOrchestrator } from '../../engine/partOrchestrator'
 import { EmergenceEngine } from '../../engine/emergenceEngine'
 import { BlankPageEngine } from '../../engine/blankPageEngine'
 import { useAutocorrect } from '../../hooks/useAutocorrect'
+import { useHrvSession } from '../../hooks/useHrvSession'
 import { recordFlowKeystroke } from '../../hooks/useFlowState'
 import type { AppSettings } from '../../store/settings'
 import { PartThoughtBubble } from './PartThoughtBubble'
+import { BiometricsBar } from '../Session/HrvAmbientBar'
+import { HrvConsentDialog } from '../Session/HrvConsentDialog'
 import { ThinkingSpace } from '../ThinkingOutLoud/ThinkingSpace'
 import { PauseRipple } from '../Atmosphere/PauseRipple'
 import { usePauseRipple } from '../Atmosphere/usePauseRipple'
@@ -25,6 +29,8 @@ import { buildInteractionReply } from '../../ai/partPrompts'
 import { streamChatCompletion } from '../../ai/openrouter'
 import { db, generateId } from '../../store/db'
 import { getGlobalConfig, useGlobalConfig } from '../../store/globalConfig'
+import { activateGrounding } from '../../store/groundingState'
+import { subscribePartsChanged } from '../../store/partManagement'
 import { trackEvent } from '../../services/analytics'
 import { t, getPartDisplayName } from '../../i18n'
 import type { EmotionalTone, Part, PartAnnotations, PartThought } from '../../types'
@@ -100,6 +106,13 @@ export default function LivingEditor({
 
   const firstKeystrokeRef = useRef(false)
 
+  // Camera heart rhythm, lined up against pauses, part thoughts and paragraphs
+  const entryIdRef = useRef<string | null>(entryId)
+  const hrv = useHrvSession(entryIdRef, { source: 'journal' })
+  const addHrvJournalEvent = hrv.addJournalEvent
+  const hrvContextRef = useRef(hrv.buildPromptContext)
+  const showBiometrics = globalConfig?.features?.webcamHrv === true && settings.journalBiometrics
+
   const handleAutocorrect = useAutocorrect({
     autocorrect: settings.autocorrect,
     autoCapitalize: settings.autoCapitalize,
@@ -129,6 +142,7 @@ export default function LivingEditor({
       InkWeight,
       ParagraphSettle,
       MarginTraces,
+      BiometricShifts,
       ColorBleed,
       TextHighlight,
       GhostText,
@@ -161,6 +175,10 @@ export default function LivingEditor({
           const text = editor?.getText() || ''
           const pos = editor?.state.selection.from || 0
           pauseDetectorRef.current?.recordKeystroke(event.key, text, pos)
+          if (event.key === 'Enter' && editor) {
+            const paragraph = editor.state.selection.$from.parent.textContent
+            if (paragraph.trim()) addHrvJournalEvent('paragraph', { text: paragraph })
+          }
           recordFlowKeystroke()
 
           // Track typing intensity for breathing sync
@@ -358,6 +376,37 @@ export default function LivingEditor({
     }
   }, [editor, entryId])
 
+  // Keep the recording under this entry, and let parts read it when they speak
+  useEffect(() => {
+    entryIdRef.current = entryId
+  }, [entryId])
+
+  useEffect(() => {
+    hrvContextRef.current = hrv.buildPromptContext
+  }, [hrv.buildPromptContext])
+
+  // Turning the setting off stops the camera; leaving the entry saves what was recorded
+  const stopHrv = hrv.stopAndFlush
+  useEffect(() => {
+    if (!showBiometrics) stopHrv().catch(console.error)
+  }, [showBiometrics, stopHrv])
+
+  useEffect(() => () => { stopHrv().catch(console.error) }, [stopHrv])
+
+  // Mark where the body settled or stirred
+  const latestShift = hrv.latestShift
+  useEffect(() => {
+    if (!editor || !latestShift || latestShift.toState === 'transitioning') return
+    const direction = latestShift.toState === 'calm' ? 'settled' : 'stirred'
+    const tr = editor.state.tr.setMeta(biometricShiftsKey, {
+      action: 'add',
+      pos: editor.state.selection.from,
+      direction,
+      label: t(`editor.biometrics.${direction}`),
+    })
+    editor.view.dispatch(tr)
+  }, [editor, latestShift])
+
   // Sync intention to orchestrator
   useEffect(() => {
     intentionRef.current = intention || ''
@@ -449,6 +498,7 @@ export default function LivingEditor({
         const current = currentThoughtRef.current
         if (!current) return
         const id = current.id
+        addHrvJournalEvent('part_thought', { partId: current.partId, partName: current.partName })
         pendingBleedColorRef.current = current.partColor
         currentThoughtRef.current = null
         setThoughts((prev) =>
@@ -554,8 +604,11 @@ export default function LivingEditor({
     })
 
     orchestrator.setEntryId(entryId)
+    orchestrator.setHrvContext(() => hrvContextRef.current())
     orchestrator.loadParts()
     orchestratorRef.current = orchestrator
+    // Edits from the parts panel (rename, mute, archive) apply without reopening the entry
+    const unsubscribeParts = subscribePartsChanged(() => { orchestrator.loadParts() })
 
     const emergence = new EmergenceEngine()
     emergenceRef.current = emergence
@@ -563,6 +616,7 @@ export default function LivingEditor({
     const pauseDetector = new PauseDetector(async (event) => {
       // Trigger ripple on pause detection (before thought appears)
       triggerRipple()
+      addHrvJournalEvent('pause', { pauseType: event.type, text: event.recentText })
 
       await orchestrator.handlePause(event)
 
@@ -590,18 +644,22 @@ export default function LivingEditor({
           addMarginTrace(result.part.color)
         }
       }
+    }, () => {
+      // Keyword safety net — immediate, and independent of the AI being reachable
+      activateGrounding('auto')
     })
 
     pauseDetectorRef.current = pauseDetector
 
     return () => {
       pauseDetector.destroy()
+      unsubscribeParts()
       if (pendingThoughtUpdateRef.current) {
         cancelAnimationFrame(pendingThoughtUpdateRef.current)
         pendingThoughtUpdateRef.current = null
       }
     }
-  }, [entryId, onEmotionChange, onActivePartColorChange, triggerRipple, addMarginTrace])
+  }, [entryId, onEmotionChange, onActivePartColorChange, triggerRipple, addMarginTrace, addHrvJournalEvent])
 
   const handleThoughtClick = useCallback(
     (thought: ActiveThought) => {
@@ -703,6 +761,7 @@ export default function LivingEditor({
           },
         },
         150,
+        'interaction-reply',
       )
     },
     [activeInteraction, editor, entryId],
@@ -717,6 +776,37 @@ export default function LivingEditor({
 
   return (
     <div className={`editor-container${settings.typewriterScroll === 'typewriter' ? ' typewriter-active' : ''}`} id="editor">
+      {showBiometrics && (
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 6, marginBottom: 12 }}>
+          {hrv.enabled && (
+            <div style={{ flex: 1 }}>
+              <BiometricsBar
+                latest={hrv.latestMeasurement}
+                measurementCount={hrv.measurementCount}
+                isCalibrating={hrv.calibrating}
+                error={hrv.error}
+              />
+            </div>
+          )}
+          <button
+            onClick={hrv.toggle}
+            style={{
+              padding: '3px 8px',
+              borderRadius: 6,
+              border: '1px solid var(--border-subtle)',
+              background: 'transparent',
+              color: 'var(--text-ghost)',
+              fontFamily: "'Inter', sans-serif",
+              fontSize: 10,
+              cursor: 'pointer',
+              flexShrink: 0,
+            }}
+          >
+            {t(hrv.enabled ? 'editor.biometrics.off' : 'editor.biometrics.on')}
+          </button>
+        </div>
+      )}
+
       <EditorContent editor={editor} />
 
       <PauseRipple ripples={ripples} />
@@ -766,6 +856,16 @@ export default function LivingEditor({
           />
         )}
       </div>
+
+      {hrv.showConsent && (
+        <HrvConsentDialog
+          onAccept={() => {
+            hrv.setShowConsent(false)
+            hrv.start()
+          }}
+          onDecline={() => hrv.setShowConsent(false)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,259 @@
+import { useState, useEffect } from 'react'
+import { exportEntries } from '../store/dataExport'
+import type { EntryExportOptions, ExportFormat } from '../store/dataExport'
+import { trackEvent } from '../services/analytics'
+import { useTranslation } from '../i18n'
+import type { TranslationKey } from '../i18n'
+
+interface ExportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Entries picked in the sidebar — without them the modal offers a date range */
+  entryIds?: string[]
+}
+
+const FORMATS: { value: ExportFormat; label: TranslationKey }[] = [
+  { value: 'markdown', label: 'exportModal.markdown' },
+  { value: 'html', label: 'exportModal.html' },
+  { value: 'print', label: 'exportModal.print' },
+  { value: 'text', label: 'exportModal.text' },
+]
+
+type IncludeKey = 'includeThoughts' | 'includeInteractions' | 'includeFossils' | 'includeReflections'
+
+const INCLUDES: { key: IncludeKey; label: TranslationKey }[] = [
+  { key: 'includeThoughts', label: 'exportModal.thoughts' },
+  { key: 'includeInteractions', label: 'exportModal.interactions' },
+  { key: 'includeReflections', label: 'exportModal.reflections' },
+  { key: 'includeFossils', label: 'exportModal.fossils' },
+]
+
+// <input type="date"> works in local YYYY-MM-DD
+function toDateInput(ms: number): string {
+  const d = new Date(ms)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function fromDateInput(value: string): number {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day).getTime()
+}
+
+export default function ExportModal({ isOpen, onClose, entryIds }: ExportModalProps) {
+  // Inner component unmounts when closed, so state resets on next open
+  if (!isOpen) return null
+  return <ExportModalContent onClose={onClose} entryIds={entryIds} />
+}
+
+function ExportModalContent({ onClose, entryIds }: { onClose: () => void; entryIds?: string[] }) {
+  const t = useTranslation()
+  const [format, setFormat] = useState<ExportFormat>('markdown')
+  const [from, setFrom] = useState(() => toDateInput(Date.now() - 6 * 24 * 60 * 60 * 1000))
+  const [to, setTo] = useState(() => toDateInput(Date.now()))
+  const [includes, setIncludes] = useState<Record<IncludeKey, boolean>>({
+    includeThoughts: true,
+    includeInteractions: true,
+    includeFossils: true,
+    includeReflections: true,
+  })
+  const [exporting, setExporting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [onClose])
+
+  const rangeValid = Boolean(entryIds) || (from !== '' && to !== '' && from <= to)
+
+  const handleExport = async () => {
+    if (!rangeValid || exporting) return
+    setExporting(true)
+    setMessage(null)
+    const options: EntryExportOptions = entryIds
+      ? { entryIds, ...includes }
+      // The end date is inclusive, so the range runs to the following midnight
+      : { from: fromDateInput(from), to: fromDateInput(to) + 24 * 60 * 60 * 1000, ...includes }
+    try {
+      const count = await exportEntries(format, options)
+      trackEvent('export_entries', { format, count, selection: entryIds ? 'selected' : 'range' })
+      if (count === 0) {
+        setMessage(t['exportModal.empty'])
+        setExporting(false)
+        return
+      }
+      onClose()
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Export failed')
+      setExporting(false)
+    }
+  }
+
+  const labelStyle = {
+    fontSize: 12,
+    color: 'var(--text-secondary)',
+    marginBottom: 8,
+  } as const
+
+  const dateInputStyle = {
+    flex: 1,
+    padding: '6px 10px',
+    border: '1px solid var(--border-subtle)',
+    borderRadius: 6,
+    fontFamily: "'Inter', sans-serif",
+    fontSize: 13,
+    background: 'var(--surface-primary)',
+    color: 'var(--text-primary)',
+    outline: 'none',
+  } as const
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 9998,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'var(--overlay-medium)',
+      }}
+      onClick={(e) => { if (e.target === e.currentTarget && !exporting) onClose() }}
+    >
+      <div style={{
+        width: '100%',
+        maxWidth: 420,
+        margin: 16,
+        background: 'var(--bg-primary)',
+        borderRadius: 12,
+        border: '1px solid var(--border-subtle)',
+        padding: '24px',
+        fontFamily: "'Inter', sans-serif",
+      }}>
+        <div style={{
+          fontSize: 16,
+          fontWeight: 500,
+          color: 'var(--text-primary)',
+          marginBottom: 16,
+        }}>
+          {t['exportModal.title']}
+        </div>
+
+        {entryIds ? (
+          <div style={{ ...labelStyle, marginBottom: 16 }}>
+            {t['exportModal.selected'].replace('{count}', String(entryIds.length))}
+          </div>
+        ) : (
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 16 }}>
+            <input
+              type="date"
+              aria-label={t['exportModal.from']}
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              style={dateInputStyle}
+            />
+            <span style={{ fontSize: 12, color: 'var(--text-ghost)' }}>{t['exportModal.to']}</span>
+            <input
+              type="date"
+              aria-label={t['exportModal.to']}
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              style={dateInputStyle}
+            />
+          </div>
+        )}
+
+        <div style={labelStyle}>{t['exportModal.format']}</div>
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginBottom: 16 }}>
+          {FORMATS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setFormat(value)}
+              style={{
+                padding: '5px 10px',
+                fontSize: 12,
+                fontFamily: "'Inter', sans-serif",
+                color: format === value ? 'var(--text-primary)' : 'var(--text-ghost)',
+                background: format === value ? 'var(--overlay-subtle)' : 'none',
+                border: '1px solid var(--border-subtle)',
+                borderRadius: 6,
+                cursor: 'pointer',
+              }}
+            >
+              {t[label]}
+            </button>
+          ))}
+        </div>
+
+        <div style={labelStyle}>{t['exportModal.include']}</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 20 }}>
+          {INCLUDES.map(({ key, label }) => (
+            <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, color: 'var(--text-primary)', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={includes[key]}
+                onChange={(e) => setIncludes((prev) => ({ ...prev, [key]: e.target.checked }))}
+              />
+              {t[label]}
+            </label>
+          ))}
+        </div>
+
+        {message && (
+          <div style={{
+            fontSize: 12,
+            color: 'var(--color-tender)',
+            marginBottom: 12,
+          }}>
+            {message}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            style={{
+              flex: 1,
+              padding: '8px 16px',
+              fontSize: 13,
+              fontFamily: "'Inter', sans-serif",
+              color: 'var(--text-secondary)',
+              background: 'none',
+              border: '1px solid var(--border-subtle)',
+              borderRadius: 6,
+              cursor: exporting ? 'default' : 'pointer',
+              opacity: exporting ? 0.5 : 1,
+            }}
+          >
+            {t['exportModal.cancel']}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!rangeValid || exporting}
+            style={{
+              flex: 1,
+              padding: '8px 16px',
+              fontSize: 13,
+              fontFamily: "'Inter', sans-serif",
+              fontWeight: 500,
+              color: rangeValid ? 'var(--bg-primary)' : 'var(--text-ghost)',
+              background: rangeValid ? 'var(--text-primary)' : 'var(--border-light)',
+              border: 'none',
+              borderRadius: 6,
+              cursor: rangeValid && !exporting ? 'pointer' : 'default',
+              opacity: exporting ? 0.6 : 1,
+            }}
+          >
+            {exporting ? t['exportModal.exporting'] : t['exportModal.export']}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
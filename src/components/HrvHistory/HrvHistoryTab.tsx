@@ -0,0 +1,197 @@
+import { useState, useEffect, useMemo } from 'react'
+import { db } from '../../store/db'
+import {
+  loadHrvHistory, filterByTimeOfDay, summarizeBy, summarizeByWeek, recentPoints,
+} from '../../engine/hrvHistory'
+import type { HrvHistoryPoint, HrvHistorySummary } from '../../engine/hrvHistory'
+import type { TimeOfDay } from '../../engine/ritualEngine'
+import { useTranslation, getPartDisplayName } from '../../i18n'
+import type { TranslationKey } from '../../i18n'
+import type { Part } from '../../types'
+
+const TIMES: (TimeOfDay | 'all')[] = ['all', 'early-morning', 'morning', 'afternoon', 'evening', 'night']
+const WEEKS_SHOWN = 12
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Local midnight of a YYYY-MM-DD week key */
+function weekStart(key: string): number {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day).getTime()
+}
+
+const sectionLabelStyle = {
+  fontSize: 10,
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'var(--text-ghost)',
+  margin: '16px 0 6px',
+} as const
+
+const chipStyle = (active: boolean) => ({
+  fontSize: 10,
+  fontFamily: "'Inter', sans-serif",
+  background: active ? 'var(--overlay-subtle)' : 'none',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: 10,
+  padding: '2px 8px',
+  cursor: 'pointer',
+  color: active ? 'var(--text-secondary)' : 'var(--text-ghost)',
+}) as const
+
+/** One metric across weeks, as a small line with its latest value */
+function WeeklyLine({ label, weeks, value, unit }: {
+  label: string
+  weeks: HrvHistorySummary[]
+  value: (week: HrvHistorySummary) => number | null
+  unit: string
+}) {
+  const values = weeks.map(value)
+  const known = values.filter((v): v is number => v != null)
+  if (known.length === 0) return null
+
+  const width = 160
+  const height = 28
+  const min = Math.min(...known)
+  const span = Math.max(...known) - min || 1
+  // Weeks without recordings leave a gap rather than closing up
+  const offsets = weeks.map(w => Math.round((weekStart(w.key) - weekStart(weeks[0].key)) / WEEK_MS))
+  const lastOffset = offsets[offsets.length - 1]
+  const x = (i: number) => (lastOffset > 0 ? (offsets[i] / lastOffset) * width : width / 2)
+  const y = (v: number) => height - 2 - ((v - min) / span) * (height - 4)
+  const coords = values.flatMap((v, i) => (v != null ? [{ x: x(i), y: y(v) }] : []))
+  const last = coords[coords.length - 1]
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontSize: 11, color: 'var(--text-secondary)' }}>{label}</div>
+        <svg width={width} height={height} style={{ display: 'block', maxWidth: '100%' }}>
+          <polyline
+            points={coords.map(c => `${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke="var(--text-tertiary, #C4BEB8)"
+            strokeWidth={1.5}
+          />
+          <circle cx={last.x} cy={last.y} r={2} fill="var(--text-secondary)" />
+        </svg>
+      </div>
+      <span style={{ fontSize: 12, color: 'var(--text-primary)', fontVariantNumeric: 'tabular-nums' }}>
+        {known[known.length - 1]}{unit}
+      </span>
+    </div>
+  )
+}
+
+function SummaryTable({ rows, labelOf }: { rows: HrvHistorySummary[]; labelOf: (key: string) => string }) {
+  const t = useTranslation()
+  const cell = { padding: '2px 4px', textAlign: 'right', fontVariantNumeric: 'tabular-nums' } as const
+  return (
+    <table style={{ width: '100%', fontSize: 11, color: 'var(--text-secondary)', borderCollapse: 'collapse' }}>
+      <thead>
+        <tr style={{ color: 'var(--text-ghost)', fontSize: 10 }}>
+          <th style={{ ...cell, textAlign: 'left', fontWeight: 400 }} />
+          <th style={{ ...cell, fontWeight: 400 }}>{t['hrvHistory.column.count']}</th>
+          <th style={{ ...cell, fontWeight: 400 }}>{t['hrvHistory.column.hr']}</th>
+          <th style={{ ...cell, fontWeight: 400 }}>{t['hrvHistory.column.rmssd']}</th>
+          <th style={{ ...cell, fontWeight: 400 }}>{t['hrvHistory.column.shifts']}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key}>
+            <td style={{ ...cell, textAlign: 'left', textTransform: 'capitalize' }}>{labelOf(row.key)}</td>
+            <td style={cell}>{row.count}</td>
+            <td style={cell}>{row.averageHr}</td>
+            <td style={cell}>{row.averageRmssd}</td>
+            <td style={cell}>{row.shiftsPerRecording}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export function HrvHistoryTab() {
+  const [points, setPoints] = useState<HrvHistoryPoint[] | null>(null)
+  const [parts, setParts] = useState<Part[]>([])
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay | 'all'>('all')
+  const [loadFailed, setLoadFailed] = useState(false)
+  const t = useTranslation()
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      try {
+        const [history, allParts] = await Promise.all([loadHrvHistory(), db.parts.toArray()])
+        if (cancelled) return
+        setPoints(history)
+        setParts(allParts)
+      } catch (error) {
+        console.error('HRV history load error:', error)
+        if (!cancelled) setLoadFailed(true)
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [])
+
+  const filtered = useMemo(() => filterByTimeOfDay(points ?? [], timeOfDay), [points, timeOfDay])
+  const weeks = useMemo(() => summarizeByWeek(recentPoints(filtered, WEEKS_SHOWN)), [filtered])
+  const byWeather = useMemo(() => summarizeBy(filtered, p => p.weather), [filtered])
+  const byHost = useMemo(() => summarizeBy(filtered, p => p.hostPartId ?? p.mode), [filtered])
+
+  if (loadFailed) {
+    return (
+      <p style={{ fontSize: 12, color: 'var(--text-ghost)', fontStyle: 'italic', textAlign: 'center', marginTop: 24 }}>
+        {t['hrvHistory.error']}
+      </p>
+    )
+  }
+  if (points === null) return null
+
+  const hostLabel = (key: string) => {
+    const part = parts.find(p => p.id === key)
+    if (part) return getPartDisplayName(part)
+    if (key === 'futureSelf') return t['futureSelf.sessionHeader']
+    if (key === 'journal') return t['hrvHistory.host.journal']
+    return t['hrvHistory.host.session']
+  }
+
+  return (
+    <div style={{ padding: '0 8px 12px', fontFamily: "'Inter', sans-serif" }}>
+      <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+        {TIMES.map(time => (
+          <button key={time} style={chipStyle(time === timeOfDay)} onClick={() => setTimeOfDay(time)}>
+            {t[`hrvHistory.time.${time}`]}
+          </button>
+        ))}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p style={{ fontSize: 12, color: 'var(--text-ghost)', fontStyle: 'italic', textAlign: 'center', marginTop: 24 }}>
+          {t['hrvHistory.empty']}
+        </p>
+      ) : (
+        <>
+          <div style={sectionLabelStyle}>{t['hrvHistory.weeks']}</div>
+          <WeeklyLine label={t['hrvHistory.metric.baseline']} weeks={weeks} value={w => w.baselineRmssd} unit=" ms" />
+          <WeeklyLine label={t['hrvHistory.metric.hr']} weeks={weeks} value={w => w.averageHr} unit=" bpm" />
+          <WeeklyLine label={t['hrvHistory.metric.coherence']} weeks={weeks} value={w => w.coherence} unit="" />
+          <WeeklyLine label={t['hrvHistory.metric.shifts']} weeks={weeks} value={w => w.shiftsPerRecording} unit="" />
+
+          {byWeather.length > 0 && (
+            <>
+              <div style={sectionLabelStyle}>{t['hrvHistory.byWeather']}</div>
+              <SummaryTable rows={byWeather} labelOf={key => t[`emotion.${key}` as TranslationKey] ?? key} />
+            </>
+          )}
+
+          <div style={sectionLabelStyle}>{t['hrvHistory.byHost']}</div>
+          <SummaryTable rows={byHost} labelOf={hostLabel} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react'
+import { loadGrowthTimeline, diffGrowthStates, isEmptyDiff } from '../../store/growthSnapshots'
+import type { ListDiff } from '../../store/growthSnapshots'
+import { revertGrowth } from '../../store/partManagement'
+import { useTranslation, getPartDisplayName, getLanguageCode } from '../../i18n'
+import type { Part, PartGrowthSnapshot } from '../../types'
+
+interface Props {
+  part: Part
+  onReverted: () => void
+}
+
+const revertStyle = {
+  fontSize: 10,
+  fontFamily: "'Inter', sans-serif",
+  background: 'none',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: 4,
+  padding: '2px 8px',
+  cursor: 'pointer',
+  color: 'var(--text-secondary)',
+  marginTop: 4,
+} as const
+
+function ListChange({ label, diff }: { label: string; diff: ListDiff }) {
+  if (diff.added.length === 0 && diff.removed.length === 0) return null
+  return (
+    <div style={{ fontSize: 11, lineHeight: 1.5 }}>
+      <span style={{ color: 'var(--text-ghost)' }}>{label}: </span>
+      {diff.added.map(item => (
+        <span key={`+${item}`} style={{ color: 'var(--text-secondary)', marginRight: 6 }}>+{item}</span>
+      ))}
+      {diff.removed.map(item => (
+        <span key={`-${item}`} style={{ color: 'var(--text-ghost)', textDecoration: 'line-through', marginRight: 6 }}>{item}</span>
+      ))}
+    </div>
+  )
+}
+
+export function GrowthTimeline({ part, onReverted }: Props) {
+  const [snapshots, setSnapshots] = useState<PartGrowthSnapshot[]>([])
+  const [openId, setOpenId] = useState<string | null>(null)
+  const t = useTranslation()
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      const timeline = await loadGrowthTimeline(part.id)
+      if (!cancelled) setSnapshots(timeline)
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [part.id, part.growthVersion])
+
+  if (snapshots.length === 0) return null
+
+  const currentVersion = part.growthVersion ?? 0
+
+  const triggerLabel = (snapshot: PartGrowthSnapshot) => {
+    switch (snapshot.trigger) {
+      case 'merge': return t['parts.growth.trigger.merge'].replace('{name}', snapshot.mergedFrom ?? '')
+      case 'revert': return t['parts.growth.trigger.revert'].replace('{version}', String(snapshot.revertedTo))
+      case 'growth': return t['parts.growth.trigger.growth']
+      default: return t['parts.growth.trigger.baseline']
+    }
+  }
+
+  const handleRevert = async (snapshot: PartGrowthSnapshot) => {
+    const message = t['parts.growth.revertConfirm']
+      .replace('{name}', getPartDisplayName(part))
+      .replace('{version}', String(snapshot.version))
+    if (!window.confirm(message)) return
+    if (await revertGrowth(part.id, snapshot.version)) onReverted()
+  }
+
+  // Newest first, each compared with the version before it
+  const rows = snapshots.map((snapshot, i) => ({
+    snapshot,
+    diff: i > 0 ? diffGrowthStates(snapshots[i - 1].state, snapshot.state) : null,
+  })).reverse()
+
+  return (
+    <div style={{ padding: '0 8px 12px' }}>
+      <div style={{
+        fontSize: 10,
+        letterSpacing: '0.06em',
+        textTransform: 'uppercase',
+        color: 'var(--text-ghost)',
+        marginBottom: 4,
+      }}>
+        {t['parts.growth.title']}
+      </div>
+      {rows.map(({ snapshot, diff }) => {
+        const isOpen = openId === snapshot.id
+        const isCurrent = snapshot.version === currentVersion
+        return (
+          <div key={snapshot.id} style={{ borderLeft: `2px solid ${isCurrent ? part.color : 'var(--border-subtle)'}`, padding: '2px 0 6px 8px' }}>
+            <button
+              onClick={() => setOpenId(isOpen ? null : snapshot.id)}
+              aria-expanded={isOpen}
+              style={{
+                background: 'none', border: 'none', padding: 0, cursor: 'pointer',
+                fontSize: 11, color: 'var(--text-secondary)', textAlign: 'left',
+              }}
+            >
+              v{snapshot.version} · {triggerLabel(snapshot)} · {new Date(snapshot.createdAt).toLocaleDateString(getLanguageCode(), { month: 'short', day: 'numeric' })}
+              {isCurrent && <span style={{ opacity: 0.5 }}> · {t['parts.growth.current']}</span>}
+            </button>
+            {isOpen && (
+              <div style={{ marginTop: 4 }}>
+                {diff && isEmptyDiff(diff) && (
+                  <div style={{ fontSize: 11, color: 'var(--text-ghost)' }}>{t['parts.growth.noChange']}</div>
+                )}
+                {(diff ? diff.promptAddition?.after : snapshot.state.systemPromptAddition) && (
+                  <div style={{ fontSize: 11, lineHeight: 1.5 }}>
+                    <span style={{ color: 'var(--text-ghost)' }}>{t['parts.growth.prompt']}: </span>
+                    <span style={{ fontStyle: 'italic', color: 'var(--text-secondary)' }}>
+                      {diff ? diff.promptAddition!.after : snapshot.state.systemPromptAddition}
+                    </span>
+                  </div>
+                )}
+                {diff && (
+                  <>
+                    <ListChange label={t['parts.growth.keywords']} diff={diff.keywords} />
+                    <ListChange label={t['parts.growth.emotions']} diff={diff.emotions} />
+                    <ListChange label={t['parts.growth.catchphrases']} diff={diff.catchphrases} />
+                  </>
+                )}
+                {snapshot.inputMemories && snapshot.inputMemories.length > 0 && (
+                  <details style={{ fontSize: 11, color: 'var(--text-ghost)', marginTop: 2 }}>
+                    <summary style={{ cursor: 'pointer' }}>
+                      {t['parts.growth.from'].replace('{count}', String(snapshot.inputMemories.length))}
+                    </summary>
+                    {snapshot.inputMemories.map((memory, i) => (
+                      <div key={i} style={{ paddingLeft: 8, lineHeight: 1.5 }}>– {memory}</div>
+                    ))}
+                  </details>
+                )}
+                {!isCurrent && (
+                  <button style={revertStyle} onClick={() => handleRevert(snapshot)}>
+                    {t['parts.growth.revert']}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
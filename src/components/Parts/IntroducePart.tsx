@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { draftIntroducedPart } from '../../engine/partIntroductionEngine'
+import { introducePart } from '../../store/partManagement'
+import { useTranslation } from '../../i18n'
+import type { Part, PartDraft, IFSRole } from '../../types'
+
+interface Props {
+  /** Active parts, so the draft stays distinct from them */
+  parts: Part[]
+  onIntroduced: (part: Part) => void
+  onCancel: () => void
+}
+
+const ROLES: IFSRole[] = ['protector', 'manager', 'firefighter', 'exile', 'self']
+
+const fieldStyle = {
+  fontFamily: "'Inter', sans-serif",
+  fontSize: 12,
+  color: 'var(--text-primary)',
+  background: 'var(--surface-primary)',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: 4,
+  padding: '4px 6px',
+  outline: 'none',
+  width: '100%',
+  boxSizing: 'border-box',
+} as const
+
+const labelStyle = {
+  fontSize: 10,
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'var(--text-ghost)',
+  marginBottom: 2,
+} as const
+
+const actionStyle = {
+  fontSize: 11,
+  fontFamily: "'Inter', sans-serif",
+  background: 'none',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: 4,
+  padding: '4px 10px',
+  cursor: 'pointer',
+  color: 'var(--text-secondary)',
+} as const
+
+export function IntroducePart({ parts, onIntroduced, onCancel }: Props) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [role, setRole] = useState<IFSRole>('protector')
+  const [draft, setDraft] = useState<PartDraft | null>(null)
+  const [drafting, setDrafting] = useState(false)
+  const [problem, setProblem] = useState<'failed' | 'declined' | null>(null)
+  const t = useTranslation()
+
+  const handleDraft = async () => {
+    setDrafting(true)
+    setProblem(null)
+    const result = await draftIntroducedPart({ name, description, ifsRole: role }, parts)
+    setDrafting(false)
+    if (result.status === 'drafted') setDraft(result.draft)
+    else setProblem(result.status)
+  }
+
+  const handleApprove = async () => {
+    if (!draft) return
+    const examples = draft.examples.map(e => e.trim()).filter(Boolean)
+    onIntroduced(await introducePart({ ...draft, examples }))
+  }
+
+  const editDraft = (changes: Partial<PartDraft>) => setDraft(d => (d ? { ...d, ...changes } : d))
+
+  if (draft) {
+    const isComplete = draft.character.trim() && draft.concern.trim() && draft.voiceDescription.trim()
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8, padding: '0 8px 12px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="color"
+            value={draft.color}
+            onChange={e => editDraft({ color: e.target.value })}
+            style={{ width: 20, height: 20, padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+          />
+          <span style={{ fontSize: 12, color: 'var(--text-secondary)', lineHeight: 1.5 }}>
+            {t['parts.introduce.review'].replace('{name}', draft.name)}
+          </span>
+        </div>
+        <label>
+          <div style={labelStyle}>{t['parts.concern']}</div>
+          <input style={fieldStyle} value={draft.concern} maxLength={200} onChange={e => editDraft({ concern: e.target.value })} />
+        </label>
+        <label>
+          <div style={labelStyle}>{t['parts.introduce.voice']}</div>
+          <input style={fieldStyle} value={draft.voiceDescription} onChange={e => editDraft({ voiceDescription: e.target.value })} />
+        </label>
+        <label>
+          <div style={labelStyle}>{t['parts.introduce.character']}</div>
+          <textarea
+            style={{ ...fieldStyle, resize: 'vertical', minHeight: 120 }}
+            value={draft.character}
+            onChange={e => editDraft({ character: e.target.value })}
+          />
+        </label>
+        <label>
+          <div style={labelStyle}>{t['parts.introduce.examples']}</div>
+          <textarea
+            style={{ ...fieldStyle, resize: 'vertical', minHeight: 64, fontStyle: 'italic' }}
+            value={draft.examples.join('\n')}
+            onChange={e => editDraft({ examples: e.target.value.split('\n') })}
+          />
+        </label>
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+          <button style={actionStyle} disabled={!isComplete} onClick={handleApprove}>
+            {t['parts.introduce.approve'].replace('{name}', draft.name)}
+          </button>
+          <button style={actionStyle} onClick={() => setDraft(null)}>{t['parts.introduce.back']}</button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, padding: '0 8px 12px' }}>
+      <div style={{ fontSize: 12, color: 'var(--text-secondary)', lineHeight: 1.5 }}>{t['parts.introduce.hint']}</div>
+      <label>
+        <div style={labelStyle}>{t['parts.name']}</div>
+        <input style={fieldStyle} value={name} maxLength={40} onChange={e => setName(e.target.value)} />
+      </label>
+      <label>
+        <div style={labelStyle}>{t['parts.introduce.description']}</div>
+        <textarea
+          style={{ ...fieldStyle, resize: 'vertical', minHeight: 72 }}
+          value={description}
+          maxLength={600}
+          placeholder={t['parts.introduce.descriptionPlaceholder']}
+          onChange={e => setDescription(e.target.value)}
+        />
+      </label>
+      <label>
+        <div style={labelStyle}>{t['parts.introduce.role']}</div>
+        <select style={fieldStyle} value={role} onChange={e => setRole(e.target.value as IFSRole)}>
+          {ROLES.map(r => <option key={r} value={r}>{t[`parts.role.${r}`]}</option>)}
+        </select>
+      </label>
+      {problem && (
+        <div style={{ fontSize: 11, color: 'var(--text-ghost)', lineHeight: 1.5 }}>
+          {t[problem === 'declined' ? 'parts.introduce.declined' : 'parts.introduce.failed']}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+        <button style={actionStyle} onClick={handleDraft} disabled={drafting || !name.trim() || !description.trim()}>
+          {drafting ? t['parts.introduce.drafting'] : t['parts.introduce.draft']}
+        </button>
+        <button style={actionStyle} onClick={onCancel}>{t['parts.introduce.cancel']}</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react'
+import {
+  updatePartDetails, mutePart, mergeParts, retirePart, isPartMuted,
+} from '../../store/partManagement'
+import { useTranslation, getPartDisplayName, getLanguageCode } from '../../i18n'
+import type { Part } from '../../types'
+
+interface Props {
+  part: Part
+  /** Active parts, for choosing a merge target */
+  parts: Part[]
+  onChanged: () => void
+  onRetired: () => void
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const MUTE_DURATIONS = [
+  { key: 'parts.mute.hour', ms: HOUR_MS },
+  { key: 'parts.mute.day', ms: 24 * HOUR_MS },
+  { key: 'parts.mute.week', ms: 7 * 24 * HOUR_MS },
+] as const
+
+const fieldStyle = {
+  fontFamily: "'Inter', sans-serif",
+  fontSize: 12,
+  color: 'var(--text-primary)',
+  background: 'var(--surface-primary)',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: 4,
+  padding: '4px 6px',
+  outline: 'none',
+  width: '100%',
+  boxSizing: 'border-box',
+} as const
+
+const labelStyle = {
+  fontSize: 10,
+  letterSpacing: '0.06em',
+  textTransform: 'uppercase',
+  color: 'var(--text-ghost)',
+  marginBottom: 2,
+} as const
+
+const actionStyle = {
+  fontSize: 11,
+  fontFamily: "'Inter', sans-serif",
+  background: 'none',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: 4,
+  padding: '4px 10px',
+  cursor: 'pointer',
+  color: 'var(--text-secondary)',
+} as const
+
+export function PartDetail({ part, parts, onChanged, onRetired }: Props) {
+  const [name, setName] = useState(getPartDisplayName(part))
+  const [color, setColor] = useState(part.color)
+  const [concern, setConcern] = useState(part.concern)
+  const t = useTranslation()
+
+  const displayName = getPartDisplayName(part)
+  const muted = isPartMuted(part)
+  const mergeTargets = part.isSeeded ? [] : parts.filter(p => !p.isSeeded && p.id !== part.id)
+  const isDirty = name.trim() !== displayName || color !== part.color || concern.trim() !== part.concern
+
+  const handleSave = async () => {
+    await updatePartDetails(part.id, {
+      // An unchanged seeded name stays translatable
+      name: name.trim() !== displayName ? name : undefined,
+      color,
+      concern,
+    })
+    onChanged()
+  }
+
+  const handleMute = async (value: string) => {
+    const duration = MUTE_DURATIONS.find(d => d.key === value)
+    if (!duration) return
+    await mutePart(part.id, Date.now() + duration.ms)
+    onChanged()
+  }
+
+  const handleUnmute = async () => {
+    await mutePart(part.id, null)
+    onChanged()
+  }
+
+  const handleMerge = async (targetId: string) => {
+    const target = mergeTargets.find(p => p.id === targetId)
+    if (!target) return
+    const message = t['parts.mergeConfirm']
+      .replaceAll('{source}', displayName)
+      .replace('{target}', getPartDisplayName(target))
+    if (!window.confirm(message)) return
+    if (await mergeParts(part.id, target.id)) onRetired()
+  }
+
+  const handleRetire = async () => {
+    if (!window.confirm(t['parts.retireConfirm'].replace('{name}', displayName))) return
+    await retirePart(part.id)
+    onRetired()
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, padding: '0 8px 12px' }}>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'flex-end' }}>
+        <label style={{ flex: 1 }}>
+          <div style={labelStyle}>{t['parts.name']}</div>
+          <input style={fieldStyle} value={name} maxLength={40} onChange={e => setName(e.target.value)} />
+        </label>
+        <label>
+          <div style={labelStyle}>{t['parts.color']}</div>
+          <input
+            type="color"
+            value={color}
+            onChange={e => setColor(e.target.value)}
+            style={{ width: 28, height: 26, padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+          />
+        </label>
+      </div>
+      <label>
+        <div style={labelStyle}>{t['parts.concern']}</div>
+        <textarea
+          style={{ ...fieldStyle, resize: 'vertical', minHeight: 48 }}
+          value={concern}
+          maxLength={200}
+          onChange={e => setConcern(e.target.value)}
+        />
+      </label>
+      {isDirty && (
+        <button style={actionStyle} onClick={handleSave} disabled={!name.trim() || !concern.trim()}>
+          {t['parts.save']}
+        </button>
+      )}
+
+      <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+        {muted ? (
+          <>
+            <span style={{ fontSize: 11, color: 'var(--text-ghost)', alignSelf: 'center' }}>
+              {t['parts.mutedUntil'].replace('{time}', new Date(part.mutedUntil!).toLocaleString(getLanguageCode(), {
+                weekday: 'short', hour: 'numeric', minute: '2-digit',
+              }))}
+            </span>
+            <button style={actionStyle} onClick={handleUnmute}>{t['parts.unmute']}</button>
+          </>
+        ) : (
+          <select style={{ ...fieldStyle, width: 'auto' }} value="" onChange={e => handleMute(e.target.value)}>
+            <option value="" disabled>{t['parts.mute']}</option>
+            {MUTE_DURATIONS.map(d => <option key={d.key} value={d.key}>{t[d.key]}</option>)}
+          </select>
+        )}
+
+        {mergeTargets.length > 0 && (
+          <select style={{ ...fieldStyle, width: 'auto' }} value="" onChange={e => handleMerge(e.target.value)}>
+            <option value="" disabled>{t['parts.merge']}</option>
+            {mergeTargets.map(p => <option key={p.id} value={p.id}>{getPartDisplayName(p)}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div>
+        <button style={actionStyle} onClick={handleRetire}>{t['parts.retire']}</button>
+      </div>
+    </div>
+  )
+}
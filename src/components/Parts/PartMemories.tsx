@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react'
+import { db } from '../../store/db'
+import { setMemoryPinned, deleteMemory } from '../../engine/memoryConsolidation'
+import { useTranslation, getLanguageCode } from '../../i18n'
+import type { Part, PartMemory } from '../../types'
+
+interface Props {
+  part: Part
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  color: 'var(--text-ghost)',
+  cursor: 'pointer',
+  fontSize: 12,
+  padding: '2px 4px',
+  lineHeight: 1,
+}
+
+function byPinnedThenNewest(a: PartMemory, b: PartMemory): number {
+  if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1
+  return b.timestamp - a.timestamp
+}
+
+export function PartMemories({ part }: Props) {
+  const [memories, setMemories] = useState<PartMemory[]>([])
+  const [showRetired, setShowRetired] = useState(false)
+  const t = useTranslation()
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      const data = await db.memories.where('partId').equals(part.id).toArray()
+      if (!cancelled) setMemories(data)
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [part.id])
+
+  const handleTogglePin = async (memory: PartMemory) => {
+    const pinned = !memory.pinned
+    await setMemoryPinned(memory, pinned)
+    setMemories(prev => prev.map(m =>
+      m.id === memory.id ? { ...m, pinned, retiredAt: pinned ? null : m.retiredAt } : m
+    ))
+  }
+
+  const handleDelete = async (memory: PartMemory) => {
+    if (!window.confirm(t['parts.memories.deleteConfirm'])) return
+    await deleteMemory(memory.id)
+    setMemories(prev => prev.filter(m => m.id !== memory.id))
+  }
+
+  const active = memories.filter(m => !m.retiredAt).sort(byPinnedThenNewest)
+  const retired = memories.filter(m => m.retiredAt).sort((a, b) => b.retiredAt! - a.retiredAt!)
+
+  const typeLabel = (memory: PartMemory) => {
+    const key = `parts.memories.type.${memory.type ?? 'interaction'}` as keyof typeof t
+    return t[key] || memory.type
+  }
+
+  const renderMemory = (memory: PartMemory) => (
+    <div
+      key={memory.id}
+      className="entry-item"
+      style={{ cursor: 'default', opacity: memory.retiredAt ? 0.6 : 1 }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <div style={{ fontSize: 10, opacity: 0.5, letterSpacing: '0.04em' }}>
+          {typeLabel(memory)}
+          {' · '}
+          {new Date(memory.timestamp).toLocaleDateString(getLanguageCode(), { month: 'short', day: 'numeric' })}
+          {memory.consolidatedInto && ` · ${t['parts.memories.consolidated']}`}
+        </div>
+        <div style={{ display: 'flex', gap: 2 }}>
+          <button
+            style={{ ...iconButtonStyle, color: memory.pinned ? part.color : iconButtonStyle.color }}
+            onClick={() => handleTogglePin(memory)}
+            title={memory.pinned ? t['parts.memories.unpin'] : t['parts.memories.pin']}
+            aria-label={memory.pinned ? t['parts.memories.unpin'] : t['parts.memories.pin']}
+            aria-pressed={!!memory.pinned}
+          >
+            {memory.pinned ? '◆' : '◇'}
+          </button>
+          <button
+            style={iconButtonStyle}
+            onClick={() => handleDelete(memory)}
+            title={t['parts.memories.delete']}
+            aria-label={t['parts.memories.delete']}
+          >
+            &times;
+          </button>
+        </div>
+      </div>
+      <div style={{ fontSize: 12, lineHeight: 1.5, marginTop: 2 }}>{memory.content}</div>
+    </div>
+  )
+
+  return (
+    <div>
+      {active.length === 0 && retired.length === 0 && (
+        <div className="sidebar-no-results">{t['parts.memories.empty']}</div>
+      )}
+      {active.map(renderMemory)}
+
+      {retired.length > 0 && (
+        <div style={{ marginTop: 12 }}>
+          <button
+            className={`sidebar-tab ${showRetired ? 'active' : ''}`}
+            style={{ flex: 'none', padding: '4px 8px' }}
+            onClick={() => setShowRetired(s => !s)}
+            aria-expanded={showRetired}
+          >
+            {t['parts.memories.retired'].replace('{count}', String(retired.length))}
+          </button>
+          {showRetired && (
+            <>
+              <p style={{ fontSize: 11, color: 'var(--text-ghost)', fontStyle: 'italic', padding: '4px 8px' }}>
+                {t['parts.memories.retiredHint']}
+              </p>
+              {retired.map(renderMemory)}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
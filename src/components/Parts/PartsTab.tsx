@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react'
+import { db } from '../../store/db'
+import { restorePart, isPartMuted } from '../../store/partManagement'
+import { PartDetail } from './PartDetail'
+import { GrowthTimeline } from './GrowthTimeline'
+import { PartMemories } from './PartMemories'
+import { IntroducePart } from './IntroducePart'
+import { useTranslation, getPartDisplayName } from '../../i18n'
+import type { Part } from '../../types'
+
+export function PartsTab() {
+  const [parts, setParts] = useState<Part[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const [introducing, setIntroducing] = useState(false)
+  const [version, setVersion] = useState(0)
+  const t = useTranslation()
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function load() {
+      const data = await db.parts.toArray()
+      if (!cancelled) setParts(data.sort((a, b) => a.createdAt - b.createdAt))
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [version])
+
+  const reload = () => setVersion(v => v + 1)
+  const active = parts.filter(p => !p.retiredAt)
+  const archived = parts.filter(p => p.retiredAt)
+  const selected = active.find(p => p.id === selectedId)
+
+  const handleRestore = async (part: Part) => {
+    await restorePart(part.id)
+    reload()
+  }
+
+  if (introducing) {
+    return (
+      <div style={{ padding: '0 4px' }}>
+        <IntroducePart
+          parts={active}
+          onIntroduced={(part) => {
+            setIntroducing(false)
+            setSelectedId(part.id)
+            reload()
+          }}
+          onCancel={() => setIntroducing(false)}
+        />
+      </div>
+    )
+  }
+
+  if (selected) {
+    return (
+      <div style={{ padding: '0 4px' }}>
+        <button
+          className="sidebar-tab"
+          style={{ flex: 'none', padding: '4px 8px', marginBottom: 8 }}
+          onClick={() => setSelectedId(null)}
+        >
+          {t['parts.back']}
+        </button>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '0 8px 8px' }}>
+          <span style={{ width: 8, height: 8, borderRadius: '50%', background: selected.color }} />
+          <span style={{ fontSize: 13, color: 'var(--text-secondary)' }}>{getPartDisplayName(selected)}</span>
+        </div>
+        <PartDetail
+          // Remount after each save so the form starts from the stored values
+          key={`${selected.id}-${version}`}
+          part={selected}
+          parts={active}
+          onChanged={reload}
+          onRetired={() => {
+            setSelectedId(null)
+            reload()
+          }}
+        />
+        <GrowthTimeline part={selected} onReverted={reload} />
+        <PartMemories part={selected} />
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ padding: '0 4px' }}>
+      {active.length === 0 ? (
+        <div className="sidebar-no-results">{t['parts.empty']}</div>
+      ) : (
+        active.map(part => (
+          <div
+            key={part.id}
+            className="entry-item"
+            onClick={() => setSelectedId(part.id)}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <span style={{ width: 8, height: 8, borderRadius: '50%', background: part.color, flexShrink: 0 }} />
+              {getPartDisplayName(part)}
+              {isPartMuted(part) && (
+                <span style={{ fontSize: 10, opacity: 0.5, fontStyle: 'italic' }}>{t['parts.muted']}</span>
+              )}
+            </div>
+            <div style={{ fontSize: 11, opacity: 0.5, marginTop: 2 }}>{part.concern}</div>
+          </div>
+        ))
+      )}
+
+      <button
+        className="sidebar-tab"
+        style={{ flex: 'none', padding: '4px 8px', marginTop: 8 }}
+        onClick={() => setIntroducing(true)}
+      >
+        {t['parts.introduce']}
+      </button>
+
+      {archived.length > 0 && (
+        <div style={{ marginTop: 12 }}>
+          <button
+            className={`sidebar-tab ${showArchived ? 'active' : ''}`}
+            style={{ flex: 'none', padding: '4px 8px' }}
+            onClick={() => setShowArchived(s => !s)}
+            aria-expanded={showArchived}
+          >
+            {t['parts.archived'].replace('{count}', String(archived.length))}
+          </button>
+          {showArchived && archived.map(part => (
+            <div key={part.id} className="entry-item" style={{ cursor: 'default', opacity: 0.6 }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 6 }}>
+                <span style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <span style={{ width: 8, height: 8, borderRadius: '50%', background: part.color, flexShrink: 0 }} />
+                  {getPartDisplayName(part)}
+                </span>
+                {!part.mergedInto && (
+                  <button className="entry-star-btn" onClick={() => handleRestore(part)}>
+                    {t['parts.restore']}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
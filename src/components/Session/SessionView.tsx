@@ -19,6 +19,8 @@ import { reflectOnSession } from '../../engine/sessionReflectionEngine'
 import { getWeatherEngine } from '../../store/weatherStore'
 import { isGroundingActive } from '../../hooks/useGroundingMode'
 import { trackEvent } from '../../services/analytics'
+import { resumeSession, subscribeSessionResumed } from '../../store/sessionResumption'
+import { loadActiveParts } from '../../store/partManagement'
 import { useTranslation } from '../../i18n'
 import { SessionMessageBubble } from './SessionMessage'
 import { BiometricsBar } from './HrvAmbientBar'
@@ -59,6 +61,7 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
   const sessionRef = useRef<Session | null>(null)
   const messagesRef = useRef<SessionMessage[]>([])
   const handleSendRef = useRef<() => void>(() => {})
+  const summarizingRef = useRef(false)
 
   const handleAutocorrect = useAutocorrect({
     autocorrect: settings.autocorrect,
@@ -105,11 +108,20 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
 
         setSession(existingSession)
         sessionRef.current = existingSession
+        orchestratorRef.current.resumeFrom(existingSession.resumedAtMessage ?? 0)
 
         const existingMessages = await sessionMessagesDb.getAll(sessionId)
         if (cancelled) return
         setMessages(existingMessages)
         messagesRef.current = existingMessages
+
+        // Messages added elsewhere (the MCP server, a reply that failed to
+        // stream) are still waiting for an answer
+        const last = existingMessages[existingMessages.length - 1]
+        if (existingSession.status === 'active' && last?.speaker === 'user') {
+          orchestratorRef.current.checkCrisisKeywords(last.content)
+          await generateTherapistMessage(existingMessages, existingSession)
+        }
       } else {
         await startNewSession()
       }
@@ -124,6 +136,14 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [sessionId])
 
+  // Continued from the sidebar while this session is open
+  useEffect(() => subscribeSessionResumed((resumed) => {
+    if (resumed.id !== sessionRef.current?.id) return
+    orchestratorRef.current.resumeFrom(resumed.resumedAtMessage ?? 0)
+    sessionRef.current = resumed
+    setSession(resumed)
+  }), [])
+
   const startNewSession = useCallback(async () => {
     const id = generateId()
 
@@ -170,7 +190,7 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
     setIsStreaming(true)
 
     const orchestrator = orchestratorRef.current
-    const phase = orchestrator.detectPhase(currentMessages)
+    const { phase, reason: phaseReason } = orchestrator.decidePhase(currentMessages)
     const maxTokens = orchestrator.getMaxTokens(phase)
 
     const context = contextRef.current
@@ -182,6 +202,8 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
       profile: context?.userProfile,
       isGrounding: isGroundingActive(),
       hrvContext,
+      runningSummary: sessionRef.current?.runningSummary ?? currentSession.runningSummary,
+      summarizedThrough: sessionRef.current?.summarizedThrough ?? currentSession.summarizedThrough ?? 0,
     }
     const promptMessages = isFutureSelf
       ? buildFutureSelfMessages(currentMessages, {
@@ -209,6 +231,7 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
         content: fullText.trim(),
         timestamp: Date.now(),
         phase,
+        ...(phaseReason ? { phaseReason } : {}),
         isEmergence: false,
       }
 
@@ -235,6 +258,20 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
       setIsStreaming(false)
       typewriter.reset()
       resolveMessages(updatedMessages)
+
+      // Non-blocking: fold turns that left the prompt window into the running summary
+      const latest = sessionRef.current ?? currentSession
+      if (summarizingRef.current) return
+      summarizingRef.current = true
+      orchestrator.updateRunningSummary(updatedMessages, latest)
+        .then(async (summary) => {
+          if (!summary) return
+          await db.sessions.update(currentSession.id, summary)
+          setSession(prev => prev ? { ...prev, ...summary } : prev)
+          if (sessionRef.current) sessionRef.current = { ...sessionRef.current, ...summary }
+        })
+        .catch(error => console.error('Session summary error:', error))
+        .finally(() => { summarizingRef.current = false })
     }
 
     hrv.resetResponseStarted()
@@ -264,6 +301,7 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
         },
       },
       maxTokens,
+      'session-message',
     )
 
     return messagesPromise
@@ -279,7 +317,7 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
 
     // Create user message
     const msgId = generateId()
-    const phase = orchestratorRef.current.detectPhase(currentMessages)
+    const { phase, reason: phaseReason } = orchestratorRef.current.decidePhase(currentMessages)
     const userMessage: SessionMessage = {
       id: msgId,
       speaker: 'user',
@@ -288,6 +326,7 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
       content: trimmed,
       timestamp: Date.now(),
       phase,
+      ...(phaseReason ? { phaseReason } : {}),
       isEmergence: false,
     }
 
@@ -325,6 +364,9 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
       })
       .catch(console.error)
 
+    // Opt-in (admin policy): a wrap-up signal moves the next reply into closing
+    orchestratorRef.current.checkWrapUp(trimmed).catch(console.error)
+
     await generateTherapistMessage(updatedMessages, {
       ...currentSession,
       messageCount: updatedMessages.length,
@@ -338,11 +380,12 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
     if (!currentSession || currentSession.status === 'closed' || isStreaming) return
 
     // Generate closing therapist message — returns updated messages array
+    orchestratorRef.current.markSessionEnding()
     const finalMessages = await generateTherapistMessage(currentMessages, currentSession)
 
     // Generate session note
     const orchestrator = orchestratorRef.current
-    const sessionNote = await orchestrator.generateSessionNote(finalMessages)
+    const sessionNote = await orchestrator.generateSessionNote(finalMessages, sessionRef.current ?? currentSession)
     trackEvent('session_note_generated', { session_id: currentSession.id })
 
     // Update session as closed
@@ -362,9 +405,10 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
       phase: 'closing',
     } : prev)
 
-    // Non-blocking: run full reflection pipeline
-    db.parts.toArray()
-      .then(parts => reflectOnSession(currentSession.id, finalMessages, parts))
+    // Non-blocking: run full reflection pipeline (a continued session reflects only on the new turns)
+    const reflectFrom = currentSession.resumedAtMessage ?? 0
+    loadActiveParts()
+      .then(parts => reflectOnSession(currentSession.id, finalMessages.slice(reflectFrom), parts))
       .catch(error => console.error('Session reflection error:', error))
 
     // Persist weather
@@ -442,7 +486,14 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
   }, [isStreaming, inputEditor, session?.status])
 
   const isClosed = session?.status === 'closed'
-  const canEnd = !isStreaming && messages.length >= 2 && !isClosed
+  const canEnd = !isStreaming && messages.length - (session?.resumedAtMessage ?? 0) >= 2 && !isClosed
+
+  const handleContinue = useCallback(async () => {
+    const current = sessionRef.current
+    if (!current || current.status !== 'closed') return
+    // The store notifies our subscription, which reopens the view in place
+    await resumeSession(current.id)
+  }, [])
 
   const backButtonStyle = useMemo<React.CSSProperties>(() => ({
     position: 'fixed',
@@ -676,6 +727,15 @@ export function SessionView({ sessionId, openingMethod, mode = 'therapist', onSe
           letterSpacing: '0.05em',
         }}>
           session closed
+          <div style={{ marginTop: 12 }}>
+            <button
+              className="session-end-btn"
+              onClick={handleContinue}
+              style={{ opacity: 0.8 }}
+            >
+              {tr['sessions.continue']}
+            </button>
+          </div>
         </div>
       )}
 
@@ -1,10 +1,26 @@
 import { useState, useCallback, useEffect, useMemo, lazy, Suspense } from 'react'
 import { db } from '../../store/db'
+import { resumeSession } from '../../store/sessionResumption'
 import { SettingsPanel } from './SettingsPanel'
 import { useTranslation, getLanguageCode } from '../../i18n'
 import { useGlobalConfig } from '../../store/globalConfig'
 import type { Session } from '../../types'
 
+const ExportModal = lazy(() => import('../ExportModal').catch(() => {
+  window.location.reload()
+  return new Promise(() => {})
+}))
+
+const PartsTab = lazy(() => import('../Parts/PartsTab').then(m => ({ default: m.PartsTab })).catch(() => {
+  window.location.reload()
+  return new Promise(() => {})
+}))
+
+const HrvHistoryTab = lazy(() => import('../HrvHistory/HrvHistoryTab').then(m => ({ default: m.HrvHistoryTab })).catch(() => {
+  window.location.reload()
+  return new Promise(() => {})
+}))
+
 const BodyMapTab = lazy(() => import('../BodyMap/BodyMapTab').then(m => ({ default: m.BodyMapTab })).catch(() => {
   window.location.reload()
   return new Promise(() => {})
@@ -48,14 +64,18 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
   const [isOpen, setIsOpen] = useState(false)
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [entries, setEntries] = useState<Entry[]>([])
-  const [activeTab, setActiveTab] = useState<'entries' | 'body'>('entries')
+  const [activeTab, setActiveTab] = useState<'entries' | 'parts' | 'body' | 'heart'>('entries')
   const [searchQuery, setSearchQuery] = useState('')
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false)
   const [sessions, setSessions] = useState<Session[]>([])
+  // Non-null while picking entries to export
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null)
+  const [exportOpen, setExportOpen] = useState(false)
   const isMobile = useIsMobile()
   const t = useTranslation()
   const globalConfig = useGlobalConfig()
   const showBodyMap = globalConfig?.features?.bodyMap === true
+  const showHeart = globalConfig?.features?.webcamHrv === true
 
   // Initial load + infrequent fallback refresh (60s instead of 3s)
   // Refresh on activeEntryId change (entry switches and content saves)
@@ -97,6 +117,16 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
     [onSelectEntry, isMobile, currentPath, navigateTo],
   )
 
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      if (!prev) return prev
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }, [])
+
   const handleToggleFavorite = useCallback(async (e: React.MouseEvent, entry: Entry) => {
     e.stopPropagation()
     await db.entries.update(entry.id, { favorited: !entry.favorited })
@@ -135,6 +165,14 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
     if (isMobile) setIsOpen(false)
   }
 
+  const handleContinueSession = async (e: React.MouseEvent, id: string, mode: 'therapist' | 'futureSelf') => {
+    e.stopPropagation()
+    const resumed = await resumeSession(id)
+    if (!resumed) return
+    setSessions(prev => prev.map(s => s.id === id ? resumed : s))
+    handleSelectSession(id, mode)
+  }
+
   const sidebarItems = useMemo(() => {
     const entryItems: SidebarItem[] = entries
       .filter(e => e.plainText?.trim() || e.id === activeEntryId)
@@ -197,29 +235,49 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
         onMouseLeave={() => setSettingsOpen(false)}
       >
         <div style={{ flex: 1, minHeight: 0, overflowY: 'auto', opacity: settingsOpen ? 0.15 : 1, transition: 'opacity 0.25s ease', pointerEvents: settingsOpen ? 'none' : 'auto' }}>
-          {showBodyMap ? (
-            <div className="sidebar-tab-bar">
-              <button
-                className={`sidebar-tab ${activeTab === 'entries' ? 'active' : ''}`}
-                onClick={() => setActiveTab('entries')}
-              >
-                {t['entries.title']}
-              </button>
+          <div className="sidebar-tab-bar">
+            <button
+              className={`sidebar-tab ${activeTab === 'entries' ? 'active' : ''}`}
+              onClick={() => setActiveTab('entries')}
+            >
+              {t['entries.title']}
+            </button>
+            <button
+              className={`sidebar-tab ${activeTab === 'parts' ? 'active' : ''}`}
+              onClick={() => setActiveTab('parts')}
+            >
+              {t['parts.title']}
+            </button>
+            {showBodyMap && (
               <button
                 className={`sidebar-tab ${activeTab === 'body' ? 'active' : ''}`}
                 onClick={() => setActiveTab('body')}
               >
                 {t['bodyMap.title']}
               </button>
-            </div>
-          ) : (
-            <div className="sidebar-label">{t['entries.title']}</div>
-          )}
+            )}
+            {showHeart && (
+              <button
+                className={`sidebar-tab ${activeTab === 'heart' ? 'active' : ''}`}
+                onClick={() => setActiveTab('heart')}
+              >
+                {t['hrvHistory.title']}
+              </button>
+            )}
+          </div>
 
-          {activeTab === 'body' && showBodyMap ? (
+          {activeTab === 'parts' ? (
+            <Suspense fallback={null}>
+              <PartsTab />
+            </Suspense>
+          ) : activeTab === 'body' && showBodyMap ? (
             <Suspense fallback={null}>
               <BodyMapTab />
             </Suspense>
+          ) : activeTab === 'heart' && showHeart ? (
+            <Suspense fallback={null}>
+              <HrvHistoryTab />
+            </Suspense>
           ) : (
             <>
               <div className="sidebar-new-buttons">
@@ -259,8 +317,32 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
                 >
                   {'\u2605'}
                 </button>
+                <button
+                  className={`sidebar-favorites-toggle ${selectedIds ? 'active' : ''}`}
+                  onClick={() => setSelectedIds(s => s ? null : new Set())}
+                  title={t['entries.select']}
+                  aria-label={t['entries.select']}
+                >
+                  {'\u2913'}
+                </button>
               </div>
 
+              {selectedIds && (
+                <div style={{ display: 'flex', gap: 6, padding: '4px 8px' }}>
+                  <button
+                    className="new-entry-btn"
+                    style={{ flex: 1, opacity: selectedIds.size === 0 ? 0.5 : 1 }}
+                    disabled={selectedIds.size === 0}
+                    onClick={() => setExportOpen(true)}
+                  >
+                    {t['entries.exportSelected'].replace('{count}', String(selectedIds.size))}
+                  </button>
+                  <button className="new-entry-btn" onClick={() => setSelectedIds(null)}>
+                    {t['entries.cancelSelection']}
+                  </button>
+                </div>
+              )}
+
               <div style={{ marginTop: 4 }}>
                 {sidebarItems.length === 0 && (searchQuery || showFavoritesOnly) ? (
                   <div className="sidebar-no-results">{t['entries.noResults']}</div>
@@ -269,22 +351,32 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
                     <div
                       key={item.id}
                       className={`entry-item ${item.id === activeEntryId ? 'active' : ''}`}
-                      onClick={() => handleSelect(item.id)}
+                      onClick={() => selectedIds ? toggleSelected(item.id) : handleSelect(item.id)}
                     >
                       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
                         <div style={{ fontSize: 11, opacity: 0.5, marginBottom: 2 }}>
                           {formatDate(item.timestamp)}
                         </div>
-                        <button
-                          className={`entry-star-btn ${item.favorited ? 'active' : ''}`}
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleToggleFavorite(e, { id: item.id, favorited: item.favorited } as Entry)
-                          }}
-                          aria-label={item.favorited ? 'Remove from favorites' : 'Add to favorites'}
-                        >
-                          {item.favorited ? '\u2605' : '\u2606'}
-                        </button>
+                        {selectedIds ? (
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(item.id)}
+                            onChange={() => toggleSelected(item.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            aria-label={item.preview}
+                          />
+                        ) : (
+                          <button
+                            className={`entry-star-btn ${item.favorited ? 'active' : ''}`}
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleToggleFavorite(e, { id: item.id, favorited: item.favorited } as Entry)
+                            }}
+                            aria-label={item.favorited ? 'Remove from favorites' : 'Add to favorites'}
+                          >
+                            {item.favorited ? '\u2605' : '\u2606'}
+                          </button>
+                        )}
                       </div>
                       {item.preview}
                     </div>
@@ -299,7 +391,7 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
                         <div style={{ fontSize: 11, opacity: 0.5, marginBottom: 2 }}>
                           {formatDate(item.timestamp)}
                         </div>
-                        {item.status === 'active' && (
+                        {item.status === 'active' ? (
                           <div style={{
                             width: 6,
                             height: 6,
@@ -307,6 +399,15 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
                             background: 'var(--text-secondary)',
                             opacity: 0.6,
                           }} />
+                        ) : (
+                          <button
+                            className="entry-star-btn"
+                            onClick={(e) => handleContinueSession(e, item.id, item.mode)}
+                            title={t['sessions.continue']}
+                            aria-label={t['sessions.continue']}
+                          >
+                            {'\u21BA'}
+                          </button>
                         )}
                       </div>
                       <span className="session-item-label">
@@ -331,6 +432,18 @@ export function EntriesList({ activeEntryId, onSelectEntry, navigateTo, currentP
         </div>
         <SettingsPanel isOpen={settingsOpen} onToggle={() => setSettingsOpen((o) => !o)} />
       </div>
+      <Suspense fallback={null}>
+        {exportOpen && selectedIds && (
+          <ExportModal
+            isOpen={exportOpen}
+            entryIds={[...selectedIds]}
+            onClose={() => {
+              setExportOpen(false)
+              setSelectedIds(null)
+            }}
+          />
+        )}
+      </Suspense>
     </>
   )
 }
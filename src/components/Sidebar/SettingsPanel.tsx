@@ -1,13 +1,17 @@
-import { useState, useEffect, lazy, Suspense } from 'react'
-import { useSettings, updateSettings } from '../../store/settings'
+import { useState, useEffect, useRef, lazy, Suspense } from 'react'
+import { useSettings, updateSettings, DEFAULT_TIMEZONE } from '../../store/settings'
 import type { AppSettings } from '../../store/settings'
 import { useGlobalConfig } from '../../store/globalConfig'
 import { useAuth } from '../../auth/useAuth'
 import { useTheme } from '../../hooks/useTheme'
 import { exportAllData } from '../../store/dataExport'
+import { downloadBackup, parseBackup, restoreBackup } from '../../store/dataBackup'
+import type { BackupArchive, RestoreMode } from '../../store/dataBackup'
+import type { ApiKeyScope } from '../../types'
 import { submitContactMessage } from '../../api/accountApi'
 import { trackEvent } from '../../services/analytics'
 import { useTranslation, SUPPORTED_LANGUAGES, getLanguageCode } from '../../i18n'
+import { CRISIS_REGION_CODES, resolveCrisisRegion } from '../../engine/crisisResources'
 
 const TIMEZONE_VALUES = [
   'Pacific/Honolulu',
@@ -42,8 +46,17 @@ function getTimezoneName(iana: string, locale: string): string {
   }
 }
 
+function getRegionName(code: string, locale: string): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'region' }).of(code) ?? code
+  } catch {
+    return code
+  }
+}
+
 const PolicyModal = lazy(() => import('../PolicyModal').catch(() => { window.location.reload(); return new Promise(() => {}) }))
 const DeleteAccountModal = lazy(() => import('../DeleteAccountModal').catch(() => { window.location.reload(); return new Promise(() => {}) }))
+const ExportModal = lazy(() => import('../ExportModal').catch(() => { window.location.reload(); return new Promise(() => {}) }))
 
 const dataButtonBase = {
   fontSize: 11,
@@ -109,14 +122,27 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
   useTheme()
   const [policyOpen, setPolicyOpen] = useState(false)
   const [deleteOpen, setDeleteOpen] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
   const [contactMessage, setContactMessage] = useState('')
   const [contactSending, setContactSending] = useState(false)
   const [contactSent, setContactSent] = useState(false)
   const [contactError, setContactError] = useState<string | null>(null)
-  const [apiKey, setApiKey] = useState<{ id: string; name: string; createdAt: number } | null>(null)
+  const [apiKey, setApiKey] = useState<{ id: string; name: string; createdAt: number; scopes: ApiKeyScope[] } | null>(null)
+  const [allowWrite, setAllowWrite] = useState(false)
+  const [allowInnerWorld, setAllowInnerWorld] = useState(false)
   const [apiKeyLoading, setApiKeyLoading] = useState(true)
   const [generatedKey, setGeneratedKey] = useState<string | null>(null)
   const [keyCopied, setKeyCopied] = useState(false)
+  const [encryptionEnabled, setEncryptionEnabled] = useState<boolean | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [passphraseConfirm, setPassphraseConfirm] = useState('')
+  const [encrypting, setEncrypting] = useState(false)
+  const [encryptionError, setEncryptionError] = useState<string | null>(null)
+  const backupInputRef = useRef<HTMLInputElement>(null)
+  const [pendingRestore, setPendingRestore] = useState<BackupArchive | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [restoreMessage, setRestoreMessage] = useState<string | null>(null)
+  const [restoreDone, setRestoreDone] = useState(false)
 
   useEffect(() => {
     if (!contactSent) return
@@ -134,6 +160,7 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
             id: k.id,
             name: k.name || 'Default',
             createdAt: k.createdAt,
+            scopes: k.scopes ?? ['read'],
           })
         }
         setApiKeyLoading(false)
@@ -141,6 +168,69 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
     })
   }, [user])
 
+  useEffect(() => {
+    if (!user) return
+    import('../../store/db').then(({ isEncryptionEnabled }) => {
+      isEncryptionEnabled().then(setEncryptionEnabled).catch(console.error)
+    })
+  }, [user])
+
+  const handleEnableEncryption = async () => {
+    if (passphrase.length < 8) {
+      setEncryptionError(t['settings.encryptionTooShort'])
+      return
+    }
+    if (passphrase !== passphraseConfirm) {
+      setEncryptionError(t['settings.encryptionMismatch'])
+      return
+    }
+    setEncrypting(true)
+    setEncryptionError(null)
+    try {
+      const { enableEncryption } = await import('../../store/db')
+      await enableEncryption(passphrase)
+      setEncryptionEnabled(true)
+      setPassphrase('')
+      setPassphraseConfirm('')
+      trackEvent('encryption_enabled')
+    } catch (error) {
+      setEncryptionError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setEncrypting(false)
+    }
+  }
+
+  const handleBackupFile = async (file: File) => {
+    setRestoreMessage(null)
+    try {
+      setPendingRestore(parseBackup(await file.text()))
+    } catch (error) {
+      setRestoreMessage(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pendingRestore) return
+    if (mode === 'replace' && !window.confirm(t['settings.backupReplaceConfirm'])) return
+    setRestoring(true)
+    try {
+      const result = await restoreBackup(pendingRestore, mode)
+      // Restoring can clear the semantic index; lookups reload it
+      const { invalidateIndexCache } = await import('../../engine/semanticIndex')
+      invalidateIndexCache()
+      trackEvent('backup_restored', { mode })
+      setRestoreMessage(t['settings.backupRestored']
+        .replace('{added}', String(result.added))
+        .replace('{skipped}', String(result.skipped)))
+      setRestoreDone(true)
+    } catch (error) {
+      setRestoreMessage(error instanceof Error ? error.message : String(error))
+    } finally {
+      setPendingRestore(null)
+      setRestoring(false)
+    }
+  }
+
   const handleGenerateKey = async () => {
     const bytes = crypto.getRandomValues(new Uint8Array(32))
     const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
@@ -152,15 +242,19 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
     const keyId = crypto.randomUUID()
     const now = Date.now()
     const { db } = await import('../../store/db')
+    const scopes: ApiKeyScope[] = ['read']
+    if (allowWrite) scopes.push('write')
+    if (allowInnerWorld) scopes.push('inner-world')
     await db.apiKeys.add({
       id: keyId,
       hash,
       name: 'Default',
       createdAt: now,
       lastUsedAt: null,
+      scopes,
     })
 
-    setApiKey({ id: keyId, name: 'Default', createdAt: now })
+    setApiKey({ id: keyId, name: 'Default', createdAt: now, scopes })
     setGeneratedKey(rawKey)
   }
 
@@ -176,6 +270,8 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
     updateSettings({ [key]: value })
   }
 
+  const inferredRegion = resolveCrisisRegion({ ...settings, crisisRegion: 'auto' }, DEFAULT_TIMEZONE)
+
   return (
     <div className="settings-panel">
       <button
@@ -279,6 +375,38 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
             </SettingRow>
           </div>
 
+          {/* Crisis resources region */}
+          <div className="settings-section">
+            <div className="settings-section-label">{t['settings.crisisRegion']}</div>
+            <SettingRow label={t['settings.crisisRegion']}>
+              <select
+                value={settings.crisisRegion}
+                onChange={(e) => set('crisisRegion', e.target.value)}
+                style={{
+                  fontFamily: "'Inter', sans-serif",
+                  fontSize: 11,
+                  color: 'var(--text-primary)',
+                  background: 'var(--surface-primary)',
+                  border: '1px solid var(--border-subtle)',
+                  borderRadius: 4,
+                  padding: '3px 6px',
+                  cursor: 'pointer',
+                  outline: 'none',
+                  maxWidth: 160,
+                }}
+              >
+                <option value="auto">
+                  {t['settings.crisisRegionAuto'].replace('{region}', inferredRegion
+                    ? getRegionName(inferredRegion, getLanguageCode())
+                    : t['settings.crisisRegionUnknown'])}
+                </option>
+                {CRISIS_REGION_CODES.map((code) => (
+                  <option key={code} value={code}>{getRegionName(code, getLanguageCode())}</option>
+                ))}
+              </select>
+            </SettingRow>
+          </div>
+
           {/* Appearance */}
           <div className="settings-section">
             <div className="settings-section-label">{t['settings.appearance']}</div>
@@ -317,7 +445,7 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
 
 
           {/* AI Interactions — only show when admin has enabled features */}
-          {(globalConfig?.features?.textHighlights === true || globalConfig?.features?.ghostText === true || globalConfig?.features?.bilateralStimulation === true) && (
+          {(globalConfig?.features?.textHighlights === true || globalConfig?.features?.ghostText === true || globalConfig?.features?.bilateralStimulation === true || globalConfig?.features?.webcamHrv === true) && (
             <div className="settings-section">
               <div className="settings-section-label">{t['settings.aiInteractions']}</div>
               {globalConfig?.features?.textHighlights === true && (
@@ -335,6 +463,11 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
                   <Toggle checked={settings.bilateralStimulation} onChange={(v) => set('bilateralStimulation', v)} />
                 </SettingRow>
               )}
+              {globalConfig?.features?.webcamHrv === true && (
+                <SettingRow label={t['settings.journalBiometrics']}>
+                  <Toggle checked={settings.journalBiometrics} onChange={(v) => set('journalBiometrics', v)} />
+                </SettingRow>
+              )}
             </div>
           )}
 
@@ -346,106 +479,208 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
             </SettingRow>
           </div>
 
-          {/* Developer */}
+          {/* Storage — read once at startup, so switching reloads */}
           <div className="settings-section">
-            <div className="settings-section-label">Developer</div>
-            {apiKeyLoading ? (
-              <div style={{ fontSize: 11, color: 'var(--text-ghost)', padding: '4px 0' }}>
-                Loading...
-              </div>
-            ) : generatedKey ? (
-              <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
-                <div style={{ fontSize: 11, color: 'var(--color-tender)', lineHeight: 1.4 }}>
-                  Copy this key now — it won't be shown again.
+            <div className="settings-section-label">{t['settings.storage']}</div>
+            <SettingRow label={t['settings.storageLocation']}>
+              <OptionGroup
+                value={settings.storageMode}
+                options={[
+                  { value: 'cloud', label: t['settings.storageCloud'] },
+                  { value: 'device', label: t['settings.storageDevice'] },
+                ]}
+                onChange={(v) => {
+                  if (v === settings.storageMode) return
+                  set('storageMode', v)
+                  trackEvent('storage_mode_changed', { mode: v })
+                  window.location.reload()
+                }}
+              />
+            </SettingRow>
+            <div style={{ fontSize: 10, color: 'var(--text-ghost)', lineHeight: 1.4, paddingTop: 4 }}>
+              {t['settings.storageNote']}
+            </div>
+          </div>
+
+          {/* Encryption — one-way: the passphrase is never stored and can't be recovered */}
+          {encryptionEnabled !== null && (
+            <div className="settings-section">
+              <div className="settings-section-label">{t['settings.encryption']}</div>
+              {encryptionEnabled ? (
+                <div style={{ fontSize: 11, color: 'var(--text-secondary)', lineHeight: 1.4 }}>
+                  {t['settings.encryptionOn']}
                 </div>
-                <div style={{ display: 'flex', gap: 6 }}>
-                  <input
-                    readOnly
-                    value={generatedKey}
+              ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                  <div style={{ fontSize: 11, color: 'var(--text-ghost)', lineHeight: 1.4 }}>
+                    {t['settings.encryptionOff']}
+                  </div>
+                  {[
+                    { value: passphrase, onChange: setPassphrase, label: t['settings.encryptionPassphrase'] },
+                    { value: passphraseConfirm, onChange: setPassphraseConfirm, label: t['settings.encryptionConfirm'] },
+                  ].map(({ value, onChange, label }) => (
+                    <input
+                      key={label}
+                      type="password"
+                      autoComplete="new-password"
+                      value={value}
+                      placeholder={label}
+                      aria-label={label}
+                      disabled={encrypting}
+                      onChange={(e) => {
+                        onChange(e.target.value)
+                        setEncryptionError(null)
+                      }}
+                      style={{
+                        fontFamily: "'Inter', sans-serif",
+                        fontSize: 12,
+                        padding: '6px 8px',
+                        border: '1px solid var(--border-subtle)',
+                        borderRadius: 4,
+                        background: 'var(--surface-primary)',
+                        color: 'var(--text-primary)',
+                        outline: 'none',
+                      }}
+                    />
+                  ))}
+                  {encryptionError && (
+                    <div style={{ fontSize: 11, color: 'var(--color-tender)' }}>
+                      {encryptionError}
+                    </div>
+                  )}
+                  <button
+                    onClick={handleEnableEncryption}
+                    disabled={encrypting || !passphrase}
                     style={{
-                      flex: 1,
-                      fontFamily: 'monospace',
-                      fontSize: 10,
-                      padding: '6px 8px',
-                      border: '1px solid var(--border-subtle)',
-                      borderRadius: 4,
-                      background: 'var(--surface-primary)',
+                      ...dataButtonBase,
                       color: 'var(--text-primary)',
-                      outline: 'none',
                     }}
-                    onFocus={(e) => e.target.select()}
-                  />
+                  >
+                    {encrypting ? t['settings.encryptionWorking'] : t['settings.encryptionEnable']}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Developer — MCP keys are resolved server-side, so cloud storage only */}
+          {settings.storageMode === 'cloud' && (
+            <div className="settings-section">
+              <div className="settings-section-label">Developer</div>
+              {apiKeyLoading ? (
+                <div style={{ fontSize: 11, color: 'var(--text-ghost)', padding: '4px 0' }}>
+                  Loading...
+                </div>
+              ) : generatedKey ? (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                  <div style={{ fontSize: 11, color: 'var(--color-tender)', lineHeight: 1.4 }}>
+                    Copy this key now — it won't be shown again.
+                  </div>
+                  <div style={{ display: 'flex', gap: 6 }}>
+                    <input
+                      readOnly
+                      value={generatedKey}
+                      style={{
+                        flex: 1,
+                        fontFamily: 'monospace',
+                        fontSize: 10,
+                        padding: '6px 8px',
+                        border: '1px solid var(--border-subtle)',
+                        borderRadius: 4,
+                        background: 'var(--surface-primary)',
+                        color: 'var(--text-primary)',
+                        outline: 'none',
+                      }}
+                      onFocus={(e) => e.target.select()}
+                    />
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(generatedKey)
+                        setKeyCopied(true)
+                        setTimeout(() => setKeyCopied(false), 2000)
+                      }}
+                      style={{
+                        fontSize: 10,
+                        fontFamily: "'Inter', sans-serif",
+                        padding: '4px 10px',
+                        border: '1px solid var(--border-subtle)',
+                        borderRadius: 4,
+                        background: 'var(--surface-primary)',
+                        color: 'var(--text-primary)',
+                        cursor: 'pointer',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {keyCopied ? 'Copied' : 'Copy'}
+                    </button>
+                  </div>
                   <button
-                    onClick={() => {
-                      navigator.clipboard.writeText(generatedKey)
-                      setKeyCopied(true)
-                      setTimeout(() => setKeyCopied(false), 2000)
-                    }}
+                    onClick={() => setGeneratedKey(null)}
                     style={{
-                      fontSize: 10,
+                      fontSize: 11,
                       fontFamily: "'Inter', sans-serif",
-                      padding: '4px 10px',
-                      border: '1px solid var(--border-subtle)',
-                      borderRadius: 4,
-                      background: 'var(--surface-primary)',
-                      color: 'var(--text-primary)',
+                      color: 'var(--text-ghost)',
+                      background: 'none',
+                      border: 'none',
                       cursor: 'pointer',
-                      whiteSpace: 'nowrap',
+                      padding: 0,
+                      textAlign: 'left',
                     }}
                   >
-                    {keyCopied ? 'Copied' : 'Copy'}
+                    Done
                   </button>
                 </div>
-                <button
-                  onClick={() => setGeneratedKey(null)}
-                  style={{
-                    fontSize: 11,
-                    fontFamily: "'Inter', sans-serif",
-                    color: 'var(--text-ghost)',
-                    background: 'none',
-                    border: 'none',
-                    cursor: 'pointer',
-                    padding: 0,
-                    textAlign: 'left',
-                  }}
-                >
-                  Done
-                </button>
-              </div>
-            ) : apiKey ? (
-              <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
-                <div style={{ fontSize: 11, color: 'var(--text-secondary)', lineHeight: 1.4 }}>
-                  API key active — created{' '}
-                  {new Date(apiKey.createdAt).toLocaleDateString()}
+              ) : apiKey ? (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                  <div style={{ fontSize: 11, color: 'var(--text-secondary)', lineHeight: 1.4 }}>
+                    API key active ({apiKey.scopes.join(', ')}) — created{' '}
+                    {new Date(apiKey.createdAt).toLocaleDateString()}
+                  </div>
+                  <button
+                    onClick={handleRevokeKey}
+                    style={{
+                      ...dataButtonBase,
+                      color: 'var(--color-tender)',
+                      borderColor: 'var(--color-tender)',
+                    }}
+                  >
+                    Revoke Key
+                  </button>
                 </div>
-                <button
-                  onClick={handleRevokeKey}
-                  style={{
-                    ...dataButtonBase,
-                    color: 'var(--color-tender)',
-                    borderColor: 'var(--color-tender)',
-                  }}
-                >
-                  Revoke Key
-                </button>
-              </div>
-            ) : (
-              <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
-                <div style={{ fontSize: 11, color: 'var(--text-ghost)', lineHeight: 1.4 }}>
-                  Generate an API key to connect AI agents to your diary via MCP.
+              ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                  <div style={{ fontSize: 11, color: 'var(--text-ghost)', lineHeight: 1.4 }}>
+                    Generate an API key to connect AI agents to your diary via MCP.
+                  </div>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 11, color: 'var(--text-secondary)', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={allowWrite}
+                      onChange={(e) => setAllowWrite(e.target.checked)}
+                    />
+                    Allow writing entries and messages
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 11, color: 'var(--text-secondary)', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={allowInnerWorld}
+                      onChange={(e) => setAllowInnerWorld(e.target.checked)}
+                    />
+                    Share parts, memories, profile and body map
+                  </label>
+                  <button
+                    onClick={handleGenerateKey}
+                    style={{
+                      ...dataButtonBase,
+                      color: 'var(--text-primary)',
+                    }}
+                  >
+                    Generate API Key
+                  </button>
                 </div>
-                <button
-                  onClick={handleGenerateKey}
-                  style={{
-                    ...dataButtonBase,
-                    color: 'var(--text-primary)',
-                  }}
-                >
-                  Generate API Key
-                </button>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
           {/* Contact Us */}
           <div className="settings-section">
@@ -538,6 +773,72 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
             >
               {t['settings.exportAll']}
             </button>
+            <button
+              onClick={() => setExportOpen(true)}
+              style={{ ...dataButtonBase, color: 'var(--text-primary)', marginBottom: 6 }}
+            >
+              {t['settings.exportEntries']}
+            </button>
+            <button
+              onClick={() => { trackEvent('backup_download'); downloadBackup() }}
+              style={{ ...dataButtonBase, color: 'var(--text-primary)', marginBottom: 6 }}
+            >
+              {t['settings.backupDownload']}
+            </button>
+            <input
+              ref={backupInputRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) handleBackupFile(file)
+              }}
+            />
+            {pendingRestore ? (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 6 }}>
+                <div style={{ fontSize: 11, color: 'var(--text-secondary)', lineHeight: 1.4 }}>
+                  {t['settings.backupSummary']
+                    .replace('{date}', new Date(pendingRestore.exportedAt).toLocaleDateString(getLanguageCode()))
+                    .replace('{entries}', String(pendingRestore.collections.entries.length))
+                    .replace('{sessions}', String(pendingRestore.collections.sessions.length))}
+                </div>
+                <button
+                  onClick={() => handleRestore('merge')}
+                  disabled={restoring}
+                  style={{ ...dataButtonBase, color: 'var(--text-primary)' }}
+                >
+                  {t['settings.backupMerge']}
+                </button>
+                <button
+                  onClick={() => handleRestore('replace')}
+                  disabled={restoring}
+                  style={{ ...dataButtonBase, color: 'var(--color-tender)', borderColor: 'var(--color-tender)' }}
+                >
+                  {t['settings.backupReplace']}
+                </button>
+                <button
+                  onClick={() => setPendingRestore(null)}
+                  disabled={restoring}
+                  style={{ ...dataButtonBase, color: 'var(--text-ghost)', border: 'none' }}
+                >
+                  {t['settings.backupCancel']}
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => restoreDone ? window.location.reload() : backupInputRef.current?.click()}
+                style={{ ...dataButtonBase, color: 'var(--text-primary)', marginBottom: 6 }}
+              >
+                {restoreDone ? t['settings.backupReload'] : t['settings.backupRestore']}
+              </button>
+            )}
+            {restoreMessage && (
+              <div style={{ fontSize: 11, color: 'var(--text-secondary)', lineHeight: 1.4, marginBottom: 6 }}>
+                {restoreMessage}
+              </div>
+            )}
             <button
               onClick={() => setPolicyOpen(true)}
               style={{ ...dataButtonBase, color: 'var(--text-secondary)', marginBottom: 6 }}
@@ -558,6 +859,7 @@ export function SettingsPanel({ isOpen, onToggle }: SettingsPanelProps) {
           <Suspense fallback={null}>
             {policyOpen && <PolicyModal isOpen={policyOpen} onClose={() => setPolicyOpen(false)} />}
             {deleteOpen && <DeleteAccountModal isOpen={deleteOpen} onClose={() => setDeleteOpen(false)} />}
+            {exportOpen && <ExportModal isOpen={exportOpen} onClose={() => setExportOpen(false)} />}
           </Suspense>
         </div>
       )}
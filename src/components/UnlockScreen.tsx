@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import { useAuth } from '../auth/useAuth'
+import { useTranslation } from '../i18n'
+import { unlockEncryption } from '../store/db'
+import { IncorrectPassphraseError } from '../store/encryption'
+
+interface UnlockScreenProps {
+  onUnlocked: () => void
+}
+
+export function UnlockScreen({ onUnlocked }: UnlockScreenProps) {
+  const t = useTranslation()
+  const { signOut } = useAuth()
+  const [passphrase, setPassphrase] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase || unlocking) return
+    setUnlocking(true)
+    setError(null)
+    try {
+      await unlockEncryption(passphrase)
+      onUnlocked()
+    } catch (err) {
+      setError(err instanceof IncorrectPassphraseError
+        ? t['unlock.wrongPassphrase']
+        : err instanceof Error ? err.message : String(err))
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: 'var(--bg-primary)',
+      gap: 16,
+      padding: 40,
+    }}>
+      <div style={{
+        fontFamily: "'Spectral', serif",
+        fontSize: 24,
+        color: 'var(--text-primary)',
+      }}>
+        {t['unlock.title']}
+      </div>
+      <div style={{
+        fontFamily: "'Inter', sans-serif",
+        fontSize: 13,
+        color: 'var(--text-secondary)',
+        textAlign: 'center',
+        maxWidth: 340,
+      }}>
+        {t['unlock.subtitle']}
+      </div>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: 10, alignItems: 'center' }}>
+        <input
+          type="password"
+          autoComplete="current-password"
+          autoFocus
+          value={passphrase}
+          placeholder={t['unlock.passphrase']}
+          aria-label={t['unlock.passphrase']}
+          disabled={unlocking}
+          onChange={(e) => {
+            setPassphrase(e.target.value)
+            setError(null)
+          }}
+          style={{
+            fontFamily: "'Inter', sans-serif",
+            fontSize: 14,
+            padding: '10px 14px',
+            border: '1px solid var(--border-subtle)',
+            borderRadius: 8,
+            background: 'var(--surface-primary)',
+            color: 'var(--text-primary)',
+            width: 280,
+            outline: 'none',
+          }}
+        />
+        {error && (
+          <div style={{ fontFamily: "'Inter', sans-serif", fontSize: 12, color: 'var(--color-tender)' }}>
+            {error}
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={!passphrase || unlocking}
+          style={{
+            fontFamily: "'Inter', sans-serif",
+            fontSize: 14,
+            padding: '10px 24px',
+            border: '1px solid var(--border-subtle)',
+            borderRadius: 8,
+            background: 'var(--surface-primary)',
+            color: 'var(--text-primary)',
+            cursor: 'pointer',
+          }}
+        >
+          {unlocking ? '...' : t['unlock.submit']}
+        </button>
+      </form>
+      <button
+        onClick={() => signOut()}
+        style={{
+          fontFamily: "'Inter', sans-serif",
+          fontSize: 11,
+          color: 'var(--text-ghost)',
+          background: 'none',
+          border: 'none',
+          cursor: 'pointer',
+          textDecoration: 'underline',
+          textUnderlineOffset: 3,
+        }}
+      >
+        {t['unlock.signOut']}
+      </button>
+    </div>
+  )
+}
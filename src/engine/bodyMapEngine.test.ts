@@ -5,6 +5,8 @@ import {
   EMOTION_FAMILIES,
   mapEmotionToColor,
   computeHomunculusState,
+  buildSomaticCheckIn,
+  CHECK_IN_EMOTIONS,
 } from './bodyMapEngine'
 
 // --- Constants ---
@@ -492,4 +494,40 @@ describe('computeHomunculusState', () => {
       expect(state.chest.quotes).toHaveLength(1)
     })
   })
+
+  describe('manual check-ins', () => {
+    it('counts check-ins alongside extracted signals and marks their quotes', () => {
+      const memories = [
+        { bodyRegion: 'throat', emotion: 'fear', quote: 'I swallowed it', entryId: 'e1', timestamp: 1000, source: 'journal' },
+        buildSomaticCheckIn({ region: 'throat', emotion: 'anxiety', intensity: 'high', note: '  tight before the call ' }, 'm1', 2000),
+        buildSomaticCheckIn({ region: 'throat', emotion: 'anxiety', intensity: 'low', note: '' }, 'm2', 3000),
+      ]
+      const state = computeHomunculusState(memories)
+
+      expect(state.throat.signalCount).toBe(3)
+      expect(state.throat.manualCount).toBe(2)
+      expect(state.throat.dominantEmotions[0]).toMatchObject({ emotion: 'anxiety', count: 2 })
+      expect(state.throat.fillColor).toBe(EMOTION_FAMILIES.anxiety.color)
+      expect(state.throat.quotes.map(q => [q.text, q.manual])).toEqual([
+        ['tight before the call', true],
+        ['I swallowed it', false],
+      ])
+    })
+  })
+})
+
+describe('buildSomaticCheckIn', () => {
+  it('stores a manual somatic memory with the note as its quote', () => {
+    const memory = buildSomaticCheckIn({ region: 'chest', emotion: 'love', intensity: 'medium', note: 'x'.repeat(150) }, 'id-1', 5000)
+
+    expect(memory).toMatchObject({
+      id: 'id-1', partId: '_somatic', entryId: '', type: 'somatic', bodyRegion: 'chest',
+      emotion: 'love', intensity: 'medium', timestamp: 5000, source: 'manual',
+    })
+    expect(memory.quote).toHaveLength(100)
+  })
+
+  it('offers one emotion per color family', () => {
+    expect(new Set(CHECK_IN_EMOTIONS.map(mapEmotionToColor)).size).toBe(Object.keys(EMOTION_FAMILIES).length)
+  })
 })
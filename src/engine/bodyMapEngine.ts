@@ -1,4 +1,4 @@
-import type { BodyRegion, HomunculusState, HomunculusRegionState } from '../types'
+import type { BodyRegion, HomunculusState, HomunculusRegionState, SomaticMemory } from '../types'
 
 export const BODY_REGIONS: BodyRegion[] = [
   'head', 'eyes', 'throat', 'chest', 'stomach',
@@ -55,6 +55,36 @@ export function mapEmotionToColor(emotion: string): string {
   return NEUTRAL_COLOR
 }
 
+/** Emotions offered when checking in by hand — one per family, so each gets its color */
+export const CHECK_IN_EMOTIONS = Object.keys(EMOTION_FAMILIES)
+
+export const CHECK_IN_NOTE_MAX = 100
+
+export interface SomaticCheckIn {
+  region: BodyRegion
+  emotion: string
+  intensity: SomaticMemory['intensity']
+  note: string
+}
+
+/** A somatic memory for something the writer noticed in their body themselves */
+export function buildSomaticCheckIn(checkIn: SomaticCheckIn, id: string, timestamp = Date.now()): SomaticMemory {
+  const note = checkIn.note.trim().slice(0, CHECK_IN_NOTE_MAX)
+  return {
+    id,
+    partId: '_somatic',
+    entryId: '',
+    content: `${checkIn.region}: ${note || 'check-in'} (${checkIn.emotion}, ${checkIn.intensity})`,
+    type: 'somatic',
+    bodyRegion: checkIn.region,
+    quote: note,
+    emotion: checkIn.emotion,
+    intensity: checkIn.intensity,
+    timestamp,
+    source: 'manual',
+  }
+}
+
 interface SomaticMemoryDoc {
   bodyRegion?: string
   quote?: string
@@ -62,30 +92,37 @@ interface SomaticMemoryDoc {
   intensity?: string
   entryId?: string
   timestamp?: number
+  source?: string
 }
 
+// Mirrored in functions/src/index.ts for the MCP get-body-map tool — keep in sync
 export function computeHomunculusState(memories: SomaticMemoryDoc[]): HomunculusState {
   const regionData: Record<BodyRegion, {
     emotions: string[]
-    quotes: Array<{ text: string; date: string; entryId: string }>
-  }> = {} as Record<BodyRegion, { emotions: string[]; quotes: Array<{ text: string; date: string; entryId: string }> }>
+    manualCount: number
+    quotes: HomunculusRegionState['quotes']
+  }> = {} as Record<BodyRegion, { emotions: string[]; manualCount: number; quotes: HomunculusRegionState['quotes'] }>
 
   for (const region of BODY_REGIONS) {
-    regionData[region] = { emotions: [], quotes: [] }
+    regionData[region] = { emotions: [], manualCount: 0, quotes: [] }
   }
 
   for (const mem of memories) {
     const region = mem.bodyRegion as BodyRegion
     if (!BODY_REGIONS.includes(region)) continue
+    // Check-ins weigh the same as signals extracted from writing
+    const manual = mem.source === 'manual'
 
     if (mem.emotion) {
       regionData[region].emotions.push(mem.emotion)
+      if (manual) regionData[region].manualCount++
     }
     if (mem.quote) {
       regionData[region].quotes.push({
         text: mem.quote,
         date: mem.timestamp ? new Date(mem.timestamp).toLocaleDateString() : '',
         entryId: mem.entryId || '',
+        manual,
       })
     }
   }
@@ -130,6 +167,7 @@ export function computeHomunculusState(memories: SomaticMemoryDoc[]): Homunculus
 
     const regionState: HomunculusRegionState = {
       signalCount,
+      manualCount: data.manualCount,
       dominantEmotions,
       sizeFactor,
       fillColor,
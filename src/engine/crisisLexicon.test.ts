@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import { matchesCrisisLexicon, CRISIS_LEXICON_LANGUAGES } from './crisisLexicon'
+import { SUPPORTED_LANGUAGES } from '../i18n/languages'
+
+// Per language: phrases that must trigger, and everyday writing that must not
+const CORPUS: Record<string, { crisis: string[]; safe: string[] }> = {
+  es: {
+    crisis: ['Me quiero morir', 'He pensado en el suicidio', 'No quiero seguir viviendo', 'estaria mejor muerta'],
+    safe: ['Hoy fue un buen día en el trabajo', 'Me muero de risa con mi hermana'],
+  },
+  fr: {
+    crisis: ['Je veux mourir', 'J’ai envie d’en finir', 'Je ne veux plus vivre', 'je vais me tuer'],
+    safe: ['Ce projet va me tuer de fatigue, mais ça avance', 'Il faut en finir avec ce rapport'],
+  },
+  de: {
+    crisis: ['Ich will sterben', 'Ich habe Suizidgedanken', 'Ich will nicht mehr leben', 'Ich bin lebensmüde'],
+    safe: ['Heute war ein ruhiger Tag', 'Der Film war zum Sterben langweilig'],
+  },
+  pt: {
+    crisis: ['Quero morrer', 'Penso em suicídio', 'Não quero mais viver', 'vontade de me matar'],
+    safe: ['Hoje o dia foi tranquilo', 'Ela vai me matar se eu me atrasar'],
+  },
+  it: {
+    crisis: ['Voglio morire', 'Voglio farla finita', 'Non voglio più vivere', 'pensieri suicidi'],
+    safe: ['Oggi ho camminato al parco', 'Muoio dal ridere'],
+  },
+  ru: {
+    crisis: ['Я хочу умереть', 'Хочу покончить с собой', 'Не хочу больше жить', 'мысли о суициде'],
+    safe: ['Сегодня был хороший день', 'Я хочу уметь рисовать'],
+  },
+  zh: {
+    crisis: ['我想死', '我不想活了', '有时候想自杀', '我真的活不下去了', '我想結束生命'],
+    safe: ['今天天气很好', '我想死你了'],
+  },
+  ja: {
+    crisis: ['もう死にたい', '自殺を考えている', '消えたい', '生きていたくない'],
+    safe: ['今日は天気がいい', '死ぬほど笑った'],
+  },
+  ko: {
+    crisis: ['죽고 싶어', '죽고싶다', '자살하고 싶다', '살고 싶지 않아'],
+    safe: ['오늘은 날씨가 좋다', '배고파 죽겠다'],
+  },
+  tr: {
+    crisis: ['Ölmek istiyorum', 'İntihar etmeyi düşünüyorum', 'Yaşamak istemiyorum', 'kendimi öldürmek'],
+    safe: ['Bugün güzel bir gündü', 'Kendimi çok yorgun hissediyorum'],
+  },
+  nl: {
+    crisis: ['Ik wil dood', 'Ik denk aan zelfmoord', 'Ik wil niet meer leven', 'een einde aan mijn leven maken'],
+    safe: ['Vandaag was een mooie dag', 'Ik ben doodmoe'],
+  },
+  vi: {
+    crisis: ['Tôi muốn chết', 'Tôi nghĩ đến tự tử', 'Tôi không muốn sống nữa', 'toi muon chet'],
+    safe: ['Hôm nay trời đẹp', 'Tôi muốn chơi đàn'],
+  },
+  hi: {
+    crisis: ['मैं मरना चाहता हूँ', 'आत्महत्या के विचार आते हैं', 'मैं जीना नहीं चाहती', 'ख़ुद को मार देना चाहता हूं'],
+    safe: ['आज मौसम अच्छा है', 'मैं खुद को समय देना चाहता हूँ'],
+  },
+  id: {
+    crisis: ['Aku ingin mati', 'Aku mau bunuh diri', 'Aku gak mau hidup lagi', 'lebih baik mati saja'],
+    safe: ['Hari ini cerah sekali', 'Baterai ponselku mati'],
+  },
+  th: {
+    crisis: ['ฉันอยากตาย', 'คิดจะฆ่าตัวตาย', 'ไม่อยากมีชีวิตอยู่แล้ว', 'อยากทำร้ายตัวเอง'],
+    safe: ['วันนี้อากาศดีมาก', 'ฉันอยากกินข้าว'],
+  },
+  pl: {
+    crisis: ['Chcę umrzeć', 'Myślę o samobójstwie', 'Nie chcę już żyć', 'chce sie zabic'],
+    safe: ['Dzisiaj był dobry dzień', 'Umieram ze śmiechu'],
+  },
+}
+
+describe('matchesCrisisLexicon', () => {
+  it('has a lexicon and a test corpus for every non-English UI language', () => {
+    const others = SUPPORTED_LANGUAGES.map(l => l.code).filter(code => code !== 'en')
+    expect([...CRISIS_LEXICON_LANGUAGES].sort()).toEqual([...others].sort())
+    expect(Object.keys(CORPUS).sort()).toEqual([...others].sort())
+  })
+
+  for (const [language, { crisis, safe }] of Object.entries(CORPUS)) {
+    describe(language, () => {
+      it.each(crisis)('detects "%s"', (text) => {
+        expect(matchesCrisisLexicon(text, language)).toBe(true)
+      })
+
+      it.each(safe)('ignores "%s"', (text) => {
+        expect(matchesCrisisLexicon(text, language)).toBe(false)
+      })
+    })
+  }
+
+  it('always checks English alongside the selected language', () => {
+    expect(matchesCrisisLexicon('honestly kms', 'ja')).toBe(true)
+    expect(matchesCrisisLexicon('I want to die', 'ru')).toBe(true)
+  })
+
+  it('only applies the lexicon of the selected language', () => {
+    expect(matchesCrisisLexicon('もう死にたい', 'en')).toBe(false)
+    expect(matchesCrisisLexicon('Quiero morir', 'de')).toBe(false)
+  })
+
+  it('does not match word-script phrases inside longer words', () => {
+    // "mau mati" is "want to die", but "mau matikan" is "want to turn off"
+    expect(matchesCrisisLexicon('Aku mau matikan lampu', 'id')).toBe(false)
+    expect(matchesCrisisLexicon('Aku mau mati', 'id')).toBe(true)
+  })
+
+  it('treats curly apostrophes like straight ones', () => {
+    expect(matchesCrisisLexicon('I don’t want to live', 'en')).toBe(true)
+  })
+
+  it('falls back to English for languages without a lexicon', () => {
+    expect(matchesCrisisLexicon('I want to die', 'xx')).toBe(true)
+    expect(matchesCrisisLexicon('a quiet day', 'xx')).toBe(false)
+  })
+})
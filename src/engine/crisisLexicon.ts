@@ -0,0 +1,352 @@
+import { getLanguageCode } from '../i18n'
+
+// Fast keyword-based crisis detection — no LLM, no cooldown, no feature flag.
+// This is a safety net that runs synchronously before any model responds, so
+// it has to work in every UI language, not only English.
+
+/**
+ * 'word' — space-delimited scripts, matched on Unicode letter boundaries
+ * (`\b` only knows ASCII, so it fails on Cyrillic, Devanagari, diacritics).
+ * 'substring' — scripts written without spaces between words (CJK, Thai) or
+ * where endings attach to the stem (Korean); phrases match anywhere.
+ */
+type CrisisMatching = 'word' | 'substring'
+
+interface CrisisLexicon {
+  matching: CrisisMatching
+  /** Regex sources, written in lowercase */
+  phrases: string[]
+}
+
+// English keeps its hand-tuned ASCII patterns and is always checked — English
+// slang (kms, kys) turns up in every language's writing
+const ENGLISH_PATTERNS = [
+  /\bwant\s+to\s+die\b/i,
+  /\bwant\s+to\s+kill\s+(myself|me)\b/i,
+  /\bkill\s+myself\b/i,
+  /\bend\s+(my|this)\s+life\b/i,
+  /\bend\s+it\s+all\b/i,
+  /\bsuicid/i,
+  /\bdon'?t\s+want\s+to\s+(be\s+here|live|exist|be\s+alive)\b/i,
+  /\bwish\s+I\s+(was|were)\s+dead\b/i,
+  /\bbetter\s+off\s+dead\b/i,
+  /\bno\s+reason\s+to\s+(live|go\s+on|keep\s+going)\b/i,
+  /\bshould\s+I?\s*(just\s+)?die\b/i,
+  /\bI\s+should\s+die\b/i,
+  /\brest\s+forever\b/i,
+  /\bwith\s+jesus\b/i,
+  /\bjump\s+off\b/i,
+  /\bcut\s+(myself|my\s+wrists?)\b/i,
+  /\btake\s+(all\s+)?(the\s+)?pills\b/i,
+  /\bswallow\s+(all\s+)?(the\s+)?pills\b/i,
+  /\bhang\s+myself\b/i,
+  /\bshoot\s+myself\b/i,
+  // Abbreviations and slang
+  /\bkms\b/i,
+  /\bkys\b/i,
+  /\bctb\b/i,
+  // Additional patterns
+  /\bslit\s+(my\s+)?wrists?\b/i,
+  /\boverdose\b/i,
+  /\bwanna\s+die\b/i,
+  /\bready\s+to\s+die\b/i,
+  /\bplanning\s+to\s+(end|kill|die)\b/i,
+  /\bno\s+point\s+in\s+living\b/i,
+  /\blife\s+isn'?t\s+worth\b/i,
+  /\bcan'?t\s+do\s+this\s+anymore\b/i,
+  /\bdon'?t\s+want\s+to\s+wake\s+up\b/i,
+  /\bhurt\s+myself\b/i,
+  /\bself[- ]?harm\b/i,
+  /\bdrown\s+myself\b/i,
+]
+
+// Accents are optional where people commonly type without them
+const LEXICONS: Record<string, CrisisLexicon> = {
+  es: {
+    matching: 'word',
+    phrases: [
+      '(?:me\\s+)?quiero\\s+morir(?:me)?',
+      'suicid\\p{L}*',
+      '(?:quiero|voy\\s+a|ganas\\s+de)\\s+matarme',
+      'quitarme\\s+la\\s+vida',
+      'acabar\\s+con\\s+(?:mi\\s+vida|todo)',
+      'no\\s+quiero\\s+(?:vivir|seguir\\s+viviendo|estar\\s+aqu[ií]|despertar)',
+      'estar[ií]a\\s+mejor\\s+muert[oa]',
+      'cortarme\\s+las\\s+venas',
+      'hacerme\\s+da[ñn]o',
+      'no\\s+vale\\s+la\\s+pena\\s+vivir',
+    ],
+  },
+  fr: {
+    matching: 'word',
+    phrases: [
+      'je\\s+veux\\s+mourir',
+      'envie\\s+de\\s+mourir',
+      'suicid\\p{L}*',
+      '(?:veux|vais)\\s+me\\s+tuer',
+      '(?:je\\s+veux|je\\s+vais|envie\\s+d\')\\s*en\\s+finir',
+      'mettre\\s+fin\\s+[àa]\\s+(?:ma\\s+vie|mes\\s+jours)',
+      '(?:ne\\s+)?veux\\s+plus\\s+vivre',
+      'me\\s+faire\\s+du\\s+mal',
+      'me\\s+scarifier',
+      'me\\s+pendre',
+      'me\\s+couper\\s+les\\s+veines',
+    ],
+  },
+  de: {
+    matching: 'word',
+    phrases: [
+      'ich\\s+will\\s+sterben',
+      'will\\s+nicht\\s+mehr\\s+(?:leben|aufwachen)',
+      'mich\\s+umbringen',
+      'selbstmord\\p{L}*',
+      'suizid\\p{L}*',
+      'mir\\s+das\\s+leben\\s+nehmen',
+      'lebensm[üu]de',
+      'besser\\s+tot',
+      '(?:mich\\s+ritzen|ritze\\s+mich)',
+      'mir\\s+(?:etwas|was)\\s+antun',
+    ],
+  },
+  pt: {
+    matching: 'word',
+    phrases: [
+      'quero\\s+morrer',
+      'suic[ií]d\\p{L}*',
+      '(?:quero|vou|vontade\\s+de)\\s+me\\s+matar',
+      'tirar\\s+(?:a\\s+)?minha\\s+(?:pr[óo]pria\\s+)?vida',
+      'n[ãa]o\\s+quero\\s+mais\\s+viver',
+      'acabar\\s+com\\s+tudo',
+      'me\\s+cortar',
+      'melhor\\s+mort[oa]',
+      'me\\s+machucar',
+    ],
+  },
+  it: {
+    matching: 'word',
+    phrases: [
+      'voglio\\s+morire',
+      'suicid\\p{L}*',
+      '(?:voglio|vorrei|voglia\\s+di)\\s+uccidermi',
+      'togliermi\\s+la\\s+vita',
+      'farla\\s+finita',
+      'non\\s+voglio\\s+pi[ùu]\\s+vivere',
+      'meglio\\s+(?:se\\s+fossi\\s+)?mort[oa]',
+      'tagliarmi\\s+le\\s+vene',
+      'farmi\\s+del\\s+male',
+    ],
+  },
+  ru: {
+    matching: 'word',
+    phrases: [
+      'хочу\\s+умереть',
+      'покончить\\s+с\\s+собой',
+      'убить\\s+себя',
+      'суицид\\p{L}*',
+      'самоубийств\\p{L}*',
+      'не\\s+хочу\\s+(?:больше\\s+)?жить',
+      'лучше\\s+бы\\s+я\\s+умер\\p{L}*',
+      '(?:порезать|вскрыть)\\s+вены',
+      'повеситься',
+      'нет\\s+смысла\\s+жить',
+      'причинить\\s+себе\\s+вред',
+      'наглотаться\\s+таблеток',
+    ],
+  },
+  zh: {
+    matching: 'substring',
+    phrases: [
+      // 想死你了 ("miss you to death") is affectionate, not a crisis
+      '想死(?![你您])',
+      '自[杀殺]',
+      '不想活',
+      '活不下去',
+      '[结結]束(?:我的)?生命',
+      '[轻輕]生',
+      '割腕',
+      '跳[楼樓]',
+      '[伤傷]害自己',
+      '自[残殘]',
+    ],
+  },
+  ja: {
+    matching: 'substring',
+    phrases: [
+      '死にたい',
+      '自殺',
+      '消えたい',
+      '生きていたくない',
+      '生きたくない',
+      '自傷',
+      'リスカ',
+      '首を吊',
+      '飛び降り(?:たい|る)',
+    ],
+  },
+  ko: {
+    matching: 'substring',
+    phrases: [
+      '죽고\\s*싶',
+      '죽어\\s*버리고\\s*싶',
+      '자살',
+      '살고\\s*싶지\\s*않',
+      '자해',
+      '목숨을\\s*끊',
+      '사라지고\\s*싶',
+      '손목을\\s*긋',
+    ],
+  },
+  tr: {
+    matching: 'word',
+    phrases: [
+      'ölmek\\s+istiyorum',
+      'intihar\\p{L}*',
+      'kendimi\\s+öldür\\p{L}*',
+      'yaşamak\\s+istemiyorum',
+      'canıma\\s+kıy\\p{L}*',
+      'kendime\\s+zarar\\s+ver\\p{L}*',
+      'bileklerimi\\s+kes\\p{L}*',
+      'ölsem\\s+daha\\s+iyi',
+    ],
+  },
+  nl: {
+    matching: 'word',
+    phrases: [
+      'ik\\s+wil\\s+(?:dood|sterven|niet\\s+meer\\s+leven)',
+      'zelfmoord\\p{L}*',
+      'su[iï]cid\\p{L}*',
+      'mezelf\\s+(?:van\\s+kant\\s+maken|doden|iets\\s+aandoen|snijden|pijn\\s+doen)',
+      'een\\s+einde?\\s+aan\\s+mijn\\s+leven',
+      'beter\\s+(?:af\\s+)?dood',
+    ],
+  },
+  vi: {
+    matching: 'word',
+    phrases: [
+      'muốn\\s+chết',
+      'muon\\s+chet',
+      'tự\\s+tử',
+      'tự\\s+sát',
+      'không\\s+muốn\\s+sống',
+      'khong\\s+muon\\s+song',
+      'kết\\s+thúc\\s+cuộc\\s+đời',
+      'tự\\s+làm\\s+hại\\s+bản\\s+thân',
+      'cắt\\s+tay',
+    ],
+  },
+  hi: {
+    matching: 'word',
+    // \u093C is the nukta, which people often leave out (ख़ vs ख)
+    phrases: [
+      'आत्महत्या',
+      'ख\\u093C?ुदकुशी',
+      'मरना\\s+चाहत[ाी]\\s+हू[ँं]',
+      'मर\\s+जाना\\s+चाहत[ाी]',
+      'जीना\\s+नहीं\\s+चाहत[ाी]',
+      'ख\\u093C?ुद\\s*को\\s+(?:मार|ख\\u093C?त्म|नुकसान|चोट)',
+      'ज\\u093C?िंदगी\\s+ख\\u093C?त्म\\s+कर',
+      // Romanised Hindi
+      'marna\\s+chaht[ai]',
+      'khudkushi',
+      'a?atmahatya',
+    ],
+  },
+  id: {
+    matching: 'word',
+    phrases: [
+      '(?:ingin|mau|pengen|pengin)\\s+mati',
+      'bunuh\\s+diri',
+      'mengakhiri\\s+hidup\\p{L}*',
+      '(?:tidak|nggak|gak|ga)\\s+(?:ingin|mau)\\s+hidup',
+      'menyakiti\\s+diri',
+      'lebih\\s+baik\\s+mati',
+      '(?:menyayat|sayat|potong)\\s+(?:tangan|nadi)',
+    ],
+  },
+  th: {
+    matching: 'substring',
+    phrases: [
+      'อยากตาย',
+      'ฆ่าตัวตาย',
+      'ไม่อยากมีชีวิตอยู่',
+      'ไม่อยากอยู่แล้ว',
+      'อยากจบชีวิต',
+      'ทำร้ายตัวเอง',
+      'กินยาตาย',
+      'กรีดข้อมือ',
+    ],
+  },
+  pl: {
+    matching: 'word',
+    phrases: [
+      'chc[eę]\\s+umrze[cć]',
+      '(?:zabi[cć]\\s+si[eę]|si[eę]\\s+zabi[cć])',
+      'samob[oó]j\\p{L}*',
+      'odebra[cć]\\s+sobie\\s+[zż]ycie',
+      'nie\\s+chc[eę]\\s+(?:ju[zż]\\s+)?[zż]y[cć]',
+      'sko[nń]czy[cć]\\s+ze\\s+sob[aą]',
+      'zrobi[cć]\\s+sobie\\s+krzywd[eę]',
+      'poci[aą][cć]\\s+si[eę]',
+    ],
+  },
+}
+
+// Letters, combining marks (Devanagari vowel signs) and digits all count as "inside a word"
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]'
+
+function compileLexicon({ matching, phrases }: CrisisLexicon): RegExp[] {
+  return phrases.map((phrase) => {
+    // Sources go through the same normalization as the text they are matched against
+    const source = phrase.normalize('NFKC')
+    return matching === 'word'
+      ? new RegExp(`(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`, 'iu')
+      : new RegExp(source, 'iu')
+  })
+}
+
+const compiled = new Map<string, RegExp[]>()
+
+function patternsFor(language: string): RegExp[] {
+  let patterns = compiled.get(language)
+  if (!patterns) {
+    const lexicon = LEXICONS[language]
+    patterns = lexicon ? compileLexicon(lexicon) : []
+    compiled.set(language, patterns)
+  }
+  return patterns
+}
+
+/** Language codes that have a crisis lexicon besides English */
+export const CRISIS_LEXICON_LANGUAGES = Object.keys(LEXICONS)
+
+/**
+ * Normalizes text for crisis detection: NFKC normalization to defeat
+ * Unicode tricks (Cyrillic lookalikes, fullwidth chars), strips
+ * zero-width/non-breaking whitespace, and straightens curly apostrophes.
+ */
+function normalizeForCrisisDetection(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/[\u00A0\u200B\u200C\u200D\uFEFF\u2060]/g, ' ')
+    .replace(/[\u2018\u2019\u02BC]/g, '\'')
+}
+
+/** Checks text against the English patterns plus the given language's lexicon. */
+export function matchesCrisisLexicon(text: string, language: string): boolean {
+  const normalized = normalizeForCrisisDetection(text)
+  if (ENGLISH_PATTERNS.some(p => p.test(normalized))) return true
+  if (language === 'en') return false
+  // Locale-aware lowercasing so Turkish İ/I fold to i/ı before matching
+  let lowered = normalized
+  try {
+    lowered = normalized.toLocaleLowerCase(language)
+  } catch {
+    lowered = normalized.toLowerCase()
+  }
+  return patternsFor(language).some(p => p.test(lowered))
+}
+
+/** Crisis check in the user's current UI language. */
+export function detectCrisisKeywords(text: string, language: string = getLanguageCode()): boolean {
+  return matchesCrisisLexicon(text, language)
+}
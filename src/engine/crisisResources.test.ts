@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import {
+  CRISIS_REGIONS, getCrisisResources, inferCrisisRegion, resolveCrisisRegion,
+} from './crisisResources'
+
+describe('crisis resource registry', () => {
+  it('gives every contact a dialable or openable link', () => {
+    for (const region of Object.values(CRISIS_REGIONS)) {
+      expect(region.emergency).toMatch(/^\d+$/)
+      for (const resource of region.resources) {
+        expect(resource.languages.length).toBeGreaterThan(0)
+        for (const contact of resource.contacts) {
+          expect(contact.href).toMatch(/^(tel:\+?\d+|sms:\d+(&body=\w+)?|https:\/\/)/)
+        }
+      }
+    }
+  })
+})
+
+describe('resolveCrisisRegion', () => {
+  // Every user starts with this zone, so it says nothing about where they are
+  const DEFAULT_TIMEZONE = 'America/New_York'
+
+  it('infers the country from the device timezone', () => {
+    expect(inferCrisisRegion('Europe/Berlin')).toBe('DE')
+    expect(resolveCrisisRegion({ crisisRegion: 'auto', timezone: 'America/New_York' }, DEFAULT_TIMEZONE, 'Asia/Tokyo')).toBe('JP')
+  })
+
+  it('trusts the device over the settings panel\'s sample zone', () => {
+    expect(resolveCrisisRegion({ crisisRegion: 'auto', timezone: 'Europe/Paris' }, DEFAULT_TIMEZONE, 'Europe/Berlin')).toBe('DE')
+  })
+
+  it('falls back to a timezone the user chose, but not to the default', () => {
+    expect(resolveCrisisRegion({ crisisRegion: 'auto', timezone: 'Asia/Tokyo' }, DEFAULT_TIMEZONE, 'UTC')).toBe('JP')
+    expect(resolveCrisisRegion({ crisisRegion: 'auto', timezone: 'America/New_York' }, DEFAULT_TIMEZONE, 'UTC')).toBeNull()
+    expect(resolveCrisisRegion({ crisisRegion: 'auto', timezone: 'America/New_York' }, DEFAULT_TIMEZONE, null)).toBeNull()
+  })
+
+  it('returns null for timezones it cannot place', () => {
+    expect(resolveCrisisRegion({ crisisRegion: 'auto', timezone: 'Asia/Dubai' }, DEFAULT_TIMEZONE, 'Asia/Dubai')).toBeNull()
+  })
+
+  it('prefers a manual override over the timezone', () => {
+    expect(resolveCrisisRegion({ crisisRegion: 'GB', timezone: 'America/New_York' }, DEFAULT_TIMEZONE, 'America/Chicago')).toBe('GB')
+  })
+
+  it('ignores an override for a region it does not know', () => {
+    expect(resolveCrisisRegion({ crisisRegion: 'ZZ', timezone: 'America/New_York' }, DEFAULT_TIMEZONE, 'Europe/Madrid')).toBe('ES')
+    expect(resolveCrisisRegion({ crisisRegion: 'ZZ', timezone: 'America/New_York' }, DEFAULT_TIMEZONE, null)).toBeNull()
+  })
+})
+
+describe('getCrisisResources', () => {
+  it('lists services that speak the user\'s language first', () => {
+    const names = getCrisisResources('BE', 'fr').map((r) => r.name)
+    expect(names[0]).toBe('Centre de Prévention du Suicide')
+    expect(getCrisisResources('BE', 'nl')[0].name).toBe('Zelfmoordlijn 1813')
+  })
+
+  it('has only the emergency number where no national line is listed', () => {
+    expect(inferCrisisRegion('Europe/Istanbul')).toBe('TR')
+    expect(getCrisisResources('TR', 'tr')).toEqual([])
+    expect(CRISIS_REGIONS.TR.emergency).toBe('112')
+  })
+
+  it('returns nothing without a known region', () => {
+    expect(getCrisisResources(null, 'en')).toEqual([])
+    expect(getCrisisResources('ZZ', 'en')).toEqual([])
+  })
+})
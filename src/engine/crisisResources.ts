@@ -0,0 +1,305 @@
+// ── Crisis resource registry ──
+// Hotlines, text lines and web chats keyed by ISO 3166 country code. Only
+// services that are free and national (or the main regional line) are listed;
+// anywhere else falls back to findahelpline.com, which the card always shows.
+// Regions with no resources (e.g. TR, RU, VN, ID) only add the emergency
+// number; the card says no national line is listed and points there.
+
+export type CrisisContactKind = 'phone' | 'text' | 'chat'
+
+export interface CrisisContact {
+  kind: CrisisContactKind
+  /** As displayed — a number or a host name */
+  value: string
+  href: string
+  /** Word to send for text lines that need one (e.g. HOME) */
+  keyword?: string
+}
+
+export interface CrisisResource {
+  name: string
+  /** Language codes the service answers in */
+  languages: string[]
+  contacts: CrisisContact[]
+}
+
+export interface CrisisRegion {
+  emergency: string
+  resources: CrisisResource[]
+}
+
+function phone(number: string): CrisisContact {
+  return { kind: 'phone', value: number, href: `tel:${number.replace(/[^\d+]/g, '')}` }
+}
+
+function text(number: string, keyword?: string): CrisisContact {
+  const digits = number.replace(/[^\d+]/g, '')
+  return {
+    kind: 'text',
+    value: number,
+    href: keyword ? `sms:${digits}&body=${keyword}` : `sms:${digits}`,
+    ...(keyword ? { keyword } : {}),
+  }
+}
+
+function chat(url: string): CrisisContact {
+  return { kind: 'chat', value: new URL(url).host, href: url }
+}
+
+export const CRISIS_REGIONS: Record<string, CrisisRegion> = {
+  US: {
+    emergency: '911',
+    resources: [
+      {
+        name: '988 Suicide & Crisis Lifeline',
+        languages: ['en', 'es'],
+        contacts: [phone('988'), text('988'), chat('https://988lifeline.org/chat')],
+      },
+      { name: 'Crisis Text Line', languages: ['en', 'es'], contacts: [text('741741', 'HOME')] },
+    ],
+  },
+  CA: {
+    emergency: '911',
+    resources: [
+      { name: '9-8-8 Suicide Crisis Helpline', languages: ['en', 'fr'], contacts: [phone('988'), text('988')] },
+      { name: 'Kids Help Phone', languages: ['en', 'fr'], contacts: [phone('1-800-668-6868'), text('686868', 'CONNECT')] },
+    ],
+  },
+  GB: {
+    emergency: '999',
+    resources: [
+      { name: 'Samaritans', languages: ['en'], contacts: [phone('116 123')] },
+      { name: 'Shout', languages: ['en'], contacts: [text('85258', 'SHOUT')] },
+    ],
+  },
+  IE: {
+    emergency: '112',
+    resources: [
+      { name: 'Samaritans', languages: ['en'], contacts: [phone('116 123')] },
+      { name: 'Text About It', languages: ['en'], contacts: [text('50808', 'HELLO')] },
+    ],
+  },
+  AU: {
+    emergency: '000',
+    resources: [
+      { name: 'Lifeline', languages: ['en'], contacts: [phone('13 11 14'), text('0477 13 11 14'), chat('https://www.lifeline.org.au/crisis-chat/')] },
+      { name: 'Beyond Blue', languages: ['en'], contacts: [phone('1300 22 4636')] },
+    ],
+  },
+  NZ: {
+    emergency: '111',
+    resources: [
+      { name: 'Need to talk? 1737', languages: ['en'], contacts: [phone('1737'), text('1737')] },
+      { name: 'Lifeline Aotearoa', languages: ['en'], contacts: [phone('0800 543 354')] },
+    ],
+  },
+  FR: {
+    emergency: '112',
+    resources: [
+      { name: '3114 — Numéro national de prévention du suicide', languages: ['fr'], contacts: [phone('3114')] },
+      { name: 'SOS Amitié', languages: ['fr'], contacts: [phone('09 72 39 40 50')] },
+    ],
+  },
+  BE: {
+    emergency: '112',
+    resources: [
+      { name: 'Zelfmoordlijn 1813', languages: ['nl'], contacts: [phone('1813'), chat('https://www.zelfmoord1813.be/')] },
+      { name: 'Centre de Prévention du Suicide', languages: ['fr'], contacts: [phone('0800 32 123')] },
+    ],
+  },
+  DE: {
+    emergency: '112',
+    resources: [
+      {
+        name: 'TelefonSeelsorge',
+        languages: ['de'],
+        contacts: [phone('0800 111 0 111'), phone('0800 111 0 222'), chat('https://online.telefonseelsorge.de/')],
+      },
+    ],
+  },
+  AT: {
+    emergency: '112',
+    resources: [{ name: 'TelefonSeelsorge', languages: ['de'], contacts: [phone('142')] }],
+  },
+  CH: {
+    emergency: '112',
+    resources: [{ name: 'Die Dargebotene Hand / La Main Tendue', languages: ['de', 'fr', 'it'], contacts: [phone('143')] }],
+  },
+  NL: {
+    emergency: '112',
+    resources: [
+      { name: '113 Zelfmoordpreventie', languages: ['nl'], contacts: [phone('113'), phone('0800-0113'), chat('https://www.113.nl/')] },
+    ],
+  },
+  ES: {
+    emergency: '112',
+    resources: [
+      { name: 'Línea 024 de atención a la conducta suicida', languages: ['es'], contacts: [phone('024')] },
+      { name: 'Teléfono de la Esperanza', languages: ['es'], contacts: [phone('717 003 717')] },
+    ],
+  },
+  PT: {
+    emergency: '112',
+    resources: [
+      { name: 'SNS 24 — Aconselhamento psicológico', languages: ['pt'], contacts: [phone('808 24 24 24')] },
+      { name: 'SOS Voz Amiga', languages: ['pt'], contacts: [phone('213 544 545')] },
+    ],
+  },
+  IT: {
+    emergency: '112',
+    resources: [{ name: 'Telefono Amico Italia', languages: ['it'], contacts: [phone('02 2327 2327')] }],
+  },
+  PL: {
+    emergency: '112',
+    resources: [
+      { name: 'Centrum Wsparcia', languages: ['pl'], contacts: [phone('800 70 2222')] },
+      { name: 'Kryzysowy Telefon Zaufania', languages: ['pl'], contacts: [phone('116 123')] },
+    ],
+  },
+  FI: {
+    emergency: '112',
+    resources: [{ name: 'MIELI Kriisipuhelin', languages: ['fi', 'sv', 'en'], contacts: [phone('09 2525 0111')] }],
+  },
+  MX: {
+    emergency: '911',
+    resources: [{ name: 'Línea de la Vida', languages: ['es'], contacts: [phone('800 911 2000')] }],
+  },
+  BR: {
+    emergency: '192',
+    resources: [{ name: 'CVV — Centro de Valorização da Vida', languages: ['pt'], contacts: [phone('188'), chat('https://cvv.org.br/')] }],
+  },
+  JP: {
+    emergency: '119',
+    resources: [
+      { name: 'いのちの電話', languages: ['ja'], contacts: [phone('0570-783-556')] },
+      { name: 'よりそいホットライン', languages: ['ja', 'en', 'zh', 'ko', 'vi'], contacts: [phone('0120-279-338')] },
+    ],
+  },
+  KR: {
+    emergency: '119',
+    resources: [{ name: '자살예방상담전화', languages: ['ko'], contacts: [phone('109')] }],
+  },
+  CN: {
+    emergency: '120',
+    resources: [{ name: '北京心理危机研究与干预中心', languages: ['zh'], contacts: [phone('010-8295 1332')] }],
+  },
+  HK: {
+    emergency: '999',
+    resources: [
+      { name: '撒瑪利亞防止自殺會 Samaritan Befrienders', languages: ['zh', 'en'], contacts: [phone('2389 2222')] },
+      { name: 'The Samaritans Hong Kong', languages: ['en', 'zh'], contacts: [phone('2896 0000')] },
+    ],
+  },
+  TW: {
+    emergency: '119',
+    resources: [
+      { name: '安心專線', languages: ['zh'], contacts: [phone('1925')] },
+      { name: '生命線', languages: ['zh'], contacts: [phone('1995')] },
+    ],
+  },
+  IN: {
+    emergency: '112',
+    resources: [{ name: 'Tele-MANAS', languages: ['hi', 'en'], contacts: [phone('14416')] }],
+  },
+  TH: {
+    emergency: '1669',
+    resources: [{ name: 'สายด่วนสุขภาพจิต', languages: ['th'], contacts: [phone('1323')] }],
+  },
+  TR: { emergency: '112', resources: [] },
+  RU: { emergency: '112', resources: [] },
+  VN: { emergency: '115', resources: [] },
+  ID: { emergency: '112', resources: [] },
+}
+
+// IANA zone → country, for zones the settings panel offers plus common neighbours.
+// Devices report their own zone, which is more precise than the panel's one
+// sample zone per offset (Europe/Paris stands in for all of CET).
+const TIMEZONE_REGIONS: Record<string, string> = {
+  'Pacific/Honolulu': 'US',
+  'America/Anchorage': 'US',
+  'America/Los_Angeles': 'US',
+  'America/Phoenix': 'US',
+  'America/Denver': 'US',
+  'America/Chicago': 'US',
+  'America/New_York': 'US',
+  'America/Detroit': 'US',
+  'America/Toronto': 'CA',
+  'America/Vancouver': 'CA',
+  'America/Edmonton': 'CA',
+  'America/Winnipeg': 'CA',
+  'America/Halifax': 'CA',
+  'America/St_Johns': 'CA',
+  'America/Mexico_City': 'MX',
+  'America/Sao_Paulo': 'BR',
+  'Europe/London': 'GB',
+  'Europe/Dublin': 'IE',
+  'Europe/Paris': 'FR',
+  'Europe/Brussels': 'BE',
+  'Europe/Berlin': 'DE',
+  'Europe/Vienna': 'AT',
+  'Europe/Zurich': 'CH',
+  'Europe/Amsterdam': 'NL',
+  'Europe/Madrid': 'ES',
+  'Europe/Lisbon': 'PT',
+  'Europe/Rome': 'IT',
+  'Europe/Warsaw': 'PL',
+  'Europe/Helsinki': 'FI',
+  'Europe/Istanbul': 'TR',
+  'Europe/Moscow': 'RU',
+  'Asia/Tokyo': 'JP',
+  'Asia/Seoul': 'KR',
+  'Asia/Shanghai': 'CN',
+  'Asia/Hong_Kong': 'HK',
+  'Asia/Taipei': 'TW',
+  'Asia/Kolkata': 'IN',
+  'Asia/Bangkok': 'TH',
+  'Asia/Ho_Chi_Minh': 'VN',
+  'Asia/Jakarta': 'ID',
+  'Asia/Makassar': 'ID',
+  'Asia/Jayapura': 'ID',
+  'Australia/Sydney': 'AU',
+  'Australia/Melbourne': 'AU',
+  'Australia/Brisbane': 'AU',
+  'Australia/Perth': 'AU',
+  'Pacific/Auckland': 'NZ',
+}
+
+/** Country codes with an entry in the registry, for the settings picker */
+export const CRISIS_REGION_CODES = Object.keys(CRISIS_REGIONS)
+
+export function inferCrisisRegion(timezone: string): string | null {
+  return TIMEZONE_REGIONS[timezone] ?? null
+}
+
+function deviceTimezone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Manual override wins. 'auto' places the user by their device's timezone,
+ * then by a timezone they chose in settings — never by `defaultTimezone`,
+ * which every user starts with. Null means only the international card is shown.
+ */
+export function resolveCrisisRegion(
+  settings: { crisisRegion: string; timezone: string },
+  defaultTimezone: string,
+  device: string | null = deviceTimezone(),
+): string | null {
+  if (settings.crisisRegion !== 'auto' && CRISIS_REGIONS[settings.crisisRegion]) {
+    return settings.crisisRegion
+  }
+  const fromDevice = device ? inferCrisisRegion(device) : null
+  if (fromDevice) return fromDevice
+  return settings.timezone !== defaultTimezone ? inferCrisisRegion(settings.timezone) : null
+}
+
+/** Resources for a region, those answering in the user's language first. */
+export function getCrisisResources(region: string | null, language: string): CrisisResource[] {
+  const resources = region ? CRISIS_REGIONS[region]?.resources ?? [] : []
+  const speaks = (r: CrisisResource) => r.languages.includes(language) ? 0 : 1
+  return [...resources].sort((a, b) => speaks(a) - speaks(b))
+}
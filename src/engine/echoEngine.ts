@@ -1,8 +1,11 @@
 import { getGlobalConfig } from '../store/globalConfig'
 import { db } from '../store/db'
 import { extractWords } from '../utils/text'
+import { isSemanticRetrievalEnabled, findRelated, relatedEntryIds } from './semanticIndex'
 import type { EntrySummary } from '../types'
 
+const ECHO_MIN_AGE_DAYS = 3
+
 export class EchoEngine {
   private echoesThisSession: number = 0
 
@@ -22,17 +25,23 @@ export class EchoEngine {
 
     if (Math.random() > echoChance) return null
 
-    try {
-      const allSummaries = await db.entrySummaries.orderBy('timestamp').reverse().toArray()
+    if (isSemanticRetrievalEnabled()) {
+      const echo = await this.findSemanticEcho(currentText, echoMaxAge)
+      if (echo) {
+        this.echoesThisSession++
+        return echo
+      }
+    }
 
+    try {
       const now = Date.now()
-      const minAgeMs = 3 * 24 * 60 * 60 * 1000
+      const minAgeMs = ECHO_MIN_AGE_DAYS * 24 * 60 * 60 * 1000
       const maxAgeMs = echoMaxAge * 24 * 60 * 60 * 1000
 
-      const qualifying = allSummaries.filter((s) => {
-        const age = now - s.timestamp
-        return age > minAgeMs && age < maxAgeMs
-      })
+      const qualifying = await db.entrySummaries
+        .where('timestamp').between(now - maxAgeMs, now - minAgeMs, false, false)
+        .reverse()
+        .toArray()
 
       if (qualifying.length === 0) return null
 
@@ -55,31 +64,51 @@ export class EchoEngine {
 
       if (!bestSummary || bestScore === 0) return null
 
-      // Load the full entry
-      const entry = await db.entries.get(bestSummary.entryId) as {
-        id: string
-        plainText: string
-        createdAt: number
-      } | undefined
-
-      if (!entry || !entry.plainText) return null
-
-      const fragment = this.extractFragment(entry.plainText)
-      if (!fragment) return null
+      const echo = await this.echoFromEntry(bestSummary.entryId)
+      if (!echo) return null
 
       this.echoesThisSession++
 
-      return {
-        text: fragment,
-        entryId: entry.id,
-        date: entry.createdAt,
-      }
+      return echo
     } catch (error) {
       console.error('EchoEngine error:', error)
       return null
     }
   }
 
+  // Same feeling in different words, anywhere in the echo window
+  private async findSemanticEcho(currentText: string, maxAgeDays: number): Promise<{ text: string, entryId: string, date: number } | null> {
+    try {
+      const related = await findRelated(currentText, { minAge: ECHO_MIN_AGE_DAYS, maxAge: maxAgeDays, k: 8 })
+      for (const entryId of relatedEntryIds(related)) {
+        const echo = await this.echoFromEntry(entryId)
+        if (echo) return echo
+      }
+    } catch (error) {
+      console.error('EchoEngine semantic lookup error:', error)
+    }
+    return null
+  }
+
+  private async echoFromEntry(entryId: string): Promise<{ text: string, entryId: string, date: number } | null> {
+    const entry = await db.entries.get(entryId) as {
+      id: string
+      plainText: string
+      createdAt: number
+    } | undefined
+
+    if (!entry || !entry.plainText) return null
+
+    const fragment = this.extractFragment(entry.plainText)
+    if (!fragment) return null
+
+    return {
+      text: fragment,
+      entryId: entry.id,
+      date: entry.createdAt,
+    }
+  }
+
   private extractFragment(text: string): string | null {
     const sentences = text.match(/[^.!?]+[.!?]+/g)
     if (!sentences || sentences.length === 0) return null
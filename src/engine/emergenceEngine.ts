@@ -30,7 +30,8 @@ export class EmergenceEngine {
       return { detected: false }
     }
 
-    const emergedCount = existingParts.filter((p) => !p.isSeeded).length
+    // Parts the writer introduced themselves don't use up room for discovery
+    const emergedCount = existingParts.filter((p) => !p.isSeeded && !p.introducedByWriter).length
     if (emergedCount >= this.MAX_EMERGED_PARTS) {
       return { detected: false }
     }
@@ -45,7 +46,7 @@ export class EmergenceEngine {
 
     try {
       const messages = buildEmergenceAnalysis(currentText, existingParts)
-      const response = await chatCompletion(messages)
+      const response = await chatCompletion(messages, 10000, 150, 'emergence')
 
       const parsed = JSON.parse(response)
 
@@ -30,8 +30,7 @@ export class ExplorationEngine {
 
       // Load context
       const profile = await db.userProfile.get('current')
-      const allSummaries = await db.entrySummaries.orderBy('timestamp').reverse().toArray()
-      const recentSummaries = allSummaries.slice(0, 5)
+      const recentSummaries = await db.entrySummaries.orderBy('timestamp').reverse().limit(5).toArray()
 
       // Need at least some context to generate meaningful prompts
       if (!profile && recentSummaries.length === 0) return []
@@ -77,7 +76,7 @@ Sources:
         },
       ]
 
-      const response = await chatCompletion(messages, 10000, 300)
+      const response = await chatCompletion(messages, 10000, 300, 'exploration')
 
       // Parse JSON
       const jsonMatch = response.match(/\[[\s\S]*\]/)
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  measurementsFromRr, rrFromScenario, parseRrIntervals, parseHrSourceParam, SimulatedHrSource, RrFileHrSource,
+  HR_SCENARIOS, createHrSource, setHrSourceOverride,
+} from './hrSource'
+import { HrvTimeline } from './hrvTimeline'
+import type { HrvMeasurement } from '../types/hrv'
+
+const scenario = (name: string) => HR_SCENARIOS.find(s => s.name === name)!
+
+describe('rrFromScenario', () => {
+  it('is the same for the same seed', () => {
+    const spike = scenario('stress-spike')
+    expect(rrFromScenario(spike, 7)).toEqual(rrFromScenario(spike, 7))
+    expect(rrFromScenario(spike, 7)).not.toEqual(rrFromScenario(spike, 8))
+  })
+})
+
+describe('measurementsFromRr', () => {
+  it('follows the scenario from calm through activation to recovery', () => {
+    const { measurements, baseline } = measurementsFromRr(rrFromScenario(scenario('stress-spike')))
+    const at = (sec: number) => measurements.find(m => m.offset === sec * 1000)!.measurement
+
+    expect(baseline).toBeGreaterThan(30)
+    expect(baseline).toBeLessThan(50)
+    expect(at(55).hr).toBeCloseTo(70, -1)
+    expect(at(115)).toMatchObject({ autonomicState: 'activated' })
+    expect(at(115).hr).toBeGreaterThan(88)
+    expect(at(235)).toMatchObject({ autonomicState: 'calm' })
+  })
+
+  it('measures each step over the last 20s of beats only', () => {
+    const rr = [...Array(30).fill(1000), ...Array(60).fill(500)]
+    const { measurements } = measurementsFromRr(rr)
+    const hrAt = (sec: number) => measurements.find(m => m.offset === sec * 1000)!.measurement.hr
+
+    expect(hrAt(30)).toBe(60)
+    expect(hrAt(40)).toBe(90)
+    expect(hrAt(50)).toBe(120)
+  })
+})
+
+describe('parseHrSourceParam', () => {
+  it('reads a scenario with and without a speed', () => {
+    expect(parseHrSourceParam('simulated:stress-spike')).toEqual({ kind: 'simulated', name: 'stress-spike', speed: 1 })
+    expect(parseHrSourceParam('simulated:stress-spike:4')).toEqual({ kind: 'simulated', name: 'stress-spike', speed: 4 })
+  })
+
+  it('keeps colons inside a file path or URL', () => {
+    expect(parseHrSourceParam('file:https://example.com/rr.csv'))
+      .toEqual({ kind: 'file', name: 'https://example.com/rr.csv', speed: 1 })
+    expect(parseHrSourceParam('file:https://example.com:8080/rr.csv:2'))
+      .toEqual({ kind: 'file', name: 'https://example.com:8080/rr.csv', speed: 2 })
+  })
+})
+
+describe('parseRrIntervals', () => {
+  it('reads JSON arrays and objects', () => {
+    expect(parseRrIntervals('[800, 810, 790]')).toEqual([800, 810, 790])
+    expect(parseRrIntervals('{"device": "strap", "rrIntervals": [800, 810]}')).toEqual([800, 810])
+  })
+
+  it('picks the RR column of a CSV export and drops artifacts', () => {
+    const csv = 'time,hr,RR (ms)\n0.8,75,800\n1.6,74,810\n2.0,80,150\n4.5,40,2900\n5.3,72,830'
+    expect(parseRrIntervals(csv)).toEqual([800, 810, 830])
+  })
+
+  it('converts intervals given in seconds', () => {
+    expect(parseRrIntervals('0.812\n0.798\n0.805')).toEqual([812, 798, 805])
+  })
+})
+
+describe('RrIntervalSource playback', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    setHrSourceOverride(null)
+  })
+
+  it('drives HrvTimeline to a shift and a prompt context deterministically', async () => {
+    vi.useFakeTimers({ now: 0 })
+    const source = new SimulatedHrSource(scenario('stress-spike'), { speed: 4 })
+    const timeline = new HrvTimeline()
+    const calibration = vi.fn()
+    source.onMeasurement(m => timeline.addMeasurement(m))
+    source.onCalibrationComplete(baseline => {
+      calibration(baseline)
+      timeline.setBaseline(baseline)
+    })
+
+    await source.start()
+    await vi.advanceTimersByTimeAsync(30_000)
+    source.stop()
+
+    expect(calibration).toHaveBeenCalledOnce()
+    expect(timeline.getMeasurements()).toHaveLength(24)
+    expect(timeline.shifts.map(s => s.toState)).toContain('activated')
+    expect(timeline.buildPromptContext()).toContain('Current autonomic state: activated')
+  })
+
+  it('stops by itself at the end of an imported file', async () => {
+    vi.useFakeTimers({ now: 0 })
+    const rr = Array.from({ length: 40 }, (_, i) => 750 + (i % 2) * 40)
+    const source = new RrFileHrSource(rr.join('\n'))
+    const received: HrvMeasurement[] = []
+    source.onMeasurement(m => received.push(m))
+
+    await source.start()
+    await vi.advanceTimersByTimeAsync(60_000)
+
+    expect(received).toHaveLength(6)
+    expect(received[0].hr).toBeCloseTo(77.9, 0)
+  })
+
+  it('rejects an import with no usable intervals', async () => {
+    await expect(new RrFileHrSource('time,hr\n').start()).rejects.toMatchObject({ type: 'source_unavailable' })
+  })
+
+  it('uses the override instead of the camera', () => {
+    const source = new SimulatedHrSource(scenario('steady'))
+    setHrSourceOverride(() => source)
+    expect(createHrSource()).toBe(source)
+  })
+})
@@ -0,0 +1,324 @@
+import type { HrvMeasurement, HrvError, HrvSignalDump } from '../types/hrv'
+import { HrvEngine } from './hrvEngine'
+import { computeHrvMetrics, computeDerivedMetrics, classifyAutonomicState, computeTrend } from './hrvSignalWorker'
+import { mulberry32, gaussian } from './seededRandom'
+
+// ---------------------------------------------------------------------------
+// Heart-rate sources.
+//
+// Anything that produces HrvMeasurements: the camera (HrvEngine), a simulated
+// source playing a scripted autonomic scenario, or RR intervals imported from
+// a chest strap export. The non-camera sources work from RR intervals and are
+// deterministic, so HrvTimeline and the biometric prompt context can be
+// developed and tested without a face in front of a webcam.
+// ---------------------------------------------------------------------------
+
+export interface HrSource {
+  readonly kind: 'camera' | 'simulated' | 'file'
+  start(): Promise<void>
+  stop(): void
+  onMeasurement(cb: (m: HrvMeasurement) => void): void
+  onCalibrationComplete(cb: (baseline: number) => void): void
+  onError(cb: (error: HrvError) => void): void
+  /** Raw signal snapshots, camera only */
+  getSignalDumps?(): HrvSignalDump[]
+}
+
+// Same cadence and calibration as the camera worker
+const MEASUREMENT_INTERVAL_MS = 5000
+const WINDOW_MS = 20_000
+const CALIBRATION_MS = 30_000
+const DEFAULT_BASELINE = 50
+/** Beats outside this range are artifacts (missed or doubled beats) */
+const MIN_RR = 300
+const MAX_RR = 2000
+
+export interface RrMeasurement {
+  /** Time into the recording, in ms of beat time */
+  offset: number
+  measurement: HrvMeasurement
+}
+
+/**
+ * Turns a series of RR intervals into the measurements the camera would emit:
+ * one every 5s over the last 20s of beats, classified against a baseline
+ * taken from the first 30s.
+ */
+export function measurementsFromRr(rr: number[], startTime = 0): { measurements: RrMeasurement[]; baseline: number | null } {
+  const beats: number[] = []
+  let t = 0
+  for (const ibi of rr) {
+    t += ibi
+    beats.push(t)
+  }
+
+  const measurements: RrMeasurement[] = []
+  const recentRmssds: number[] = []
+  let baseline: number | null = null
+
+  // Beats in (offset - WINDOW_MS, offset]; both ends only move forward
+  let first = 0
+  let end = 0
+  for (let offset = MEASUREMENT_INTERVAL_MS; offset <= t; offset += MEASUREMENT_INTERVAL_MS) {
+    while (end < beats.length && beats[end] <= offset) end++
+    while (first < end && beats[first] <= offset - WINDOW_MS) first++
+    const ibis = rr.slice(first, end)
+    const metrics = computeHrvMetrics(ibis)
+    if (!metrics) continue
+
+    recentRmssds.push(metrics.rmssd)
+    if (recentRmssds.length > 12) recentRmssds.shift()
+    if (baseline === null && offset >= CALIBRATION_MS) {
+      baseline = recentRmssds.reduce((s, v) => s + v, 0) / recentRmssds.length
+    }
+
+    measurements.push({
+      offset,
+      measurement: {
+        timestamp: startTime + offset,
+        hr: Math.round(metrics.hr * 10) / 10,
+        rmssd: Math.round(metrics.rmssd * 10) / 10,
+        autonomicState: classifyAutonomicState(metrics.rmssd, baseline ?? DEFAULT_BASELINE),
+        trend: computeTrend(recentRmssds),
+        confidence: Math.min(1, ibis.length / 8),
+        respiratoryRate: null,
+        derived: computeDerivedMetrics(ibis),
+      },
+    })
+  }
+
+  return { measurements, baseline }
+}
+
+/** Plays RR intervals back as live measurements, `speed` times faster than real time */
+export class RrIntervalSource implements HrSource {
+  readonly kind: 'simulated' | 'file'
+  private loadRr: () => Promise<number[]>
+  private speed: number
+  private timer: ReturnType<typeof setInterval> | null = null
+  private measurementCallbacks: ((m: HrvMeasurement) => void)[] = []
+  private calibrationCallbacks: ((baseline: number) => void)[] = []
+  private errorCallbacks: ((error: HrvError) => void)[] = []
+
+  constructor(kind: 'simulated' | 'file', loadRr: () => Promise<number[]>, options: { speed?: number } = {}) {
+    this.kind = kind
+    this.loadRr = loadRr
+    this.speed = options.speed ?? 1
+  }
+
+  async start(): Promise<void> {
+    let rr: number[]
+    try {
+      rr = await this.loadRr()
+    } catch (err) {
+      throw { type: 'source_unavailable', message: err instanceof Error ? err.message : String(err) } as HrvError
+    }
+    if (rr.length < 2) throw { type: 'source_unavailable', message: 'No RR intervals to play' } as HrvError
+
+    const { measurements, baseline } = measurementsFromRr(rr)
+    let next = 0
+    let calibrated = false
+    this.timer = setInterval(() => {
+      const item = measurements[next++]
+      if (!item) {
+        this.stop()
+        return
+      }
+      if (!calibrated && baseline !== null && item.offset >= CALIBRATION_MS) {
+        calibrated = true
+        this.calibrationCallbacks.forEach(cb => cb(baseline))
+      }
+      const m = { ...item.measurement, timestamp: Date.now() }
+      this.measurementCallbacks.forEach(cb => cb(m))
+    }, MEASUREMENT_INTERVAL_MS / this.speed)
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  onMeasurement(cb: (m: HrvMeasurement) => void): void {
+    this.measurementCallbacks.push(cb)
+  }
+
+  onCalibrationComplete(cb: (baseline: number) => void): void {
+    this.calibrationCallbacks.push(cb)
+  }
+
+  onError(cb: (error: HrvError) => void): void {
+    this.errorCallbacks.push(cb)
+  }
+}
+
+// ── Simulated scenarios ──
+
+export interface HrScenarioPhase {
+  durationSec: number
+  hr: number
+  rmssd: number
+}
+
+export interface HrScenario {
+  name: string
+  description: string
+  phases: HrScenarioPhase[]
+}
+
+export const HR_SCENARIOS: HrScenario[] = [
+  {
+    name: 'steady',
+    description: 'Resting and even throughout',
+    phases: [{ durationSec: 300, hr: 68, rmssd: 45 }],
+  },
+  {
+    name: 'stress-spike',
+    description: 'Calm, a sharp activation, then recovery below the starting level',
+    phases: [
+      { durationSec: 60, hr: 70, rmssd: 40 },
+      { durationSec: 60, hr: 94, rmssd: 14 },
+      { durationSec: 120, hr: 66, rmssd: 60 },
+    ],
+  },
+  {
+    name: 'settling',
+    description: 'Starts stirred up and settles over a few minutes',
+    phases: [
+      { durationSec: 60, hr: 92, rmssd: 16 },
+      { durationSec: 60, hr: 80, rmssd: 28 },
+      { durationSec: 180, hr: 66, rmssd: 50 },
+    ],
+  },
+  {
+    name: 'rollercoaster',
+    description: 'Alternates between activation and calm every 45 seconds',
+    phases: [
+      { durationSec: 45, hr: 72, rmssd: 40 },
+      { durationSec: 45, hr: 95, rmssd: 14 },
+      { durationSec: 45, hr: 64, rmssd: 60 },
+      { durationSec: 45, hr: 95, rmssd: 14 },
+      { durationSec: 45, hr: 64, rmssd: 60 },
+    ],
+  },
+]
+
+// Heart rate and variability glide between phases rather than jump
+const TRANSITION_MS = 10_000
+
+/**
+ * RR intervals for a scenario. Beat-to-beat noise has standard deviation
+ * rmssd/√2, so successive differences have the phase's RMSSD.
+ */
+export function rrFromScenario(scenario: HrScenario, seed = 1): number[] {
+  const random = mulberry32(seed)
+  const rr: number[] = []
+  let previous = scenario.phases[0]
+  for (const phase of scenario.phases) {
+    for (let t = 0; t < phase.durationSec * 1000;) {
+      const blend = Math.min(1, t / TRANSITION_MS)
+      const hr = previous.hr + (phase.hr - previous.hr) * blend
+      const rmssd = previous.rmssd + (phase.rmssd - previous.rmssd) * blend
+      const ibi = Math.round(60000 / hr + gaussian(random) * rmssd / Math.SQRT2)
+      rr.push(ibi)
+      t += ibi
+    }
+    previous = phase
+  }
+  return rr
+}
+
+export class SimulatedHrSource extends RrIntervalSource {
+  constructor(scenario: HrScenario, options: { speed?: number; seed?: number } = {}) {
+    super('simulated', async () => rrFromScenario(scenario, options.seed), options)
+  }
+}
+
+// ── RR interval import ──
+
+/**
+ * Reads RR intervals from a chest strap export: a JSON array, a JSON object
+ * with an `rr`, `rrIntervals` or `ibis` array, or CSV/plain text with one
+ * interval per line (the `rr`/`ibi`/`interval` column, else the last one).
+ * Seconds are converted to milliseconds and artifacts dropped.
+ */
+export function parseRrIntervals(text: string): number[] {
+  const trimmed = text.trim()
+  let values: number[]
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed) as unknown
+    const list = Array.isArray(json) ? json
+      : (json as Record<string, unknown>).rr ?? (json as Record<string, unknown>).rrIntervals ?? (json as Record<string, unknown>).ibis
+    values = Array.isArray(list) ? list.map(Number) : []
+  } else {
+    const rows = trimmed.split(/\r?\n/).map(line => line.split(/[,;\t]/).map(cell => cell.trim()))
+    const header = rows[0]?.some(cell => cell !== '' && !Number.isFinite(Number(cell))) ? rows.shift()! : null
+    const named = header?.findIndex(cell => /\b(rr|ibi)|interval/i.test(cell)) ?? -1
+    values = rows.map(row => Number(row[named >= 0 ? named : row.length - 1]))
+  }
+
+  const finite = values.filter(Number.isFinite)
+  const sorted = [...finite].sort((a, b) => a - b)
+  const inSeconds = sorted.length > 0 && sorted[Math.floor(sorted.length / 2)] < 10
+  return finite
+    .map(v => (inSeconds ? Math.round(v * 1000) : v))
+    .filter(v => v >= MIN_RR && v <= MAX_RR)
+}
+
+export class RrFileHrSource extends RrIntervalSource {
+  /** `content` is the export itself, or a loader for it (e.g. a fetch) */
+  constructor(content: string | (() => Promise<string>), options: { speed?: number } = {}) {
+    super('file', async () => parseRrIntervals(typeof content === 'string' ? content : await content()), options)
+  }
+}
+
+// ── Choosing a source ──
+
+let sourceOverride: (() => HrSource) | null = null
+
+/** Replace the camera with another source (tests, development); null restores it */
+export function setHrSourceOverride(factory: (() => HrSource) | null): void {
+  sourceOverride = factory
+}
+
+/**
+ * Splits `kind:name[:speed]`. The name keeps any colons of its own, so a file
+ * can be a full URL; only a trailing number is read as the speed.
+ */
+export function parseHrSourceParam(param: string): { kind: string; name: string; speed: number } {
+  const colon = param.indexOf(':')
+  if (colon === -1) return { kind: param, name: '', speed: 1 }
+  const rest = param.slice(colon + 1)
+  const speed = /:(\d+(?:\.\d+)?)$/.exec(rest)
+  return {
+    kind: param.slice(0, colon),
+    name: speed ? rest.slice(0, speed.index) : rest,
+    speed: Number(speed?.[1]) || 1,
+  }
+}
+
+/**
+ * In development, `?hrSource=simulated:stress-spike` (optionally `:4` for 4×
+ * speed) or `?hrSource=file:/path/to/export.csv` swaps the camera out.
+ */
+function sourceFromUrl(): HrSource | null {
+  if (!import.meta.env.DEV || typeof location === 'undefined') return null
+  const param = new URLSearchParams(location.search).get('hrSource')
+  if (!param) return null
+
+  const { kind, name, speed } = parseHrSourceParam(param)
+  if (kind === 'simulated') {
+    const scenario = HR_SCENARIOS.find(s => s.name === name) ?? HR_SCENARIOS[0]
+    return new SimulatedHrSource(scenario, { speed })
+  }
+  if (kind === 'file' && name) {
+    return new RrFileHrSource(() => fetch(name).then(r => r.text()), { speed })
+  }
+  return null
+}
+
+export function createHrSource(): HrSource {
+  return sourceOverride?.() ?? sourceFromUrl() ?? new HrvEngine()
+}
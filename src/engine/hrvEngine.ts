@@ -1,4 +1,5 @@
 import type { HrvMeasurement, HrvError, HrvSignalDump } from '../types/hrv'
+import type { HrSource } from './hrSource'
 
 // Module-level HR accessor for cross-component use (like isGroundingActive)
 let currentHeartRate: number | null = null
@@ -18,7 +19,8 @@ interface FaceROI {
   height: number
 }
 
-export class HrvEngine {
+export class HrvEngine implements HrSource {
+  readonly kind = 'camera'
   private stream: MediaStream | null = null
   private video: HTMLVideoElement | null = null
   private canvas: OffscreenCanvas | null = null
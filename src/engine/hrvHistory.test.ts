@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import { createMemoryBackend } from '../store/localBackend'
+import { db, setStorageBackend } from '../store/db'
+import {
+  buildHrvHistory, filterByTimeOfDay, summarizeBy, summarizeByWeek, loadHrvHistory,
+} from './hrvHistory'
+import type { HrvHistoryContext } from './hrvHistory'
+import type { HrvMeasurement, HrvSessionData } from '../types'
+
+const HOUR = 60 * 60 * 1000
+
+function measurement(coherence: number | null): HrvMeasurement {
+  return {
+    timestamp: 0, hr: 70, rmssd: 40, autonomicState: 'calm', trend: 'steady', confidence: 0.8,
+    respiratoryRate: null,
+    derived: coherence == null ? null : { sdnn: 50, pnn50: 20, lfHfRatio: 1, stressIndex: 80, coherence },
+  }
+}
+
+function recording(id: string, startedAt: number, overrides: Partial<HrvSessionData> = {}): HrvSessionData {
+  return {
+    id,
+    startedAt,
+    endedAt: startedAt + HOUR / 2,
+    calibrationBaseline: 45,
+    measurements: [measurement(0.4), measurement(0.6), measurement(null)],
+    shifts: [],
+    signalDumps: [],
+    summary: { dominantState: 'calm', averageHr: 70, averageRmssd: 40, shiftCount: 2, avgConfidence: 0.8 },
+    ...overrides,
+  }
+}
+
+const emptyContext: HrvHistoryContext = { sessions: new Map(), entryThoughts: new Map(), weather: [] }
+
+describe('buildHrvHistory', () => {
+  it('lines each recording up with its host, time of day and the weather at the time', () => {
+    const morning = new Date(2026, 2, 2, 9).getTime()
+    const night = new Date(2026, 2, 3, 23).getTime()
+    const points = buildHrvHistory(
+      [
+        recording('entry-1', night, { source: 'journal', calibrationBaseline: 0 }),
+        recording('session-1', morning),
+      ],
+      {
+        sessions: new Map([['session-1', { hostPartId: 'watcher', mode: 'therapist' }]]),
+        entryThoughts: new Map([['entry-1', ['tender', 'spark', 'tender']]]),
+        weather: [
+          { id: 'w1', dominantEmotion: 'anxious', intensity: 0.6, trend: 'rising', updatedAt: morning - 20 * 60_000 },
+          { id: 'w2', dominantEmotion: 'sad', intensity: 0.5, trend: 'steady', updatedAt: morning - 3 * HOUR },
+        ],
+      },
+    )
+
+    expect(points.map(p => p.id)).toEqual(['session-1', 'entry-1'])
+    expect(points[0]).toMatchObject({
+      mode: 'therapist', hostPartId: 'watcher', timeOfDay: 'morning', weather: 'anxious',
+      baselineRmssd: 45, coherence: 0.5,
+    })
+    expect(points[1]).toMatchObject({
+      source: 'journal', mode: 'journal', hostPartId: 'tender', timeOfDay: 'night', weather: null, baselineRmssd: null,
+    })
+    expect(filterByTimeOfDay(points, 'night').map(p => p.id)).toEqual(['entry-1'])
+  })
+
+  it('skips recordings that never produced a measurement', () => {
+    expect(buildHrvHistory([recording('r', 0, { measurements: [] })], emptyContext)).toEqual([])
+  })
+})
+
+describe('summarizeBy', () => {
+  it('averages each group and leaves out points without a key', () => {
+    const points = buildHrvHistory([
+      recording('a', 0, { summary: { dominantState: 'calm', averageHr: 60, averageRmssd: 50, shiftCount: 1, avgConfidence: 1 } }),
+      recording('b', HOUR, { summary: { dominantState: 'activated', averageHr: 80, averageRmssd: 30, shiftCount: 4, avgConfidence: 1 } }),
+      recording('c', 2 * HOUR, { source: 'journal' }),
+    ], emptyContext)
+
+    const rows = summarizeBy(points, p => (p.source === 'session' ? 'session' : null))
+    expect(rows).toEqual([{
+      key: 'session', count: 2, averageHr: 70, averageRmssd: 40, baselineRmssd: 45, coherence: 0.5, shiftsPerRecording: 2.5,
+    }])
+  })
+
+  it('groups by the Monday each week starts on, oldest week first', () => {
+    const points = buildHrvHistory([
+      recording('sun', new Date(2026, 2, 8, 12).getTime()),
+      recording('mon', new Date(2026, 2, 9, 12).getTime()),
+      recording('wed', new Date(2026, 2, 11, 12).getTime()),
+    ], emptyContext)
+
+    expect(summarizeByWeek(points).map(w => [w.key, w.count])).toEqual([['2026-03-02', 1], ['2026-03-09', 2]])
+  })
+})
+
+describe('loadHrvHistory', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend())
+  })
+
+  it('finds the host of sessions and the most present part of journal entries', async () => {
+    await db.hrvSessions.add(recording('rec-1', 1000, { sessionId: 's1' }))
+    await db.hrvSessions.add(recording('rec-2', 1500, { sessionId: 's1' }))
+    // Recorded before recordings had their own ids
+    await db.hrvSessions.add(recording('e1', 2000, { source: 'journal' }))
+    await db.sessions.add({
+      id: 's1', startedAt: 1000, endedAt: null, status: 'closed', hostPartId: 'still', participantPartIds: [],
+      openingMethod: 'auto', sessionNote: null, messageCount: 0, firstLine: '', phase: 'opening', mode: 'futureSelf',
+    })
+    for (const partId of ['open', 'open', 'weaver']) {
+      await db.thoughts.add({ id: `${partId}-${Math.random()}`, partId, entryId: 'e1', content: '', anchorText: '', anchorOffset: 0, timestamp: 0 })
+    }
+
+    const history = await loadHrvHistory()
+    expect(history.map(p => [p.id, p.mode, p.hostPartId])).toEqual([
+      ['rec-1', 'futureSelf', 'still'],
+      ['rec-2', 'futureSelf', 'still'],
+      ['e1', 'journal', 'open'],
+    ])
+  })
+})
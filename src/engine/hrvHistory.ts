@@ -0,0 +1,184 @@
+import { db } from '../store/db'
+import { categorizeHour } from './ritualEngine'
+import type { TimeOfDay } from './ritualEngine'
+import type { AutonomicState, HrvSessionData, InnerWeather, SessionMode } from '../types'
+
+// ── HRV history ──
+// Each recording's summary, lined up with what else was going on: the inner
+// weather at the time, who hosted (a session's host part or mode, or the part
+// that spoke most in a journal entry) and the time of day it was made.
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+/** Weather saved this long before a recording started still describes it */
+const WEATHER_WINDOW_MS = 60 * 60 * 1000
+
+export interface HrvHistoryPoint {
+  id: string
+  startedAt: number
+  source: 'session' | 'journal'
+  mode: SessionMode | 'journal'
+  /** Session host, or the part that spoke most in the entry */
+  hostPartId: string | null
+  timeOfDay: TimeOfDay
+  baselineRmssd: number | null
+  averageHr: number
+  averageRmssd: number
+  /** Mean cardiac coherence, null when no measurement carried derived metrics */
+  coherence: number | null
+  shiftCount: number
+  dominantState: AutonomicState
+  weather: string | null
+}
+
+export interface HrvHistoryContext {
+  /** Session id → host and mode */
+  sessions: Map<string, { hostPartId: string; mode: SessionMode }>
+  /** Entry id → the part ids of each thought in it */
+  entryThoughts: Map<string, string[]>
+  weather: InnerWeather[]
+}
+
+export interface HrvHistorySummary {
+  key: string
+  count: number
+  averageHr: number
+  averageRmssd: number
+  baselineRmssd: number | null
+  coherence: number | null
+  shiftsPerRecording: number
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : null
+}
+
+function round(value: number | null, places = 1): number | null {
+  if (value == null) return null
+  const f = 10 ** places
+  return Math.round(value * f) / f
+}
+
+function mostFrequent(ids: string[]): string | null {
+  const counts = new Map<string, number>()
+  for (const id of ids) counts.set(id, (counts.get(id) ?? 0) + 1)
+  let best: string | null = null
+  for (const [id, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = id
+  }
+  return best
+}
+
+/** The latest weather saved before the recording ended, if it is recent enough to describe it */
+function weatherDuring(recording: HrvSessionData, weather: InnerWeather[]): string | null {
+  let match: InnerWeather | null = null
+  for (const w of weather) {
+    if (w.updatedAt > recording.endedAt || w.updatedAt < recording.startedAt - WEATHER_WINDOW_MS) continue
+    if (!match || w.updatedAt > match.updatedAt) match = w
+  }
+  return match?.dominantEmotion ?? null
+}
+
+/** The session or entry a recording was made alongside */
+function recordedWith(recording: Pick<HrvSessionData, 'id' | 'source' | 'sessionId' | 'entryId'>): string {
+  const id = recording.source === 'journal' ? recording.entryId : recording.sessionId
+  return id ?? recording.id
+}
+
+export function buildHrvHistory(recordings: HrvSessionData[], context: HrvHistoryContext): HrvHistoryPoint[] {
+  return recordings
+    .filter((r) => r.summary && r.measurements.length > 0)
+    .map((r): HrvHistoryPoint => {
+      const session = context.sessions.get(recordedWith(r))
+      const source = r.source ?? 'session'
+      const coherence = mean(r.measurements.flatMap((m) => (m.derived ? [m.derived.coherence] : [])))
+      return {
+        id: r.id,
+        startedAt: r.startedAt,
+        source,
+        mode: source === 'journal' ? 'journal' : session?.mode ?? 'therapist',
+        hostPartId: source === 'journal'
+          ? mostFrequent(context.entryThoughts.get(recordedWith(r)) ?? [])
+          : session?.hostPartId ?? null,
+        timeOfDay: categorizeHour(new Date(r.startedAt).getHours()),
+        baselineRmssd: r.calibrationBaseline > 0 ? r.calibrationBaseline : null,
+        averageHr: r.summary.averageHr,
+        averageRmssd: r.summary.averageRmssd,
+        coherence: round(coherence, 2),
+        shiftCount: r.summary.shiftCount,
+        dominantState: r.summary.dominantState,
+        weather: weatherDuring(r, context.weather),
+      }
+    })
+    .sort((a, b) => a.startedAt - b.startedAt)
+}
+
+export function filterByTimeOfDay(points: HrvHistoryPoint[], timeOfDay: TimeOfDay | 'all'): HrvHistoryPoint[] {
+  return timeOfDay === 'all' ? points : points.filter((p) => p.timeOfDay === timeOfDay)
+}
+
+/** Averages over a group of recordings, one row per key, most recordings first */
+export function summarizeBy(
+  points: HrvHistoryPoint[],
+  keyOf: (point: HrvHistoryPoint) => string | null,
+): HrvHistorySummary[] {
+  const groups = new Map<string, HrvHistoryPoint[]>()
+  for (const point of points) {
+    const key = keyOf(point)
+    if (key === null) continue
+    groups.set(key, [...(groups.get(key) ?? []), point])
+  }
+
+  return [...groups].map(([key, group]) => ({
+    key,
+    count: group.length,
+    averageHr: round(mean(group.map((p) => p.averageHr)), 0)!,
+    averageRmssd: round(mean(group.map((p) => p.averageRmssd)))!,
+    baselineRmssd: round(mean(group.flatMap((p) => (p.baselineRmssd != null ? [p.baselineRmssd] : [])))),
+    coherence: round(mean(group.flatMap((p) => (p.coherence != null ? [p.coherence] : []))), 2),
+    shiftsPerRecording: round(mean(group.map((p) => p.shiftCount)))!,
+  })).sort((a, b) => b.count - a.count)
+}
+
+/** Week-by-week averages, keyed by the Monday each week starts on (YYYY-MM-DD) */
+export function summarizeByWeek(points: HrvHistoryPoint[]): HrvHistorySummary[] {
+  const weekOf = (point: HrvHistoryPoint) => {
+    const d = new Date(point.startedAt)
+    d.setHours(0, 0, 0, 0)
+    d.setDate(d.getDate() - ((d.getDay() + 6) % 7))
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+  }
+  return summarizeBy(points, weekOf).sort((a, b) => a.key.localeCompare(b.key))
+}
+
+/** Recordings from the last `weeks` weeks */
+export function recentPoints(points: HrvHistoryPoint[], weeks: number, now = Date.now()): HrvHistoryPoint[] {
+  return points.filter((p) => p.startedAt >= now - weeks * WEEK_MS)
+}
+
+export async function loadHrvHistory(): Promise<HrvHistoryPoint[]> {
+  // Signal dumps are large and not needed here
+  const [recordings, sessions, weather] = await Promise.all([
+    db.hrvSessions
+      .orderBy('startedAt')
+      .select('id', 'source', 'sessionId', 'entryId', 'startedAt', 'endedAt', 'calibrationBaseline', 'measurements', 'summary')
+      .toArray(),
+    db.sessions.orderBy('startedAt').select('id', 'hostPartId', 'mode').toArray(),
+    db.innerWeather.toArray(),
+  ])
+
+  const entryThoughts = new Map<string, string[]>()
+  await Promise.all(recordings.filter((r) => r.source === 'journal').map(async (r) => {
+    const entryId = recordedWith(r)
+    const thoughts = await db.thoughts.where('entryId').equals(entryId).select('partId').toArray()
+    entryThoughts.set(entryId, thoughts.map((t) => t.partId))
+  }))
+
+  return buildHrvHistory(
+    recordings.map((r) => ({ ...r, shifts: [], signalDumps: [] })),
+    {
+      sessions: new Map(sessions.map((s) => [s.id, { hostPartId: s.hostPartId, mode: s.mode ?? 'therapist' }])),
+      entryThoughts,
+      weather,
+    },
+  )
+}
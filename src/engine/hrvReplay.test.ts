@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import {
+  synthesizePpg,
+  syntheticSuite,
+  replayPipeline,
+  evaluateVariants,
+  caseFromSignalDump,
+  formatReport,
+  HRV_VARIANTS,
+} from './hrvReplay'
+import type { HrvSignalDump } from '../types/hrv'
+
+const variant = (name: string) => HRV_VARIANTS.find((v) => v.name === name)!
+
+describe('synthesizePpg', () => {
+  it('produces a recording with the requested ground truth', () => {
+    const c = synthesizePpg('rest', { hr: 75, rmssd: 40, durationSec: 20 })
+    expect(c.input.g).toHaveLength(600)
+    expect(c.truth!.hr).toBeCloseTo(75, 0)
+    expect(c.truth!.rmssd).toBeCloseTo(40, 5)
+  })
+
+  it('is reproducible for the same seed', () => {
+    const a = synthesizePpg('a', { hr: 80, rmssd: 30, noise: 0.1, seed: 9 })
+    const b = synthesizePpg('b', { hr: 80, rmssd: 30, noise: 0.1, seed: 9 })
+    expect(a.input.r).toEqual(b.input.r)
+  })
+})
+
+describe('replayPipeline', () => {
+  it('recovers heart rate from a clean resting recording', () => {
+    const c = synthesizePpg('rest', { hr: 88, rmssd: 20 })
+    const result = replayPipeline(variant('chrom-centered'), c.input)
+    expect(result.hr).not.toBeNull()
+    expect(Math.abs(result.hr! - 88)).toBeLessThan(2)
+    expect(result.ibis.length).toBeGreaterThan(0)
+  })
+
+  it('starts from the stored pulse when a dump carries too little RGB', () => {
+    const fps = 30
+    const pulse = Array.from({ length: fps * 10 }, (_, i) => Math.sin(2 * Math.PI * 1.5 * i / fps))
+    const dump: HrvSignalDump = {
+      timestamp: 0, fps, rBuffer: [1, 2, 3], gBuffer: [1, 2, 3], bBuffer: [1, 2, 3],
+      chromPulse: pulse, filteredPulse: [], fftPowerSpectrum: [], fftPeakHz: 1.5, fftPeakBpm: 90,
+      peaks: [], ibis: [667, 667, 667],
+    }
+    const c = caseFromSignalDump(dump, 'dump 1')
+    expect(c.recorded).toEqual({ hr: 90, rmssd: 0 })
+
+    const result = replayPipeline(variant('chrom'), c.input)
+    expect(Math.abs(result.hr! - 90)).toBeLessThan(2)
+  })
+})
+
+describe('evaluateVariants', () => {
+  it('reports error metrics for every variant', () => {
+    const reports = evaluateVariants(syntheticSuite())
+    expect(reports.map((r) => r.variant)).toEqual(HRV_VARIANTS.map((v) => v.name))
+    for (const report of reports) {
+      expect(report.cases).toBe(syntheticSuite().length)
+      expect(report.coverage).toBeGreaterThan(0)
+      expect(report.hrMae).not.toBeNull()
+      expect(report.recordedHrMae).toBeNull()
+    }
+
+    const table = formatReport(reports)
+    expect(table.split('\n')).toHaveLength(HRV_VARIANTS.length + 1)
+    expect(table).toContain('chrom-centered')
+  })
+})
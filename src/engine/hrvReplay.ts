@@ -0,0 +1,344 @@
+import type { HrvDerivedMetrics, HrvSignalDump } from '../types/hrv'
+import {
+  chromPulseExtraction,
+  butterworthBandpass,
+  detectPeaks,
+  findHeartRateFFT,
+  computeHrvMetrics,
+  computeDerivedMetrics,
+} from './hrvSignalWorker'
+import { mulberry32, gaussian } from './seededRandom'
+
+// ---------------------------------------------------------------------------
+// Offline replay of the camera HRV pipeline.
+//
+// Runs stored signal dumps and synthetic PPG recordings with known heart rate
+// and RMSSD through the worker's signal-processing steps, so changes to them
+// can be measured without a camera. Pure and DOM-free: used by the tests and
+// by scripts/hrv-replay.ts under Node.
+// ---------------------------------------------------------------------------
+
+/** One way of turning RGB traces into beats. Add variants here to compare them. */
+export interface HrvPipelineVariant {
+  name: string
+  description: string
+  extractPulse: (r: number[], g: number[], b: number[], fps: number) => number[]
+  filterPulse: (pulse: number[], fps: number) => number[]
+  findPeaks: (signal: number[], fps: number) => number[]
+}
+
+/** Green channel only, normalized and inverted (blood absorbs green, so beats are dips) */
+function greenPulse(_r: number[], g: number[]): number[] {
+  const mean = g.reduce((a, b) => a + b, 0) / (g.length || 1)
+  return mean > 0 ? g.map((v) => 1 - v / mean) : []
+}
+
+/**
+ * CHROM as in chromPulseExtraction, but with X and Y mean-centered in each
+ * window before combining. Without centering, each window carries a DC offset
+ * of (1 - alpha), and alpha changing window to window steps the pulse at the
+ * hop rate (1.25 Hz for 1.6 s windows), inside the cardiac band.
+ */
+function centeredChromPulse(r: number[], g: number[], b: number[], fps: number): number[] {
+  const n = r.length
+  const winLen = Math.round(fps * 1.6)
+  if (n < winLen) return chromPulseExtraction(r, g, b, fps)
+
+  const output = new Array(n).fill(0)
+  const weights = new Array(n).fill(0)
+  const avg = (values: number[]) => values.reduce((a, v) => a + v, 0) / values.length
+  const std = (values: number[]) => Math.sqrt(avg(values.map((v) => v * v)))
+
+  for (let start = 0; start + winLen <= n; start += Math.floor(winLen / 2)) {
+    const rWin = r.slice(start, start + winLen)
+    const gWin = g.slice(start, start + winLen)
+    const bWin = b.slice(start, start + winLen)
+    const [rMean, gMean, bMean] = [avg(rWin), avg(gWin), avg(bWin)]
+    if (rMean === 0 || gMean === 0 || bMean === 0) continue
+
+    const xs = rWin.map((v, i) => 3 * v / rMean - 2 * gWin[i] / gMean)
+    const ys = rWin.map((v, i) => 1.5 * v / rMean + gWin[i] / gMean - 1.5 * bWin[i] / bMean)
+    const [xMean, yMean] = [avg(xs), avg(ys)]
+    const xc = xs.map((v) => v - xMean)
+    const yc = ys.map((v) => v - yMean)
+    const yStd = std(yc)
+    const alpha = yStd > 0.0001 ? std(xc) / yStd : 1
+
+    for (let i = 0; i < winLen; i++) {
+      const hann = 0.5 * (1 - Math.cos(2 * Math.PI * i / (winLen - 1)))
+      output[start + i] += (xc[i] - alpha * yc[i]) * hann
+      weights[start + i] += hann
+    }
+  }
+
+  return output.map((v, i) => (weights[i] > 0 ? v / weights[i] : v))
+}
+
+export const HRV_VARIANTS: HrvPipelineVariant[] = [
+  {
+    name: 'chrom',
+    description: 'What the worker runs: windowed CHROM, 1.2-2.5 Hz Butterworth, threshold peaks',
+    extractPulse: chromPulseExtraction,
+    filterPulse: butterworthBandpass,
+    findPeaks: detectPeaks,
+  },
+  {
+    name: 'chrom-centered',
+    description: 'CHROM with X and Y mean-centered per window',
+    extractPulse: centeredChromPulse,
+    filterPulse: butterworthBandpass,
+    findPeaks: detectPeaks,
+  },
+  {
+    name: 'green',
+    description: 'Green channel instead of CHROM, same filter and peaks',
+    extractPulse: greenPulse,
+    filterPulse: butterworthBandpass,
+    findPeaks: detectPeaks,
+  },
+]
+
+export interface ReplayInput {
+  fps: number
+  r: number[]
+  g: number[]
+  b: number[]
+  /** Pulse to start from when the RGB traces are too short to run extraction */
+  pulse?: number[]
+}
+
+export interface ReplayResult {
+  hr: number | null
+  rmssd: number | null
+  ibis: number[]
+  derived: HrvDerivedMetrics | null
+}
+
+// Same warm-up skip and IBI bounds as the worker's compute step
+export function replayPipeline(variant: HrvPipelineVariant, input: ReplayInput): ReplayResult {
+  const { fps } = input
+  const pulse = input.r.length >= fps * 10 || !input.pulse
+    ? variant.extractPulse(input.r, input.g, input.b, fps)
+    : input.pulse
+  const empty: ReplayResult = { hr: null, rmssd: null, ibis: [], derived: null }
+  if (pulse.length === 0) return empty
+
+  const filtered = variant.filterPulse(pulse, fps)
+  const skip = Math.min(fps * 2, Math.floor(filtered.length * 0.15))
+  const stable = filtered.slice(skip)
+  if (stable.length < fps * 3) return empty
+
+  const fftResult = findHeartRateFFT(stable, fps, 1.2, 2.5)
+  const peaks = variant.findPeaks(stable, fps)
+  const ibis: number[] = []
+  for (let i = 1; i < peaks.length; i++) {
+    const dt = (peaks[i] - peaks[i - 1]) / fps * 1000
+    if (dt > 400 && dt < 1500) ibis.push(dt)
+  }
+  const metrics = computeHrvMetrics(ibis)
+  // The worker treats RMSSD above 200 ms as noise
+  const rmssd = metrics && metrics.rmssd <= 200 ? metrics.rmssd : null
+
+  return { hr: fftResult?.hr ?? null, rmssd, ibis, derived: computeDerivedMetrics(ibis) }
+}
+
+// ---------------------------------------------------------------------------
+// Synthetic recordings
+// ---------------------------------------------------------------------------
+
+export interface SyntheticPpgOptions {
+  hr: number
+  /** Target RMSSD in ms — beats alternate around the mean interval */
+  rmssd: number
+  fps?: number
+  durationSec?: number
+  /** Std deviation of per-channel sensor noise, in pixel units */
+  noise?: number
+  /** Amplitude of a slow brightness drift shared by all channels, as a fraction */
+  lightingDrift?: number
+  /** Amplitude of in-band brightness wobble from head movement, as a fraction */
+  motion?: number
+  seed?: number
+}
+
+export interface ReplayCase {
+  label: string
+  input: ReplayInput
+  /** Known values, for synthetic recordings */
+  truth?: { hr: number; rmssd: number; ibis: number[] }
+  /** What the app measured live, for stored dumps */
+  recorded?: { hr: number | null; rmssd: number | null }
+}
+
+// Relative brightness change of a beat — about half a pixel value in green
+const PULSE_DEPTH = 0.0046
+
+export function synthesizePpg(label: string, options: SyntheticPpgOptions): ReplayCase {
+  const fps = options.fps ?? 30
+  const durationSec = options.durationSec ?? 30
+  const noise = options.noise ?? 0.02
+  const drift = options.lightingDrift ?? 0
+  const random = mulberry32(options.seed ?? 1)
+  // A few sways between 0.8 and 2 Hz, where they overlap the heartbeat
+  const sways = Array.from({ length: 3 }, () => ({ hz: 0.8 + random() * 1.2, phase: random() * 2 * Math.PI }))
+
+  // Beat times: alternating intervals give successive differences of exactly `rmssd`
+  const meanIbi = 60000 / options.hr
+  const ibis: number[] = []
+  const beats: number[] = []
+  for (let t = 0, i = 0; t < durationSec * 1000; i++) {
+    const ibi = meanIbi + (i % 2 === 0 ? 1 : -1) * options.rmssd / 2
+    beats.push(t)
+    ibis.push(ibi)
+    t += ibi
+  }
+  ibis.pop()
+
+  const n = Math.round(fps * durationSec)
+  const r: number[] = []
+  const g: number[] = []
+  const b: number[] = []
+  for (let i = 0; i < n; i++) {
+    const ms = i / fps * 1000
+    // Systolic peak plus a smaller dicrotic wave after each beat
+    let pulse = 0
+    for (const beat of beats) {
+      const dt = ms - beat
+      if (dt < -200 || dt > 800) continue
+      pulse += Math.exp(-(((dt - 150) / 60) ** 2)) + 0.35 * Math.exp(-(((dt - 400) / 80) ** 2))
+    }
+    const sway = sways.reduce((sum, w) => sum + Math.sin(2 * Math.PI * w.hz * ms / 1000 + w.phase), 0) / sways.length
+    const light = 1 + drift * Math.sin(2 * Math.PI * 0.1 * ms / 1000) + (options.motion ?? 0) * sway
+    // Blood volume absorbs in the skin's pulse signature (normalized R:G:B ≈ 0.33:0.77:0.53)
+    r.push(180 * (1 - PULSE_DEPTH * 0.33 * pulse) * light + noise * gaussian(random))
+    g.push(140 * (1 - PULSE_DEPTH * 0.77 * pulse) * light + noise * gaussian(random))
+    b.push(100 * (1 - PULSE_DEPTH * 0.53 * pulse) * light + noise * gaussian(random))
+  }
+
+  const truth = computeHrvMetrics(ibis)!
+  return { label, input: { fps, r, g, b }, truth: { hr: truth.hr, rmssd: truth.rmssd, ibis } }
+}
+
+/** A small fixed suite covering resting, elevated, noisy and moving recordings. */
+export function syntheticSuite(): ReplayCase[] {
+  return [
+    synthesizePpg('rest 75bpm', { hr: 75, rmssd: 45, seed: 1 }),
+    synthesizePpg('rest 88bpm low hrv', { hr: 88, rmssd: 18, seed: 2 }),
+    synthesizePpg('elevated 110bpm', { hr: 110, rmssd: 12, seed: 3 }),
+    synthesizePpg('slow 62bpm', { hr: 62, rmssd: 60, seed: 4 }),
+    synthesizePpg('noisy 80bpm', { hr: 80, rmssd: 35, noise: 0.15, seed: 5 }),
+    synthesizePpg('lighting drift 80bpm', { hr: 80, rmssd: 35, lightingDrift: 0.02, seed: 6 }),
+    synthesizePpg('moving 95bpm', { hr: 95, rmssd: 25, motion: 0.004, seed: 7 }),
+  ]
+}
+
+/** Turns a stored dump into a replay case, keeping what the app measured as reference. */
+export function caseFromSignalDump(dump: HrvSignalDump, label: string): ReplayCase {
+  const recordedMetrics = computeHrvMetrics(dump.ibis)
+  return {
+    label,
+    input: { fps: dump.fps, r: dump.rBuffer, g: dump.gBuffer, b: dump.bBuffer, pulse: dump.chromPulse },
+    recorded: { hr: dump.fftPeakBpm, rmssd: recordedMetrics?.rmssd ?? null },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Error metrics
+// ---------------------------------------------------------------------------
+
+export interface VariantReport {
+  variant: string
+  cases: number
+  /** Fraction of cases that produced a heart rate */
+  coverage: number
+  /** Against ground truth — null when no case had truth and an estimate */
+  hrMae: number | null
+  hrRmse: number | null
+  rmssdMae: number | null
+  sdnnMae: number | null
+  pnn50Mae: number | null
+  /** Against what the app measured live, for stored dumps */
+  recordedHrMae: number | null
+  recordedRmssdMae: number | null
+  results: { label: string; result: ReplayResult }[]
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 100) / 100
+}
+
+export function evaluateVariant(variant: HrvPipelineVariant, cases: ReplayCase[]): VariantReport {
+  const hrErrors: number[] = []
+  const rmssdErrors: number[] = []
+  const sdnnErrors: number[] = []
+  const pnn50Errors: number[] = []
+  const recordedHrErrors: number[] = []
+  const recordedRmssdErrors: number[] = []
+  const results: VariantReport['results'] = []
+
+  for (const c of cases) {
+    const result = replayPipeline(variant, c.input)
+    results.push({ label: c.label, result })
+
+    if (c.truth) {
+      if (result.hr !== null) hrErrors.push(result.hr - c.truth.hr)
+      if (result.rmssd !== null) rmssdErrors.push(Math.abs(result.rmssd - c.truth.rmssd))
+      const truthDerived = computeDerivedMetrics(c.truth.ibis)
+      if (truthDerived && result.derived) {
+        sdnnErrors.push(Math.abs(result.derived.sdnn - truthDerived.sdnn))
+        pnn50Errors.push(Math.abs(result.derived.pnn50 - truthDerived.pnn50))
+      }
+    }
+    if (c.recorded) {
+      if (result.hr !== null && c.recorded.hr !== null) recordedHrErrors.push(Math.abs(result.hr - c.recorded.hr))
+      if (result.rmssd !== null && c.recorded.rmssd !== null) {
+        recordedRmssdErrors.push(Math.abs(result.rmssd - c.recorded.rmssd))
+      }
+    }
+  }
+
+  const squared = mean(hrErrors.map((e) => e * e))
+  return {
+    variant: variant.name,
+    cases: cases.length,
+    coverage: round(cases.length > 0 ? results.filter((r) => r.result.hr !== null).length / cases.length : 0)!,
+    hrMae: round(mean(hrErrors.map(Math.abs))),
+    hrRmse: round(squared === null ? null : Math.sqrt(squared)),
+    rmssdMae: round(mean(rmssdErrors)),
+    sdnnMae: round(mean(sdnnErrors)),
+    pnn50Mae: round(mean(pnn50Errors)),
+    recordedHrMae: round(mean(recordedHrErrors)),
+    recordedRmssdMae: round(mean(recordedRmssdErrors)),
+    results,
+  }
+}
+
+export function evaluateVariants(
+  cases: ReplayCase[],
+  variants: HrvPipelineVariant[] = HRV_VARIANTS,
+): VariantReport[] {
+  return variants.map((v) => evaluateVariant(v, cases))
+}
+
+/** Plain-text table of the reports, one row per variant. */
+export function formatReport(reports: VariantReport[]): string {
+  const columns: [string, (r: VariantReport) => string][] = [
+    ['variant', (r) => r.variant],
+    ['cases', (r) => String(r.cases)],
+    ['coverage', (r) => `${Math.round(r.coverage * 100)}%`],
+    ['hr MAE', (r) => String(r.hrMae ?? '–')],
+    ['hr RMSE', (r) => String(r.hrRmse ?? '–')],
+    ['rmssd MAE', (r) => String(r.rmssdMae ?? '–')],
+    ['sdnn MAE', (r) => String(r.sdnnMae ?? '–')],
+    ['pnn50 MAE', (r) => String(r.pnn50Mae ?? '–')],
+    ['vs live hr', (r) => String(r.recordedHrMae ?? '–')],
+    ['vs live rmssd', (r) => String(r.recordedRmssdMae ?? '–')],
+  ]
+  const rows = [columns.map(([title]) => title), ...reports.map((r) => columns.map(([, cell]) => cell(r)))]
+  const widths = columns.map((_, i) => Math.max(...rows.map((row) => row[i].length)))
+  return rows.map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ')).join('\n')
+}
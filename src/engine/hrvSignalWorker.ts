@@ -611,7 +611,7 @@ function resetState(): void {
   state.recentHrs = []
 }
 
-function computeTrend(recent: number[]): HrvTrend {
+export function computeTrend(recent: number[]): HrvTrend {
   if (recent.length < 4) return 'steady'
   const half = Math.floor(recent.length / 2)
   const first = recent.slice(0, half)
@@ -119,6 +119,47 @@ describe('HrvTimeline', () => {
     })
   })
 
+  describe('journal mode', () => {
+    function settleAround(moment: () => void) {
+      const now = Date.now()
+      for (let i = 0; i < 6; i++) {
+        timeline.addMeasurement(makeMeasurement({ timestamp: now - (30 - i * 5) * 1000, hr: 84, rmssd: 25, autonomicState: 'activated' }))
+      }
+      moment()
+      for (let i = 1; i <= 4; i++) {
+        timeline.addMeasurement(makeMeasurement({ timestamp: now + i * 5000, hr: 70, rmssd: 60, autonomicState: 'calm' }))
+      }
+    }
+
+    it('keeps the last words of what was written with each moment', () => {
+      const sentence = 'I keep thinking about the summer my sister left and how the house went quiet after that'
+      timeline.addJournalEvent('paragraph', { text: sentence })
+      const stored = timeline.events[0].text!
+      expect(stored.startsWith('…')).toBe(true)
+      expect(stored.endsWith('how the house went quiet after that')).toBe(true)
+      expect(stored.length).toBeLessThanOrEqual(81)
+    })
+
+    it('attributes a shift to the paragraph just written', () => {
+      settleAround(() => timeline.addJournalEvent('paragraph', { text: 'I wrote to my sister today.' }))
+
+      const shift = timeline.shifts[0]
+      expect(shift).toMatchObject({ fromState: 'activated', toState: 'calm', trigger: 'paragraph' })
+      expect(shift.triggerText).toBe('I wrote to my sister today.')
+
+      const context = timeline.buildPromptContext()
+      expect(context).toContain('after writing "I wrote to my sister today."')
+      expect(context).toContain('Body settled after writing "I wrote to my sister today." (HR -14 bpm)')
+    })
+
+    it('names the part whose thought the body answered', () => {
+      settleAround(() => timeline.addJournalEvent('part_thought', { partId: 'tender', partName: 'The Tender One' }))
+
+      expect(timeline.shifts[0]).toMatchObject({ trigger: 'part_thought', triggerPartId: 'tender' })
+      expect(timeline.buildPromptContext()).toContain('Body settled after The Tender One spoke')
+    })
+  })
+
   describe('getMeasurements', () => {
     it('returns all measurement events', () => {
       timeline.addMeasurement(makeMeasurement())
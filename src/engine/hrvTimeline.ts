@@ -1,8 +1,18 @@
 import type {
   HrvMeasurement, HrvTimelineEvent, HrvShift,
-  HrvConversationEventType, AutonomicState,
+  HrvConversationEventType, HrvJournalEventType, HrvJournalEventDetails, AutonomicState,
 } from '../types/hrv'
 
+const SNIPPET_LENGTH = 80
+
+/** The last few words of what was written, for naming a moment in the prompt */
+function snippet(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  if (clean.length <= SNIPPET_LENGTH) return clean
+  const cut = clean.slice(-SNIPPET_LENGTH)
+  return '…' + cut.slice(cut.indexOf(' ') + 1)
+}
+
 export class HrvTimeline {
   events: HrvTimelineEvent[] = []
   shifts: HrvShift[] = []
@@ -21,6 +31,11 @@ export class HrvTimeline {
     this.events.push({ timestamp: Date.now(), type, messageIndex })
   }
 
+  addJournalEvent(type: HrvJournalEventType, details: HrvJournalEventDetails = {}): void {
+    const text = details.text ? snippet(details.text) : ''
+    this.events.push({ timestamp: Date.now(), type, ...details, text: text || undefined })
+  }
+
   getRecentShifts(windowSeconds = 120): HrvShift[] {
     const cutoff = Date.now() - windowSeconds * 1000
     return this.shifts.filter(s => s.timestamp > cutoff)
@@ -63,9 +78,7 @@ export class HrvTimeline {
       for (const shift of recentShifts.slice(-5)) {
         const ago = Math.round((Date.now() - shift.timestamp) / 1000)
         const agoStr = ago < 60 ? `${ago}s ago` : `${Math.round(ago / 60)}min ago`
-        const triggerStr = shift.trigger === 'unknown' ? ''
-          : shift.trigger === 'user_message' ? ` after user message #${shift.triggerMessageIndex}`
-          : ` during therapist response #${shift.triggerMessageIndex}`
+        const triggerStr = this.describeTrigger(shift)
         lines.push(`- Shifted from ${shift.fromState} → ${shift.toState}${triggerStr} (${agoStr})`)
       }
     }
@@ -93,19 +106,24 @@ export class HrvTimeline {
     // 1. Post-response reaction: compare HR in 30s after AI response vs 30s before
     const aiResponses = this.events.filter(e => e.type === 'ai_response_complete' && e.messageIndex != null)
     for (const resp of aiResponses.slice(-3)) { // last 3 responses
-      const respTime = resp.timestamp
-      const before = measurements.filter(m => m.timestamp >= respTime - 30000 && m.timestamp < respTime)
-      const after = measurements.filter(m => m.timestamp > respTime && m.timestamp <= respTime + 30000)
-
-      if (before.length >= 2 && after.length >= 2) {
-        const hrBefore = before.reduce((s, m) => s + m.hr, 0) / before.length
-        const hrAfter = after.reduce((s, m) => s + m.hr, 0) / after.length
-        const delta = hrAfter - hrBefore
-
-        if (Math.abs(delta) >= 5) {
-          const direction = delta > 0 ? 'increased' : 'decreased'
-          results.push(`Heart rate ${direction} by ${Math.abs(Math.round(delta))} bpm after therapist response #${resp.messageIndex}`)
-        }
+      const delta = this.hrDeltaAround(resp.timestamp, measurements)
+      if (delta != null && Math.abs(delta) >= 5) {
+        const direction = delta > 0 ? 'increased' : 'decreased'
+        results.push(`Heart rate ${direction} by ${Math.abs(Math.round(delta))} bpm after therapist response #${resp.messageIndex}`)
+      }
+    }
+
+    // 1b. Journal moments: how the body answered a finished paragraph or a part speaking
+    const journalMoments = this.events.filter(e => e.type === 'paragraph' || e.type === 'part_thought')
+    for (const moment of journalMoments.slice(-3)) {
+      const delta = this.hrDeltaAround(moment.timestamp, measurements)
+      if (delta == null || Math.abs(delta) < 5) continue
+      const direction = delta > 0 ? 'Body stirred' : 'Body settled'
+      const change = `HR ${delta > 0 ? '+' : ''}${Math.round(delta)} bpm`
+      if (moment.type === 'part_thought') {
+        results.push(`${direction} after ${moment.partName ?? 'a part'} spoke (${change})`)
+      } else if (moment.text) {
+        results.push(`${direction} after writing "${moment.text}" (${change})`)
       }
     }
 
@@ -152,6 +170,27 @@ export class HrvTimeline {
     return results
   }
 
+  /** Mean HR in the 30s after a moment minus the 30s before, or null without enough readings */
+  private hrDeltaAround(time: number, measurements: HrvMeasurement[]): number | null {
+    const before = measurements.filter(m => m.timestamp >= time - 30000 && m.timestamp < time)
+    const after = measurements.filter(m => m.timestamp > time && m.timestamp <= time + 30000)
+    if (before.length < 2 || after.length < 2) return null
+    const hrBefore = before.reduce((s, m) => s + m.hr, 0) / before.length
+    const hrAfter = after.reduce((s, m) => s + m.hr, 0) / after.length
+    return hrAfter - hrBefore
+  }
+
+  private describeTrigger(shift: HrvShift): string {
+    switch (shift.trigger) {
+      case 'user_message': return ` after user message #${shift.triggerMessageIndex}`
+      case 'ai_response': return ` during therapist response #${shift.triggerMessageIndex}`
+      case 'part_thought': return ` after ${shift.triggerPartName ?? 'a part'} spoke`
+      case 'paragraph': return shift.triggerText ? ` after writing "${shift.triggerText}"` : ' at a paragraph break'
+      case 'pause': return shift.triggerText ? ` while pausing after "${shift.triggerText}"` : ' during a pause'
+      default: return ''
+    }
+  }
+
   private getTrendDuration(currentTrend: string): string {
     const measurements = this.getMeasurements()
     if (measurements.length < 2) return ''
@@ -181,21 +220,17 @@ export class HrvTimeline {
 
     if (current.autonomicState === prevState || current.autonomicState === 'transitioning') return
 
-    let trigger: 'user_message' | 'ai_response' | 'unknown' = 'unknown'
+    let trigger: HrvShift['trigger'] = 'unknown'
     let triggerMessageIndex: number | null = null
+    let source: HrvTimelineEvent | null = null
 
     for (let i = this.events.length - 1; i >= 0; i--) {
       const e = this.events[i]
-      if (e.type === 'user_message') {
-        trigger = 'user_message'
-        triggerMessageIndex = e.messageIndex ?? null
-        break
-      }
-      if (e.type === 'ai_response_start' || e.type === 'ai_response_complete') {
-        trigger = 'ai_response'
-        triggerMessageIndex = e.messageIndex ?? null
-        break
-      }
+      if (e.type === 'measurement') continue
+      source = e
+      trigger = e.type === 'ai_response_start' || e.type === 'ai_response_complete' ? 'ai_response' : e.type
+      triggerMessageIndex = e.messageIndex ?? null
+      break
     }
 
     const avgRmssd = recent.reduce((s, m) => s + m.rmssd, 0) / recent.length
@@ -207,6 +242,9 @@ export class HrvTimeline {
       toState: current.autonomicState,
       trigger,
       triggerMessageIndex,
+      ...(source?.partId ? { triggerPartId: source.partId } : {}),
+      ...(source?.partName ? { triggerPartName: source.partName } : {}),
+      ...(source?.text ? { triggerText: source.text } : {}),
       magnitude: Math.round(magnitude * 100) / 100,
     })
   }
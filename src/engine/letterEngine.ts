@@ -4,6 +4,7 @@ import { chatCompletion } from '../ai/openrouter'
 import { SHARED_INSTRUCTIONS, languageDirective } from '../ai/partPrompts'
 import { sanitizeForPrompt, UNTRUSTED_CONTENT_PREAMBLE } from '../ai/promptSafety'
 import { getPartDisplayName } from '../i18n'
+import { loadActiveMemories } from './memoryConsolidation'
 import type { Part, PartLetter } from '../types'
 
 export class LetterEngine {
@@ -20,7 +21,7 @@ export class LetterEngine {
       // Select top parts by memory count (most active)
       const partsWithActivity = await Promise.all(
         parts.map(async (part) => {
-          const memories = await db.memories.where('partId').equals(part.id).toArray()
+          const memories = await loadActiveMemories(part.id)
           return { part, memoryCount: memories.length }
         })
       )
@@ -33,11 +34,11 @@ export class LetterEngine {
       if (topParts.length < letterMinParts) return null
 
       // Load recent entry summaries and user profile
-      const allSummaries = await db.entrySummaries
+      const recentSummaries = await db.entrySummaries
         .orderBy('timestamp')
         .reverse()
+        .limit(10)
         .toArray()
-      const recentSummaries = allSummaries.slice(0, 10)
       const profile = await db.userProfile.get('current')
 
       if (recentSummaries.length === 0) return null
@@ -72,7 +73,7 @@ You are writing a letter to a diary writer from the perspective of their inner p
         },
       ]
 
-      const content = await chatCompletion(messages, 20000, 800)
+      const content = await chatCompletion(messages, 20000, 800, 'letter')
 
       const letter: PartLetter = {
         id: generateId(),
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => ({ features: {}, embeddings: { provider: 'local' } }),
+}))
+vi.mock('../ai/openrouter', () => ({
+  chatCompletion: vi.fn(async () => 'Deadlines tighten the writer\'s chest.'),
+  createEmbeddings: vi.fn(),
+}))
+
+import { createMemoryBackend } from '../store/localBackend'
+import { db, setStorageBackend } from '../store/db'
+import {
+  scoreMemory, clusterObservations, consolidateMemories, recordRetrievals,
+  setMemoryPinned, loadActiveMemories, ACTIVE_MEMORY_BUDGET, ARCHIVE_CAP,
+} from './memoryConsolidation'
+import { selectPromptMemories } from '../ai/partPrompts'
+import { chatCompletion } from '../ai/openrouter'
+import type { Part, PartMemory } from '../types'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const part = {
+  id: 'watcher', name: 'The Watcher', color: '#000', colorLight: '#fff', ifsRole: 'protector',
+  voiceDescription: '', concern: 'safety', systemPrompt: '', isSeeded: false, createdAt: 0,
+} as Part
+
+let counter = 0
+function memory(overrides: Partial<PartMemory> = {}): PartMemory {
+  counter++
+  return {
+    id: `mem-${counter}`, partId: 'watcher', entryId: `entry-${counter}`,
+    content: `memory number ${counter}`, type: 'observation', timestamp: Date.now(), ...overrides,
+  }
+}
+
+const deadlineNotes = [
+  'Noticed: "the deadline is tomorrow and my chest is tight" → Responded: "the deadline again"',
+  'Noticed: "another deadline, chest tight all day" → Responded: "deadlines and that tight chest"',
+  'Noticed: "deadline looming, tight chest before bed" → Responded: "the chest knows the deadline"',
+]
+
+describe('scoreMemory', () => {
+  const now = Date.now()
+
+  it('prefers recent memories', () => {
+    expect(scoreMemory(memory({ timestamp: now }), now))
+      .toBeGreaterThan(scoreMemory(memory({ timestamp: now - 90 * DAY }), now))
+  })
+
+  it('weighs patterns above observations of the same age', () => {
+    expect(scoreMemory(memory({ type: 'pattern' }), now))
+      .toBeGreaterThan(scoreMemory(memory({ type: 'observation' }), now))
+  })
+
+  it('rewards memories that keep being retrieved', () => {
+    const old = now - 60 * DAY
+    expect(scoreMemory(memory({ timestamp: old, retrievalCount: 12 }), now))
+      .toBeGreaterThan(scoreMemory(memory({ timestamp: old }), now))
+  })
+})
+
+describe('clusterObservations', () => {
+  beforeEach(() => setStorageBackend(createMemoryBackend()))
+
+  it('groups old observations about the same thing', async () => {
+    const old = Date.now() - 30 * DAY
+    const memories = [
+      ...deadlineNotes.map((content, i) => memory({ content, timestamp: old + i })),
+      memory({ content: 'Noticed: "planted tomatoes in the garden" → Responded: "green things"', timestamp: old }),
+    ]
+    const clusters = await clusterObservations(memories)
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0]).toHaveLength(3)
+  })
+
+  it('leaves recent and pinned observations alone', async () => {
+    const memories = [
+      memory({ content: deadlineNotes[0], timestamp: Date.now() - 30 * DAY }),
+      memory({ content: deadlineNotes[1], timestamp: Date.now() - 30 * DAY, pinned: true }),
+      memory({ content: deadlineNotes[2], timestamp: Date.now() - DAY }),
+    ]
+    expect(await clusterObservations(memories)).toEqual([])
+  })
+})
+
+describe('consolidateMemories', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend())
+    vi.mocked(chatCompletion).mockClear()
+  })
+
+  it('distills a cluster into a pattern memory and retires its sources', async () => {
+    const old = Date.now() - 30 * DAY
+    const sources = deadlineNotes.map((content, i) => memory({ content, timestamp: old + i }))
+    await db.memories.bulkPut(sources)
+
+    const result = await consolidateMemories([part])
+    expect(result.consolidated).toBe(1)
+    expect(chatCompletion).toHaveBeenCalledWith(expect.any(Array), 15000, 120, 'memory-consolidation')
+
+    const active = await loadActiveMemories('watcher')
+    expect(active).toHaveLength(1)
+    expect(active[0]).toMatchObject({
+      type: 'pattern',
+      content: 'Deadlines tighten the writer\'s chest.',
+      consolidatedFrom: sources.map((m) => m.id),
+    })
+    const retired = await db.memories.get(sources[0].id)
+    expect(retired?.retiredAt).toBeDefined()
+    expect(retired?.consolidatedInto).toBe(active[0].id)
+  })
+
+  it('retires the lowest-scoring memories over budget instead of deleting them', async () => {
+    const now = Date.now()
+    const memories = Array.from({ length: ACTIVE_MEMORY_BUDGET + 3 }, (_, i) =>
+      memory({ type: 'reflection', timestamp: now - i * DAY }))
+    // Oldest of all, but pinned
+    memories.push(memory({ type: 'reflection', timestamp: now - 400 * DAY, pinned: true }))
+    await db.memories.bulkPut(memories)
+
+    const result = await consolidateMemories([part])
+    expect(result.retired).toBe(4)
+    expect(await db.memories.count()).toBe(memories.length)
+
+    const active = await loadActiveMemories('watcher')
+    expect(active).toHaveLength(ACTIVE_MEMORY_BUDGET)
+    expect(active.some((m) => m.pinned)).toBe(true)
+  })
+
+  it('deletes only the oldest retired memories past the archive cap', async () => {
+    const now = Date.now()
+    await db.memories.bulkPut(Array.from({ length: ARCHIVE_CAP + 2 }, (_, i) =>
+      memory({ type: 'reflection', retiredAt: now - i * DAY })))
+
+    const result = await consolidateMemories([part])
+    expect(result.deleted).toBe(2)
+    expect(await db.memories.count()).toBe(ARCHIVE_CAP)
+  })
+})
+
+describe('pinning and retrieval', () => {
+  beforeEach(() => setStorageBackend(createMemoryBackend()))
+
+  it('brings a retired memory back when pinned', async () => {
+    const retired = memory({ retiredAt: Date.now() })
+    await db.memories.add(retired)
+    await setMemoryPinned(retired, true)
+    expect(await loadActiveMemories('watcher')).toHaveLength(1)
+  })
+
+  it('puts pinned memories in the prompt ahead of newer ones', () => {
+    const now = Date.now()
+    const pinned = memory({ timestamp: now - 100 * DAY, pinned: true })
+    const recent = [1, 2, 3].map((i) => memory({ timestamp: now - i }))
+    const selected = selectPromptMemories([pinned, ...recent, memory({ retiredAt: now })])
+    expect(selected.map((m) => m.id)).toEqual([pinned.id, recent[1].id, recent[0].id])
+  })
+
+  it('counts retrievals on the stored memory and the cached copy', async () => {
+    const m = memory()
+    await db.memories.add(m)
+    await recordRetrievals([m])
+    await recordRetrievals([m])
+    expect(m.retrievalCount).toBe(2)
+    expect((await db.memories.get(m.id))?.retrievalCount).toBe(2)
+  })
+
+  it('writes every retrieval for a thought in one batch', async () => {
+    const backend = createMemoryBackend()
+    setStorageBackend(backend)
+    const memories = [memory(), memory(), memory()]
+    await db.memories.bulkPut(memories)
+    const bulkUpdate = vi.spyOn(backend, 'bulkUpdate')
+    const update = vi.spyOn(backend, 'update')
+
+    await recordRetrievals(memories)
+    expect(bulkUpdate).toHaveBeenCalledTimes(1)
+    expect(update).not.toHaveBeenCalled()
+    expect((await db.memories.toArray()).map((m) => m.retrievalCount)).toEqual([1, 1, 1])
+  })
+})
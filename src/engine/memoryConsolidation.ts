@@ -0,0 +1,206 @@
+import type { Part, PartMemory } from '../types'
+import { db, generateId } from '../store/db'
+import { chatCompletion } from '../ai/openrouter'
+import { buildMemoryConsolidationPrompt } from '../ai/partPrompts'
+import { getEmbeddingModel, localEmbedding, cosineSimilarity } from '../ai/embeddings'
+import { removeFromIndex } from './semanticIndex'
+
+// ── Memory consolidation ──
+// Runs after every reflection. Old observations that keep saying the same thing
+// are distilled into one pattern memory; whatever is still over budget is
+// retired by score (recency, salience, retrieval count) rather than cut by age.
+// Retired memories stay browsable in the parts panel until the archive fills.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Active (non-retired) memories a part keeps, pinned ones included */
+export const ACTIVE_MEMORY_BUDGET = 65
+/** Retired memories kept per part before the oldest are deleted */
+export const ARCHIVE_CAP = 100
+
+const CONSOLIDATION_MIN_AGE_DAYS = 14
+const CLUSTER_SIMILARITY = 0.35
+const MIN_CLUSTER_SIZE = 3
+const MAX_CLUSTER_SIZE = 8
+// Bounds the LLM calls one reflection can trigger
+const MAX_CONSOLIDATIONS_PER_PART = 2
+const RECENCY_HALF_LIFE_DAYS = 30
+
+const TYPE_SALIENCE: Record<string, number> = {
+  pattern: 1,
+  reflection: 0.8,
+  interaction: 0.6,
+  observation: 0.4,
+}
+
+export interface ConsolidationResult {
+  consolidated: number
+  retired: number
+  deleted: number
+}
+
+/** 0–1; higher is worth keeping. Pinned memories are never scored out. */
+export function scoreMemory(memory: PartMemory, now: number = Date.now()): number {
+  const ageDays = Math.max(0, now - memory.timestamp) / DAY_MS
+  const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS)
+  const salience = TYPE_SALIENCE[memory.type ?? 'interaction'] ?? 0.5
+  // Saturates at 15 retrievals
+  const retrieval = Math.min(1, Math.log2(1 + (memory.retrievalCount ?? 0)) / 4)
+  return 0.45 * recency + 0.35 * salience + 0.2 * retrieval
+}
+
+function isActive(memory: PartMemory): boolean {
+  return !memory.retiredAt
+}
+
+/** A part's memories that still reach prompts. */
+export async function loadActiveMemories(partId: string): Promise<PartMemory[]> {
+  const memories = await db.memories.where('partId').equals(partId).toArray()
+  return memories.filter(isActive)
+}
+
+// Prefer the semantic index's vectors; mixing in local ones would compare
+// vectors from different models, so fall back to local for the whole set.
+async function vectorsFor(memories: PartMemory[]): Promise<number[][]> {
+  const model = getEmbeddingModel()
+  const records = await Promise.all(memories.map((m) => db.embeddings.get(`memory:${m.id}`)))
+  if (records.every((r) => r?.model === model)) return records.map((r) => r!.vector)
+  return memories.map((m) => localEmbedding(m.content))
+}
+
+/**
+ * Groups old observations that sit close together, seeded from the oldest.
+ * Each cluster holds the seed and its nearest neighbours.
+ */
+export async function clusterObservations(memories: PartMemory[], now: number = Date.now()): Promise<PartMemory[][]> {
+  const candidates = memories
+    .filter((m) => isActive(m) && !m.pinned && m.type === 'observation'
+      && now - m.timestamp >= CONSOLIDATION_MIN_AGE_DAYS * DAY_MS)
+    .sort((a, b) => a.timestamp - b.timestamp)
+  if (candidates.length < MIN_CLUSTER_SIZE) return []
+
+  const vectors = await vectorsFor(candidates)
+  const used = new Set<number>()
+  const clusters: PartMemory[][] = []
+
+  for (let seed = 0; seed < candidates.length; seed++) {
+    if (used.has(seed)) continue
+    const neighbours = candidates
+      .map((_, i) => ({ i, score: cosineSimilarity(vectors[seed], vectors[i]) }))
+      .filter(({ i, score }) => i !== seed && !used.has(i) && score >= CLUSTER_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CLUSTER_SIZE - 1)
+    if (neighbours.length + 1 < MIN_CLUSTER_SIZE) continue
+
+    const members = [seed, ...neighbours.map((n) => n.i)]
+    for (const i of members) used.add(i)
+    clusters.push(members.map((i) => candidates[i]).sort((a, b) => a.timestamp - b.timestamp))
+  }
+  return clusters
+}
+
+async function consolidateCluster(part: Part, cluster: PartMemory[]): Promise<PartMemory | null> {
+  const response = await chatCompletion(
+    buildMemoryConsolidationPrompt(part, cluster.map((m) => m.content)),
+    15000,
+    120,
+    'memory-consolidation',
+  )
+  const content = response.trim().replace(/^["']|["']$/g, '').trim()
+  if (!content) return null
+
+  const now = Date.now()
+  const pattern: PartMemory = {
+    id: generateId(),
+    partId: part.id,
+    entryId: cluster[cluster.length - 1].entryId,
+    content,
+    type: 'pattern',
+    timestamp: now,
+    consolidatedFrom: cluster.map((m) => m.id),
+  }
+  await db.memories.add(pattern)
+  for (const memory of cluster) {
+    await db.memories.update(memory.id, { retiredAt: now, consolidatedInto: pattern.id })
+  }
+  return pattern
+}
+
+async function consolidatePart(part: Part, result: ConsolidationResult): Promise<void> {
+  let memories = await db.memories.where('partId').equals(part.id).toArray()
+
+  const clusters = (await clusterObservations(memories)).slice(0, MAX_CONSOLIDATIONS_PER_PART)
+  for (const cluster of clusters) {
+    try {
+      if (await consolidateCluster(part, cluster)) result.consolidated++
+    } catch (error) {
+      console.error('Memory consolidation error:', error)
+    }
+  }
+  if (clusters.length > 0) memories = await db.memories.where('partId').equals(part.id).toArray()
+
+  // Retire the lowest-scoring memories over budget
+  const now = Date.now()
+  const active = memories.filter(isActive)
+  const overBudget = active.length - ACTIVE_MEMORY_BUDGET
+  if (overBudget > 0) {
+    const retirable = active
+      .filter((m) => !m.pinned)
+      .sort((a, b) => scoreMemory(a, now) - scoreMemory(b, now))
+      .slice(0, overBudget)
+    for (const memory of retirable) {
+      await db.memories.update(memory.id, { retiredAt: now })
+      memory.retiredAt = now
+      result.retired++
+    }
+  }
+
+  // Only the archive is truncated, oldest retirement first
+  const archived = memories
+    .filter((m) => !isActive(m))
+    .sort((a, b) => b.retiredAt! - a.retiredAt!)
+  for (const memory of archived.slice(ARCHIVE_CAP)) {
+    await deleteMemory(memory.id)
+    result.deleted++
+  }
+}
+
+/** Consolidation, retirement and archive pruning for each part. */
+export async function consolidateMemories(parts: Part[]): Promise<ConsolidationResult> {
+  const result: ConsolidationResult = { consolidated: 0, retired: 0, deleted: 0 }
+  for (const part of parts) {
+    await consolidatePart(part, result)
+  }
+  return result
+}
+
+/**
+ * Counts that these memories were put in front of the model. Updates the
+ * objects in place so cached copies stay in step with the database.
+ */
+export async function recordRetrievals(memories: PartMemory[]): Promise<void> {
+  const now = Date.now()
+  for (const memory of memories) {
+    memory.retrievalCount = (memory.retrievalCount ?? 0) + 1
+    memory.lastRetrievedAt = now
+  }
+  // One write per thought, however many memories reached the prompt
+  await db.memories.bulkUpdate(memories.map((memory) => ({
+    id: memory.id,
+    changes: { retrievalCount: memory.retrievalCount, lastRetrievedAt: now },
+  })))
+}
+
+/** Pinning a retired memory brings it back. */
+export async function setMemoryPinned(memory: PartMemory, pinned: boolean): Promise<void> {
+  // null rather than undefined — Firestore rejects undefined field values
+  await db.memories.update(memory.id, pinned
+    ? { pinned: true, retiredAt: null }
+    : { pinned: false })
+}
+
+/** Deletes a memory together with its vector in the semantic index. */
+export async function deleteMemory(id: string): Promise<void> {
+  await db.memories.delete(id)
+  await removeFromIndex('memory', id)
+}
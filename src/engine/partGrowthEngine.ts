@@ -1,21 +1,30 @@
-import type { Part, UserProfile, EmotionalTone } from '../types'
+import type { Part, PartGrowthSnapshot, UserProfile, EmotionalTone } from '../types'
 import { buildGrowthPrompt } from '../ai/partPrompts'
 import { chatCompletion } from '../ai/openrouter'
 import { db } from '../store/db'
 import { getGlobalConfig } from '../store/globalConfig'
+import { growthStateOf, ensureBaselineSnapshot, recordGrowthSnapshot } from '../store/growthSnapshots'
+import { loadActiveMemories } from './memoryConsolidation'
 
 const VALID_EMOTIONS: EmotionalTone[] = [
   'neutral', 'tender', 'anxious', 'angry', 'sad',
   'joyful', 'contemplative', 'fearful', 'hopeful', 'conflicted',
 ]
 
+interface GrowthProposal {
+  promptAddition?: string
+  keywords?: string[]
+  emotions?: string[]
+  catchphrases?: string[]
+}
+
 export class PartGrowthEngine {
   async growParts(parts: Part[], profile: UserProfile | null): Promise<void> {
     try {
       // Load last 10 reflection+pattern memories per part
       const partsForPrompt = await Promise.all(
         parts.map(async (p) => {
-          const allMemories = await db.memories.where('partId').equals(p.id).toArray()
+          const allMemories = await loadActiveMemories(p.id)
           const relevant = allMemories
             .filter((m) => m.type === 'reflection' || m.type === 'pattern')
             .sort((a, b) => b.timestamp - a.timestamp)
@@ -37,7 +46,7 @@ export class PartGrowthEngine {
       if (partsWithExperience.length === 0) return
 
       const messages = buildGrowthPrompt(partsWithExperience, profile)
-      const response = await chatCompletion(messages, 15000, 600)
+      const response = await chatCompletion(messages, 15000, 600, 'growth')
 
       const parsed = this.parseGrowthResponse(response)
       if (!parsed?.partGrowth) return
@@ -46,7 +55,7 @@ export class PartGrowthEngine {
         const part = parts.find((p) => p.id === partId)
         if (!part) continue
 
-        const updates: Record<string, unknown> = {
+        const updates: Partial<Part> = {
           growthVersion: (part.growthVersion || 0) + 1,
           lastGrowthAt: Date.now(),
         }
@@ -85,20 +94,39 @@ export class PartGrowthEngine {
           updates.catchphrases = merged
         }
 
+        await ensureBaselineSnapshot(part)
         await db.parts.update(partId, updates)
+        await recordGrowthSnapshot({
+          partId,
+          version: updates.growthVersion!,
+          trigger: 'growth',
+          inputMemories: partsWithExperience.find((p) => p.id === partId)?.memories ?? [],
+          output: this.snapshotOutput(growth),
+          state: growthStateOf({ ...part, ...updates }),
+        })
       }
     } catch (error) {
       console.error('Part growth error:', error)
     }
   }
 
+  // Only well-formed fields, and no undefined values — cloud storage rejects them
+  private snapshotOutput(growth: GrowthProposal): NonNullable<PartGrowthSnapshot['output']> {
+    const strings = (value: unknown) =>
+      Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : null
+    const output: NonNullable<PartGrowthSnapshot['output']> = {}
+    if (typeof growth.promptAddition === 'string') output.promptAddition = growth.promptAddition
+    const keywords = strings(growth.keywords)
+    if (keywords) output.keywords = keywords
+    const emotions = strings(growth.emotions)
+    if (emotions) output.emotions = emotions
+    const catchphrases = strings(growth.catchphrases)
+    if (catchphrases) output.catchphrases = catchphrases
+    return output
+  }
+
   private parseGrowthResponse(response: string): {
-    partGrowth: Record<string, {
-      promptAddition?: string
-      keywords?: string[]
-      emotions?: string[]
-      catchphrases?: string[]
-    }>
+    partGrowth: Record<string, GrowthProposal>
   } | null {
     try {
       const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, response]
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+vi.mock('../ai/openrouter', () => ({
+  chatCompletion: vi.fn(),
+}))
+vi.mock('../services/analytics', () => ({
+  trackEvent: vi.fn(),
+}))
+
+import { createMemoryBackend } from '../store/localBackend'
+import { db, setStorageBackend } from '../store/db'
+import { draftIntroducedPart } from './partIntroductionEngine'
+import { introducePart } from '../store/partManagement'
+import { EmergenceEngine } from './emergenceEngine'
+import { SHARED_INSTRUCTIONS } from '../ai/partPrompts'
+import { chatCompletion } from '../ai/openrouter'
+
+const mockChat = vi.mocked(chatCompletion)
+
+const introduction = {
+  name: 'The Critic',
+  description: 'Shows up whenever I finish something and tells me it is not good enough.',
+  ifsRole: 'manager' as const,
+}
+
+const draftResponse = JSON.stringify({
+  concern: 'Work that might not be good enough, being judged.',
+  voice: 'Sharp, exacting, quick to find the flaw.',
+  character: 'You are The Critic. You hold every page up to the light and look for what is missing.',
+  examples: ['...is that really the word you want...', 'say it plainer'],
+  keywords: ['Good', 'enough', 'mistake', 'enough'],
+  color: 'red',
+})
+
+describe('draftIntroducedPart', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend())
+    mockChat.mockReset()
+  })
+
+  it('drafts a part from the writer\'s description, in the seeded parts\' shape', async () => {
+    mockChat.mockResolvedValueOnce('```json\n' + draftResponse + '\n```')
+
+    const result = await draftIntroducedPart(introduction, [])
+    expect(result.status).toBe('drafted')
+    if (result.status !== 'drafted') return
+    expect(result.draft).toMatchObject({
+      name: 'The Critic',
+      ifsRole: 'manager',
+      examples: ['...is that really the word you want...', '...say it plainer...'],
+      keywords: ['good', 'enough', 'mistake'],
+    })
+    // Not a hex color, so the role's fallback is used
+    expect(result.draft.color).toMatch(/^#[0-9a-f]{6}$/i)
+    expect(mockChat).toHaveBeenCalledWith(expect.any(Array), 20000, 700, 'part-introduction')
+  })
+
+  it('declines descriptions that read as a crisis without asking the model', async () => {
+    const result = await draftIntroducedPart(
+      { ...introduction, description: 'The part of me that wants to kill myself.' },
+      [],
+    )
+    expect(result).toEqual({ status: 'declined' })
+    expect(mockChat).not.toHaveBeenCalled()
+  })
+
+  it('passes on the model declining and reports unusable responses as failed', async () => {
+    mockChat.mockResolvedValueOnce('{"declined": true}')
+    expect(await draftIntroducedPart(introduction, [])).toEqual({ status: 'declined' })
+
+    mockChat.mockResolvedValueOnce('I would rather not.')
+    expect(await draftIntroducedPart(introduction, [])).toEqual({ status: 'failed' })
+  })
+
+  it('adds the approved part so it can speak, without using up room for emergence', async () => {
+    mockChat.mockResolvedValueOnce(draftResponse)
+    const result = await draftIntroducedPart(introduction, [])
+    if (result.status !== 'drafted') throw new Error('expected a draft')
+
+    const part = await introducePart(result.draft)
+    expect(part).toMatchObject({ isSeeded: false, introducedByWriter: true, learnedKeywords: ['good', 'enough', 'mistake'] })
+    expect(part.systemPrompt.startsWith(SHARED_INSTRUCTIONS)).toBe(true)
+    expect(part.systemPrompt).toContain('You are The Critic.')
+    expect(part.systemPrompt).toContain('- ...say it plainer...')
+    expect(await db.parts.get(part.id)).toMatchObject({ name: 'The Critic' })
+
+    // Four introduced parts would otherwise fill the emergence cap
+    const introduced = [part, part, part, part]
+    const engine = new EmergenceEngine()
+    mockChat.mockResolvedValue('{"detected": false}')
+    for (let i = 0; i < 3; i++) {
+      vi.setSystemTime(Date.now() + 3 * 60_000)
+      await engine.checkForEmergence('x'.repeat(400), introduced)
+    }
+    vi.useRealTimers()
+    expect(mockChat).toHaveBeenLastCalledWith(expect.any(Array), 10000, 150, 'emergence')
+  })
+})
@@ -0,0 +1,97 @@
+import type { Part, PartDraft, IFSRole } from '../types'
+import { buildPartIntroductionPrompt } from '../ai/partPrompts'
+import { chatCompletion } from '../ai/openrouter'
+import { detectCrisisKeywords } from './crisisLexicon'
+
+// Drafts a part the writer already knows, from their name and description.
+// Nothing is stored here — the draft goes back to the writer for approval,
+// and partManagement.introducePart writes the approved version.
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+const MAX_EXAMPLES = 5
+const MAX_KEYWORDS = 8
+
+// Used when the model's color is missing or not a muted hex
+const ROLE_COLORS: Record<IFSRole, string> = {
+  protector: '#6F8798',
+  exile: '#A88562',
+  manager: '#857A9C',
+  firefighter: '#A0707A',
+  self: '#6E9072',
+}
+
+export type PartDraftResult =
+  | { status: 'drafted'; draft: PartDraft }
+  | { status: 'declined' }
+  | { status: 'failed' }
+
+export async function draftIntroducedPart(
+  introduction: { name: string; description: string; ifsRole: IFSRole },
+  existingParts: Part[],
+): Promise<PartDraftResult> {
+  const name = introduction.name.trim()
+  const description = introduction.description.trim()
+  if (!name || !description) return { status: 'failed' }
+  if (detectCrisisKeywords(`${name}\n${description}`)) return { status: 'declined' }
+
+  try {
+    const messages = buildPartIntroductionPrompt({ ...introduction, name, description }, existingParts)
+    const response = await chatCompletion(messages, 20000, 700, 'part-introduction')
+    const parsed = parseDraftResponse(response)
+    if (!parsed) return { status: 'failed' }
+    if (parsed.declined) return { status: 'declined' }
+
+    const draft = toDraft(parsed, name, introduction.ifsRole)
+    return draft ? { status: 'drafted', draft } : { status: 'failed' }
+  } catch (error) {
+    console.error('Part introduction error:', error)
+    return { status: 'failed' }
+  }
+}
+
+interface DraftResponse {
+  declined?: boolean
+  concern?: unknown
+  voice?: unknown
+  character?: unknown
+  examples?: unknown
+  keywords?: unknown
+  color?: unknown
+}
+
+function parseDraftResponse(response: string): DraftResponse | null {
+  try {
+    const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, response]
+    return JSON.parse(jsonMatch[1]!.trim())
+  } catch {
+    console.error('Failed to parse part introduction:', response.slice(0, 200))
+    return null
+  }
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string').map((v) => v.trim()).filter(Boolean)
+    : []
+}
+
+// Seeded parts speak in ...margin notes...; hold the draft to the same shape
+function asMarginNote(line: string): string {
+  return `...${line.replace(/^[.…\s]+|[.…\s]+$/g, '')}...`
+}
+
+function toDraft(parsed: DraftResponse, name: string, ifsRole: IFSRole): PartDraft | null {
+  if (typeof parsed.character !== 'string' || !parsed.character.trim()) return null
+  if (typeof parsed.concern !== 'string' || typeof parsed.voice !== 'string') return null
+
+  return {
+    name,
+    ifsRole,
+    color: typeof parsed.color === 'string' && HEX_COLOR.test(parsed.color) ? parsed.color : ROLE_COLORS[ifsRole],
+    concern: parsed.concern.trim(),
+    voiceDescription: parsed.voice.trim(),
+    character: parsed.character.trim(),
+    examples: strings(parsed.examples).slice(0, MAX_EXAMPLES).map(asMarginNote),
+    keywords: [...new Set(strings(parsed.keywords).map((k) => k.toLowerCase()))].slice(0, MAX_KEYWORDS),
+  }
+}
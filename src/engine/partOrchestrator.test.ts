@@ -15,7 +15,7 @@ vi.mock('../store/db', () => ({
     memories: { where: vi.fn(() => ({ equals: vi.fn(() => ({ toArray: vi.fn(async () => []) })) })) },
     thoughts: { add: vi.fn() },
     userProfile: { get: vi.fn(async () => undefined) },
-    entrySummaries: { orderBy: vi.fn(() => ({ reverse: vi.fn(() => ({ toArray: vi.fn(async () => []) })) })) },
+    entrySummaries: { orderBy: vi.fn(() => ({ reverse: vi.fn(() => ({ limit: vi.fn(() => ({ toArray: vi.fn(async () => []) })) })) })) },
     innerWeather: { add: vi.fn() },
     sessionLog: { add: vi.fn(), toArray: vi.fn(async () => []) },
   },
@@ -310,6 +310,26 @@ describe('PartOrchestrator — scoring logic', () => {
       // So effectively selectPart is never called with 0 parts (handlePause guards it)
       // Skip — this is guarded by handlePause
     })
+
+    it('never selects a muted part until its mute runs out', () => {
+      const exile = makePart({ id: 'exile-1', ifsRole: 'exile', mutedUntil: Date.now() + 60_000 })
+      const protector = makePart({ id: 'prot-1', ifsRole: 'protector' })
+      priv.parts = [exile, protector]
+      priv.currentEmotion = 'sad'
+      const event = makeEvent({ type: 'long_pause', recentText: 'i feel hurt and alone' })
+
+      for (let i = 0; i < 20; i++) {
+        expect(priv.selectPart(event)?.id).toBe('prot-1')
+      }
+
+      exile.mutedUntil = Date.now() - 1
+      expect(priv.selectPart(event)).not.toBeNull()
+    })
+
+    it('returns null when every part is muted', () => {
+      priv.parts = [makePart({ mutedUntil: Date.now() + 60_000 })]
+      expect(priv.selectPart(makeEvent())).toBeNull()
+    })
   })
 
   // --- grounding mode ---
@@ -1,11 +1,12 @@
 import type { Part, PauseEvent, PauseType, PartThought, EmotionalTone, IFSRole, PartAnnotations } from '../types'
-import { buildPartMessages } from '../ai/partPrompts'
+import { buildPartMessages, selectPromptMemories } from '../ai/partPrompts'
 import { streamChatCompletion, analyzeEmotionAndDistress } from '../ai/openrouter'
 import { parseAnnotations, isDelimiterPrefix, DELIMITER, fixGhostCapitalization } from '../ai/annotationParser'
 import { db, generateId } from '../store/db'
 import { getGlobalConfig } from '../store/globalConfig'
 import { getSettings } from '../store/settings'
 import { activateGrounding, isGroundingActive } from '../store/groundingState'
+import { loadActiveParts, isPartMuted } from '../store/partManagement'
 import { trackEvent } from '../services/analytics'
 import { getPartDisplayName, t } from '../i18n'
 import { QuoteEngine } from './quoteEngine'
@@ -14,6 +15,7 @@ import { QuietTracker } from './quietTracker'
 import { EchoEngine } from './echoEngine'
 import { ThreadEngine } from './threadEngine'
 import { RitualEngine } from './ritualEngine'
+import { loadActiveMemories, recordRetrievals } from './memoryConsolidation'
 
 const ROLE_PAUSE_AFFINITIES: Record<IFSRole, Record<PauseType, number>> = {
   protector: {
@@ -76,6 +78,7 @@ export class PartOrchestrator {
   private isGenerating: boolean = false
   private entryId: string = ''
   private intention: string = ''
+  private hrvContext: (() => string | undefined) | null = null
   private quietOneLastSpokeEntry: string | null = null
   private callbacks: OrchestratorCallbacks
 
@@ -106,19 +109,16 @@ export class PartOrchestrator {
   }
 
   async loadParts() {
-    const [dbParts, profile, summariesRaw] = await Promise.all([
-      db.parts.toArray(),
+    const [dbParts, profile, recentSummaries] = await Promise.all([
+      loadActiveParts(),
       db.userProfile.get('current'),
-      db.entrySummaries.orderBy('timestamp').reverse().toArray(),
+      db.entrySummaries.orderBy('timestamp').reverse().limit(5).toArray(),
     ])
     this.cachedProfile = profile
-    this.cachedSummaries = summariesRaw?.slice(0, 5)
+    this.cachedSummaries = recentSummaries
     this.parts = await Promise.all(
       dbParts.map(async (p) => {
-        const memories = await db.memories
-          .where('partId')
-          .equals(p.id)
-          .toArray()
+        const memories = await loadActiveMemories(p.id)
         return { ...p, memories } as Part
       }),
     )
@@ -132,6 +132,11 @@ export class PartOrchestrator {
     this.intention = v
   }
 
+  /** Read at each thought, so parts see the body as it is when they speak */
+  setHrvContext(provider: (() => string | undefined) | null) {
+    this.hrvContext = provider
+  }
+
   isCurrentlyGenerating(): boolean {
     return this.isGenerating
   }
@@ -168,7 +173,9 @@ export class PartOrchestrator {
       const silenceChance = config.partIntelligence?.silenceChance ?? 0.2
       if (event.duration > (config.partIntelligence?.silenceFlowThreshold ?? 120) * 1000) {
         if (Math.random() < silenceChance) {
-          const silencePart = this.parts[Math.floor(Math.random() * this.parts.length)]
+          const candidates = this.unmutedParts()
+          const silencePart = candidates[Math.floor(Math.random() * candidates.length)]
+          if (!silencePart) return
           this.callbacks.onSilence?.(silencePart.id, getPartDisplayName(silencePart), silencePart.color, silencePart.colorLight)
           return
         }
@@ -183,8 +190,14 @@ export class PartOrchestrator {
     this.isGenerating = false
   }
 
+  /** Parts allowed to speak right now — muted ones wait out their mute. */
+  private unmutedParts(): Part[] {
+    const now = Date.now()
+    return this.parts.filter((part) => !isPartMuted(part, now))
+  }
+
   private selectPart(event: PauseEvent): Part | null {
-    const scored = this.parts.map((part) => ({
+    const scored = this.unmutedParts().map((part) => ({
       part,
       score: this.scorePart(part, event),
     }))
@@ -192,7 +205,7 @@ export class PartOrchestrator {
     scored.sort((a, b) => b.score - a.score)
 
     const top = scored[0]
-    if (top.score <= 0) return null
+    if (!top || top.score <= 0) return null
     return top.part
   }
 
@@ -345,11 +358,16 @@ export class PartOrchestrator {
         ritualContext: rituals.length > 0 ? rituals[0].description : undefined,
         isGrounding: isGroundingActive() || undefined,
         intention: this.intention || undefined,
+        hrvContext: this.hrvContext?.() || undefined,
         annotateHighlights,
         annotateGhostText,
       },
     )
 
+    recordRetrievals(selectPromptMemories(allMemories)).catch((error) => {
+      console.error('Memory retrieval tracking error:', error)
+    })
+
     this.callbacks.onThoughtStart(part.id, getPartDisplayName(part), part.color)
 
     // Delimiter buffering state for annotation suppression
@@ -458,7 +476,7 @@ export class PartOrchestrator {
           }
 
           // Disagreement check — another part may push back
-          const disagreePart = this.disagreementEngine.shouldDisagree(part, this.parts)
+          const disagreePart = this.disagreementEngine.shouldDisagree(part, this.unmutedParts())
           if (disagreePart) {
             // Generate disagreement after a brief delay
             setTimeout(async () => {
@@ -495,6 +513,7 @@ export class PartOrchestrator {
         },
       },
       wantAnnotations ? 250 : 150,
+      'part-thought',
     )
   }
 
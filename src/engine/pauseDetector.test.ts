@@ -1,4 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Crisis lexicon reads the UI language from settings, which import globalConfig
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+const uiLanguage = vi.hoisted(() => ({ code: 'en' }))
+vi.mock('../i18n', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../i18n')>(),
+  getLanguageCode: () => uiLanguage.code,
+}))
+
 import { PauseDetector } from './pauseDetector'
 import type { PauseEvent, PauseType } from '../types'
 
@@ -262,4 +273,84 @@ describe('PauseDetector', () => {
       expect(typeof event.timestamp).toBe('number')
     })
   })
+
+  // --- Crisis keywords ---
+
+  describe('crisis keywords', () => {
+    let onCrisis: ReturnType<typeof vi.fn<(recentText: string) => void>>
+
+    beforeEach(() => {
+      detector.destroy()
+      uiLanguage.code = 'en'
+      onCrisis = vi.fn<(recentText: string) => void>()
+      detector = new PauseDetector(callback, onCrisis)
+    })
+
+    function write(text: string) {
+      detector.updateText(text, text.length)
+    }
+
+    it('fires as soon as the phrase is complete, without waiting for a pause', () => {
+      write('I want to die ')
+      expect(onCrisis).toHaveBeenCalledTimes(1)
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('waits for the word being typed to finish', () => {
+      write('I want to die')
+      expect(onCrisis).not.toHaveBeenCalled()
+      write('I want to diet')
+      write('I want to diet ')
+      expect(onCrisis).not.toHaveBeenCalled()
+    })
+
+    it('fires on the keystroke in scripts written without spaces', () => {
+      uiLanguage.code = 'zh'
+      write('今天我真的想死')
+      expect(onCrisis).toHaveBeenCalledTimes(1)
+      detector.destroy()
+
+      uiLanguage.code = 'ja'
+      onCrisis.mockClear()
+      detector = new PauseDetector(callback, onCrisis)
+      write('もう死にたい')
+      expect(onCrisis).toHaveBeenCalledTimes(1)
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('still waits for a spaced word typed after unspaced text', () => {
+      write('今天 I want to die')
+      expect(onCrisis).not.toHaveBeenCalled()
+      write('今天 I want to die ')
+      expect(onCrisis).toHaveBeenCalledTimes(1)
+    })
+
+    it('checks the full text when a pause is emitted', () => {
+      const text = 'I want to die'
+      typeText('e', text, text.length)
+      vi.advanceTimersByTime(5000)
+      expect(onCrisis).toHaveBeenCalledTimes(1)
+    })
+
+    it('fires once per phrase while it stays in the recent text', () => {
+      write('I want to die ')
+      write('I want to die and')
+      write('I want to die and nobody ')
+      expect(onCrisis).toHaveBeenCalledTimes(1)
+    })
+
+    it('fires again once the phrase has left the recent text', () => {
+      write('I want to die ')
+      const later = 'I want to die ' + 'and then the afternoon went on. '.repeat(8)
+      write(later)
+      write(later + 'kms ')
+      expect(onCrisis).toHaveBeenCalledTimes(2)
+    })
+
+    it('keeps checking while pause detection is suppressed', () => {
+      detector.suppress()
+      write('I just want to end it all.')
+      expect(onCrisis).toHaveBeenCalledTimes(1)
+    })
+  })
 })
@@ -1,4 +1,5 @@
 import type { PauseEvent, PauseType } from '../types'
+import { detectCrisisKeywords } from './crisisLexicon'
 
 interface KeystrokeRecord {
   timestamp: number
@@ -6,12 +7,19 @@ interface KeystrokeRecord {
 }
 
 type PauseCallback = (event: PauseEvent) => void
+type CrisisCallback = (recentText: string) => void
+
+// The word still being typed, in scripts that separate words with spaces.
+// Chinese, Japanese and Thai don't, so there nothing is held back.
+const PARTIAL_WORD = /(?:(?![\p{scx=Han}\p{scx=Hiragana}\p{scx=Katakana}\p{scx=Thai}\p{scx=Lao}\p{scx=Khmer}\p{scx=Myanmar}])[\p{L}\p{M}\p{N}])+$/u
 
 export class PauseDetector {
   private keystrokes: KeystrokeRecord[] = []
   private pauseTimer: ReturnType<typeof setTimeout> | null = null
   private longPauseTimer: ReturnType<typeof setTimeout> | null = null
   private callback: PauseCallback
+  private onCrisisText: CrisisCallback | undefined
+  private crisisInRecentText: boolean = false
   private currentText: string = ''
   private cursorPosition: number = 0
   private isPaused: boolean = false
@@ -30,8 +38,9 @@ export class PauseDetector {
   private get LONG_PAUSE() { return this.BASE_LONG_PAUSE / this.speedMultiplier }
   private get MIN_PAUSE_INTERVAL() { return this.BASE_MIN_PAUSE_INTERVAL / this.speedMultiplier }
 
-  constructor(callback: PauseCallback) {
+  constructor(callback: PauseCallback, onCrisisText?: CrisisCallback) {
     this.callback = callback
+    this.onCrisisText = onCrisisText
   }
 
   setSpeedMultiplier(multiplier: number) {
@@ -57,6 +66,10 @@ export class PauseDetector {
   updateText(fullText: string, cursorPos: number) {
     this.currentText = fullText
     this.cursorPosition = cursorPos
+    const recentText = this.getRecentText()
+    // Leave out the word still being typed — "want to die" shouldn't fire on
+    // its way to "want to diet". Pauses check the full text.
+    this.checkCrisis(recentText.replace(PARTIAL_WORD, ''), recentText)
   }
 
   suppress() {
@@ -171,6 +184,20 @@ export class PauseDetector {
     )
   }
 
+  // Runs even while suppressed — no AI, no cooldown. Fires once per phrase:
+  // it has to leave the recent window before it can fire again, so dismissing
+  // grounding isn't undone by the next keystroke.
+  private checkCrisis(settledText: string, recentText: string) {
+    if (!this.onCrisisText) return
+    if (!this.crisisInRecentText) {
+      if (!detectCrisisKeywords(settledText)) return
+      this.crisisInRecentText = true
+      this.onCrisisText(recentText)
+    } else if (!detectCrisisKeywords(recentText)) {
+      this.crisisInRecentText = false
+    }
+  }
+
   private getRecentText(): string {
     const text = this.currentText
     const cursor = this.cursorPosition
@@ -186,13 +213,15 @@ export class PauseDetector {
   private emitPause(type: PauseType, duration: number) {
     this.isPaused = true
     this.lastPauseTime = Date.now()
+    const recentText = this.getRecentText()
+    this.checkCrisis(recentText, recentText)
 
     const event: PauseEvent = {
       type,
       duration,
       currentText: this.currentText,
       cursorPosition: this.cursorPosition,
-      recentText: this.getRecentText(),
+      recentText,
       timestamp: Date.now(),
     }
 
@@ -1,8 +1,12 @@
 import { getGlobalConfig } from '../store/globalConfig'
 import { db } from '../store/db'
 import { extractWords } from '../utils/text'
+import { isSemanticRetrievalEnabled, findRelated, relatedEntryIds } from './semanticIndex'
 import type { EntrySummary } from '../types'
 
+/** Semantic quotes reach back this far at most */
+const QUOTE_MAX_AGE_DAYS = 365
+
 export class QuoteEngine {
   async findQuote(currentText: string): Promise<{ text: string, entryId: string } | null> {
     const config = getGlobalConfig()
@@ -13,17 +17,23 @@ export class QuoteEngine {
 
     if (Math.random() > quoteChance) return null
 
-    try {
-      const allSummaries = await db.entrySummaries.orderBy('timestamp').reverse().toArray()
+    if (isSemanticRetrievalEnabled()) {
+      const quote = await this.findSemanticQuote(currentText, quoteMinAge)
+      if (quote) return quote
+    }
 
+    try {
       const minAgeMs = quoteMinAge * 24 * 60 * 60 * 1000
       const cutoff = Date.now() - minAgeMs
-      const qualifying = allSummaries.filter((s) => s.timestamp < cutoff)
-
-      if (qualifying.length === 0) return null
 
       // Take up to 5 recent qualifying summaries
-      const candidates = qualifying.slice(0, 5)
+      const candidates = await db.entrySummaries
+        .where('timestamp').below(cutoff)
+        .reverse()
+        .limit(5)
+        .toArray()
+
+      if (candidates.length === 0) return null
 
       // Simple word intersection scoring
       const currentWords = extractWords(currentText)
@@ -44,20 +54,37 @@ export class QuoteEngine {
 
       if (!bestSummary || bestScore === 0) return null
 
-      // Load the full entry text
-      const entry = await db.entries.get(bestSummary.entryId) as { id: string, plainText: string } | undefined
-      if (!entry || !entry.plainText) return null
-
-      const passage = this.extractPassage(entry.plainText)
-      if (!passage) return null
-
-      return { text: passage, entryId: entry.id }
+      return await this.quoteFromEntry(bestSummary.entryId)
     } catch (error) {
       console.error('QuoteEngine error:', error)
       return null
     }
   }
 
+  // Closest in meaning across the last year; null lets word overlap have a go
+  private async findSemanticQuote(currentText: string, minAgeDays: number): Promise<{ text: string, entryId: string } | null> {
+    try {
+      const related = await findRelated(currentText, { minAge: minAgeDays, maxAge: QUOTE_MAX_AGE_DAYS, k: 8 })
+      for (const entryId of relatedEntryIds(related)) {
+        const quote = await this.quoteFromEntry(entryId)
+        if (quote) return quote
+      }
+    } catch (error) {
+      console.error('QuoteEngine semantic lookup error:', error)
+    }
+    return null
+  }
+
+  private async quoteFromEntry(entryId: string): Promise<{ text: string, entryId: string } | null> {
+    const entry = await db.entries.get(entryId) as { id: string, plainText: string } | undefined
+    if (!entry || !entry.plainText) return null
+
+    const passage = this.extractPassage(entry.plainText)
+    if (!passage) return null
+
+    return { text: passage, entryId: entry.id }
+  }
+
   private extractPassage(text: string): string | null {
     // Split into sentences and pick a 1-2 sentence passage
     const sentences = text.match(/[^.!?]+[.!?]+/g)
@@ -4,6 +4,8 @@ import { chatCompletion } from '../ai/openrouter'
 import { sanitizeForPrompt } from '../ai/promptSafety'
 import { db, generateId } from '../store/db'
 import { LetterEngine } from './letterEngine'
+import { indexEntry } from './semanticIndex'
+import { consolidateMemories } from './memoryConsolidation'
 
 interface ReflectionResult {
   entrySummary?: EntrySummary
@@ -13,13 +15,6 @@ interface ReflectionResult {
   unfinishedThreads?: string[]
 }
 
-const MEMORY_CAPS: Record<string, number> = {
-  observation: 20,
-  interaction: 15,
-  reflection: 20,
-  pattern: 10,
-}
-
 export class ReflectionEngine {
   private simpleHash(text: string): string {
     let hash = 0
@@ -52,9 +47,11 @@ export class ReflectionEngine {
       // 3. Load existing profile
       const profile = await db.userProfile.get('current')
 
-      // 4. Load recent summaries
-      const allSummaries = await db.entrySummaries.orderBy('timestamp').reverse().toArray()
-      const recentSummaries = allSummaries.slice(0, 5)
+      // 4. Load recent summaries (count drives the growth cadence below)
+      const [recentSummaries, summaryCountBefore] = await Promise.all([
+        db.entrySummaries.orderBy('timestamp').reverse().limit(5).toArray(),
+        db.entrySummaries.count(),
+      ])
 
       // 5. Build prompt context
       const thoughtsForPrompt = thoughts.map((t) => ({
@@ -91,7 +88,7 @@ export class ReflectionEngine {
       )
 
       // 6. Single AI call (15s timeout for larger input)
-      const response = await chatCompletion(messages, 15000, 1000)
+      const response = await chatCompletion(messages, 15000, 1000, 'reflection')
 
       // 7. Parse response
       const parsed = this.parseReflectionResponse(response)
@@ -152,6 +149,9 @@ export class ReflectionEngine {
         }
       }
 
+      // Non-blocking: keep the semantic index current for echoes, quotes and threads
+      indexEntry(entryId).catch((error) => console.error('Semantic index error:', error))
+
       // 8d. Merge keyword suggestions into parts
       if (parsed.partKeywordSuggestions) {
         for (const [partId, keywords] of Object.entries(parsed.partKeywordSuggestions)) {
@@ -199,11 +199,12 @@ export class ReflectionEngine {
         result.profileUpdated = true
       }
 
-      // 8f. Prune old memories per part
-      await this.pruneMemories(parts)
+      // 8f. Consolidate and retire memories per part
+      await consolidateMemories(parts)
 
-      // 8f2. Prune somatic memories (cap at 100)
-      const somaticMems = await db.memories.where('partId').equals('_somatic').toArray()
+      // 8f2. Prune somatic memories (cap at 100), leaving body map check-ins alone
+      const somaticMems = (await db.memories.where('partId').equals('_somatic').toArray())
+        .filter((m) => m.source !== 'manual')
       if (somaticMems.length > 100) {
         const sorted = [...somaticMems].sort((a, b) => (b.timestamp as number) - (a.timestamp as number))
         for (const mem of sorted.slice(100)) {
@@ -257,6 +258,7 @@ export class ReflectionEngine {
             emotion: signal.emotion.trim(),
             intensity,
             timestamp: Date.now(),
+            source: 'journal',
           })
           result.memoriesCreated++
         }
@@ -267,7 +269,7 @@ export class ReflectionEngine {
       if (parsed.unfinishedThreads) result.unfinishedThreads = parsed.unfinishedThreads
 
       // 9. Check if it's time for part growth
-      const summaryCount = allSummaries.length + 1 // +1 for the one we just created
+      const summaryCount = summaryCountBefore + 1 // +1 for the one we just created
       if (summaryCount % 5 === 0) {
         // Dynamically import to avoid circular dependencies
         const { PartGrowthEngine } = await import('./partGrowthEngine')
@@ -320,25 +322,6 @@ export class ReflectionEngine {
       return null
     }
   }
-
-  private async pruneMemories(parts: Part[]): Promise<void> {
-    for (const part of parts) {
-      const allMemories = await db.memories.where('partId').equals(part.id).toArray()
-
-      for (const [type, cap] of Object.entries(MEMORY_CAPS)) {
-        const typed = allMemories
-          .filter((m) => (m.type ?? 'interaction') === type)
-          .sort((a, b) => b.timestamp - a.timestamp)
-
-        if (typed.length > cap) {
-          const toDelete = typed.slice(cap)
-          for (const mem of toDelete) {
-            await db.memories.delete(mem.id)
-          }
-        }
-      }
-    }
-  }
 }
 
 function mergeArrays(existing: string[], incoming: unknown, cap: number): string[] {
@@ -5,15 +5,21 @@ vi.mock('../store/globalConfig', () => ({
   getGlobalConfig: vi.fn(),
 }))
 
-vi.mock('../store/db', () => ({
-  db: {
-    sessionLog: {
-      add: vi.fn(),
-      toArray: vi.fn(),
+vi.mock('../store/db', () => {
+  // where('startedAt').aboveOrEqual(windowStart).toArray() resolves through the same mock
+  const toArray = vi.fn()
+  const aboveOrEqual = vi.fn(() => ({ toArray }))
+  return {
+    db: {
+      sessionLog: {
+        add: vi.fn(),
+        toArray,
+        where: vi.fn(() => ({ aboveOrEqual })),
+      },
     },
-  },
-  generateId: vi.fn(() => 'test-id'),
-}))
+    generateId: vi.fn(() => 'test-id'),
+  }
+})
 
 import { categorizeHour } from './ritualEngine'
 import { RitualEngine } from './ritualEngine'
@@ -94,6 +100,17 @@ describe('RitualEngine.detectRituals', () => {
     expect(await engine.detectRituals()).toEqual([])
   })
 
+  it('queries only logs inside the detection window', async () => {
+    enableRituals()
+    mockToArray.mockResolvedValue([])
+    const before = Date.now()
+    await engine.detectRituals()
+    expect(db.sessionLog.where).toHaveBeenCalledWith('startedAt')
+    const aboveOrEqual = vi.mocked(db.sessionLog.where).mock.results[0].value.aboveOrEqual
+    const windowStart = aboveOrEqual.mock.calls[0][0] as number
+    expect(before - windowStart).toBeGreaterThanOrEqual(14 * 24 * 60 * 60 * 1000)
+  })
+
   it('returns empty with fewer than 3 sessions', async () => {
     enableRituals()
     mockToArray.mockResolvedValue([
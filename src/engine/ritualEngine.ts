@@ -2,7 +2,7 @@ import { getGlobalConfig } from '../store/globalConfig'
 import { db, generateId } from '../store/db'
 import type { SessionLog, SessionRitual } from '../types'
 
-type TimeOfDay = 'early-morning' | 'morning' | 'afternoon' | 'evening' | 'night'
+export type TimeOfDay = 'early-morning' | 'morning' | 'afternoon' | 'evening' | 'night'
 
 const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
 
@@ -43,8 +43,7 @@ export class RitualEngine {
     const ritualDetectionWindow = config.engagement?.ritualDetectionWindow ?? 14
     const windowStart = Date.now() - ritualDetectionWindow * 24 * 60 * 60 * 1000
 
-    const allLogs = await db.sessionLog.toArray()
-    const recentLogs = allLogs.filter((log) => log.startedAt >= windowStart)
+    const recentLogs = await db.sessionLog.where('startedAt').aboveOrEqual(windowStart).toArray()
 
     if (recentLogs.length < 3) return []
 
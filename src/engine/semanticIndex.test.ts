@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const embeddingsConfig = vi.hoisted(() => ({ provider: 'local', minSimilarity: 0.2 }))
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => ({
+    features: { semanticRetrieval: true },
+    embeddings: embeddingsConfig,
+  }),
+}))
+vi.mock('../ai/openrouter', () => ({
+  createEmbeddings: vi.fn(),
+}))
+
+import { createMemoryBackend } from '../store/localBackend'
+import { db, setStorageBackend } from '../store/db'
+import { findRelated, syncIndex, relatedEntryIds, invalidateIndexCache } from './semanticIndex'
+import { createEmbeddings } from '../ai/openrouter'
+
+const DAY = 24 * 60 * 60 * 1000
+
+async function addEntry(id: string, plainText: string, daysAgo: number) {
+  const createdAt = Date.now() - daysAgo * DAY
+  await db.entries.add({ id, content: '', plainText, createdAt, updatedAt: createdAt })
+}
+
+describe('semantic index', () => {
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend())
+    invalidateIndexCache()
+    await addEntry('grief', 'I keep missing my grandmother. Her kitchen always smelled of bread.', 120)
+    await addEntry('work', 'The quarterly report is due and the spreadsheet will not balance.', 30)
+    await addEntry('recent', 'Missed my grandmother again this morning, thinking of her kitchen.', 1)
+  })
+
+  it('finds past entries about the same thing, best first', async () => {
+    await syncIndex()
+    const related = await findRelated('missing grandmother, her kitchen', { minAge: 3 })
+    expect(relatedEntryIds(related)[0]).toBe('grief')
+    expect(relatedEntryIds(related)).not.toContain('work')
+  })
+
+  it('respects the age window', async () => {
+    await syncIndex()
+    const ids = (query: string, options: Parameters<typeof findRelated>[1]) =>
+      findRelated(query, options).then(relatedEntryIds)
+
+    expect(await ids('grandmother kitchen', { minAge: 3, maxAge: 90 })).toEqual([])
+    expect(await ids('grandmother kitchen', {})).toContain('recent')
+    expect(await ids('grandmother kitchen', { minAge: 3 })).not.toContain('recent')
+  })
+
+  it('only re-embeds sources whose text changed, and drops deleted ones', async () => {
+    expect(await syncIndex()).toBe(3)
+    expect(await syncIndex()).toBe(0)
+
+    await db.entries.update('work', { plainText: 'The report finally balanced and I went for a walk.' })
+    await db.entries.delete('recent')
+    expect(await syncIndex()).toBe(1)
+    expect((await db.embeddings.toArray()).map((r) => r.sourceId).sort()).toEqual(['grief', 'work'])
+  })
+
+  it('indexes summaries and memories alongside entries', async () => {
+    await db.entrySummaries.add({
+      id: 'sum-1', entryId: 'grief', themes: ['grief', 'family'], emotionalArc: 'tender to settled',
+      keyMoments: ['remembering bread'], timestamp: Date.now() - 120 * DAY,
+    })
+    await db.memories.add({
+      id: 'mem-1', partId: 'watcher', entryId: 'work', content: 'Deadlines make the writer tense',
+      type: 'observation', timestamp: Date.now() - 30 * DAY,
+    })
+    await syncIndex()
+
+    const related = await findRelated('grief and family', { sourceTypes: ['summary'] })
+    expect(related.map((r) => r.sourceId)).toEqual(['sum-1'])
+    expect(related[0].entryId).toBe('grief')
+  })
+
+  it('reads the index once and keeps it in step with later syncs', async () => {
+    const toArray = vi.spyOn(db.embeddings, 'toArray')
+    await syncIndex()
+    await findRelated('grandmother kitchen')
+    await findRelated('quarterly report')
+    expect(toArray).toHaveBeenCalledTimes(1)
+
+    await addEntry('bread', 'Baked my grandmother\'s bread recipe in her old kitchen tin.', 10)
+    await syncIndex()
+    expect(relatedEntryIds(await findRelated('grandmother bread kitchen', { minAge: 3 }))).toContain('bread')
+    expect(toArray).toHaveBeenCalledTimes(1)
+    toArray.mockRestore()
+  })
+
+  it('never calls the proxy with the local stand-in', async () => {
+    await syncIndex()
+    await findRelated('grandmother')
+    expect(createEmbeddings).not.toHaveBeenCalled()
+  })
+})
+
+describe('semantic index backfill through the proxy', () => {
+  const proxyEmbeddings = vi.mocked(createEmbeddings)
+
+  beforeEach(async () => {
+    setStorageBackend(createMemoryBackend())
+    invalidateIndexCache()
+    embeddingsConfig.provider = 'proxy'
+    proxyEmbeddings.mockReset()
+    proxyEmbeddings.mockImplementation(async (inputs: string[]) => inputs.map(() => [1, 0, 0]))
+    // 40 entries: one full batch of 32, then 8
+    for (let i = 0; i < 40; i++) await addEntry(`e${i}`, `Entry number ${i} about an ordinary day.`, 40 - i)
+    invalidateIndexCache()
+  })
+
+  afterEach(() => {
+    embeddingsConfig.provider = 'local'
+    vi.useRealTimers()
+  })
+
+  it('keeps finished batches when a later one fails, and picks up from there', async () => {
+    proxyEmbeddings
+      .mockImplementationOnce(async (inputs: string[]) => inputs.map(() => [1, 0, 0]))
+      .mockRejectedValueOnce(new Error('API error: 429'))
+
+    await expect(syncIndex()).rejects.toThrow('429')
+    expect(await db.embeddings.count()).toBe(32)
+
+    expect(await syncIndex()).toBe(8)
+    expect(proxyEmbeddings).toHaveBeenLastCalledWith(expect.any(Array), expect.any(String))
+    expect(proxyEmbeddings.mock.lastCall?.[0]).toHaveLength(8)
+  })
+
+  it('embeds the same pause text once across lookups', async () => {
+    await syncIndex()
+    proxyEmbeddings.mockClear()
+
+    await Promise.all([
+      findRelated('an ordinary day', { minAge: 3 }),
+      findRelated('an ordinary day', { maxAge: 30, sourceTypes: ['summary'] }),
+    ])
+    await findRelated('an ordinary day')
+    expect(proxyEmbeddings).toHaveBeenCalledTimes(1)
+
+    await findRelated('something else entirely')
+    expect(proxyEmbeddings).toHaveBeenCalledTimes(2)
+  })
+
+  it('waits between proxy batches', async () => {
+    vi.useFakeTimers()
+    const sync = syncIndex({ batchIntervalMs: 10_000 })
+
+    await vi.advanceTimersByTimeAsync(9_000)
+    expect(proxyEmbeddings).toHaveBeenCalledTimes(1)
+    expect(await db.embeddings.count()).toBe(32)
+
+    await vi.advanceTimersByTimeAsync(1_000)
+    expect(await sync).toBe(40)
+    expect(proxyEmbeddings).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops before the next batch when aborted', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const sync = syncIndex({ batchIntervalMs: 10_000, signal: controller.signal })
+
+    await vi.advanceTimersByTimeAsync(1_000)
+    controller.abort()
+    expect(await sync).toBe(32)
+    expect(proxyEmbeddings).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,311 @@
+import { getGlobalConfig } from '../store/globalConfig'
+import { db } from '../store/db'
+import {
+  embedTexts, getEmbeddingModel, cosineSimilarity, EMBEDDING_BATCH_SIZE, LOCAL_EMBEDDING_MODEL,
+} from '../ai/embeddings'
+import type {
+  DiaryEntry, EntrySummary, PartMemory, EmbeddingRecord, EmbeddingSourceType,
+} from '../types'
+
+// ── Semantic index ──
+// One vector per entry, entry summary and memory, stored per user in the
+// `embeddings` collection. Echoes, quotes and threads share findRelated(), so
+// a passage about the same feeling in different words can surface months later.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_MIN_SIMILARITY = 0.3
+const MIN_ENTRY_CHARS = 20
+// The backfill shares the proxy's per-user embedding limit with pause-time
+// lookups, so it takes a batch at most every 10s and backs off on failure
+const BACKFILL_START_DELAY_MS = 30_000
+const BACKFILL_BATCH_INTERVAL_MS = 10_000
+const BACKFILL_RETRY_MS = 5 * 60_000
+
+export interface RelatedItem {
+  sourceType: EmbeddingSourceType
+  sourceId: string
+  entryId: string | null
+  timestamp: number
+  score: number
+}
+
+export interface FindRelatedOptions {
+  /** Days — anything written more recently is skipped */
+  minAge?: number
+  /** Days — anything older is skipped */
+  maxAge?: number
+  k?: number
+  sourceTypes?: EmbeddingSourceType[]
+}
+
+interface IndexSource {
+  sourceType: EmbeddingSourceType
+  sourceId: string
+  entryId: string | null
+  timestamp: number
+  text: string
+}
+
+export function isSemanticRetrievalEnabled(): boolean {
+  return getGlobalConfig()?.features?.semanticRetrieval === true
+}
+
+function entrySource(entry: DiaryEntry): IndexSource | null {
+  const text = [entry.title, entry.plainText].filter(Boolean).join('\n').trim()
+  if (text.length < MIN_ENTRY_CHARS) return null
+  return { sourceType: 'entry', sourceId: entry.id, entryId: entry.id, timestamp: entry.createdAt, text }
+}
+
+function summarySource(summary: EntrySummary): IndexSource | null {
+  const text = [summary.themes.join(', '), summary.emotionalArc, ...summary.keyMoments]
+    .filter(Boolean).join('\n').trim()
+  if (!text) return null
+  return { sourceType: 'summary', sourceId: summary.id, entryId: summary.entryId, timestamp: summary.timestamp, text }
+}
+
+function memorySource(memory: PartMemory): IndexSource | null {
+  const text = memory.content?.trim()
+  // Retired memories leave the index; the next sync drops their vectors
+  if (!text || memory.retiredAt) return null
+  return { sourceType: 'memory', sourceId: memory.id, entryId: memory.entryId || null, timestamp: memory.timestamp, text }
+}
+
+function recordId(source: Pick<IndexSource, 'sourceType' | 'sourceId'>): string {
+  return `${source.sourceType}:${source.sourceId}`
+}
+
+// FNV-1a — only detects that a source's text changed since it was embedded
+function textHash(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+interface SyncOptions {
+  /** Pause between proxy batches; the local model never waits */
+  batchIntervalMs?: number
+  /** Stops before the next batch — batches already embedded stay saved */
+  signal?: AbortSignal
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+/**
+ * Embeds sources that are new or changed since they were last embedded, one
+ * proxy batch at a time, saving each batch as it finishes.
+ */
+async function upsertSources(
+  sources: IndexSource[],
+  existing: Map<string, EmbeddingRecord>,
+  options: SyncOptions = {},
+): Promise<number> {
+  const model = getEmbeddingModel()
+  const stale = sources.filter((source) => {
+    const record = existing.get(recordId(source))
+    return !record || record.model !== model || record.textHash !== textHash(source.text)
+  })
+  const interval = model === LOCAL_EMBEDDING_MODEL ? 0 : options.batchIntervalMs ?? 0
+
+  let embedded = 0
+  for (let i = 0; i < stale.length; i += EMBEDDING_BATCH_SIZE) {
+    if (i > 0 && interval > 0) await wait(interval, options.signal)
+    if (options.signal?.aborted) break
+
+    const batch = stale.slice(i, i + EMBEDDING_BATCH_SIZE)
+    const vectors = await embedTexts(batch.map((s) => s.text))
+    const records = batch.map((source, j): EmbeddingRecord => ({
+      id: recordId(source),
+      sourceType: source.sourceType,
+      sourceId: source.sourceId,
+      entryId: source.entryId,
+      timestamp: source.timestamp,
+      model,
+      textHash: textHash(source.text),
+      vector: vectors[j],
+    }))
+    await db.embeddings.bulkPut(records)
+    updateCache((cache) => records.forEach((r) => cache.set(r.id, r)))
+    embedded += batch.length
+  }
+  return embedded
+}
+
+// Every vector, read once per app load and kept in step with writes, so a
+// pause doesn't read (and, with encryption on, decrypt) the whole index
+let vectorCache: Promise<Map<string, EmbeddingRecord>> | null = null
+
+function loadVectors(): Promise<Map<string, EmbeddingRecord>> {
+  if (!vectorCache) {
+    vectorCache = db.embeddings.toArray().then((records) => new Map(records.map((r) => [r.id, r])))
+  }
+  const loading = vectorCache
+  loading.catch(() => {
+    if (vectorCache === loading) vectorCache = null
+  })
+  return loading
+}
+
+function updateCache(change: (cache: Map<string, EmbeddingRecord>) => void): void {
+  vectorCache = vectorCache?.then((cache) => {
+    change(cache)
+    return cache
+  }) ?? null
+}
+
+// Echo, quote and thread look up the same pause text; it is embedded once
+let lastQuery: { text: string; model: string; vector: Promise<number[]> } | null = null
+
+function embedQuery(text: string, model: string): Promise<number[]> {
+  if (lastQuery?.text !== text || lastQuery.model !== model) {
+    const query = { text, model, vector: embedTexts([text]).then(([vector]) => vector) }
+    query.vector.catch(() => {
+      if (lastQuery === query) lastQuery = null
+    })
+    lastQuery = query
+  }
+  return lastQuery.vector
+}
+
+/** Forgets the cached vectors, e.g. after the index was written outside this module. */
+export function invalidateIndexCache(): void {
+  vectorCache = null
+  lastQuery = null
+}
+
+/** Drops a source's vector, e.g. when a memory is deleted. */
+export async function removeFromIndex(sourceType: EmbeddingSourceType, sourceId: string): Promise<void> {
+  const id = recordId({ sourceType, sourceId })
+  await db.embeddings.delete(id)
+  updateCache((cache) => cache.delete(id))
+}
+
+async function loadExisting(): Promise<Map<string, EmbeddingRecord>> {
+  return new Map(await loadVectors())
+}
+
+/** Indexes one entry with its summaries and memories — called after reflection. */
+export async function indexEntry(entryId: string): Promise<void> {
+  if (!isSemanticRetrievalEnabled()) return
+  const [entry, summaries, memories] = await Promise.all([
+    db.entries.get(entryId),
+    db.entrySummaries.where('entryId').equals(entryId).toArray(),
+    db.memories.where('entryId').equals(entryId).toArray(),
+  ])
+  const sources = [
+    entry ? entrySource(entry) : null,
+    ...summaries.map(summarySource),
+    ...memories.map(memorySource),
+  ].filter((s): s is IndexSource => s !== null)
+  await upsertSources(sources, await loadExisting())
+}
+
+/**
+ * Brings the whole index in line with the journal: embeds anything missing or
+ * changed and drops vectors whose source was deleted. Returns how many
+ * sources were embedded.
+ */
+export async function syncIndex(options: SyncOptions = {}): Promise<number> {
+  const [entries, summaries, memories, existing] = await Promise.all([
+    db.entries.toArray(),
+    db.entrySummaries.toArray(),
+    db.memories.toArray(),
+    loadExisting(),
+  ])
+  const sources = [
+    ...entries.map(entrySource),
+    ...summaries.map(summarySource),
+    ...memories.map(memorySource),
+  ].filter((s): s is IndexSource => s !== null)
+
+  const live = new Set(sources.map(recordId))
+  for (const id of existing.keys()) {
+    if (!live.has(id)) {
+      await db.embeddings.delete(id)
+      updateCache((cache) => cache.delete(id))
+    }
+  }
+  return upsertSources(sources, existing, options)
+}
+
+// Background backfill, once per app load; lookups never wait for it
+let backfillTimer: ReturnType<typeof setTimeout> | null = null
+let backfill: AbortController | null = null
+
+/**
+ * Catches the index up with the journal in the background, throttled. A
+ * failed run (e.g. rate limited) keeps its saved batches and is retried later.
+ */
+export function startIndexBackfill(delayMs = BACKFILL_START_DELAY_MS): void {
+  if (backfillTimer || backfill) return
+  backfillTimer = setTimeout(() => {
+    backfillTimer = null
+    if (!isSemanticRetrievalEnabled()) return
+    const controller = new AbortController()
+    backfill = controller
+    syncIndex({ batchIntervalMs: BACKFILL_BATCH_INTERVAL_MS, signal: controller.signal }).then(
+      () => {
+        if (backfill === controller) backfill = null
+      },
+      (error) => {
+        console.error('Semantic index sync error:', error)
+        if (backfill !== controller) return
+        backfill = null
+        startIndexBackfill(BACKFILL_RETRY_MS)
+      },
+    )
+  }, delayMs)
+}
+
+/** Stops the backfill and forgets cached vectors, e.g. before another user's journal is loaded. */
+export function stopIndexBackfill(): void {
+  if (backfillTimer) clearTimeout(backfillTimer)
+  backfillTimer = null
+  backfill?.abort()
+  backfill = null
+  invalidateIndexCache()
+}
+
+/** Past material closest in meaning to `text`, best first. */
+export async function findRelated(text: string, options: FindRelatedOptions = {}): Promise<RelatedItem[]> {
+  if (!text.trim()) return []
+
+  const now = Date.now()
+  const newest = now - (options.minAge ?? 0) * DAY_MS
+  const oldest = options.maxAge !== undefined ? now - options.maxAge * DAY_MS : 0
+  const model = getEmbeddingModel()
+  const minSimilarity = getGlobalConfig()?.embeddings?.minSimilarity ?? DEFAULT_MIN_SIMILARITY
+
+  const candidates = [...(await loadVectors()).values()].filter((r) => r.model === model
+    && r.timestamp >= oldest && r.timestamp <= newest
+    && (!options.sourceTypes || options.sourceTypes.includes(r.sourceType)))
+  if (candidates.length === 0) return []
+
+  const query = await embedQuery(text, model)
+  return candidates
+    .map((r) => ({
+      sourceType: r.sourceType,
+      sourceId: r.sourceId,
+      entryId: r.entryId,
+      timestamp: r.timestamp,
+      score: cosineSimilarity(query, r.vector),
+    }))
+    .filter((item) => item.score >= minSimilarity)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.k ?? 5)
+}
+
+/** Entry ids from findRelated results, best first, each once. */
+export function relatedEntryIds(items: RelatedItem[]): string[] {
+  return [...new Set(items.map((i) => i.entryId).filter((id): id is string => !!id))]
+}
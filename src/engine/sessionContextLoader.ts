@@ -1,5 +1,6 @@
 import type { PartMemory, UserProfile } from '../types'
 import { db } from '../store/db'
+import { loadActiveMemories } from './memoryConsolidation'
 
 export interface TherapistContext {
   recentSessionNotes: { note: string; date: number }[]
@@ -19,9 +20,7 @@ export async function loadTherapistContext(): Promise<TherapistContext> {
   const [sessions, memories, profiles] = await Promise.all([
     db.sessions.orderBy('startedAt').reverse().toArray(),
     Promise.all(
-      MEMORY_SOURCE_PARTS.map(partId =>
-        db.memories.where('partId').equals(partId).toArray(),
-      ),
+      MEMORY_SOURCE_PARTS.map(partId => loadActiveMemories(partId)),
     ),
     db.userProfile.toArray(),
   ])
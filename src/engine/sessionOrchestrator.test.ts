@@ -4,12 +4,17 @@ import type { SessionMessage } from '../types'
 vi.mock('../ai/openrouter', () => ({
   chatCompletion: vi.fn().mockResolvedValue('Session note here.'),
   analyzeEmotionAndDistress: vi.fn().mockResolvedValue({ emotion: 'neutral', distressLevel: 0 }),
+  detectWrapUpSignal: vi.fn().mockResolvedValue(false),
 }))
 vi.mock('../ai/therapistPrompts', () => ({
   buildTherapistSessionNotePrompt: vi.fn().mockReturnValue([
     { role: 'system', content: 'test' },
     { role: 'user', content: 'test' },
   ]),
+  buildRunningSummaryPrompt: vi.fn().mockReturnValue([
+    { role: 'system', content: 'test' },
+    { role: 'user', content: 'test' },
+  ]),
 }))
 vi.mock('../store/groundingState', () => ({
   activateGrounding: vi.fn(),
@@ -19,9 +24,9 @@ vi.mock('../store/globalConfig', () => ({
   getGlobalConfig: vi.fn(() => null),
 }))
 
-import { SessionOrchestrator, detectCrisisKeywords } from './sessionOrchestrator'
-import { chatCompletion, analyzeEmotionAndDistress } from '../ai/openrouter'
-import { buildTherapistSessionNotePrompt } from '../ai/therapistPrompts'
+import { SessionOrchestrator, detectCrisisKeywords, getPhasePolicy } from './sessionOrchestrator'
+import { chatCompletion, analyzeEmotionAndDistress, detectWrapUpSignal } from '../ai/openrouter'
+import { buildTherapistSessionNotePrompt, buildRunningSummaryPrompt } from '../ai/therapistPrompts'
 import { activateGrounding } from '../store/groundingState'
 import { getGlobalConfig } from '../store/globalConfig'
 
@@ -89,6 +94,89 @@ describe('SessionOrchestrator', () => {
     })
   })
 
+  describe('decidePhase', () => {
+    const policy = (sessionPhases: Record<string, unknown>) =>
+      mockGetGlobalConfig.mockReturnValue({ sessionPhases } as unknown as ReturnType<typeof getGlobalConfig>)
+
+    it('records the message-count reason only when the phase changes', () => {
+      expect(orch.decidePhase(makeUserMessages(3))).toEqual({ phase: 'deepening', reason: 'message_count' })
+      const alreadyDeepening = makeUserMessages(4).map(m => ({ ...m, phase: 'deepening' as const }))
+      expect(orch.decidePhase(alreadyDeepening)).toEqual({ phase: 'deepening', reason: null })
+    })
+
+    it('uses thresholds and token budgets from the config', () => {
+      policy({ deepeningAfter: 1, closingAfter: 4, maxTokens: { deepening: 400 } })
+      expect(orch.detectPhase(makeUserMessages(1))).toBe('deepening')
+      expect(orch.detectPhase(makeUserMessages(4))).toBe('closing')
+      expect(orch.getMaxTokens('deepening')).toBe(400)
+      expect(orch.getMaxTokens('opening')).toBe(150)
+    })
+
+    it('keeps the phase schedule sane when the config thresholds are not', () => {
+      policy({ deepeningAfter: 0, closingAfter: -5, maxDistressExtension: -1, maxTokens: { opening: 0, closing: 'lots' } })
+      expect(getPhasePolicy()).toMatchObject({
+        deepeningAfter: 1,
+        closingAfter: 2,
+        maxDistressExtension: 0,
+        maxTokens: { opening: 1, deepening: 250, closing: 300 },
+      })
+      expect(orch.detectPhase([])).toBe('opening')
+      expect(orch.detectPhase(makeUserMessages(1))).toBe('deepening')
+      expect(orch.detectPhase(makeUserMessages(2))).toBe('closing')
+    })
+
+    it('never steps back from closing', () => {
+      const closing = makeUserMessages(2).map(m => ({ ...m, phase: 'closing' as const }))
+      expect(orch.decidePhase(closing)).toEqual({ phase: 'closing', reason: null })
+    })
+
+    it('holds deepening while distress is elevated, up to the extension limit', async () => {
+      policy({ holdDeepeningOnDistress: true, maxDistressExtension: 2 })
+      mockAnalyze.mockResolvedValue({ emotion: 'anxious', distressLevel: 2 })
+      await orch.checkEmotionAfterMessage('everything is too much')
+
+      const deepening = (count: number) => makeUserMessages(count).map(m => ({ ...m, phase: 'deepening' as const }))
+      expect(orch.decidePhase(deepening(12))).toEqual({ phase: 'deepening', reason: 'distress_hold' })
+      expect(orch.decidePhase(deepening(14))).toEqual({ phase: 'closing', reason: 'message_count' })
+    })
+
+    it('does not hold when the policy is off', async () => {
+      mockAnalyze.mockResolvedValue({ emotion: 'anxious', distressLevel: 2 })
+      await orch.checkEmotionAfterMessage('everything is too much')
+      expect(orch.detectPhase(makeUserMessages(12))).toBe('closing')
+    })
+
+    it('moves to closing on a wrap-up signal when enabled', async () => {
+      policy({ detectWrapUp: true })
+      vi.mocked(detectWrapUpSignal).mockResolvedValueOnce(true)
+
+      expect(await orch.checkWrapUp('I think that is a good place to stop')).toBe(true)
+      expect(orch.decidePhase(makeUserMessages(4))).toEqual({ phase: 'closing', reason: 'wrap_up' })
+    })
+
+    it('ignores a wrap-up signal that lands after the session was continued', async () => {
+      policy({ detectWrapUp: true })
+      let answer!: (signal: boolean) => void
+      vi.mocked(detectWrapUpSignal).mockReturnValueOnce(new Promise(resolve => { answer = resolve }))
+
+      const check = orch.checkWrapUp('I should go')
+      orch.resumeFrom(4)
+      answer(true)
+      expect(await check).toBe(false)
+      expect(orch.decidePhase(makeUserMessages(5))).toEqual({ phase: 'opening', reason: null })
+    })
+
+    it('skips the wrap-up call when the policy is off', async () => {
+      expect(await orch.checkWrapUp('I need to go')).toBe(false)
+      expect(detectWrapUpSignal).not.toHaveBeenCalled()
+    })
+
+    it('closes with the session_end reason when the user ends the session', () => {
+      orch.markSessionEnding()
+      expect(orch.decidePhase(makeUserMessages(1))).toEqual({ phase: 'closing', reason: 'session_end' })
+    })
+  })
+
   describe('getMaxTokens', () => {
     it('returns 150 for opening', () => {
       expect(orch.getMaxTokens('opening')).toBe(150)
@@ -303,8 +391,64 @@ describe('SessionOrchestrator', () => {
         expect.any(Array),
         15000,
         300,
+        'session-note',
       )
       expect(note).toBe('Session note here.')
     })
+
+    it('sends only the turns after the running summary, with the summary', async () => {
+      const messages = makeUserMessages(5)
+
+      await orch.generateSessionNote(messages, { runningSummary: 'Earlier talk.', summarizedThrough: 3 })
+
+      expect(buildTherapistSessionNotePrompt).toHaveBeenCalledWith(messages.slice(3), 'Earlier talk.')
+    })
+  })
+
+  describe('updateRunningSummary', () => {
+    const longMessages = (count: number) =>
+      Array.from({ length: count }, (_, i) => makeMessage({ id: `m${i}`, content: 'x'.repeat(800) }))
+
+    it('does nothing while the conversation fits in the window', async () => {
+      const result = await orch.updateRunningSummary(makeUserMessages(6), {})
+      expect(result).toBeNull()
+      expect(chatCompletion).not.toHaveBeenCalledWith(expect.any(Array), 15000, 350, 'session-summary')
+    })
+
+    it('folds turns that left the window into the summary', async () => {
+      vi.mocked(chatCompletion).mockResolvedValueOnce('  The writer talked about work.  ')
+      const messages = longMessages(30)
+
+      const result = await orch.updateRunningSummary(messages, { runningSummary: 'Before.', summarizedThrough: 0 })
+
+      // 3000-token budget at 200 tokens per message keeps the last 15
+      expect(result).toEqual({ runningSummary: 'The writer talked about work.', summarizedThrough: 15 })
+      expect(buildRunningSummaryPrompt).toHaveBeenCalledWith('Before.', messages.slice(0, 15))
+    })
+
+    it('waits until enough new turns have left the window', async () => {
+      const result = await orch.updateRunningSummary(longMessages(30), { summarizedThrough: 10 })
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('resumeFrom', () => {
+    it('restarts phases from the point the session was continued', () => {
+      const earlier = [
+        ...makeUserMessages(12).map(m => ({ ...m, phase: 'closing' as const })),
+        makeMessage({ speaker: 'therapist', phase: 'closing' }),
+      ]
+      expect(orch.decidePhase(earlier).phase).toBe('closing')
+
+      orch.resumeFrom(earlier.length)
+      expect(orch.decidePhase(earlier).phase).toBe('opening')
+      expect(orch.decidePhase([...earlier, ...makeUserMessages(3)]).phase).toBe('deepening')
+    })
+
+    it('clears an earlier session end', () => {
+      orch.markSessionEnding()
+      orch.resumeFrom(4)
+      expect(orch.decidePhase(makeUserMessages(4)).phase).toBe('opening')
+    })
   })
 })
@@ -1,85 +1,154 @@
-import type { SessionMessage, SessionPhase } from '../types'
-import { buildTherapistSessionNotePrompt } from '../ai/therapistPrompts'
-import { chatCompletion, analyzeEmotionAndDistress } from '../ai/openrouter'
+import type { Session, SessionMessage, SessionPhase, PhaseTransitionReason } from '../types'
+import { buildTherapistSessionNotePrompt, buildRunningSummaryPrompt } from '../ai/therapistPrompts'
+import { planSummaryUpdate } from '../ai/conversationWindow'
+import { chatCompletion, analyzeEmotionAndDistress, detectWrapUpSignal } from '../ai/openrouter'
 import { activateGrounding } from '../store/groundingState'
 import { getGlobalConfig } from '../store/globalConfig'
+import { detectCrisisKeywords } from './crisisLexicon'
 
 const EMOTION_COOLDOWN_MS = 30_000
 
-// Fast keyword-based crisis detection — no LLM, no cooldown, no feature flag.
-// This is a safety net that runs synchronously before the therapist responds.
-const CRISIS_PATTERNS = [
-  /\bwant\s+to\s+die\b/i,
-  /\bwant\s+to\s+kill\s+(myself|me)\b/i,
-  /\bkill\s+myself\b/i,
-  /\bend\s+(my|this)\s+life\b/i,
-  /\bend\s+it\s+all\b/i,
-  /\bsuicid/i,
-  /\bdon'?t\s+want\s+to\s+(be\s+here|live|exist|be\s+alive)\b/i,
-  /\bwish\s+I\s+(was|were)\s+dead\b/i,
-  /\bbetter\s+off\s+dead\b/i,
-  /\bno\s+reason\s+to\s+(live|go\s+on|keep\s+going)\b/i,
-  /\bshould\s+I?\s*(just\s+)?die\b/i,
-  /\bI\s+should\s+die\b/i,
-  /\brest\s+forever\b/i,
-  /\bwith\s+jesus\b/i,
-  /\bjump\s+off\b/i,
-  /\bcut\s+(myself|my\s+wrists?)\b/i,
-  /\btake\s+(all\s+)?(the\s+)?pills\b/i,
-  /\bswallow\s+(all\s+)?(the\s+)?pills\b/i,
-  /\bhang\s+myself\b/i,
-  /\bshoot\s+myself\b/i,
-  // Abbreviations and slang
-  /\bkms\b/i,
-  /\bkys\b/i,
-  /\bctb\b/i,
-  // Additional patterns
-  /\bslit\s+(my\s+)?wrists?\b/i,
-  /\boverdose\b/i,
-  /\bwanna\s+die\b/i,
-  /\bready\s+to\s+die\b/i,
-  /\bplanning\s+to\s+(end|kill|die)\b/i,
-  /\bno\s+point\s+in\s+living\b/i,
-  /\blife\s+isn'?t\s+worth\b/i,
-  /\bcan'?t\s+do\s+this\s+anymore\b/i,
-  /\bdon'?t\s+want\s+to\s+wake\s+up\b/i,
-  /\bhurt\s+myself\b/i,
-  /\bself[- ]?harm\b/i,
-  /\bdrown\s+myself\b/i,
-]
-
-/**
- * Normalizes text for crisis detection: NFKC normalization to defeat
- * Unicode tricks (Cyrillic lookalikes, fullwidth chars), and strips
- * zero-width/non-breaking whitespace.
- */
-function normalizeForCrisisDetection(text: string): string {
-  return text
-    .normalize('NFKC')
-    .replace(/[\u00A0\u200B\u200C\u200D\uFEFF\u2060]/g, ' ')
+// Re-exported for callers that predate the per-language lexicon
+export { detectCrisisKeywords }
+
+export interface SessionPhasePolicy {
+  /** User messages before opening gives way to deepening */
+  deepeningAfter: number
+  /** User messages before deepening gives way to closing */
+  closingAfter: number
+  maxTokens: Record<SessionPhase, number>
+  /** Stay in deepening past closingAfter while distress is rising */
+  holdDeepeningOnDistress: boolean
+  /** How many extra user messages a distress hold may add */
+  maxDistressExtension: number
+  /** Ask the model whether each user message is a wrap-up signal */
+  detectWrapUp: boolean
+}
+
+export const DEFAULT_PHASE_POLICY: SessionPhasePolicy = {
+  deepeningAfter: 3,
+  closingAfter: 12,
+  maxTokens: { opening: 150, deepening: 250, closing: 300 },
+  holdDeepeningOnDistress: false,
+  maxDistressExtension: 6,
+  detectWrapUp: false,
+}
+
+// Admin-entered counts: anything that isn't a number falls back to the default,
+// anything below `min` is raised to it
+function count(value: unknown, fallback: number, min: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.floor(value)) : fallback
+}
+
+export function getPhasePolicy(): SessionPhasePolicy {
+  const config = getGlobalConfig()?.sessionPhases
+  const defaults = DEFAULT_PHASE_POLICY
+  const deepeningAfter = count(config?.deepeningAfter, defaults.deepeningAfter, 1)
+  return {
+    ...defaults,
+    ...config,
+    deepeningAfter,
+    // Deepening always gets at least one user message before closing
+    closingAfter: count(config?.closingAfter, defaults.closingAfter, deepeningAfter + 1),
+    maxDistressExtension: count(config?.maxDistressExtension, defaults.maxDistressExtension, 0),
+    maxTokens: {
+      opening: count(config?.maxTokens?.opening, defaults.maxTokens.opening, 1),
+      deepening: count(config?.maxTokens?.deepening, defaults.maxTokens.deepening, 1),
+      closing: count(config?.maxTokens?.closing, defaults.maxTokens.closing, 1),
+    },
+  }
 }
 
-export function detectCrisisKeywords(text: string): boolean {
-  const normalized = normalizeForCrisisDetection(text)
-  return CRISIS_PATTERNS.some(p => p.test(normalized))
+export interface PhaseDecision {
+  phase: SessionPhase
+  /** Set when the phase changed from the previous message, or was held back */
+  reason: PhaseTransitionReason | null
 }
 
+const PHASE_ORDER: SessionPhase[] = ['opening', 'deepening', 'closing']
+
 export class SessionOrchestrator {
   private lastEmotionCheck = 0
+  private distressLevels: number[] = []
+  private closeReason: PhaseTransitionReason | null = null
+  private phaseStart = 0
 
-  detectPhase(messages: SessionMessage[]): SessionPhase {
+  decidePhase(allMessages: SessionMessage[]): PhaseDecision {
+    const policy = getPhasePolicy()
+    // A continued session runs its phases again from the point it was reopened
+    const messages = allMessages.slice(this.phaseStart)
     const userMessageCount = messages.filter(m => m.speaker === 'user').length
-    if (userMessageCount < 3) return 'opening'
-    if (userMessageCount >= 12) return 'closing'
-    return 'deepening'
+    const previous = messages.length > 0 ? messages[messages.length - 1].phase : 'opening'
+    const changed = (phase: SessionPhase, reason: PhaseTransitionReason): PhaseDecision =>
+      ({ phase, reason: phase === previous ? null : reason })
+
+    // Wrap-up and ending are one-way — once closing, stay closing
+    if (this.closeReason) return changed('closing', this.closeReason)
+    if (previous === 'closing') return { phase: 'closing', reason: null }
+
+    let phase: SessionPhase = 'deepening'
+    if (userMessageCount < policy.deepeningAfter) phase = 'opening'
+    else if (userMessageCount >= policy.closingAfter) phase = 'closing'
+
+    if (
+      phase === 'closing'
+      && policy.holdDeepeningOnDistress
+      && userMessageCount < policy.closingAfter + policy.maxDistressExtension
+      && this.isDistressRising()
+    ) {
+      return { phase: 'deepening', reason: 'distress_hold' }
+    }
+
+    // Never step back (e.g. after an admin raises a threshold mid-session)
+    if (PHASE_ORDER.indexOf(phase) < PHASE_ORDER.indexOf(previous)) phase = previous
+    return changed(phase, 'message_count')
+  }
+
+  detectPhase(messages: SessionMessage[]): SessionPhase {
+    return this.decidePhase(messages).phase
   }
 
   getMaxTokens(phase: SessionPhase): number {
-    switch (phase) {
-      case 'opening': return 150
-      case 'deepening': return 250
-      case 'closing': return 300
+    return getPhasePolicy().maxTokens[phase]
+  }
+
+  /** Phases restart at `messageCount` — used when a closed session is continued. */
+  resumeFrom(messageCount: number): void {
+    this.phaseStart = messageCount
+    this.closeReason = null
+  }
+
+  /** The user ended the session — the closing message is generated in the closing phase. */
+  markSessionEnding(): void {
+    this.closeReason = 'session_end'
+  }
+
+  // Latest reading is elevated, or higher than the one before it
+  private isDistressRising(): boolean {
+    const levels = this.distressLevels
+    if (levels.length === 0) return false
+    const latest = levels[levels.length - 1]
+    if (latest >= 2) return true
+    return levels.length >= 2 && latest > levels[levels.length - 2]
+  }
+
+  /**
+   * Opt-in model check; moves the session to closing when the user signals
+   * wrap-up. Runs alongside the reply, so a signal takes effect on the next turn.
+   */
+  async checkWrapUp(text: string): Promise<boolean> {
+    if (this.closeReason || !getPhasePolicy().detectWrapUp) return false
+    const phaseStart = this.phaseStart
+    try {
+      // A session continued while the check was out starts its phases afresh
+      if (await detectWrapUpSignal(text) && this.phaseStart === phaseStart) {
+        this.closeReason = 'wrap_up'
+        return true
+      }
+    } catch {
+      // Phase detection is non-critical; the message-count policy still applies
     }
+    return false
   }
 
   // Fast synchronous check — always runs, no cooldown, no feature flag
@@ -97,6 +166,7 @@ export class SessionOrchestrator {
     this.lastEmotionCheck = now
 
     const result = await analyzeEmotionAndDistress(text)
+    this.distressLevels.push(result.distressLevel)
 
     const config = getGlobalConfig()
     if (config?.features?.emergencyGrounding === true) {
@@ -109,8 +179,30 @@ export class SessionOrchestrator {
     return result
   }
 
-  async generateSessionNote(messages: SessionMessage[]): Promise<string> {
-    const promptMessages = buildTherapistSessionNotePrompt(messages)
-    return chatCompletion(promptMessages, 15000, 300)
+  /** Covers the whole conversation: the running summary plus the turns after it. */
+  async generateSessionNote(
+    messages: SessionMessage[],
+    summary?: Pick<Session, 'runningSummary' | 'summarizedThrough'>,
+  ): Promise<string> {
+    const promptMessages = summary?.runningSummary
+      ? buildTherapistSessionNotePrompt(messages.slice(summary.summarizedThrough ?? 0), summary.runningSummary)
+      : buildTherapistSessionNotePrompt(messages)
+    return chatCompletion(promptMessages, 15000, 300, 'session-note')
+  }
+
+  /**
+   * Folds turns that have fallen out of the prompt window into the running
+   * summary. Returns the fields to persist, or null when no update is due.
+   */
+  async updateRunningSummary(
+    messages: SessionMessage[],
+    session: Pick<Session, 'runningSummary' | 'summarizedThrough'>,
+  ): Promise<{ runningSummary: string; summarizedThrough: number } | null> {
+    const plan = planSummaryUpdate(messages, session.summarizedThrough ?? 0)
+    if (!plan) return null
+    const promptMessages = buildRunningSummaryPrompt(session.runningSummary, messages.slice(plan.from, plan.to))
+    const runningSummary = (await chatCompletion(promptMessages, 15000, 350, 'session-summary')).trim()
+    if (!runningSummary) return null
+    return { runningSummary, summarizedThrough: plan.to }
   }
 }
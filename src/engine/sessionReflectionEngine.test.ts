@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import type { Part, SessionMessage } from '../types'
 
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('../store/globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
 vi.mock('../ai/openrouter', () => ({
   chatCompletion: vi.fn(),
 }))
@@ -16,7 +20,7 @@ vi.mock('../store/db', () => ({
     entrySummaries: {
       add: vi.fn(),
       count: vi.fn(async () => 1),
-      orderBy: vi.fn(() => ({ reverse: vi.fn(() => ({ toArray: vi.fn(async () => []) })) })),
+      orderBy: vi.fn(() => ({ reverse: vi.fn(() => ({ limit: vi.fn(() => ({ toArray: vi.fn(async () => []) })) })) })),
     },
     memories: { add: vi.fn(), where: vi.fn(() => ({ equals: vi.fn(() => ({ toArray: vi.fn(async () => []) })) })), delete: vi.fn() },
     entries: { count: vi.fn(async () => 5) },
@@ -129,4 +133,32 @@ describe('reflectOnSession', () => {
     expect(db.entrySummaries.add).not.toHaveBeenCalled()
     expect(db.memories.add).not.toHaveBeenCalled()
   })
+
+  it('prunes old somatic memories but keeps body map check-ins', async () => {
+    const messages: SessionMessage[] = [
+      makeMessage({ id: '1', speaker: 'therapist', content: 'What brings you here today? I want to understand what is on your mind.' }),
+      makeMessage({ id: '2', speaker: 'user', content: 'My chest has been tight all week and I keep clenching my jaw before every meeting.' }),
+    ]
+    const now = Date.now()
+    const somatic = [
+      ...Array.from({ length: 32 }, (_, i) => ({ id: `session-${i}`, partId: '_somatic', source: 'session', timestamp: now - i * 1000 })),
+      ...Array.from({ length: 5 }, (_, i) => ({ id: `manual-${i}`, partId: '_somatic', source: 'manual', timestamp: now - 100_000 - i })),
+    ]
+    const defaultWhere = vi.mocked(db.memories.where).getMockImplementation()!
+    vi.mocked(db.memories.where).mockImplementation((() => ({
+      equals: (value: string) => ({ toArray: async () => (value === '_somatic' ? somatic : []) }),
+    })) as never)
+    mockChatCompletion.mockResolvedValue(JSON.stringify({
+      entrySummary: { themes: ['tension'], emotionalArc: 'tight', keyMoments: [] },
+    }))
+
+    try {
+      await reflectOnSession('session-1', messages, [makePart()])
+    } finally {
+      vi.mocked(db.memories.where).mockImplementation(defaultWhere)
+    }
+
+    const deleted = vi.mocked(db.memories.delete).mock.calls.map(([id]) => id)
+    expect(deleted).toEqual(['session-30', 'session-31'])
+  })
 })
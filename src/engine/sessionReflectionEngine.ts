@@ -4,14 +4,9 @@ import { chatCompletion } from '../ai/openrouter'
 import { wrapUserContent } from '../ai/promptSafety'
 import { db, generateId } from '../store/db'
 import { LetterEngine } from './letterEngine'
+import { consolidateMemories } from './memoryConsolidation'
 
-const MEMORY_CAPS: Record<string, number> = {
-  observation: 20,
-  interaction: 15,
-  reflection: 20,
-  pattern: 10,
-  somatic: 30,
-}
+const SOMATIC_MEMORY_CAP = 30
 
 export async function reflectOnSession(
   sessionId: string,
@@ -31,11 +26,10 @@ export async function reflectOnSession(
     if (transcriptText.length < 100) return
 
     // 3. Load profile + recent summaries
-    const [profile, allSummaries] = await Promise.all([
+    const [profile, recentSummaries] = await Promise.all([
       db.userProfile.get('current'),
-      db.entrySummaries.orderBy('timestamp').reverse().toArray(),
+      db.entrySummaries.orderBy('timestamp').reverse().limit(5).toArray(),
     ])
-    const recentSummaries = allSummaries.slice(0, 5)
 
     // 4. Call AI
     const partsForPrompt = parts.map(p => ({
@@ -49,7 +43,7 @@ export async function reflectOnSession(
       recentSummaries,
       partsForPrompt,
     )
-    const response = await chatCompletion(promptMessages, 15000, 1000)
+    const response = await chatCompletion(promptMessages, 15000, 1000, 'session-reflection')
 
     // 5. Parse response
     const parsed = parseReflectionResponse(response)
@@ -164,8 +158,9 @@ export async function reflectOnSession(
       }
     }
 
-    // 6f. Prune old memories
-    await pruneMemories(parts)
+    // 6f. Consolidate and retire part memories, prune somatic ones
+    await consolidateMemories(parts)
+    await pruneSomaticMemories()
 
     // 6g. Check for part growth (every 5 reflections)
     const totalSummaryCount = await db.entrySummaries.count()
@@ -217,31 +212,13 @@ function mergeArrays(existing: string[], incoming: unknown, cap: number): string
   return merged.slice(-cap)
 }
 
-async function pruneMemories(parts: Part[]): Promise<void> {
-  // Prune real part memories
-  for (const part of parts) {
-    const allMemories = await db.memories.where('partId').equals(part.id).toArray()
-
-    for (const [type, cap] of Object.entries(MEMORY_CAPS)) {
-      const typed = allMemories
-        .filter(m => (m.type ?? 'interaction') === type)
-        .sort((a, b) => b.timestamp - a.timestamp)
-
-      if (typed.length > cap) {
-        const toDelete = typed.slice(cap)
-        for (const mem of toDelete) {
-          await db.memories.delete(mem.id)
-        }
-      }
-    }
-  }
-
-  // Prune somatic memories (virtual _somatic partId)
+async function pruneSomaticMemories(): Promise<void> {
+  // Somatic memories live under the virtual _somatic partId. Body map
+  // check-ins are the writer's own record and are never pruned.
   const somaticMemories = await db.memories.where('partId').equals('_somatic').toArray()
-  const somaticCap = MEMORY_CAPS.somatic ?? 30
-  const sorted = somaticMemories.sort((a, b) => b.timestamp - a.timestamp)
-  if (sorted.length > somaticCap) {
-    for (const mem of sorted.slice(somaticCap)) {
+  const sorted = somaticMemories.filter((m) => m.source !== 'manual').sort((a, b) => b.timestamp - a.timestamp)
+  if (sorted.length > SOMATIC_MEMORY_CAP) {
+    for (const mem of sorted.slice(SOMATIC_MEMORY_CAP)) {
       await db.memories.delete(mem.id)
     }
   }
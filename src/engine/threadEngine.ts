@@ -1,5 +1,6 @@
 import { getGlobalConfig } from '../store/globalConfig'
 import { db } from '../store/db'
+import { isSemanticRetrievalEnabled, findRelated } from './semanticIndex'
 import type { EntrySummary } from '../types'
 
 const UNFINISHED_SIGNALS = [
@@ -31,21 +32,29 @@ export class ThreadEngine {
     if (Math.random() > threadChance) return null
 
     try {
-      const allSummaries = await db.entrySummaries.orderBy('timestamp').reverse().toArray()
-
-      const now = Date.now()
       const maxAgeMs = threadMaxAge * 24 * 60 * 60 * 1000
 
-      const recent = allSummaries.filter((s) => now - s.timestamp < maxAgeMs)
+      const recent = await db.entrySummaries
+        .where('timestamp').above(Date.now() - maxAgeMs)
+        .reverse()
+        .toArray()
 
       if (recent.length < 2) return null
 
+      // Semantic closeness to what is being written, by summary id
+      const relevance = isSemanticRetrievalEnabled()
+        ? await this.scoreRelevance(currentText, threadMaxAge)
+        : null
+      const candidates = relevance
+        ? [...recent].sort((a, b) => (relevance.get(b.id) ?? 0) - (relevance.get(a.id) ?? 0))
+        : recent
+
       // Strategy 1: Look for entries with unfinished signals in keyMoments or emotionalArc
-      const unfinished = this.findUnfinishedSignals(recent)
+      const unfinished = this.findUnfinishedSignals(candidates)
       if (unfinished) return unfinished
 
       // Strategy 2: Look for themes that appear only once (not continued)
-      const orphanThread = this.findOrphanThemes(recent, currentText)
+      const orphanThread = this.findOrphanThemes(recent, currentText, relevance)
       if (orphanThread) return orphanThread
 
       return null
@@ -55,6 +64,16 @@ export class ThreadEngine {
     }
   }
 
+  private async scoreRelevance(currentText: string, maxAgeDays: number): Promise<Map<string, number> | null> {
+    try {
+      const related = await findRelated(currentText, { maxAge: maxAgeDays, k: 20, sourceTypes: ['summary'] })
+      return new Map(related.map((r) => [r.sourceId, r.score]))
+    } catch (error) {
+      console.error('ThreadEngine semantic lookup error:', error)
+      return null
+    }
+  }
+
   private findUnfinishedSignals(
     summaries: EntrySummary[],
   ): { theme: string, entryId: string, summary: string } | null {
@@ -92,6 +111,7 @@ export class ThreadEngine {
   private findOrphanThemes(
     summaries: EntrySummary[],
     currentText: string,
+    semanticRelevance: Map<string, number> | null = null,
   ): { theme: string, entryId: string, summary: string } | null {
     // Count theme occurrences across all summaries
     const themeCounts = new Map<string, { count: number, summary: EntrySummary }>()
@@ -127,7 +147,9 @@ export class ThreadEngine {
     // Sort by relevance to current text, then by recency
     const scored = orphans.map((o) => {
       const themeWords = o.theme.split(/\s+/).filter((w) => w.length > 3)
-      const relevance = themeWords.filter((w) => currentWords.has(w)).length
+      const wordRelevance = themeWords.filter((w) => currentWords.has(w)).length
+      // Semantic score ranks first; shared words only break ties
+      const relevance = (semanticRelevance?.get(o.summary.id) ?? 0) * 100 + wordRelevance
       return { ...o, relevance }
     })
 
@@ -0,0 +1,79 @@
+import { Extension } from '@tiptap/core'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+
+interface ShiftMark {
+  pos: number
+  direction: 'settled' | 'stirred'
+  label: string
+}
+
+export const biometricShiftsKey = new PluginKey('biometricShifts')
+
+/** Marks in the margin where the writer's body settled or stirred while writing */
+export const BiometricShifts = Extension.create({
+  name: 'biometricShifts',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: biometricShiftsKey,
+        state: {
+          init() {
+            return [] as ShiftMark[]
+          },
+          apply(tr, marks: ShiftMark[]) {
+            const meta = tr.getMeta(biometricShiftsKey)
+
+            let mapped = marks
+              .map((m) => ({ ...m, pos: tr.mapping.map(m.pos) }))
+              .filter((m) => m.pos >= 0 && m.pos <= tr.doc.content.size)
+
+            if (meta?.action === 'add') {
+              mapped = [...mapped, { pos: meta.pos, direction: meta.direction, label: meta.label }]
+            }
+
+            return mapped
+          },
+        },
+        props: {
+          decorations(state) {
+            const marks: ShiftMark[] = biometricShiftsKey.getState(state)
+            if (!marks || marks.length === 0) return DecorationSet.empty
+
+            const decos: Decoration[] = []
+            // One mark per paragraph — the latest shift says where the body ended up
+            const byBlock = new Map<number, ShiftMark>()
+
+            for (const mark of marks) {
+              try {
+                const resolved = state.doc.resolve(mark.pos)
+                byBlock.set(resolved.start(resolved.depth), mark)
+              } catch {
+                // Position became invalid, skip
+              }
+            }
+
+            for (const [blockStart, mark] of byBlock) {
+              decos.push(
+                Decoration.widget(
+                  blockStart,
+                  () => {
+                    const el = document.createElement('span')
+                    el.className = `biometric-shift-mark ${mark.direction}`
+                    el.title = mark.label
+                    el.setAttribute('aria-label', mark.label)
+                    return el
+                  },
+                  { side: -1, key: `shift-${blockStart}-${mark.direction}` },
+                ),
+              )
+            }
+
+            return DecorationSet.create(state.doc, decos)
+          },
+        },
+      }),
+    ]
+  },
+})
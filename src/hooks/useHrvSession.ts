@@ -1,26 +1,39 @@
 import { useState, useCallback, useRef } from 'react'
-import { HrvEngine } from '../engine/hrvEngine'
+import { createHrSource } from '../engine/hrSource'
+import type { HrSource } from '../engine/hrSource'
 import { HrvTimeline } from '../engine/hrvTimeline'
-import { db } from '../store/db'
+import { db, generateId } from '../store/db'
 import { getGlobalConfig } from '../store/globalConfig'
 import { trackEvent } from '../services/analytics'
-import type { HrvMeasurement, HrvError, HrvSessionData, HrvConversationEventType } from '../types'
+import type {
+  HrvMeasurement, HrvError, HrvSessionData, HrvConversationEventType,
+  HrvJournalEventType, HrvJournalEventDetails, HrvShift,
+} from '../types'
+
+interface HrvSessionOptions {
+  /** 'journal' when recording alongside the editor; the id ref then holds the entry id */
+  source?: HrvSessionData['source']
+}
 
 /**
  * Manages HRV biometric session lifecycle: engine start/stop,
  * measurement collection, data flushing, and consent flow.
  */
-export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
+export function useHrvSession(sessionIdRef: React.RefObject<string | null>, options: HrvSessionOptions = {}) {
+  const { source = 'session' } = options
   const [enabled, setEnabled] = useState(false)
   const [latestMeasurement, setLatestMeasurement] = useState<HrvMeasurement | null>(null)
   const [measurementCount, setMeasurementCount] = useState(0)
   const [calibrating, setCalibrating] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showConsent, setShowConsent] = useState(false)
+  const [latestShift, setLatestShift] = useState<HrvShift | null>(null)
 
-  const hrvEngineRef = useRef<HrvEngine | null>(null)
+  const hrvEngineRef = useRef<HrSource | null>(null)
   const hrvTimelineRef = useRef(new HrvTimeline())
   const hrvStartTimeRef = useRef<number>(0)
+  // Each recording is its own record, however many a session or entry has
+  const recordingIdRef = useRef<string>('')
   const hrvFlushIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const hrvResponseStartedRef = useRef(false)
 
@@ -30,7 +43,12 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
     if (!currentSessionId || timeline.getMeasurements().length === 0) return
 
     const measurements = timeline.getMeasurements()
-    const shifts = timeline.getRecentShifts(99999)
+    // Journal shifts name what was written; that text stays on the device
+    const shifts = timeline.getRecentShifts(99999).map(shift => {
+      const stored = { ...shift }
+      delete stored.triggerText
+      return stored
+    })
 
     const avgHr = measurements.reduce((s, m) => s + m.hr, 0) / measurements.length
     const avgRmssd = measurements.reduce((s, m) => s + m.rmssd, 0) / measurements.length
@@ -43,7 +61,7 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
     const dominantState = Object.entries(stateCounts).sort((a, b) => b[1] - a[1])[0]?.[0] || 'transitioning'
 
     // Grab signal dumps — keep only last 10 and trim RGB buffers to save space
-    const rawDumps = hrvEngineRef.current?.getSignalDumps() ?? []
+    const rawDumps = hrvEngineRef.current?.getSignalDumps?.() ?? []
     const signalDumps = rawDumps.slice(-10).map(d => ({
       ...d,
       rBuffer: d.rBuffer.slice(-150), // last 5s at 30fps
@@ -52,7 +70,9 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
     }))
 
     const data: HrvSessionData = {
-      id: currentSessionId,
+      id: recordingIdRef.current,
+      source,
+      ...(source === 'journal' ? { entryId: currentSessionId } : { sessionId: currentSessionId }),
       startedAt: hrvStartTimeRef.current,
       endedAt: Date.now(),
       calibrationBaseline: timeline.baselineRmssd || 0,
@@ -69,16 +89,20 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
     }
 
     await db.hrvSessions.add(data)
-  }, [sessionIdRef])
+  }, [sessionIdRef, source])
 
   const start = useCallback(async () => {
-    const engine = new HrvEngine()
+    const engine = createHrSource()
     hrvEngineRef.current = engine
     hrvTimelineRef.current = new HrvTimeline()
     hrvStartTimeRef.current = Date.now()
+    recordingIdRef.current = generateId()
 
     engine.onMeasurement((m) => {
-      hrvTimelineRef.current.addMeasurement(m)
+      const timeline = hrvTimelineRef.current
+      const shiftCount = timeline.shifts.length
+      timeline.addMeasurement(m)
+      if (timeline.shifts.length > shiftCount) setLatestShift(timeline.shifts[timeline.shifts.length - 1])
       setLatestMeasurement(m)
       setMeasurementCount(c => c + 1)
     })
@@ -106,17 +130,19 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
         flushHrvData().catch(console.error)
       }, 10_000)
 
-      trackEvent('hrv_enabled', { session_id: sessionIdRef.current ?? '' })
+      trackEvent('hrv_enabled', { session_id: sessionIdRef.current ?? '', source, hr_source: engine.kind })
     } catch (err) {
       const hrvErr = err as HrvError
       if (hrvErr.type === 'camera_denied') {
         setError('Camera access denied')
+      } else if (hrvErr.type === 'source_unavailable') {
+        setError(`Heart-rate source not available: ${hrvErr.message}`)
       } else {
         setError('Camera not available')
       }
       hrvEngineRef.current = null
     }
-  }, [flushHrvData, sessionIdRef])
+  }, [flushHrvData, sessionIdRef, source])
 
   const toggle = useCallback(async () => {
     const config = getGlobalConfig()
@@ -164,6 +190,12 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
     hrvTimelineRef.current.addConversationEvent(type, messageIndex)
   }, [])
 
+  /** Journal moments are only kept while the camera is running */
+  const addJournalEvent = useCallback((type: HrvJournalEventType, details?: HrvJournalEventDetails) => {
+    if (!hrvEngineRef.current) return
+    hrvTimelineRef.current.addJournalEvent(type, details)
+  }, [])
+
   const buildPromptContext = useCallback((): string | undefined => {
     if (!enabled) return undefined
     return hrvTimelineRef.current.buildPromptContext() || undefined
@@ -192,6 +224,7 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
     enabled,
     latestMeasurement,
     measurementCount,
+    latestShift,
     calibrating,
     error,
     showConsent,
@@ -200,6 +233,7 @@ export function useHrvSession(sessionIdRef: React.RefObject<string | null>) {
     start,
     stopAndFlush,
     addConversationEvent,
+    addJournalEvent,
     buildPromptContext,
     resetResponseStarted,
     markResponseStarted,
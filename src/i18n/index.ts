@@ -107,8 +107,9 @@ const SEEDED_PART_KEYS: Record<string, TranslationKey> = {
   open: 'part.open',
 }
 
-export function getPartDisplayName(part: { id: string; name: string; isSeeded?: boolean }): string {
-  if (part.isSeeded && SEEDED_PART_KEYS[part.id]) {
+export function getPartDisplayName(part: { id: string; name: string; isSeeded?: boolean; nameEdited?: boolean }): string {
+  // A name the writer chose wins over the translated seeded name
+  if (part.isSeeded && !part.nameEdited && SEEDED_PART_KEYS[part.id]) {
     return t(SEEDED_PART_KEYS[part.id])
   }
   return part.name
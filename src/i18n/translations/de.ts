@@ -116,7 +116,7 @@ const de = {
   'crisis.textLine.name': 'Krisentelefon per SMS',
   'crisis.textLine.action': 'Sende HOME an',
   'crisis.international': 'Außerhalb der USA?',
-  'crisis.internationalOnly': 'Finde eine Hilfshotline in deinem Land',
+  'crisis.internationalOnly': 'Für dein Land ist noch keine nationale Hotline hinterlegt. Finde eine auf',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Mir geht es gut',
   'delete.title': 'Dein Konto löschen',
@@ -39,6 +39,9 @@ const en = {
   'settings.signOut': 'Sign out',
   'settings.language': 'Language',
   'settings.timezone': 'Timezone',
+  'settings.crisisRegion': 'Crisis resources',
+  'settings.crisisRegionAuto': 'Automatic ({region})',
+  'settings.crisisRegionUnknown': 'no match',
   'settings.appearance': 'Appearance',
   'settings.theme': 'Theme',
   'settings.themeAuto': 'Auto',
@@ -58,6 +61,7 @@ const en = {
   'settings.textHighlights': 'Text Highlights',
   'settings.ghostText': 'Ghost Text',
   'settings.bilateralStimulation': 'Bilateral Rhythm',
+  'settings.journalBiometrics': 'Heart Rhythm While Writing',
   'settings.contactUs': 'Contact Us',
   'settings.contactPlaceholder': 'Your message...',
   'settings.contactSent': 'Message sent — thank you!',
@@ -65,6 +69,36 @@ const en = {
   'settings.contactSending': 'Sending...',
   'settings.data': 'Data',
   'settings.exportAll': 'Export all data',
+  'settings.exportEntries': 'Export entries...',
+  'settings.backupDownload': 'Download backup (JSON)',
+  'settings.backupRestore': 'Restore from backup',
+  'settings.backupSummary': 'Backup from {date} with {entries} entries and {sessions} conversations. Merge keeps everything you have and adds what\'s missing; replace makes your journal match the backup.',
+  'settings.backupMerge': 'Merge into my journal',
+  'settings.backupReplace': 'Replace my journal',
+  'settings.backupCancel': 'Cancel',
+  'settings.backupReplaceConfirm': 'Replace your journal with this backup? Anything written since it was made will be deleted.',
+  'settings.backupRestored': 'Restored {added} items ({skipped} already present).',
+  'settings.backupReload': 'Reload to see restored data',
+  'settings.storage': 'Storage',
+  'settings.storageLocation': 'Keep journal',
+  'settings.storageCloud': 'Synced',
+  'settings.storageDevice': 'On this device',
+  'settings.storageNote': 'Switching reloads the app. Entries are not moved — export first if you want to keep them.',
+  'settings.encryption': 'Encryption',
+  'settings.encryptionOn': 'Your entries, memories and conversations are encrypted with your passphrase before they are saved.',
+  'settings.encryptionOff': 'Encrypt your writing with a passphrase only you know. Without it, nobody — including us — can read your journal. A forgotten passphrase cannot be recovered.',
+  'settings.encryptionPassphrase': 'Passphrase',
+  'settings.encryptionConfirm': 'Confirm passphrase',
+  'settings.encryptionEnable': 'Encrypt my journal',
+  'settings.encryptionWorking': 'Encrypting...',
+  'settings.encryptionMismatch': 'Passphrases don\'t match',
+  'settings.encryptionTooShort': 'Use at least 8 characters',
+  'unlock.title': 'Your journal is locked',
+  'unlock.subtitle': 'Enter your passphrase to decrypt it on this device.',
+  'unlock.passphrase': 'Passphrase',
+  'unlock.submit': 'Unlock',
+  'unlock.wrongPassphrase': 'That passphrase didn\'t work',
+  'unlock.signOut': 'Sign out',
   'settings.privacyTerms': 'Privacy & Terms',
   'settings.deleteAccount': 'Delete account',
 
@@ -77,10 +111,14 @@ const en = {
   'entries.search': 'Search entries...',
   'entries.favorites': 'Favorites',
   'entries.noResults': 'No entries found',
+  'entries.select': 'Select entries to export',
+  'entries.exportSelected': 'Export {count}',
+  'entries.cancelSelection': 'Cancel',
 
   // Sessions sidebar
   'sessions.title': 'Sessions',
   'sessions.new': '+ New conversation',
+  'sessions.continue': 'continue this conversation',
 
   // Entry choice screen
   'entries.newShort': '+ New',
@@ -115,9 +153,123 @@ const en = {
   'bodyMap.region.back': 'Back',
   'bodyMap.region.hips': 'Hips',
   'bodyMap.region.legs': 'Legs & Feet',
+  'bodyMap.checkIn.hint': 'Or tap where you feel something.',
+  'bodyMap.checkIn.open': '+ Check in',
+  'bodyMap.checkIn.prompt': 'What do you feel here?',
+  'bodyMap.checkIn.emotion.love': 'love / grief',
+  'bodyMap.checkIn.emotion.anger': 'anger',
+  'bodyMap.checkIn.emotion.anxiety': 'anxiety',
+  'bodyMap.checkIn.emotion.sadness': 'sadness',
+  'bodyMap.checkIn.emotion.hope': 'hope',
+  'bodyMap.checkIn.emotion.joy': 'joy',
+  'bodyMap.checkIn.emotion.shame': 'shame',
+  'bodyMap.checkIn.intensity.low': 'faint',
+  'bodyMap.checkIn.intensity.medium': 'clear',
+  'bodyMap.checkIn.intensity.high': 'strong',
+  'bodyMap.checkIn.notePlaceholder': 'A few words, if you like',
+  'bodyMap.checkIn.save': 'Save',
+  'bodyMap.checkIn.cancel': 'Cancel',
+  'bodyMap.checkIn.manual': 'checked in',
+
+  // Parts panel
+  'parts.title': 'Parts',
+  'parts.empty': 'Your parts will appear as you write.',
+  'parts.back': '← all parts',
+  'parts.name': 'Name',
+  'parts.color': 'Color',
+  'parts.concern': 'What it cares about',
+  'parts.save': 'Save',
+  'parts.muted': 'quiet',
+  'parts.mute': 'Quiet for…',
+  'parts.mute.hour': 'an hour',
+  'parts.mute.day': 'a day',
+  'parts.mute.week': 'a week',
+  'parts.mutedUntil': 'Quiet until {time}',
+  'parts.unmute': 'Let it speak again',
+  'parts.merge': 'Merge into…',
+  'parts.mergeConfirm': 'Merge {source} into {target}? Its memories move over and {source} is archived.',
+  'parts.retire': 'Archive this part',
+  'parts.retireConfirm': 'Archive {name}? It stops speaking, but nothing is deleted.',
+  'parts.archived': 'Archived ({count})',
+  'parts.restore': 'Restore',
+  'parts.introduce': '+ Introduce a part',
+  'parts.introduce.hint': 'A part you already know, like the critic or the one who wants to run. Describe it in your own words.',
+  'parts.introduce.description': 'What it\'s like',
+  'parts.introduce.descriptionPlaceholder': 'When does it show up? What does it want for you?',
+  'parts.introduce.role': 'What it does',
+  'parts.introduce.draft': 'Find its voice',
+  'parts.introduce.drafting': 'Listening for its voice…',
+  'parts.introduce.failed': 'Couldn\'t draft this part. Try again in a moment.',
+  'parts.introduce.declined': 'This part can\'t join the diary as described. If you\'re going through something heavy, you don\'t have to hold it alone.',
+  'parts.introduce.review': 'This is how {name} might sound. Change anything that isn\'t right.',
+  'parts.introduce.voice': 'How it speaks',
+  'parts.introduce.character': 'Who it is',
+  'parts.introduce.examples': 'Things it might say, one per line',
+  'parts.introduce.back': 'Change the description',
+  'parts.introduce.approve': 'Welcome {name}',
+  'parts.introduce.cancel': 'Cancel',
+  'parts.role.protector': 'Protects: keeps watch, keeps you safe',
+  'parts.role.manager': 'Manages: plans, controls, keeps things in order',
+  'parts.role.firefighter': 'Puts out fires: acts fast when it hurts',
+  'parts.role.exile': 'Carries: holds old hurts and longings',
+  'parts.role.self': 'Steadies: calm, curious, present',
+  'parts.growth.title': 'How it has grown',
+  'parts.growth.trigger.baseline': 'as it was',
+  'parts.growth.trigger.growth': 'grew',
+  'parts.growth.trigger.merge': 'took in {name}',
+  'parts.growth.trigger.revert': 'went back to v{version}',
+  'parts.growth.current': 'current',
+  'parts.growth.revert': 'Go back to this version',
+  'parts.growth.revertConfirm': 'Return {name} to version {version}? Later versions stay in the history.',
+  'parts.growth.prompt': 'Learned',
+  'parts.growth.keywords': 'Listens for',
+  'parts.growth.emotions': 'Feels',
+  'parts.growth.catchphrases': 'Says',
+  'parts.growth.from': 'Grew from {count} memories',
+  'parts.growth.noChange': 'No change',
+  'parts.memories.empty': 'Nothing remembered yet.',
+  'parts.memories.pin': 'Keep this memory',
+  'parts.memories.unpin': 'Stop keeping this memory',
+  'parts.memories.delete': 'Forget this memory',
+  'parts.memories.deleteConfirm': 'Forget this memory for good?',
+  'parts.memories.retired': 'Faded ({count})',
+  'parts.memories.retiredHint': 'Faded memories no longer reach this part. Keep one to bring it back.',
+  'parts.memories.consolidated': 'folded into a pattern',
+  'parts.memories.type.observation': 'noticed',
+  'parts.memories.type.interaction': 'talked',
+  'parts.memories.type.reflection': 'learned',
+  'parts.memories.type.pattern': 'pattern',
+
+  // HRV history
+  'hrvHistory.title': 'Heart',
+  'hrvHistory.empty': 'No heart rhythm recordings yet.',
+  'hrvHistory.error': 'Your heart rhythm history could not be loaded.',
+  'hrvHistory.weeks': 'Week by week',
+  'hrvHistory.metric.baseline': 'Resting HRV (RMSSD)',
+  'hrvHistory.metric.hr': 'Average heart rate',
+  'hrvHistory.metric.coherence': 'Coherence',
+  'hrvHistory.metric.shifts': 'Shifts per recording',
+  'hrvHistory.byWeather': 'By inner weather',
+  'hrvHistory.byHost': 'By who was there',
+  'hrvHistory.host.journal': 'Journal',
+  'hrvHistory.host.session': 'Session',
+  'hrvHistory.column.count': 'n',
+  'hrvHistory.column.hr': 'bpm',
+  'hrvHistory.column.rmssd': 'rmssd',
+  'hrvHistory.column.shifts': 'shifts',
+  'hrvHistory.time.all': 'Any time',
+  'hrvHistory.time.early-morning': 'Early morning',
+  'hrvHistory.time.morning': 'Morning',
+  'hrvHistory.time.afternoon': 'Afternoon',
+  'hrvHistory.time.evening': 'Evening',
+  'hrvHistory.time.night': 'Night',
 
   // Editor
   'editor.placeholder': 'Begin writing...',
+  'editor.biometrics.on': 'Heart rhythm',
+  'editor.biometrics.off': 'Stop',
+  'editor.biometrics.settled': 'Your body settled here',
+  'editor.biometrics.stirred': 'Your body stirred here',
 
   // Intention input
   'intention.set': '+ set an intention',
@@ -156,7 +308,13 @@ const en = {
   'crisis.textLine.name': 'Crisis Text Line',
   'crisis.textLine.action': 'Text HOME to',
   'crisis.international': 'Outside the US?',
-  'crisis.internationalOnly': 'Find a helpline in your country',
+  'crisis.call': 'Call',
+  'crisis.text': 'Text',
+  'crisis.textKeyword': 'Text {keyword} to',
+  'crisis.chat': 'Chat at',
+  'crisis.emergency': 'In immediate danger? Call',
+  'crisis.elsewhere': 'Somewhere else?',
+  'crisis.internationalOnly': 'We don\'t list a national line for your country yet. Find one at',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'I\'m okay',
 
@@ -247,6 +405,24 @@ const en = {
   'export.duration': 'Duration',
   'export.words': 'Words',
   'export.unknownVoice': 'Unknown Voice',
+  'exportModal.title': 'Export entries',
+  'exportModal.selected': '{count} selected entries',
+  'exportModal.from': 'From',
+  'exportModal.to': 'to',
+  'exportModal.format': 'Format',
+  'exportModal.markdown': 'Markdown',
+  'exportModal.html': 'Web page',
+  'exportModal.print': 'Print / PDF',
+  'exportModal.text': 'Plain text',
+  'exportModal.include': 'Include',
+  'exportModal.thoughts': 'Thoughts from your voices',
+  'exportModal.interactions': 'Thinking Out Loud conversations',
+  'exportModal.reflections': 'Reflections',
+  'exportModal.fossils': 'Revisited entries',
+  'exportModal.empty': 'No entries to export',
+  'exportModal.cancel': 'Cancel',
+  'exportModal.export': 'Export',
+  'exportModal.exporting': 'Exporting...',
 
   // Landing page hero
   'landing.headline': 'A diary that listens back',
@@ -116,7 +116,7 @@ const es = {
   'crisis.textLine.name': 'Línea de Crisis por Texto',
   'crisis.textLine.action': 'Envía HOME al',
   'crisis.international': '¿Fuera de EE.UU.?',
-  'crisis.internationalOnly': 'Encuentra una línea de ayuda en tu país',
+  'crisis.internationalOnly': 'Aún no tenemos una línea nacional para tu país. Encuentra una en',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Estoy bien',
   'delete.title': 'Eliminar tu cuenta',
@@ -116,7 +116,7 @@ const fr = {
   'crisis.textLine.name': 'Ligne de Crise par SMS',
   'crisis.textLine.action': 'Envoyer HOME au',
   'crisis.international': 'Hors des États-Unis ?',
-  'crisis.internationalOnly': 'Trouver une ligne d\'aide dans votre pays',
+  'crisis.internationalOnly': 'Nous n\'avons pas encore de ligne nationale pour votre pays. Trouvez-en une sur',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Ça va',
   'delete.title': 'Supprimer votre compte',
@@ -116,7 +116,7 @@ const hi = {
   'crisis.textLine.name': 'संकट टेक्स्ट लाइन',
   'crisis.textLine.action': 'HOME टेक्स्ट करें',
   'crisis.international': 'अमेरिका से बाहर हैं?',
-  'crisis.internationalOnly': 'अपने देश में हेल्पलाइन खोजें',
+  'crisis.internationalOnly': 'आपके देश की राष्ट्रीय हेल्पलाइन अभी हमारी सूची में नहीं है। यहाँ खोजें:',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'मैं ठीक हूं',
   'delete.title': 'अपना खाता हटाएं',
@@ -116,7 +116,7 @@ const id = {
   'crisis.textLine.name': 'Jalur Teks Krisis',
   'crisis.textLine.action': 'SMS HOME ke',
   'crisis.international': 'Di luar AS?',
-  'crisis.internationalOnly': 'Temukan jalur bantuan di negaramu',
+  'crisis.internationalOnly': 'Kami belum mencantumkan jalur bantuan nasional untuk negaramu. Temukan di',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Saya baik-baik saja',
   'delete.title': 'Hapus akunmu',
@@ -116,7 +116,7 @@ const it = {
   'crisis.textLine.name': 'Linea di Crisi via SMS',
   'crisis.textLine.action': 'Invia HOME al',
   'crisis.international': 'Fuori dagli USA?',
-  'crisis.internationalOnly': 'Trova una linea di aiuto nel tuo paese',
+  'crisis.internationalOnly': 'Non abbiamo ancora una linea nazionale per il tuo paese. Trovane una su',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Sto bene',
   'delete.title': 'Elimina il tuo account',
@@ -116,7 +116,7 @@ const ja = {
   'crisis.textLine.name': '危機テキストライン',
   'crisis.textLine.action': 'HOME と送信：',
   'crisis.international': 'アメリカ国外ですか？',
-  'crisis.internationalOnly': 'あなたの国のヘルプラインを探す',
+  'crisis.internationalOnly': 'お住まいの国の相談窓口はまだ掲載していません。こちらで探せます：',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': '大丈夫です',
   'delete.title': 'アカウントを削除する',
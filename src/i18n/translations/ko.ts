@@ -116,7 +116,7 @@ const ko = {
   'crisis.textLine.name': '위기 문자 상담',
   'crisis.textLine.action': 'HOME을 문자로 보내세요',
   'crisis.international': '미국 외 지역이신가요?',
-  'crisis.internationalOnly': '본국의 상담 전화 찾기',
+  'crisis.internationalOnly': '아직 거주 국가의 상담 전화를 안내하지 못하고 있어요. 여기에서 찾아보세요:',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': '괜찮아요',
   'delete.title': '계정 삭제',
@@ -116,7 +116,7 @@ const nl = {
   'crisis.textLine.name': 'Crisis Tekstlijn',
   'crisis.textLine.action': 'Sms HOME naar',
   'crisis.international': 'Buiten de VS?',
-  'crisis.internationalOnly': 'Vind een hulplijn in je land',
+  'crisis.internationalOnly': 'We hebben nog geen landelijke hulplijn voor jouw land. Vind er een op',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Het gaat goed met me',
   'delete.title': 'Account verwijderen',
@@ -116,7 +116,7 @@ const pl = {
   'crisis.textLine.name': 'Linia kryzysowa SMS',
   'crisis.textLine.action': 'Wyślij HOME na',
   'crisis.international': 'Poza USA?',
-  'crisis.internationalOnly': 'Znajdź telefon zaufania w swoim kraju',
+  'crisis.internationalOnly': 'Nie mamy jeszcze krajowego telefonu zaufania dla twojego kraju. Znajdź go na',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Nic mi nie jest',
   'delete.title': 'Usuń swoje konto',
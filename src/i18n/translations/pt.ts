@@ -116,7 +116,7 @@ const pt = {
   'crisis.textLine.name': 'Linha de Crise por Texto',
   'crisis.textLine.action': 'Envie HOME para',
   'crisis.international': 'Fora dos EUA?',
-  'crisis.internationalOnly': 'Encontre uma linha de ajuda no seu país',
+  'crisis.internationalOnly': 'Ainda não temos uma linha nacional para o seu país. Encontre uma em',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Estou bem',
   'delete.title': 'Excluir sua conta',
@@ -116,7 +116,7 @@ const ru = {
   'crisis.textLine.name': 'Кризисная линия по SMS',
   'crisis.textLine.action': 'Отправьте HOME на',
   'crisis.international': 'За пределами США?',
-  'crisis.internationalOnly': 'Найдите линию помощи в вашей стране',
+  'crisis.internationalOnly': 'Мы пока не указываем национальную линию помощи для вашей страны. Найдите её на',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Со мной всё хорошо',
   'delete.title': 'Удалить ваш аккаунт',
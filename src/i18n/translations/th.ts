@@ -116,7 +116,7 @@ const th = {
   'crisis.textLine.name': 'สายด่วนข้อความวิกฤต',
   'crisis.textLine.action': 'ส่งข้อความ HOME ไปที่',
   'crisis.international': 'อยู่นอกสหรัฐ?',
-  'crisis.internationalOnly': 'ค้นหาสายด่วนในประเทศของคุณ',
+  'crisis.internationalOnly': 'เรายังไม่มีสายด่วนระดับประเทศของคุณ ค้นหาได้ที่',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'ฉันไม่เป็นไร',
   'delete.title': 'ลบบัญชีของคุณ',
@@ -116,7 +116,7 @@ const tr = {
   'crisis.textLine.name': 'Kriz Mesaj Hattı',
   'crisis.textLine.action': 'HOME yazıp gönder',
   'crisis.international': 'ABD dışında mısın?',
-  'crisis.internationalOnly': 'Ülkendeki yardım hattını bul',
+  'crisis.internationalOnly': 'Ülken için henüz ulusal bir yardım hattı listelemiyoruz. Bir tane bul:',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'İyiyim',
   'delete.title': 'Hesabını sil',
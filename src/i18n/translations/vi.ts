@@ -116,7 +116,7 @@ const vi = {
   'crisis.textLine.name': 'Đường dây nhắn tin khủng hoảng',
   'crisis.textLine.action': 'Nhắn HOME đến',
   'crisis.international': 'Bạn ở ngoài Mỹ?',
-  'crisis.internationalOnly': 'Tìm đường dây hỗ trợ tại quốc gia của bạn',
+  'crisis.internationalOnly': 'Chúng tôi chưa có đường dây hỗ trợ quốc gia cho nước bạn. Tìm tại',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': 'Tôi ổn',
   'delete.title': 'Xóa tài khoản của bạn',
@@ -116,7 +116,7 @@ const zh = {
   'crisis.textLine.name': '危机短信热线',
   'crisis.textLine.action': '发送 HOME 至',
   'crisis.international': '在美国以外？',
-  'crisis.internationalOnly': '查找你所在国家的求助热线',
+  'crisis.internationalOnly': '我们还没有收录你所在国家的全国求助热线。可以在这里查找：',
   'crisis.findHelpline': 'findahelpline.com',
   'crisis.dismiss': '我没事',
   'delete.title': '删除你的账户',
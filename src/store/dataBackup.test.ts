@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('./globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import { createMemoryBackend } from './localBackend'
+import { db, sessionMessages, setStorageBackend } from './db'
+import {
+  buildBackup, parseBackup, restoreBackup, InvalidBackupError, BACKUP_FORMAT, BACKUP_VERSION,
+} from './dataBackup'
+import type { Session, SessionMessage } from '../types'
+
+function makeSession(id: string): Session {
+  return {
+    id, startedAt: 1, endedAt: null, status: 'closed', hostPartId: 'watcher',
+    participantPartIds: ['watcher'], openingMethod: 'auto', sessionNote: null,
+    messageCount: 1, firstLine: '', phase: 'opening',
+  }
+}
+
+function makeMessage(id: string, content: string): SessionMessage {
+  return {
+    id, speaker: 'user', partId: null, partName: null, content,
+    timestamp: 1, phase: 'opening', isEmergence: false,
+  }
+}
+
+async function seedJournal() {
+  await db.entries.add({ id: 'e1', content: '<p>first</p>', plainText: 'first', createdAt: 1, updatedAt: 1 })
+  await db.parts.add({
+    id: 'watcher', name: 'The Watcher', color: '#000', colorLight: '#fff', ifsRole: 'protector',
+    voiceDescription: '', concern: '', systemPrompt: '', isSeeded: true, createdAt: 1,
+    learnedKeywords: ['rain'], growthVersion: 2,
+  })
+  await db.sessions.add(makeSession('s1'))
+  await sessionMessages.add('s1', makeMessage('m1', 'hello'))
+}
+
+describe('parseBackup', () => {
+  const valid = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: 5,
+    collections: { entries: [{ id: 'e1' }] },
+    ...overrides,
+  })
+
+  it('fills in collections missing from the archive', () => {
+    const archive = parseBackup(valid())
+    expect(archive.collections.entries).toHaveLength(1)
+    expect(archive.collections.letters).toEqual([])
+    expect(archive.sessionMessages).toEqual({})
+  })
+
+  it('de-duplicates documents by id, keeping the last copy', () => {
+    const archive = parseBackup(valid({
+      collections: { entries: [{ id: 'e1', plainText: 'old' }, { id: 'e1', plainText: 'new' }] },
+    }))
+    expect(archive.collections.entries).toEqual([{ id: 'e1', plainText: 'new' }])
+  })
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('not json')).toThrow(InvalidBackupError)
+    expect(() => parseBackup(JSON.stringify({ hello: 'world' }))).toThrow('Not an UnderSurface backup')
+    expect(() => parseBackup(valid({ version: BACKUP_VERSION + 1 }))).toThrow('newer version')
+    expect(() => parseBackup(valid({ collections: { entries: [{ plainText: 'no id' }] } }))).toThrow('without an id')
+  })
+
+  it('drops messages for sessions that are not in the archive', () => {
+    const archive = parseBackup(valid({
+      collections: { sessions: [{ id: 's1' }] },
+      sessionMessages: { s1: [{ id: 'm1' }], orphan: [{ id: 'm2' }] },
+    }))
+    expect(Object.keys(archive.sessionMessages)).toEqual(['s1'])
+  })
+})
+
+describe('backup round trip', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend())
+  })
+
+  it('restores every collection and message into an empty journal', async () => {
+    await seedJournal()
+    const archive = parseBackup(JSON.stringify(await buildBackup()))
+
+    setStorageBackend(createMemoryBackend())
+    const result = await restoreBackup(archive, 'merge')
+
+    expect(result).toEqual({ added: 4, skipped: 0 })
+    expect((await db.parts.get('watcher'))?.learnedKeywords).toEqual(['rain'])
+    expect((await db.entries.get('e1'))?.plainText).toBe('first')
+    expect((await sessionMessages.getAll('s1')).map((m) => m.content)).toEqual(['hello'])
+  })
+
+  it('merge keeps existing documents and adds missing ones', async () => {
+    await seedJournal()
+    const archive = await buildBackup()
+    await db.entries.update('e1', { plainText: 'edited since', updatedAt: 2 })
+    await sessionMessages.clear('s1')
+
+    const result = await restoreBackup(archive, 'merge')
+
+    expect(result).toEqual({ added: 1, skipped: 3 })
+    expect((await db.entries.get('e1'))?.plainText).toBe('edited since')
+    expect(await sessionMessages.getAll('s1')).toHaveLength(1)
+  })
+
+  it('replace makes the journal match the archive exactly', async () => {
+    await seedJournal()
+    const archive = await buildBackup()
+    await db.entries.add({ id: 'e2', content: '', plainText: 'after backup', createdAt: 2, updatedAt: 2 })
+    await sessionMessages.add('s1', makeMessage('m2', 'after backup'))
+
+    await restoreBackup(archive, 'replace')
+
+    expect((await db.entries.toArray()).map((e) => e.id)).toEqual(['e1'])
+    expect((await sessionMessages.getAll('s1')).map((m) => m.id)).toEqual(['m1'])
+  })
+})
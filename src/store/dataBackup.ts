@@ -0,0 +1,184 @@
+import type { DocumentData } from 'firebase/firestore'
+import { db, sessionMessages } from './db'
+import type { SessionMessage } from '../types'
+
+// ── Versioned JSON backup ──
+// Unlike the Markdown export this is lossless: every document is kept as
+// stored (decrypted), so an archive can be restored into any account.
+
+export const BACKUP_FORMAT = 'undersurface-backup'
+export const BACKUP_VERSION = 1
+
+// API keys and the encryption key record are tied to the account they were
+// created in, so they are never part of a backup. Embeddings are derived and
+// rebuilt on demand.
+export const BACKUP_COLLECTIONS = [
+  'entries', 'parts', 'memories', 'thoughts', 'interactions',
+  'entrySummaries', 'userProfile', 'fossils', 'letters',
+  'sessionLog', 'innerWeather', 'consent', 'sessions',
+  'hrvSessions', 'growthSnapshots',
+] as const
+
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number]
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: number
+  collections: Record<BackupCollection, DocumentData[]>
+  /** Messages keyed by session id */
+  sessionMessages: Record<string, SessionMessage[]>
+}
+
+export type RestoreMode = 'merge' | 'replace'
+
+export interface RestoreResult {
+  added: number
+  /** Documents already present that merge mode left untouched */
+  skipped: number
+}
+
+export class InvalidBackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidBackupError'
+  }
+}
+
+export async function buildBackup(): Promise<BackupArchive> {
+  const results = await Promise.all(
+    BACKUP_COLLECTIONS.map((name) => db[name].toArray() as Promise<DocumentData[]>),
+  )
+  const collections = Object.fromEntries(
+    BACKUP_COLLECTIONS.map((name, i) => [name, results[i]]),
+  ) as Record<BackupCollection, DocumentData[]>
+
+  const messages = await Promise.all(
+    collections.sessions.map((s) => sessionMessages.getAll(s.id as string)),
+  )
+  const messagesBySession: Record<string, SessionMessage[]> = {}
+  collections.sessions.forEach((s, i) => {
+    if (messages[i].length > 0) messagesBySession[s.id as string] = messages[i]
+  })
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    collections,
+    sessionMessages: messagesBySession,
+  }
+}
+
+export async function downloadBackup() {
+  const archive = await buildBackup()
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `undersurface-backup-${new Date().toISOString().split('T')[0]}.json`
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Keeps the last copy of each id — later duplicates win, like repeated writes would
+function validDocuments(value: unknown, label: string): DocumentData[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) throw new InvalidBackupError(`${label} is not a list`)
+  const byId = new Map<string, DocumentData>()
+  for (const doc of value) {
+    if (!isRecord(doc) || typeof doc.id !== 'string' || doc.id === '') {
+      throw new InvalidBackupError(`${label} contains a document without an id`)
+    }
+    byId.set(doc.id, doc)
+  }
+  return [...byId.values()]
+}
+
+/** Parses and validates an archive. Throws InvalidBackupError with a readable reason. */
+export function parseBackup(text: string): BackupArchive {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new InvalidBackupError('Not a JSON file')
+  }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new InvalidBackupError('Not an UnderSurface backup')
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    throw new InvalidBackupError('Missing backup version')
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw new InvalidBackupError('This backup was made by a newer version of UnderSurface')
+  }
+  if (!isRecord(raw.collections)) throw new InvalidBackupError('Backup has no collections')
+
+  const source = raw.collections
+  const collections = Object.fromEntries(
+    BACKUP_COLLECTIONS.map((name) => [name, validDocuments(source[name], name)]),
+  ) as Record<BackupCollection, DocumentData[]>
+
+  const sessionIds = new Set(collections.sessions.map((s) => s.id as string))
+  const messagesBySession: Record<string, SessionMessage[]> = {}
+  if (raw.sessionMessages !== undefined) {
+    if (!isRecord(raw.sessionMessages)) throw new InvalidBackupError('sessionMessages is not an object')
+    for (const [sessionId, messages] of Object.entries(raw.sessionMessages)) {
+      // Messages of a session that isn't in the archive would be unreachable
+      if (!sessionIds.has(sessionId)) continue
+      messagesBySession[sessionId] = validDocuments(messages, `messages of ${sessionId}`) as SessionMessage[]
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    collections,
+    sessionMessages: messagesBySession,
+  }
+}
+
+/**
+ * Writes an archive into the current journal. 'merge' keeps every existing
+ * document and only adds ids the journal doesn't have yet; 'replace' clears
+ * each collection first so the journal matches the archive exactly.
+ */
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<RestoreResult> {
+  const result: RestoreResult = { added: 0, skipped: 0 }
+
+  if (mode === 'replace') {
+    for (const session of await db.sessions.toArray()) await sessionMessages.clear(session.id)
+    for (const name of BACKUP_COLLECTIONS) await db[name].clear()
+    await db.embeddings.clear()
+  }
+
+  for (const name of BACKUP_COLLECTIONS) {
+    const docs = archive.collections[name]
+    if (docs.length === 0) continue
+    const existing = mode === 'merge'
+      ? new Set((await db[name].toArray()).map((d) => d.id))
+      : new Set<string>()
+    const fresh = docs.filter((d) => !existing.has(d.id as string))
+    result.skipped += docs.length - fresh.length
+    result.added += fresh.length
+    // Each proxy is typed to its own collection; archive documents were validated structurally
+    if (fresh.length > 0) await (db[name].bulkPut as (items: DocumentData[]) => Promise<void>)(fresh)
+  }
+
+  for (const [sessionId, messages] of Object.entries(archive.sessionMessages)) {
+    const existing = mode === 'merge'
+      ? new Set((await sessionMessages.getAll(sessionId)).map((m) => m.id))
+      : new Set<string>()
+    const fresh = messages.filter((m) => !existing.has(m.id))
+    result.skipped += messages.length - fresh.length
+    result.added += fresh.length
+    if (fresh.length > 0) await sessionMessages.bulkPut(sessionId, fresh)
+  }
+
+  return result
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('./globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import { buildEntriesExport } from './dataExport'
+import type { EntryExportOptions } from './dataExport'
+
+const DAY = 24 * 60 * 60 * 1000
+const monday = new Date(2026, 2, 2, 9).getTime()
+
+const collections = {
+  entries: [
+    { id: 'e1', plainText: 'Monday morning <tense>', createdAt: monday, intention: 'notice' },
+    { id: 'e2', plainText: 'Tuesday, lighter', createdAt: monday + DAY },
+    { id: 'e3', plainText: 'Next week', createdAt: monday + 8 * DAY },
+  ],
+  parts: [{ id: 'watcher', name: 'Custom Voice', color: '#5A7F94', isSeeded: false }],
+  thoughts: [{ id: 't1', entryId: 'e1', partId: 'watcher', content: 'You paused here.', anchorText: 'tense', timestamp: 2 }],
+  interactions: [{ id: 'i1', entryId: 'e1', partId: 'watcher', partOpening: 'What happened?', userResponse: 'A meeting', partReply: 'I see', timestamp: 3 }],
+  entrySummaries: [{ id: 's1', entryId: 'e1', themes: ['work'], emotionalArc: 'tight to loose', keyMoments: [] }],
+  fossils: [{ id: 'f1', entryId: 'e2', partId: 'watcher', commentary: 'Lighter than last time' }],
+}
+
+const everything: Omit<EntryExportOptions, 'entryIds' | 'from' | 'to'> = {
+  includeThoughts: true,
+  includeInteractions: true,
+  includeFossils: true,
+  includeReflections: true,
+}
+
+describe('buildEntriesExport', () => {
+  it('exports only the selected entries', () => {
+    const { content, count } = buildEntriesExport(collections, 'markdown', { ...everything, entryIds: ['e2'] })
+    expect(count).toBe(1)
+    expect(content).toContain('Tuesday, lighter')
+    expect(content).not.toContain('Monday morning')
+  })
+
+  it('filters by date range with an exclusive upper bound', () => {
+    const { count } = buildEntriesExport(collections, 'text', { ...everything, from: monday, to: monday + DAY })
+    expect(count).toBe(1)
+    const week = buildEntriesExport(collections, 'text', { ...everything, from: monday, to: monday + 7 * DAY })
+    expect(week.count).toBe(2)
+  })
+
+  it('includes annotations in markdown when asked', () => {
+    const { content } = buildEntriesExport(collections, 'markdown', { ...everything, entryIds: ['e1'] })
+    expect(content).toContain('> **Custom Voice:**')
+    expect(content).toContain('What happened?')
+    expect(content).toContain('tight to loose')
+  })
+
+  it('leaves out annotations that are toggled off', () => {
+    const { content } = buildEntriesExport(collections, 'markdown', {
+      entryIds: ['e1', 'e2'],
+      includeThoughts: false,
+      includeInteractions: false,
+      includeFossils: false,
+      includeReflections: false,
+    })
+    expect(content).toContain('Monday morning')
+    expect(content).not.toContain('You paused here.')
+    expect(content).not.toContain('What happened?')
+    expect(content).not.toContain('tight to loose')
+    expect(content).not.toContain('Lighter than last time')
+  })
+
+  it('renders standalone HTML with part colors and escaped text', () => {
+    const { content } = buildEntriesExport(collections, 'html', { ...everything, entryIds: ['e1'] })
+    expect(content.startsWith('<!DOCTYPE html>')).toBe(true)
+    expect(content).toContain('border-left-color: #5A7F94')
+    expect(content).toContain('Monday morning &lt;tense&gt;')
+    expect(content).toContain('@media print')
+  })
+
+  it('renders plain text without markup', () => {
+    const { content } = buildEntriesExport(collections, 'text', { ...everything, entryIds: ['e1'] })
+    expect(content).toContain('Custom Voice (')
+    expect(content).not.toMatch(/[#*>]{2}/)
+  })
+})
@@ -36,32 +36,178 @@ function groupBy<T>(items: T[], keyFn: (item: T) => string): Map<string, T[]> {
   return map
 }
 
+// ── Entry selection ──
+
+export type ExportFormat = 'markdown' | 'html' | 'print' | 'text'
+
+export interface EntryExportOptions {
+  /** Explicit selection from the entries list — takes precedence over the date range */
+  entryIds?: string[]
+  /** Inclusive lower bound on createdAt */
+  from?: number
+  /** Exclusive upper bound on createdAt */
+  to?: number
+  includeThoughts: boolean
+  includeInteractions: boolean
+  includeFossils: boolean
+  includeReflections: boolean
+}
+
+const FULL_EXPORT_OPTIONS: EntryExportOptions = {
+  includeThoughts: true,
+  includeInteractions: true,
+  includeFossils: true,
+  includeReflections: true,
+}
+
+interface Voice {
+  partName: string
+  color: string
+}
+
+interface ExportedEntry {
+  id: string
+  createdAt: number
+  text: string
+  intention?: string
+  thoughts: Array<Voice & { anchor: string; content: string }>
+  interactions: Array<Voice & { opening?: string; response?: string; reply?: string }>
+  reflection: { themes: string[]; arc?: string; moments: string[] } | null
+  fossils: Array<Voice & { commentary: string }>
+}
+
+// Part name + color lookup (uses translated display names for seeded parts)
+function voiceLookup(parts: DocumentData[]): (id: string) => Voice {
+  const byId = new Map<string, DocumentData>()
+  for (const p of parts) byId.set(p.id as string, p)
+  return (id) => {
+    const p = byId.get(id)
+    if (!p) return { partName: t('export.unknownVoice'), color: '' }
+    return {
+      partName: getPartDisplayName({ id: p.id as string, name: p.name as string, isSeeded: p.isSeeded as boolean | undefined }),
+      color: (p.color as string) || '',
+    }
+  }
+}
+
+const byTimestamp = (a: DocumentData, b: DocumentData) => (a.timestamp as number) - (b.timestamp as number)
+
+/** Selects entries and gathers the annotations the options ask for, oldest first. */
+function collectEntries(collections: Record<string, DocumentData[]>, options: EntryExportOptions): ExportedEntry[] {
+  const selected = options.entryIds ? new Set(options.entryIds) : null
+  const entries = (collections.entries ?? [])
+    .filter((e) => {
+      if (selected) return selected.has(e.id as string)
+      const createdAt = e.createdAt as number
+      return (options.from === undefined || createdAt >= options.from)
+        && (options.to === undefined || createdAt < options.to)
+    })
+    .sort((a, b) => (a.createdAt as number) - (b.createdAt as number))
+
+  const voice = voiceLookup(collections.parts ?? [])
+  const thoughtsByEntry = groupBy(collections.thoughts ?? [], (th) => th.entryId as string)
+  const interactionsByEntry = groupBy(collections.interactions ?? [], (ix) => ix.entryId as string)
+  const summariesByEntry = groupBy(collections.entrySummaries ?? [], (s) => s.entryId as string)
+  const fossilsByEntry = groupBy(collections.fossils ?? [], (f) => f.entryId as string)
+
+  return entries.map((entry) => {
+    const eid = entry.id as string
+    const summary = options.includeReflections ? summariesByEntry.get(eid)?.[0] : undefined
+    const themes = (summary?.themes as string[] | undefined) ?? []
+    const arc = summary?.emotionalArc as string | undefined
+    const moments = (summary?.keyMoments as string[] | undefined) ?? []
+
+    return {
+      id: eid,
+      createdAt: entry.createdAt as number,
+      text: ((entry.plainText as string) || '').trim(),
+      intention: entry.intention as string | undefined,
+      thoughts: options.includeThoughts
+        ? (thoughtsByEntry.get(eid) ?? []).sort(byTimestamp).map((th) => ({
+          ...voice(th.partId as string),
+          anchor: (th.anchorText as string) || '',
+          content: th.content as string,
+        }))
+        : [],
+      interactions: options.includeInteractions
+        ? (interactionsByEntry.get(eid) ?? []).sort(byTimestamp).map((ix) => ({
+          ...voice(ix.partId as string),
+          opening: ix.partOpening as string | undefined,
+          response: ix.userResponse as string | undefined,
+          reply: ix.partReply as string | undefined,
+        }))
+        : [],
+      reflection: themes.length || arc || moments.length ? { themes, arc, moments } : null,
+      fossils: options.includeFossils
+        ? (fossilsByEntry.get(eid) ?? []).map((f) => ({
+          ...voice(f.partId as string),
+          commentary: f.commentary as string,
+        }))
+        : [],
+    }
+  })
+}
+
+function renderMarkdownJournal(entries: ExportedEntry[], ln: (s?: string) => void) {
+  const byDate = groupBy(entries, (e) => fmtDate(e.createdAt))
+
+  for (const [date, dayEntries] of byDate) {
+    ln(`### ${date}`)
+    ln()
+
+    for (const entry of dayEntries) {
+      ln(`#### ${fmtTime(entry.createdAt)}`)
+      ln()
+      if (entry.intention) ln(`*${t('export.intention')}: ${entry.intention}*\n`)
+      ln(entry.text || `*${t('export.emptyEntry')}*`)
+      ln()
+
+      // Thoughts from inner voices
+      for (const th of entry.thoughts) {
+        const prefix = th.anchor ? ` *(${t('export.respondingTo')}: "${th.anchor}")*` : ''
+        ln(`> **${th.partName}:**${prefix} ${th.content}`)
+        ln()
+      }
+
+      // Thinking Out Loud interactions
+      for (const ix of entry.interactions) {
+        ln(`**${t('export.conversationWith')} ${ix.partName}:**`)
+        if (ix.opening) ln(`> *${ix.partName}:* ${ix.opening}`)
+        if (ix.response) ln(`>\n> *${t('export.you')}:* ${ix.response}`)
+        if (ix.reply) ln(`>\n> *${ix.partName}:* ${ix.reply}`)
+        ln()
+      }
+
+      // Entry summary
+      if (entry.reflection) {
+        const { themes, arc, moments } = entry.reflection
+        ln(`**${t('export.reflection')}:**`)
+        if (themes.length) ln(`- ${t('export.themes')}: ${themes.join(', ')}`)
+        if (arc) ln(`- ${t('export.emotionalArc')}: ${arc}`)
+        if (moments.length) ln(`- ${t('export.keyMoments')}: ${moments.join('; ')}`)
+        ln()
+      }
+
+      // Fossils (voice commentary on past entries)
+      for (const f of entry.fossils) {
+        ln(`> **${f.partName}** ${t('export.reflectedOn')}: ${f.commentary}`)
+        ln()
+      }
+
+      ln('---')
+      ln()
+    }
+  }
+}
+
 function buildMarkdownExport(collections: Record<string, DocumentData[]>): string {
-  const entries = (collections.entries ?? []).sort((a, b) => (a.createdAt as number) - (b.createdAt as number))
   const parts = collections.parts ?? []
   const memories = collections.memories ?? []
-  const thoughts = collections.thoughts ?? []
-  const interactions = collections.interactions ?? []
-  const summaries = collections.entrySummaries ?? []
   const profiles = collections.userProfile ?? []
-  const fossils = collections.fossils ?? []
   const letters = collections.letters ?? []
   const sessions = (collections.sessionLog ?? []).sort((a, b) => (a.startedAt as number) - (b.startedAt as number))
 
-  // Part name lookup (uses translated display names for seeded parts)
-  const partLookup = new Map<string, DocumentData>()
-  for (const p of parts) partLookup.set(p.id as string, p)
-  const pn = (id: string) => {
-    const p = partLookup.get(id)
-    if (!p) return t('export.unknownVoice')
-    return getPartDisplayName({ id: p.id as string, name: p.name as string, isSeeded: p.isSeeded as boolean | undefined })
-  }
-
-  // Index by entryId
-  const thoughtsByEntry = groupBy(thoughts, (th) => th.entryId as string)
-  const interactionsByEntry = groupBy(interactions, (ix) => ix.entryId as string)
-  const summariesByEntry = groupBy(summaries, (s) => s.entryId as string)
-  const fossilsByEntry = groupBy(fossils, (f) => f.entryId as string)
+  const pn = (id: string) => voiceLookup(parts)(id).partName
   const memoriesByPart = groupBy(memories, (m) => m.partId as string)
 
   const lines: string[] = []
@@ -124,79 +270,13 @@ function buildMarkdownExport(collections: Record<string, DocumentData[]>): strin
   }
 
   // ── Journal Entries ──
-  if (entries.length) {
+  const journal = collectEntries(collections, FULL_EXPORT_OPTIONS)
+  if (journal.length) {
     ln('---')
     ln()
     ln(`## ${t('export.journal')}`)
     ln()
-
-    const byDate = groupBy(entries, (e) => fmtDate(e.createdAt as number))
-
-    for (const [date, dayEntries] of byDate) {
-      ln(`### ${date}`)
-      ln()
-
-      for (const entry of dayEntries) {
-        const eid = entry.id as string
-        const text = (entry.plainText as string || '').trim()
-        const intention = entry.intention as string | undefined
-
-        ln(`#### ${fmtTime(entry.createdAt as number)}`)
-        ln()
-        if (intention) ln(`*${t('export.intention')}: ${intention}*\n`)
-        ln(text || `*${t('export.emptyEntry')}*`)
-        ln()
-
-        // Thoughts from inner voices
-        const eThoughts = (thoughtsByEntry.get(eid) ?? [])
-          .sort((a, b) => (a.timestamp as number) - (b.timestamp as number))
-        if (eThoughts.length) {
-          for (const th of eThoughts) {
-            const anchor = th.anchorText as string
-            const prefix = anchor ? ` *(${t('export.respondingTo')}: "${anchor}")*` : ''
-            ln(`> **${pn(th.partId as string)}:**${prefix} ${th.content}`)
-            ln()
-          }
-        }
-
-        // Thinking Out Loud interactions
-        const eInteractions = (interactionsByEntry.get(eid) ?? [])
-          .sort((a, b) => (a.timestamp as number) - (b.timestamp as number))
-        for (const ix of eInteractions) {
-          ln(`**${t('export.conversationWith')} ${pn(ix.partId as string)}:**`)
-          if (ix.partOpening) ln(`> *${pn(ix.partId as string)}:* ${ix.partOpening}`)
-          if (ix.userResponse) ln(`>\n> *${t('export.you')}:* ${ix.userResponse}`)
-          if (ix.partReply) ln(`>\n> *${pn(ix.partId as string)}:* ${ix.partReply}`)
-          ln()
-        }
-
-        // Entry summary
-        const eSummaries = summariesByEntry.get(eid) ?? []
-        if (eSummaries.length) {
-          const s = eSummaries[0]
-          const themes = s.themes as string[] | undefined
-          const arc = s.emotionalArc as string | undefined
-          const moments = s.keyMoments as string[] | undefined
-          if (themes?.length || arc || moments?.length) {
-            ln(`**${t('export.reflection')}:**`)
-            if (themes?.length) ln(`- ${t('export.themes')}: ${themes.join(', ')}`)
-            if (arc) ln(`- ${t('export.emotionalArc')}: ${arc}`)
-            if (moments?.length) ln(`- ${t('export.keyMoments')}: ${moments.join('; ')}`)
-            ln()
-          }
-        }
-
-        // Fossils (voice commentary on past entries)
-        const eFossils = fossilsByEntry.get(eid) ?? []
-        for (const f of eFossils) {
-          ln(`> **${pn(f.partId as string)}** ${t('export.reflectedOn')}: ${f.commentary}`)
-          ln()
-        }
-
-        ln('---')
-        ln()
-      }
-    }
+    renderMarkdownJournal(journal, ln)
   }
 
   // ── Letters ──
@@ -232,6 +312,219 @@ function buildMarkdownExport(collections: Record<string, DocumentData[]>): strin
   return lines.join('\n')
 }
 
+// ── Selective export renderers ──
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function htmlParagraphs(text: string): string {
+  return text.split(/\n+/).filter((p) => p.trim()).map((p) => `<p>${escapeHtml(p)}</p>`).join('\n')
+}
+
+function voiceStyle(voice: Voice): string {
+  return voice.color ? ` style="border-left-color: ${escapeHtml(voice.color)}"` : ''
+}
+
+function voiceName(voice: Voice): string {
+  const color = voice.color ? ` style="color: ${escapeHtml(voice.color)}"` : ''
+  return `<span class="voice"${color}>${escapeHtml(voice.partName)}</span>`
+}
+
+const HTML_STYLES = `
+  body { font-family: 'Spectral', Georgia, serif; color: #2b2724; background: #faf8f5; max-width: 680px; margin: 0 auto; padding: 48px 24px; line-height: 1.7; }
+  h1 { font-weight: 400; font-size: 28px; margin-bottom: 4px; }
+  .meta { font-family: 'Inter', sans-serif; font-size: 12px; color: #8b8580; margin-bottom: 40px; }
+  h2 { font-weight: 400; font-size: 20px; margin-top: 48px; border-bottom: 1px solid #e8e4df; padding-bottom: 6px; }
+  .entry { margin-bottom: 36px; }
+  .time, .intention { font-family: 'Inter', sans-serif; font-size: 12px; color: #8b8580; }
+  .intention { font-style: italic; }
+  .note { border-left: 3px solid #c4beb8; padding: 4px 0 4px 14px; margin: 14px 0; font-size: 15px; color: #4a4541; }
+  .note p { margin: 4px 0; }
+  .voice { font-family: 'Inter', sans-serif; font-size: 12px; font-weight: 600; }
+  .anchor { font-style: italic; color: #8b8580; }
+  .reflection { font-family: 'Inter', sans-serif; font-size: 12px; color: #6b6560; background: #f2efea; border-radius: 6px; padding: 10px 14px; }
+  .reflection ul { margin: 4px 0 0; padding-left: 18px; }
+  @page { margin: 2cm; }
+  @media print {
+    body { background: none; padding: 0; max-width: none; }
+    .entry { break-inside: avoid-page; }
+    h2 { break-after: avoid-page; }
+    .note, .voice { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`
+
+function renderHtml(entries: ExportedEntry[]): string {
+  const body: string[] = []
+  for (const [date, dayEntries] of groupBy(entries, (e) => fmtDate(e.createdAt))) {
+    body.push(`<h2>${escapeHtml(date)}</h2>`)
+    for (const entry of dayEntries) {
+      body.push('<section class="entry">')
+      body.push(`<div class="time">${escapeHtml(fmtTime(entry.createdAt))}</div>`)
+      if (entry.intention) body.push(`<div class="intention">${escapeHtml(t('export.intention'))}: ${escapeHtml(entry.intention)}</div>`)
+      body.push(entry.text ? htmlParagraphs(entry.text) : `<p><em>${escapeHtml(t('export.emptyEntry'))}</em></p>`)
+      for (const th of entry.thoughts) {
+        const anchor = th.anchor ? ` <span class="anchor">(${escapeHtml(t('export.respondingTo'))}: "${escapeHtml(th.anchor)}")</span>` : ''
+        body.push(`<div class="note"${voiceStyle(th)}><p>${voiceName(th)}${anchor}</p>${htmlParagraphs(th.content)}</div>`)
+      }
+      for (const ix of entry.interactions) {
+        const turns = [
+          ix.opening && `<p>${voiceName(ix)} ${escapeHtml(ix.opening)}</p>`,
+          ix.response && `<p><span class="voice">${escapeHtml(t('export.you'))}</span> ${escapeHtml(ix.response)}</p>`,
+          ix.reply && `<p>${voiceName(ix)} ${escapeHtml(ix.reply)}</p>`,
+        ].filter(Boolean).join('')
+        body.push(`<div class="note"${voiceStyle(ix)}>${turns}</div>`)
+      }
+      if (entry.reflection) {
+        const { themes, arc, moments } = entry.reflection
+        const items = [
+          themes.length && `<li>${escapeHtml(t('export.themes'))}: ${escapeHtml(themes.join(', '))}</li>`,
+          arc && `<li>${escapeHtml(t('export.emotionalArc'))}: ${escapeHtml(arc)}</li>`,
+          moments.length && `<li>${escapeHtml(t('export.keyMoments'))}: ${escapeHtml(moments.join('; '))}</li>`,
+        ].filter(Boolean).join('')
+        body.push(`<div class="reflection"><strong>${escapeHtml(t('export.reflection'))}</strong><ul>${items}</ul></div>`)
+      }
+      for (const f of entry.fossils) {
+        body.push(`<div class="note"${voiceStyle(f)}><p>${voiceName(f)} ${escapeHtml(t('export.reflectedOn'))}</p>${htmlParagraphs(f.commentary)}</div>`)
+      }
+      body.push('</section>')
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(getLanguageCode())}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(t('export.title'))}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(t('export.title'))}</h1>
+<div class="meta">${escapeHtml(t('export.exportedOn'))} ${escapeHtml(fmtDate(Date.now()))}</div>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+function renderText(entries: ExportedEntry[]): string {
+  const lines: string[] = []
+  const ln = (s = '') => lines.push(s)
+  ln(t('export.title'))
+  ln(`${t('export.exportedOn')} ${fmtDate(Date.now())}`)
+  ln()
+
+  for (const entry of entries) {
+    ln(`${fmtDate(entry.createdAt)}, ${fmtTime(entry.createdAt)}`)
+    if (entry.intention) ln(`${t('export.intention')}: ${entry.intention}`)
+    ln()
+    ln(entry.text || t('export.emptyEntry'))
+    ln()
+    for (const th of entry.thoughts) {
+      ln(`  ${th.partName}${th.anchor ? ` (${t('export.respondingTo')}: "${th.anchor}")` : ''}: ${th.content}`)
+    }
+    for (const ix of entry.interactions) {
+      if (ix.opening) ln(`  ${ix.partName}: ${ix.opening}`)
+      if (ix.response) ln(`  ${t('export.you')}: ${ix.response}`)
+      if (ix.reply) ln(`  ${ix.partName}: ${ix.reply}`)
+    }
+    if (entry.reflection) {
+      const { themes, arc, moments } = entry.reflection
+      if (themes.length) ln(`  ${t('export.themes')}: ${themes.join(', ')}`)
+      if (arc) ln(`  ${t('export.emotionalArc')}: ${arc}`)
+      if (moments.length) ln(`  ${t('export.keyMoments')}: ${moments.join('; ')}`)
+    }
+    for (const f of entry.fossils) {
+      ln(`  ${f.partName} ${t('export.reflectedOn')}: ${f.commentary}`)
+    }
+    ln()
+    ln('* * *')
+    ln()
+  }
+  return lines.join('\n')
+}
+
+/** Renders the selected entries. 'print' is the same HTML document, meant to be sent to the printer. */
+export function buildEntriesExport(
+  collections: Record<string, DocumentData[]>,
+  format: ExportFormat,
+  options: EntryExportOptions,
+): { content: string; count: number } {
+  const entries = collectEntries(collections, options)
+  if (format === 'html' || format === 'print') return { content: renderHtml(entries), count: entries.length }
+  if (format === 'text') return { content: renderText(entries), count: entries.length }
+
+  const lines: string[] = []
+  const ln = (s = '') => lines.push(s)
+  ln(`# ${t('export.title')}`)
+  ln(`*${t('export.exportedOn')} ${fmtDate(Date.now())}*`)
+  ln()
+  renderMarkdownJournal(entries, ln)
+  return { content: lines.join('\n'), count: entries.length }
+}
+
+function downloadFile(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const FILE_TYPES: Record<Exclude<ExportFormat, 'print'>, { type: string; extension: string }> = {
+  markdown: { type: 'text/markdown', extension: 'md' },
+  html: { type: 'text/html', extension: 'html' },
+  text: { type: 'text/plain', extension: 'txt' },
+}
+
+/**
+ * Exports a selection of entries. Returns how many were exported so the
+ * caller can tell the user when a range turned out empty.
+ */
+export async function exportEntries(format: ExportFormat, options: EntryExportOptions): Promise<number> {
+  // Open the print window while still inside the click handler, or popup blockers refuse it
+  const printWindow = format === 'print' ? window.open('', '_blank') : null
+
+  const [entries, parts, thoughts, interactions, entrySummaries, fossils] = await Promise.all([
+    db.entries.toArray(),
+    db.parts.toArray(),
+    options.includeThoughts ? db.thoughts.toArray() : [],
+    options.includeInteractions ? db.interactions.toArray() : [],
+    options.includeReflections ? db.entrySummaries.toArray() : [],
+    options.includeFossils ? db.fossils.toArray() : [],
+  ])
+  const { content, count } = buildEntriesExport(
+    { entries, parts, thoughts, interactions, entrySummaries, fossils },
+    format,
+    options,
+  )
+
+  if (count === 0) {
+    printWindow?.close()
+    return 0
+  }
+
+  if (printWindow) {
+    printWindow.document.write(content)
+    printWindow.document.close()
+    printWindow.focus()
+    printWindow.print()
+    return count
+  }
+
+  // A blocked print window falls back to the same document as a download
+  const { type, extension } = FILE_TYPES[format === 'print' ? 'html' : format]
+  downloadFile(content, type, `undersurface-entries-${new Date().toISOString().split('T')[0]}.${extension}`)
+  return count
+}
+
 export async function exportAllData() {
   const collectionNames = [
     'entries', 'parts', 'memories', 'thoughts', 'interactions',
@@ -248,13 +541,6 @@ export async function exportAllData() {
   collectionNames.forEach((name, i) => { data[name] = results[i] })
 
   const md = buildMarkdownExport(data)
-
-  const blob = new Blob([md], { type: 'text/markdown' })
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = `undersurface-export-${new Date().toISOString().split('T')[0]}.md`
-  a.click()
-  URL.revokeObjectURL(url)
+  downloadFile(md, 'text/markdown', `undersurface-export-${new Date().toISOString().split('T')[0]}.md`)
 }
 
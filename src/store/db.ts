@@ -1,132 +1,299 @@
-import {
-  collection,
-  doc,
-  getDoc,
-  getDocs,
-  setDoc,
-  updateDoc,
-  query,
-  orderBy,
-  limit,
-  writeBatch,
-  getCountFromServer,
-  where,
-  deleteDoc,
-  onSnapshot,
-} from 'firebase/firestore'
 import type { DocumentData } from 'firebase/firestore'
-import { firestore } from '../firebase'
-import { getAuth } from 'firebase/auth'
 import { SEEDED_PARTS } from '../ai/partPrompts'
 import type {
   DiaryEntry, Part, PartMemory, PartThought, ThinkingOutLoudInteraction,
   EntrySummary, UserProfile, EntryFossil, PartLetter, SessionLog,
-  InnerWeather, ConsentRecord, Session, SessionMessage, ApiKey,
+  InnerWeather, ConsentRecord, Session, SessionMessage, ApiKey, EncryptionKeyRecord,
+  EmbeddingRecord, PartGrowthSnapshot,
 } from '../types'
 import type { HrvSessionData, CameraHrvConsent } from '../types/hrv'
+import type { QuerySpec, StorageBackend, StorageMode, WhereClause, WhereOp } from './storageBackend'
+import { createIndexedDBBackend, createMemoryBackend } from './localBackend'
+import { createDataKey, decryptFields, encryptFields, isEncryptedValue, unwrapDataKey } from './encryption'
 
-function getUid(): string {
-  const user = getAuth().currentUser
-  if (!user) throw new Error('Not authenticated')
-  return user.uid
+// ── Storage backend selection ──
+
+let backend: StorageBackend | null = null
+let pendingBackend: Promise<StorageBackend> | null = null
+
+/** Swaps the backend every collection reads and writes through (tests, on-device mode). */
+export function setStorageBackend(next: StorageBackend) {
+  backend = next
+  pendingBackend = null
+  // A key only ever belongs to the journal it was unlocked for
+  dataKey = null
+  keyRequired = false
+}
+
+export function getStorageMode(): StorageBackend['kind'] {
+  return backend?.kind ?? 'cloud'
+}
+
+/**
+ * Selects where the journal is stored for this session. Must run before
+ * initializeDB(). Device storage is namespaced per account so two people
+ * sharing a browser never see each other's entries.
+ */
+export async function configureStorage(mode: StorageMode, namespace: string) {
+  if (mode === 'device') {
+    setStorageBackend(typeof indexedDB === 'undefined'
+      ? createMemoryBackend()
+      : createIndexedDBBackend(`undersurface-${namespace}`))
+    return
+  }
+  const { createFirestoreBackend } = await import('./firestoreBackend')
+  setStorageBackend(createFirestoreBackend())
+}
+
+// Firestore is the default — loaded lazily so engines can run against a
+// local backend without pulling in Firebase at all
+function getBackend(): Promise<StorageBackend> {
+  if (backend) return Promise.resolve(backend)
+  if (!pendingBackend) {
+    pendingBackend = import('./firestoreBackend').then((m) => {
+      backend ??= m.createFirestoreBackend()
+      return backend
+    })
+  }
+  return pendingBackend
+}
+
+// ── Encryption ──
+
+// Free-text fields sealed client-side once the user turns on encryption.
+// Ids, timestamps and part ids stay in the clear so queries keep working.
+const ENCRYPTED_FIELDS: Partial<Record<string, readonly string[]>> = {
+  entries: ['content', 'plainText', 'title', 'intention'],
+  memories: ['content', 'quote'],
+  // Anything quoted from or written about the diary is as private as the diary
+  thoughts: ['content', 'anchorText', 'quotedText'],
+  interactions: ['partOpening', 'userResponse', 'partReply'],
+  entrySummaries: ['themes', 'emotionalArc', 'keyMoments'],
+  sessions: ['firstLine', 'sessionNote', 'runningSummary'],
+  letters: ['content'],
+  fossils: ['commentary'],
+  userProfile: ['recurringThemes', 'emotionalPatterns', 'avoidancePatterns', 'growthSignals', 'innerLandscape'],
+  // Embeddings can be inverted back toward the text they came from
+  embeddings: ['vector'],
+  // What a part learned (or was told, for parts the writer made) comes from the diary
+  parts: ['concern', 'voiceDescription', 'systemPrompt', 'systemPromptAddition', 'learnedKeywords', 'catchphrases'],
+  growthSnapshots: ['inputMemories', 'output', 'state'],
+}
+const MESSAGE_FIELDS = ['content'] as const
+const KEY_RECORD_ID = 'primary'
+
+let dataKey: CryptoKey | null = null
+// Set as soon as a key record is seen, so nothing is written in plaintext before unlock
+let keyRequired = false
+
+async function seal<T extends DocumentData>(doc: T, fields: readonly string[] | undefined): Promise<T> {
+  if (!fields) return doc
+  if (!dataKey) {
+    if (keyRequired) throw new Error('Journal is locked')
+    return doc
+  }
+  return encryptFields(dataKey, doc, fields)
+}
+
+async function unseal<T extends DocumentData>(doc: T, fields: readonly string[] | undefined): Promise<T> {
+  if (!fields) return doc
+  if (!dataKey) {
+    if (fields.some((field) => isEncryptedValue(doc[field]))) throw new Error('Journal is locked')
+    return doc
+  }
+  return decryptFields(dataKey, doc, fields)
+}
+
+/** True when this journal has a passphrase. Call before reading or writing anything. */
+export async function isEncryptionEnabled(): Promise<boolean> {
+  const record = await (await getBackend()).get('encryption', KEY_RECORD_ID)
+  keyRequired = record !== undefined
+  return keyRequired
+}
+
+export function isJournalUnlocked(): boolean {
+  return dataKey !== null
+}
+
+/** Unwraps the data key for this session. Throws IncorrectPassphraseError on a wrong passphrase. */
+export async function unlockEncryption(passphrase: string) {
+  const record = await (await getBackend()).get('encryption', KEY_RECORD_ID) as EncryptionKeyRecord | undefined
+  if (!record) throw new Error('Encryption is not enabled')
+  dataKey = await unwrapDataKey(record, passphrase)
+  keyRequired = true
 }
 
-function userCollection(name: string) {
-  return collection(firestore, 'users', getUid(), name)
+/**
+ * Turns on encryption and seals everything already stored. The wrapped key is
+ * saved first: if sealing is interrupted, the remaining documents stay readable
+ * and are sealed on their next write.
+ */
+export async function enableEncryption(passphrase: string) {
+  if (await isEncryptionEnabled()) throw new Error('Encryption is already enabled')
+  const { key, wrapped } = await createDataKey(passphrase)
+  const b = await getBackend()
+  const record: EncryptionKeyRecord = { id: KEY_RECORD_ID, ...wrapped, createdAt: Date.now() }
+  await b.set('encryption', KEY_RECORD_ID, record)
+  dataKey = key
+  keyRequired = true
+
+  for (const [name, fields] of Object.entries(ENCRYPTED_FIELDS)) {
+    const docs = await b.query(name)
+    if (docs.length > 0) await b.bulkSet(name, await Promise.all(docs.map((d) => seal(d, fields))))
+  }
+  for (const session of await b.query('sessions', { select: ['id'] })) {
+    const path = `sessions/${session.id}/messages`
+    const messages = await b.query(path)
+    if (messages.length > 0) await b.bulkSet(path, await Promise.all(messages.map((m) => seal(m, MESSAGE_FIELDS))))
+  }
+}
+
+async function runQuery<T>(name: string, spec?: QuerySpec, fields = ENCRYPTED_FIELDS[name]): Promise<T[]> {
+  const b = await getBackend()
+  const docs = await b.query(name, spec)
+  return (await Promise.all(docs.map((d) => unseal(d, fields)))) as T[]
+}
+
+// ── Query builder ──
+
+export interface WhereBuilder<T> {
+  equals(value: unknown): CollectionQuery<T>
+  above(value: unknown): CollectionQuery<T>
+  aboveOrEqual(value: unknown): CollectionQuery<T>
+  below(value: unknown): CollectionQuery<T>
+  belowOrEqual(value: unknown): CollectionQuery<T>
+  /** Dexie semantics: lower bound inclusive, upper bound exclusive by default */
+  between(lower: unknown, upper: unknown, includeLower?: boolean, includeUpper?: boolean): CollectionQuery<T>
 }
 
-function userDoc(collectionName: string, id: string) {
-  return doc(firestore, 'users', getUid(), collectionName, id)
+export interface CollectionQuery<T> {
+  where(field: string): WhereBuilder<T>
+  orderBy(field: string): CollectionQuery<T>
+  reverse(): CollectionQuery<T>
+  /** Resume after a value of the ordered field — pass the last item's value to page */
+  startAfter(value: unknown): CollectionQuery<T>
+  limit(n: number): CollectionQuery<T>
+  select<K extends keyof T & string>(...fields: K[]): CollectionQuery<Pick<T, K>>
+  toArray(): Promise<T[]>
+  first(): Promise<T | undefined>
+}
+
+interface QueryState {
+  where: WhereClause[]
+  orderField?: string
+  descending: boolean
+  startAfter?: unknown
+  limit?: number
+  select?: string[]
+}
+
+// Like Dexie, a range condition implies ordering by its field unless
+// orderBy() says otherwise — so where('timestamp').above(x).reverse() is newest-first
+function toQuerySpec(state: QueryState): QuerySpec {
+  const orderField = state.orderField
+    ?? state.where.find((clause) => clause.op !== '==')?.field
+  const spec: QuerySpec = { where: state.where }
+  if (orderField) {
+    spec.orderBy = { field: orderField, direction: state.descending ? 'desc' : 'asc' }
+    if (state.startAfter !== undefined) spec.startAfter = state.startAfter
+  }
+  if (state.limit !== undefined) spec.limit = state.limit
+  if (state.select) spec.select = state.select
+  return spec
+}
+
+function createQuery<T>(name: string, state: QueryState): CollectionQuery<T> {
+  const next = <U = T>(patch: Partial<QueryState>) => createQuery<U>(name, { ...state, ...patch })
+  const withClause = (field: string, op: WhereOp, value: unknown) =>
+    next({ where: [...state.where, { field, op, value }] })
+
+  return {
+    where(field) {
+      return {
+        equals: (value) => withClause(field, '==', value),
+        above: (value) => withClause(field, '>', value),
+        aboveOrEqual: (value) => withClause(field, '>=', value),
+        below: (value) => withClause(field, '<', value),
+        belowOrEqual: (value) => withClause(field, '<=', value),
+        between(lower, upper, includeLower = true, includeUpper = false) {
+          return next({
+            where: [
+              ...state.where,
+              { field, op: includeLower ? '>=' : '>', value: lower },
+              { field, op: includeUpper ? '<=' : '<', value: upper },
+            ],
+          })
+        },
+      }
+    },
+    orderBy: (field) => next({ orderField: field }),
+    reverse: () => next({ descending: !state.descending }),
+    startAfter: (value) => next({ startAfter: value }),
+    limit: (n) => next({ limit: n }),
+    select: (...fields) => next({ select: fields }),
+    toArray: () => runQuery<T>(name, toQuerySpec(state)),
+    async first() {
+      const [item] = await runQuery<T>(name, toQuerySpec({ ...state, limit: 1 }))
+      return item
+    },
+  }
 }
 
 // Wrapper that mimics the Dexie API used throughout the codebase
 function createCollectionProxy<T extends DocumentData = DocumentData>(name: string) {
+  const all = () => createQuery<T>(name, { where: [], descending: false })
+  const fields = ENCRYPTED_FIELDS[name]
+
   return {
     async add(data: T) {
       const id = (data as DocumentData).id as string
-      await setDoc(userDoc(name, id), data)
+      await (await getBackend()).set(name, id, await seal(data, fields))
     },
 
     async get(id: string): Promise<T | undefined> {
-      const snap = await getDoc(userDoc(name, id))
-      return snap.exists() ? (snap.data() as T) : undefined
+      const doc = await (await getBackend()).get(name, id)
+      return doc ? unseal(doc as T, fields) : undefined
     },
 
     async update(id: string, partial: Partial<T>) {
-      await updateDoc(userDoc(name, id), partial as DocumentData)
+      await (await getBackend()).update(name, id, await seal(partial as DocumentData, fields))
     },
 
     async delete(id: string) {
-      await deleteDoc(userDoc(name, id))
+      await (await getBackend()).delete(name, id)
     },
 
     async bulkPut(items: T[]) {
-      const batch = writeBatch(firestore)
-      for (const item of items) {
-        batch.set(userDoc(name, (item as DocumentData).id as string), item)
-      }
-      await batch.commit()
+      await (await getBackend()).bulkSet(name, await Promise.all(items.map((item) => seal(item, fields))))
+    },
+
+    async bulkUpdate(updates: Array<{ id: string; changes: Partial<T> }>) {
+      if (updates.length === 0) return
+      await (await getBackend()).bulkUpdate(name, await Promise.all(updates.map(async ({ id, changes }) => ({
+        id,
+        partial: await seal(changes as DocumentData, fields),
+      }))))
     },
 
     async count() {
-      const snap = await getCountFromServer(userCollection(name))
-      return snap.data().count
+      return (await getBackend()).count(name)
     },
 
-    async toArray(): Promise<T[]> {
-      const snap = await getDocs(userCollection(name))
-      return snap.docs.map((d) => d.data() as T)
+    async clear() {
+      const b = await getBackend()
+      for (const { id } of await b.query(name, { select: ['id'] })) await b.delete(name, id as string)
     },
 
-    orderBy(field: string) {
-      return {
-        reverse() {
-          return {
-            async toArray(): Promise<T[]> {
-              const q = query(userCollection(name), orderBy(field, 'desc'))
-              const snap = await getDocs(q)
-              return snap.docs.map((d) => d.data() as T)
-            },
-            limit(n: number) {
-              return {
-                async toArray(): Promise<T[]> {
-                  const q = query(userCollection(name), orderBy(field, 'desc'), limit(n))
-                  const snap = await getDocs(q)
-                  return snap.docs.map((d) => d.data() as T)
-                },
-              }
-            },
-          }
-        },
-        limit(n: number) {
-          return {
-            async toArray(): Promise<T[]> {
-              const q = query(userCollection(name), orderBy(field, 'asc'), limit(n))
-              const snap = await getDocs(q)
-              return snap.docs.map((d) => d.data() as T)
-            },
-          }
-        },
-        async toArray(): Promise<T[]> {
-          const q = query(userCollection(name), orderBy(field, 'asc'))
-          const snap = await getDocs(q)
-          return snap.docs.map((d) => d.data() as T)
-        },
-      }
+    toArray(): Promise<T[]> {
+      return all().toArray()
     },
 
-    where(field: string) {
-      return {
-        equals(value: unknown) {
-          return {
-            async toArray(): Promise<T[]> {
-              const q = query(userCollection(name), where(field, '==', value))
-              const snap = await getDocs(q)
-              return snap.docs.map((d) => d.data() as T)
-            },
-          }
-        },
-      }
+    orderBy(field: string): CollectionQuery<T> {
+      return all().orderBy(field)
+    },
+
+    where(field: string): WhereBuilder<T> {
+      return all().where(field)
     },
   }
 }
@@ -147,27 +314,57 @@ export const db = {
   sessions: createCollectionProxy<Session>('sessions'),
   apiKeys: createCollectionProxy<ApiKey>('apiKeys'),
   hrvSessions: createCollectionProxy<HrvSessionData>('hrvSessions'),
+  encryption: createCollectionProxy<EncryptionKeyRecord>('encryption'),
+  embeddings: createCollectionProxy<EmbeddingRecord>('embeddings'),
+  growthSnapshots: createCollectionProxy<PartGrowthSnapshot>('growthSnapshots'),
 }
 
 export const sessionMessages = {
   async add(sessionId: string, data: SessionMessage) {
-    const ref = doc(firestore, 'users', getUid(), 'sessions', sessionId, 'messages', data.id)
-    await setDoc(ref, data)
+    await (await getBackend()).set(`sessions/${sessionId}/messages`, data.id, await seal(data, MESSAGE_FIELDS))
+  },
+
+  async bulkPut(sessionId: string, messages: SessionMessage[]) {
+    const sealed = await Promise.all(messages.map((m) => seal(m, MESSAGE_FIELDS)))
+    await (await getBackend()).bulkSet(`sessions/${sessionId}/messages`, sealed)
+  },
+
+  async clear(sessionId: string) {
+    const b = await getBackend()
+    const path = `sessions/${sessionId}/messages`
+    for (const { id } of await b.query(path, { select: ['id'] })) await b.delete(path, id as string)
   },
 
   async getAll(sessionId: string): Promise<SessionMessage[]> {
-    const colRef = collection(firestore, 'users', getUid(), 'sessions', sessionId, 'messages')
-    const q = query(colRef, orderBy('timestamp', 'asc'))
-    const snap = await getDocs(q)
-    return snap.docs.map(d => d.data() as SessionMessage)
+    return runQuery<SessionMessage>(`sessions/${sessionId}/messages`, {
+      orderBy: { field: 'timestamp', direction: 'asc' },
+    }, MESSAGE_FIELDS)
   },
 
   subscribe(sessionId: string, callback: (messages: SessionMessage[]) => void) {
-    const colRef = collection(firestore, 'users', getUid(), 'sessions', sessionId, 'messages')
-    const q = query(colRef, orderBy('timestamp', 'asc'))
-    return onSnapshot(q, snap => {
-      callback(snap.docs.map(d => d.data() as SessionMessage))
-    })
+    let unsubscribe: (() => void) | null = null
+    let cancelled = false
+    // Decryption is async — drop snapshots that resolve after a newer one arrived
+    let latest = 0
+    getBackend().then((b) => {
+      if (cancelled) return
+      unsubscribe = b.subscribe(
+        `sessions/${sessionId}/messages`,
+        { orderBy: { field: 'timestamp', direction: 'asc' } },
+        (docs) => {
+          const seq = ++latest
+          Promise.all(docs.map((d) => unseal(d, MESSAGE_FIELDS)))
+            .then((messages) => {
+              if (!cancelled && seq === latest) callback(messages as SessionMessage[])
+            })
+            .catch(console.error)
+        },
+      )
+    }).catch(console.error)
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
   },
 }
 
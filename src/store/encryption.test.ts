@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('./globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import {
+  createDataKey, unwrapDataKey, encryptValue, decryptValue, encryptFields, decryptFields,
+  isEncryptedValue, IncorrectPassphraseError, ENCRYPTED_PREFIX,
+} from './encryption'
+import { createMemoryBackend } from './localBackend'
+import {
+  db, sessionMessages, setStorageBackend, enableEncryption, unlockEncryption,
+  isEncryptionEnabled, isJournalUnlocked,
+} from './db'
+import type { StorageBackend } from './storageBackend'
+
+// Low iteration count keeps the suite fast — the default is used in the app
+const ITERATIONS = 1000
+
+describe('encryption primitives', () => {
+  it('round-trips strings and structured values', async () => {
+    const { key } = await createDataKey('correct horse', ITERATIONS)
+    const sealed = await encryptValue(key, ['a', 'b'])
+    expect(isEncryptedValue(sealed)).toBe(true)
+    // The payload is ciphertext, not an encoding of the JSON
+    const payload = atob(sealed.slice(ENCRYPTED_PREFIX.length))
+    expect(payload).not.toContain('["a","b"]')
+    expect(payload.length).toBeGreaterThan('["a","b"]'.length)
+    expect(await decryptValue(key, sealed)).toEqual(['a', 'b'])
+  })
+
+  it('uses a fresh IV per value', async () => {
+    const { key } = await createDataKey('correct horse', ITERATIONS)
+    expect(await encryptValue(key, 'same')).not.toBe(await encryptValue(key, 'same'))
+  })
+
+  it('unwraps the data key with the right passphrase only', async () => {
+    const { key, wrapped } = await createDataKey('correct horse', ITERATIONS)
+    const sealed = await encryptValue(key, 'secret')
+    const unwrapped = await unwrapDataKey(wrapped, 'correct horse')
+    expect(await decryptValue(unwrapped, sealed)).toBe('secret')
+    await expect(unwrapDataKey(wrapped, 'wrong horse')).rejects.toBeInstanceOf(IncorrectPassphraseError)
+  })
+
+  it('seals only the listed fields and is idempotent', async () => {
+    const { key } = await createDataKey('pw', ITERATIONS)
+    const doc = { id: 'e1', content: '<p>hi</p>', createdAt: 1 }
+    const sealed = await encryptFields(key, doc, ['content', 'missing'])
+    expect(sealed.id).toBe('e1')
+    expect(sealed.createdAt).toBe(1)
+    expect('missing' in sealed).toBe(false)
+    expect(isEncryptedValue(sealed.content)).toBe(true)
+    expect(await encryptFields(key, sealed, ['content'])).toEqual(sealed)
+    expect(await decryptFields(key, sealed, ['content'])).toEqual(doc)
+  })
+})
+
+describe('encrypted journal', () => {
+  let backend: StorageBackend
+
+  beforeEach(() => {
+    backend = createMemoryBackend()
+    setStorageBackend(backend)
+  })
+
+  it('seals existing content when encryption is turned on', async () => {
+    await db.entries.add({ id: 'e1', content: '<p>dear diary</p>', plainText: 'dear diary', createdAt: 1, updatedAt: 1 })
+    await db.sessions.add({ id: 's1', startedAt: 1, endedAt: null, status: 'closed', hostPartId: 'watcher', participantPartIds: ['watcher'], openingMethod: 'auto', phase: 'opening', sessionNote: null, messageCount: 1, firstLine: '' })
+    await sessionMessages.add('s1', {
+      id: 'm1', speaker: 'user', partId: null, partName: null, content: 'hello', timestamp: 1, phase: 'opening', isEmergence: false,
+    })
+
+    await enableEncryption('pw')
+
+    const raw = await backend.get('entries', 'e1')
+    expect(isEncryptedValue(raw?.plainText)).toBe(true)
+    expect(raw?.createdAt).toBe(1)
+    expect(isEncryptedValue((await backend.get('sessions/s1/messages', 'm1'))?.content)).toBe(true)
+
+    // Reads through the proxy stay transparent
+    expect((await db.entries.get('e1'))?.plainText).toBe('dear diary')
+    expect((await sessionMessages.getAll('s1'))[0].content).toBe('hello')
+  })
+
+  it('requires the passphrase after a restart', async () => {
+    await enableEncryption('pw')
+    await db.memories.add({ id: 'm1', partId: 'watcher', entryId: 'e1', content: 'noticed tension', timestamp: 1 })
+
+    // Simulate a fresh page load against the same stored data
+    setStorageBackend(backend)
+    expect(isJournalUnlocked()).toBe(false)
+    expect(await isEncryptionEnabled()).toBe(true)
+    await expect(db.memories.toArray()).rejects.toThrow('Journal is locked')
+    await expect(db.memories.add({ id: 'm2', partId: 'watcher', entryId: 'e1', content: 'x', timestamp: 2 }))
+      .rejects.toThrow('Journal is locked')
+
+    await expect(unlockEncryption('nope')).rejects.toBeInstanceOf(IncorrectPassphraseError)
+    await unlockEncryption('pw')
+    expect((await db.memories.toArray())[0].content).toBe('noticed tension')
+  })
+
+  it('seals partial updates and everything derived from the diary', async () => {
+    await enableEncryption('pw')
+    await db.entries.add({ id: 'e1', content: '', plainText: '', createdAt: 1, updatedAt: 1 })
+    await db.entries.update('e1', { plainText: 'later', intention: 'be gentle', updatedAt: 2 })
+    await db.letters.add({ id: 'l1', partIds: [], content: 'a letter', triggerType: 'milestone', createdAt: 1, isRead: false })
+    await db.thoughts.add({ id: 't1', partId: 'watcher', entryId: 'e1', content: 'I see you', anchorText: 'later', anchorOffset: 0, timestamp: 1 })
+    await db.interactions.add({
+      id: 'i1', thoughtId: 't1', partId: 'watcher', entryId: 'e1', partOpening: 'hm?', userResponse: 'yes', partReply: null, status: 'complete', timestamp: 1,
+    })
+    await db.entrySummaries.add({ id: 'es1', entryId: 'e1', themes: ['work'], emotionalArc: 'calm', keyMoments: ['the call'], timestamp: 1 })
+    await db.sessions.add({ id: 's1', startedAt: 1, endedAt: null, status: 'active', hostPartId: 'watcher', participantPartIds: [], openingMethod: 'auto', phase: 'opening', sessionNote: 'a note', messageCount: 1, firstLine: 'I keep thinking', runningSummary: 'They talked about work.' })
+    await db.fossils.add({ id: 'f1', entryId: 'e1', partId: 'watcher', commentary: 'back then', createdAt: 1 })
+    await db.innerWeather.add({ id: 'w1', dominantEmotion: 'calm', intensity: 0.3, trend: 'steady', updatedAt: 1 })
+
+    const raw = await backend.get('entries', 'e1')
+    expect(isEncryptedValue(raw?.plainText)).toBe(true)
+    expect(isEncryptedValue(raw?.intention)).toBe(true)
+    expect(raw?.updatedAt).toBe(2)
+
+    const sealed: Array<[string, string, string[]]> = [
+      ['letters', 'l1', ['content']],
+      ['thoughts', 't1', ['content', 'anchorText']],
+      ['interactions', 'i1', ['partOpening', 'userResponse', 'partReply']],
+      ['entrySummaries', 'es1', ['themes', 'emotionalArc', 'keyMoments']],
+      ['sessions', 's1', ['firstLine', 'sessionNote', 'runningSummary']],
+      ['fossils', 'f1', ['commentary']],
+    ]
+    for (const [collection, id, fields] of sealed) {
+      const doc = await backend.get(collection, id)
+      for (const field of fields) expect(isEncryptedValue(doc?.[field]), `${collection}.${field}`).toBe(true)
+    }
+    expect((await backend.get('sessions', 's1'))?.hostPartId).toBe('watcher')
+
+    // Metadata-only collections stay queryable in the clear
+    expect((await backend.get('innerWeather', 'w1'))?.dominantEmotion).toBe('calm')
+    expect((await db.sessions.get('s1'))?.firstLine).toBe('I keep thinking')
+    expect((await db.entrySummaries.get('es1'))?.themes).toEqual(['work'])
+  })
+
+  it('seals what parts learned and the snapshots of their growth', async () => {
+    await db.parts.add({
+      id: 'p1', name: 'The Gardener', color: '#6B8F71', colorLight: '#6B8F7125', ifsRole: 'self',
+      voiceDescription: 'Patient.', concern: 'The allotment', systemPrompt: 'You tend what grows.',
+      isSeeded: false, createdAt: 1, systemPromptAddition: 'They miss their father.',
+      learnedKeywords: ['father'], learnedEmotions: ['sad'], catchphrases: ['slowly now'],
+    })
+    await enableEncryption('pw')
+    const state = { systemPromptAddition: 'They miss their father.', learnedKeywords: ['father'], learnedEmotions: ['sad' as const], catchphrases: ['slowly now'] }
+    await db.growthSnapshots.add({
+      id: 'g1', partId: 'p1', version: 1, createdAt: 2, trigger: 'growth',
+      inputMemories: ['missed dad at the allotment'], output: { promptAddition: 'They miss their father.' }, state,
+    })
+
+    const part = await backend.get('parts', 'p1')
+    for (const field of ['concern', 'voiceDescription', 'systemPrompt', 'systemPromptAddition', 'learnedKeywords', 'catchphrases']) {
+      expect(isEncryptedValue(part?.[field]), `parts.${field}`).toBe(true)
+    }
+    expect(part?.name).toBe('The Gardener')
+    const snapshot = await backend.get('growthSnapshots', 'g1')
+    for (const field of ['inputMemories', 'output', 'state']) {
+      expect(isEncryptedValue(snapshot?.[field]), `growthSnapshots.${field}`).toBe(true)
+    }
+    expect(snapshot?.version).toBe(1)
+
+    expect((await db.parts.get('p1'))?.learnedKeywords).toEqual(['father'])
+    expect((await db.parts.get('p1'))?.concern).toBe('The allotment')
+    expect((await db.growthSnapshots.get('g1'))?.state).toEqual(state)
+  })
+
+  it('refuses to enable twice', async () => {
+    await enableEncryption('pw')
+    await expect(enableEncryption('other')).rejects.toThrow('already enabled')
+  })
+})
@@ -0,0 +1,125 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { EncryptionKeyRecord } from '../types'
+
+// Encrypted values are stored as 'enc:v1:<base64 iv + ciphertext>' so they stay
+// strings at rest and the server can tell them apart from plaintext
+export const ENCRYPTED_PREFIX = 'enc:v1:'
+
+const PBKDF2_ITERATIONS = 310_000
+const IV_BYTES = 12
+
+/** Data key wrapped with a passphrase-derived key — safe to store next to the journal. */
+export type WrappedKey = Pick<EncryptionKeyRecord, 'salt' | 'iv' | 'wrappedKey' | 'iterations'>
+
+export class IncorrectPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase')
+    this.name = 'IncorrectPassphraseError'
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function deriveWrappingKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'],
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey'],
+  )
+}
+
+/** Generates a fresh data key and wraps it with the passphrase. */
+export async function createDataKey(
+  passphrase: string,
+  iterations = PBKDF2_ITERATIONS,
+): Promise<{ key: CryptoKey; wrapped: WrappedKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, iterations)
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv })
+  const wrapped: WrappedKey = {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+    iterations,
+  }
+  // Re-import through the unwrap path so the in-memory key is never extractable
+  const key = await crypto.subtle.unwrapKey(
+    'raw', wrappedKey, wrappingKey, { name: 'AES-GCM', iv },
+    { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'],
+  )
+  return { key, wrapped }
+}
+
+/** Recovers the data key. Throws IncorrectPassphraseError when the passphrase doesn't match. */
+export async function unwrapDataKey(wrapped: WrappedKey, passphrase: string): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(wrapped.salt), wrapped.iterations)
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw', fromBase64(wrapped.wrappedKey), wrappingKey, { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+      { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'],
+    )
+  } catch {
+    // AES-GCM authentication fails on a wrong wrapping key
+    throw new IncorrectPassphraseError()
+  }
+}
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX)
+}
+
+/** Encrypts any JSON-serializable value into a prefixed string. */
+export async function encryptValue(key: CryptoKey, value: unknown): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const plaintext = new TextEncoder().encode(JSON.stringify(value))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext))
+  const payload = new Uint8Array(IV_BYTES + ciphertext.length)
+  payload.set(iv)
+  payload.set(ciphertext, IV_BYTES)
+  return ENCRYPTED_PREFIX + toBase64(payload)
+}
+
+export async function decryptValue(key: CryptoKey, text: string): Promise<unknown> {
+  const payload = fromBase64(text.slice(ENCRYPTED_PREFIX.length))
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: payload.slice(0, IV_BYTES) }, key, payload.slice(IV_BYTES),
+  )
+  return JSON.parse(new TextDecoder().decode(plaintext))
+}
+
+/** Returns a copy with the listed fields encrypted. Missing fields are left alone. */
+export async function encryptFields<T extends DocumentData>(key: CryptoKey, doc: T, fields: readonly string[]): Promise<T> {
+  const result: DocumentData = { ...doc }
+  for (const field of fields) {
+    if (result[field] === undefined || isEncryptedValue(result[field])) continue
+    result[field] = await encryptValue(key, result[field])
+  }
+  return result as T
+}
+
+/** Returns a copy with the listed fields decrypted. Plaintext fields pass through unchanged. */
+export async function decryptFields<T extends DocumentData>(key: CryptoKey, doc: T, fields: readonly string[]): Promise<T> {
+  const result: DocumentData = { ...doc }
+  for (const field of fields) {
+    if (isEncryptedValue(result[field])) result[field] = await decryptValue(key, result[field])
+  }
+  return result as T
+}
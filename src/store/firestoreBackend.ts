@@ -0,0 +1,113 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  orderBy,
+  limit,
+  startAfter,
+  writeBatch,
+  getCountFromServer,
+  where,
+  deleteDoc,
+  onSnapshot,
+} from 'firebase/firestore'
+import type { DocumentData, QueryConstraint } from 'firebase/firestore'
+import { getAuth } from 'firebase/auth'
+import { firestore } from '../firebase'
+import type { QuerySpec, StorageBackend } from './storageBackend'
+
+function getUid(): string {
+  const user = getAuth().currentUser
+  if (!user) throw new Error('Not authenticated')
+  return user.uid
+}
+
+function userCollection(path: string) {
+  return collection(firestore, 'users', getUid(), ...path.split('/'))
+}
+
+function userDoc(path: string, id: string) {
+  return doc(firestore, 'users', getUid(), ...path.split('/'), id)
+}
+
+function buildQuery(path: string, spec: QuerySpec = {}) {
+  const constraints: QueryConstraint[] = []
+  for (const clause of spec.where ?? []) {
+    constraints.push(where(clause.field, clause.op, clause.value))
+  }
+  if (spec.orderBy) constraints.push(orderBy(spec.orderBy.field, spec.orderBy.direction))
+  if (spec.orderBy && spec.startAfter !== undefined) constraints.push(startAfter(spec.startAfter))
+  if (spec.limit !== undefined) constraints.push(limit(spec.limit))
+  return query(userCollection(path), ...constraints)
+}
+
+function project(data: DocumentData, select: string[] | undefined): DocumentData {
+  if (!select) return data
+  const picked: DocumentData = {}
+  for (const field of select) {
+    if (field in data) picked[field] = data[field]
+  }
+  return picked
+}
+
+export function createFirestoreBackend(): StorageBackend {
+  return {
+    kind: 'cloud',
+
+    async get(path, id) {
+      const snap = await getDoc(userDoc(path, id))
+      return snap.exists() ? snap.data() : undefined
+    },
+
+    async set(path, id, data) {
+      await setDoc(userDoc(path, id), data)
+    },
+
+    async update(path, id, partial) {
+      await updateDoc(userDoc(path, id), partial)
+    },
+
+    async delete(path, id) {
+      await deleteDoc(userDoc(path, id))
+    },
+
+    async bulkSet(path, items) {
+      // Firestore caps a batch at 500 writes
+      for (let i = 0; i < items.length; i += 500) {
+        const batch = writeBatch(firestore)
+        for (const item of items.slice(i, i + 500)) {
+          batch.set(userDoc(path, (item as DocumentData).id as string), item)
+        }
+        await batch.commit()
+      }
+    },
+
+    async bulkUpdate(path, updates) {
+      for (let i = 0; i < updates.length; i += 500) {
+        const batch = writeBatch(firestore)
+        for (const { id, partial } of updates.slice(i, i + 500)) batch.update(userDoc(path, id), partial)
+        await batch.commit()
+      }
+    },
+
+    async count(path) {
+      const snap = await getCountFromServer(userCollection(path))
+      return snap.data().count
+    },
+
+    async query(path, spec) {
+      const snap = await getDocs(buildQuery(path, spec))
+      return snap.docs.map((d) => project(d.data(), spec?.select))
+    },
+
+    subscribe(path, spec, callback) {
+      return onSnapshot(buildQuery(path, spec), (snap) => {
+        callback(snap.docs.map((d) => project(d.data(), spec.select)))
+      })
+    },
+  }
+}
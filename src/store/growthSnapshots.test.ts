@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('./globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import { createMemoryBackend } from './localBackend'
+import { db, setStorageBackend } from './db'
+import { diffGrowthStates, isEmptyDiff, ensureBaselineSnapshot, loadGrowthTimeline } from './growthSnapshots'
+import type { Part, PartGrowthState } from '../types'
+
+const before: PartGrowthState = {
+  systemPromptAddition: 'They write at night.',
+  learnedKeywords: ['night', 'tired'],
+  learnedEmotions: ['sad'],
+  catchphrases: [],
+}
+
+describe('diffGrowthStates', () => {
+  it('lists what was added and removed', () => {
+    const diff = diffGrowthStates(before, {
+      ...before,
+      learnedKeywords: ['night', 'morning'],
+      catchphrases: ['not yet'],
+    })
+    expect(diff.keywords).toEqual({ added: ['morning'], removed: ['tired'] })
+    expect(diff.catchphrases).toEqual({ added: ['not yet'], removed: [] })
+    expect(diff.promptAddition).toBeNull()
+  })
+
+  it('shows a changed prompt addition before and after', () => {
+    const diff = diffGrowthStates(before, { ...before, systemPromptAddition: 'They avoid mornings.' })
+    expect(diff.promptAddition).toEqual({ before: 'They write at night.', after: 'They avoid mornings.' })
+  })
+
+  it('is empty for identical states', () => {
+    expect(isEmptyDiff(diffGrowthStates(before, { ...before }))).toBe(true)
+  })
+})
+
+describe('ensureBaselineSnapshot', () => {
+  beforeEach(() => setStorageBackend(createMemoryBackend()))
+
+  it('records the current state once, at the part\'s current version', async () => {
+    const part = {
+      id: 'watcher', growthVersion: 4, systemPromptAddition: 'They write at night.', learnedKeywords: ['night'],
+    } as Part
+    await ensureBaselineSnapshot(part)
+    await ensureBaselineSnapshot(part)
+
+    const timeline = await loadGrowthTimeline('watcher')
+    expect(timeline).toHaveLength(1)
+    expect(timeline[0]).toMatchObject({
+      version: 4,
+      trigger: 'baseline',
+      state: { systemPromptAddition: 'They write at night.', learnedKeywords: ['night'], learnedEmotions: [] },
+    })
+    expect(await db.growthSnapshots.count()).toBe(1)
+  })
+})
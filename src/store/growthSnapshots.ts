@@ -0,0 +1,82 @@
+import { db, generateId } from './db'
+import type { Part, PartGrowthSnapshot, PartGrowthState } from '../types'
+
+// ── Growth snapshots ──
+// Every change to a part's learned fields (growth, merge, revert) is written
+// as a new snapshot holding the resulting state and why it changed. Snapshots
+// are only ever added, so a part's timeline can be replayed and any version
+// restored.
+
+export function growthStateOf(part: Part): PartGrowthState {
+  return {
+    systemPromptAddition: part.systemPromptAddition ?? '',
+    learnedKeywords: part.learnedKeywords ?? [],
+    learnedEmotions: part.learnedEmotions ?? [],
+    catchphrases: part.catchphrases ?? [],
+  }
+}
+
+/** A part's snapshots, oldest first. */
+export async function loadGrowthTimeline(partId: string): Promise<PartGrowthSnapshot[]> {
+  const snapshots = await db.growthSnapshots.where('partId').equals(partId).toArray()
+  return snapshots.sort((a, b) => a.version - b.version || a.createdAt - b.createdAt)
+}
+
+export async function recordGrowthSnapshot(
+  snapshot: Omit<PartGrowthSnapshot, 'id' | 'createdAt'>,
+): Promise<PartGrowthSnapshot> {
+  const record: PartGrowthSnapshot = { ...snapshot, id: generateId(), createdAt: Date.now() }
+  await db.growthSnapshots.add(record)
+  return record
+}
+
+/**
+ * Parts that grew before snapshots existed have no history to revert to.
+ * Records their current state once, so the first change has a "before".
+ */
+export async function ensureBaselineSnapshot(part: Part): Promise<void> {
+  const existing = await db.growthSnapshots.where('partId').equals(part.id).limit(1).toArray()
+  if (existing.length > 0) return
+  await recordGrowthSnapshot({
+    partId: part.id,
+    version: part.growthVersion ?? 0,
+    trigger: 'baseline',
+    state: growthStateOf(part),
+  })
+}
+
+export interface ListDiff {
+  added: string[]
+  removed: string[]
+}
+
+export interface GrowthDiff {
+  /** Set when the prompt addition changed */
+  promptAddition: { before: string; after: string } | null
+  keywords: ListDiff
+  emotions: ListDiff
+  catchphrases: ListDiff
+}
+
+function diffList(before: string[], after: string[]): ListDiff {
+  return {
+    added: after.filter((item) => !before.includes(item)),
+    removed: before.filter((item) => !after.includes(item)),
+  }
+}
+
+export function diffGrowthStates(before: PartGrowthState, after: PartGrowthState): GrowthDiff {
+  return {
+    promptAddition: before.systemPromptAddition !== after.systemPromptAddition
+      ? { before: before.systemPromptAddition, after: after.systemPromptAddition }
+      : null,
+    keywords: diffList(before.learnedKeywords, after.learnedKeywords),
+    emotions: diffList(before.learnedEmotions, after.learnedEmotions),
+    catchphrases: diffList(before.catchphrases, after.catchphrases),
+  }
+}
+
+export function isEmptyDiff(diff: GrowthDiff): boolean {
+  return !diff.promptAddition
+    && [diff.keywords, diff.emotions, diff.catchphrases].every((d) => d.added.length === 0 && d.removed.length === 0)
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('./globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+
+import { applyQuery, createMemoryBackend } from './localBackend'
+import { db, sessionMessages, setStorageBackend, initializeDB, getStorageMode } from './db'
+import type { SessionMessage } from '../types'
+
+describe('applyQuery', () => {
+  const docs = [
+    { id: 'a', kind: 'x', timestamp: 3 },
+    { id: 'b', kind: 'y', timestamp: 1 },
+    { id: 'c', kind: 'x', timestamp: 2 },
+    { id: 'd', kind: 'x' },
+  ]
+
+  it('returns everything for an empty spec', () => {
+    expect(applyQuery(docs)).toHaveLength(4)
+  })
+
+  it('filters by equality', () => {
+    const result = applyQuery(docs, { where: [{ field: 'kind', op: '==', value: 'x' }] })
+    expect(result.map((d) => d.id)).toEqual(['a', 'c', 'd'])
+  })
+
+  it('orders and drops documents missing the ordered field', () => {
+    const result = applyQuery(docs, { orderBy: { field: 'timestamp', direction: 'desc' } })
+    expect(result.map((d) => d.id)).toEqual(['a', 'c', 'b'])
+  })
+
+  it('applies limit after ordering', () => {
+    const result = applyQuery(docs, { orderBy: { field: 'timestamp', direction: 'asc' }, limit: 2 })
+    expect(result.map((d) => d.id)).toEqual(['b', 'c'])
+  })
+
+  it('combines range and equality clauses, skipping missing fields', () => {
+    const result = applyQuery(docs, {
+      where: [
+        { field: 'kind', op: '==', value: 'x' },
+        { field: 'timestamp', op: '>=', value: 2 },
+      ],
+    })
+    expect(result.map((d) => d.id)).toEqual(['a', 'c'])
+  })
+
+  it('resumes after a cursor in either direction', () => {
+    const asc = applyQuery(docs, { orderBy: { field: 'timestamp', direction: 'asc' }, startAfter: 1 })
+    expect(asc.map((d) => d.id)).toEqual(['c', 'a'])
+    const desc = applyQuery(docs, { orderBy: { field: 'timestamp', direction: 'desc' }, startAfter: 3, limit: 1 })
+    expect(desc.map((d) => d.id)).toEqual(['c'])
+  })
+
+  it('projects selected fields', () => {
+    const result = applyQuery(docs, { where: [{ field: 'id', op: '==', value: 'a' }], select: ['id', 'timestamp'] })
+    expect(result).toEqual([{ id: 'a', timestamp: 3 }])
+  })
+})
+
+describe('memory backend', () => {
+  it('stores copies, not references', async () => {
+    const backend = createMemoryBackend()
+    const data = { id: '1', tags: ['a'] }
+    await backend.set('entries', '1', data)
+    data.tags.push('b')
+    expect((await backend.get('entries', '1'))?.tags).toEqual(['a'])
+  })
+
+  it('rejects updates to missing documents like Firestore does', async () => {
+    const backend = createMemoryBackend()
+    await expect(backend.update('entries', 'missing', { title: 'x' })).rejects.toThrow()
+  })
+
+  it('keeps subcollections separate from their parent', async () => {
+    const backend = createMemoryBackend()
+    await backend.set('sessions', 's1', { id: 's1' })
+    await backend.set('sessions/s1/messages', 'm1', { id: 'm1' })
+    expect(await backend.count('sessions')).toBe(1)
+    expect(await backend.count('sessions/s1/messages')).toBe(1)
+  })
+
+  it('notifies subscribers after writes', async () => {
+    const backend = createMemoryBackend()
+    const callback = vi.fn()
+    const unsubscribe = backend.subscribe('entries', {}, callback)
+    await backend.set('entries', '1', { id: '1' })
+    expect(callback).toHaveBeenLastCalledWith([{ id: '1' }])
+    unsubscribe()
+    await backend.set('entries', '2', { id: '2' })
+    expect(callback).not.toHaveBeenLastCalledWith(expect.arrayContaining([{ id: '2' }]))
+  })
+})
+
+describe('db proxy on a local backend', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend())
+  })
+
+  it('reports the active storage mode', () => {
+    expect(getStorageMode()).toBe('memory')
+  })
+
+  it('supports the Dexie-style query chain', async () => {
+    for (const [id, createdAt] of [['a', 1], ['b', 3], ['c', 2]] as const) {
+      await db.entries.add({ id, content: '', plainText: '', createdAt, updatedAt: createdAt })
+    }
+    const newest = await db.entries.orderBy('createdAt').reverse().limit(2).toArray()
+    expect(newest.map((e) => e.id)).toEqual(['b', 'c'])
+
+    await db.entries.update('a', { favorited: true })
+    expect((await db.entries.get('a'))?.favorited).toBe(true)
+    expect(await db.entries.where('favorited').equals(true).toArray()).toHaveLength(1)
+
+    await db.entries.delete('a')
+    expect(await db.entries.count()).toBe(2)
+  })
+
+  it('builds range queries that imply ordering by the ranged field', async () => {
+    for (const [id, timestamp] of [['a', 10], ['b', 20], ['c', 30], ['d', 40]] as const) {
+      await db.sessionLog.add({ id, startedAt: timestamp, wordCount: 0, timeOfDay: 'morning', dayOfWeek: 1 })
+    }
+    const between = await db.sessionLog.where('startedAt').between(10, 40).reverse().toArray()
+    expect(between.map((l) => l.id)).toEqual(['c', 'b', 'a'])
+
+    const firstPage = await db.sessionLog.orderBy('startedAt').reverse().limit(2).toArray()
+    const secondPage = await db.sessionLog.orderBy('startedAt').reverse()
+      .startAfter(firstPage[firstPage.length - 1].startedAt).limit(2).toArray()
+    expect([...firstPage, ...secondPage].map((l) => l.id)).toEqual(['d', 'c', 'b', 'a'])
+
+    const projected = await db.sessionLog.where('startedAt').above(30).select('id').first()
+    expect(projected).toEqual({ id: 'd' })
+  })
+
+  it('seeds parts on first initialization', async () => {
+    await initializeDB()
+    const parts = await db.parts.toArray()
+    expect(parts.length).toBeGreaterThan(0)
+    expect(parts.every((p) => p.isSeeded)).toBe(true)
+  })
+
+  it('stores session messages ordered by timestamp', async () => {
+    const message = (id: string, timestamp: number): SessionMessage => ({
+      id, speaker: 'user', partId: null, partName: null, content: id,
+      timestamp, phase: 'opening', isEmergence: false,
+    })
+    await sessionMessages.add('s1', message('late', 2))
+    await sessionMessages.add('s1', message('early', 1))
+    const all = await sessionMessages.getAll('s1')
+    expect(all.map((m) => m.id)).toEqual(['early', 'late'])
+  })
+})
@@ -0,0 +1,239 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { QuerySpec, StorageBackend, WhereClause } from './storageBackend'
+
+// Raw key-value layer the local backend sits on — a Map in tests,
+// IndexedDB in the browser. Documents are grouped by collection path.
+interface LocalStore {
+  get(path: string, id: string): Promise<DocumentData | undefined>
+  put(path: string, id: string, data: DocumentData): Promise<void>
+  putMany(path: string, docs: Array<[string, DocumentData]>): Promise<void>
+  remove(path: string, id: string): Promise<void>
+  list(path: string): Promise<DocumentData[]>
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return -1
+  if (b === undefined || b === null) return 1
+  return (a as number | string) < (b as number | string) ? -1 : 1
+}
+
+function matches(value: unknown, clause: WhereClause): boolean {
+  if (clause.op === '==') return value === clause.value
+  // Firestore range filters never match missing fields
+  if (value === undefined || value === null) return false
+  const cmp = compareValues(value, clause.value)
+  switch (clause.op) {
+    case '>': return cmp > 0
+    case '>=': return cmp >= 0
+    case '<': return cmp < 0
+    case '<=': return cmp <= 0
+  }
+}
+
+/** Evaluates a QuerySpec in memory, mirroring Firestore's semantics for the supported subset. */
+export function applyQuery(docs: DocumentData[], spec: QuerySpec = {}): DocumentData[] {
+  let result = docs.filter((d) =>
+    (spec.where ?? []).every((clause) => matches(d[clause.field], clause)),
+  )
+
+  if (spec.orderBy) {
+    const { field, direction } = spec.orderBy
+    // Firestore omits documents that lack the ordered field
+    result = result
+      .filter((d) => d[field] !== undefined)
+      .sort((a, b) => {
+        const cmp = compareValues(a[field], b[field])
+        return direction === 'desc' ? -cmp : cmp
+      })
+
+    if (spec.startAfter !== undefined) {
+      result = result.filter((d) => {
+        const cmp = compareValues(d[field], spec.startAfter)
+        return direction === 'desc' ? cmp < 0 : cmp > 0
+      })
+    }
+  }
+
+  if (spec.limit !== undefined) result = result.slice(0, spec.limit)
+
+  if (spec.select) {
+    const fields = spec.select
+    result = result.map((d) => Object.fromEntries(fields.filter((f) => f in d).map((f) => [f, d[f]])))
+  }
+  return result
+}
+
+function createLocalBackend(store: LocalStore, kind: StorageBackend['kind']): StorageBackend {
+  const subscribers = new Map<string, Set<{ spec: QuerySpec; callback: (docs: DocumentData[]) => void }>>()
+
+  async function notify(path: string) {
+    const subs = subscribers.get(path)
+    if (!subs || subs.size === 0) return
+    const docs = await store.list(path)
+    for (const sub of subs) sub.callback(applyQuery(docs, sub.spec))
+  }
+
+  return {
+    kind,
+
+    get(path, id) {
+      return store.get(path, id)
+    },
+
+    async set(path, id, data) {
+      await store.put(path, id, data)
+      await notify(path)
+    },
+
+    async update(path, id, partial) {
+      const existing = await store.get(path, id)
+      if (!existing) throw new Error(`No document to update: ${path}/${id}`)
+      await store.put(path, id, { ...existing, ...partial })
+      await notify(path)
+    },
+
+    async delete(path, id) {
+      await store.remove(path, id)
+      await notify(path)
+    },
+
+    async bulkSet(path, items) {
+      await store.putMany(path, items.map((item) => [item.id as string, item]))
+      await notify(path)
+    },
+
+    async bulkUpdate(path, updates) {
+      const docs = await Promise.all(updates.map(async ({ id, partial }): Promise<[string, DocumentData]> => {
+        const existing = await store.get(path, id)
+        if (!existing) throw new Error(`No document to update: ${path}/${id}`)
+        return [id, { ...existing, ...partial }]
+      }))
+      await store.putMany(path, docs)
+      await notify(path)
+    },
+
+    async count(path) {
+      return (await store.list(path)).length
+    },
+
+    async query(path, spec) {
+      return applyQuery(await store.list(path), spec)
+    },
+
+    subscribe(path, spec, callback) {
+      const sub = { spec, callback }
+      if (!subscribers.has(path)) subscribers.set(path, new Set())
+      subscribers.get(path)!.add(sub)
+      store.list(path).then((docs) => callback(applyQuery(docs, spec))).catch(console.error)
+      return () => { subscribers.get(path)?.delete(sub) }
+    },
+  }
+}
+
+// ── In-memory store (tests, environments without IndexedDB) ──
+
+export function createMemoryBackend(): StorageBackend {
+  const collections = new Map<string, Map<string, DocumentData>>()
+  const bucket = (path: string) => {
+    if (!collections.has(path)) collections.set(path, new Map())
+    return collections.get(path)!
+  }
+
+  return createLocalBackend({
+    async get(path, id) {
+      const data = collections.get(path)?.get(id)
+      return data ? structuredClone(data) : undefined
+    },
+    async put(path, id, data) {
+      bucket(path).set(id, structuredClone(data))
+    },
+    async putMany(path, docs) {
+      for (const [id, data] of docs) bucket(path).set(id, structuredClone(data))
+    },
+    async remove(path, id) {
+      collections.get(path)?.delete(id)
+    },
+    async list(path) {
+      return [...(collections.get(path)?.values() ?? [])].map((d) => structuredClone(d))
+    },
+  }, 'memory')
+}
+
+// ── IndexedDB store (on-device journal) ──
+
+const IDB_STORE = 'documents'
+
+interface IdbRecord {
+  path: string
+  id: string
+  data: DocumentData
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, 1)
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(IDB_STORE, { keyPath: ['path', 'id'] })
+    store.createIndex('path', 'path')
+  }
+  return promisify(request)
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export function createIndexedDBBackend(dbName: string): StorageBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null
+  const open = () => {
+    if (!dbPromise) dbPromise = openDatabase(dbName)
+    return dbPromise
+  }
+
+  return createLocalBackend({
+    async get(path, id) {
+      const idb = await open()
+      const record = await promisify<IdbRecord | undefined>(
+        idb.transaction(IDB_STORE).objectStore(IDB_STORE).get([path, id]),
+      )
+      return record?.data
+    },
+    async put(path, id, data) {
+      const idb = await open()
+      const tx = idb.transaction(IDB_STORE, 'readwrite')
+      tx.objectStore(IDB_STORE).put({ path, id, data } satisfies IdbRecord)
+      await transactionDone(tx)
+    },
+    async putMany(path, docs) {
+      const idb = await open()
+      const tx = idb.transaction(IDB_STORE, 'readwrite')
+      const store = tx.objectStore(IDB_STORE)
+      for (const [id, data] of docs) store.put({ path, id, data } satisfies IdbRecord)
+      await transactionDone(tx)
+    },
+    async remove(path, id) {
+      const idb = await open()
+      const tx = idb.transaction(IDB_STORE, 'readwrite')
+      tx.objectStore(IDB_STORE).delete([path, id])
+      await transactionDone(tx)
+    },
+    async list(path) {
+      const idb = await open()
+      const records = await promisify<IdbRecord[]>(
+        idb.transaction(IDB_STORE).objectStore(IDB_STORE).index('path').getAll(path),
+      )
+      return records.map((r) => r.data)
+    },
+  }, 'device')
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock globalConfig to avoid importing firebase.ts (needs real API keys)
+vi.mock('./globalConfig', () => ({
+  getGlobalConfig: () => null,
+}))
+vi.mock('../services/analytics', () => ({
+  trackEvent: vi.fn(),
+}))
+
+import { createMemoryBackend } from './localBackend'
+import { db, setStorageBackend } from './db'
+import {
+  updatePartDetails, mutePart, isPartMuted, retirePart, restorePart, loadActiveParts,
+  mergeParts, revertGrowth, subscribePartsChanged,
+} from './partManagement'
+import { loadGrowthTimeline, recordGrowthSnapshot, growthStateOf } from './growthSnapshots'
+import type { Part } from '../types'
+
+function makePart(overrides: Partial<Part> = {}): Part {
+  return {
+    id: 'part-1', name: 'The Runner', color: '#7D9EC2', colorLight: '#7D9EC225', ifsRole: 'firefighter',
+    voiceDescription: '', concern: 'getting away', systemPrompt: 'You are The Runner.',
+    isSeeded: false, createdAt: Date.now(), ...overrides,
+  }
+}
+
+describe('part management', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend())
+  })
+
+  it('renames and recolors a part, flagging the writer\'s edits', async () => {
+    await db.parts.add(makePart())
+    const updated = await updatePartDetails('part-1', { name: '  The One Who Runs ', color: '#112233', concern: 'getting away' })
+    expect(updated).toMatchObject({ name: 'The One Who Runs', nameEdited: true, color: '#112233', colorLight: '#11223325' })
+    expect(updated?.concernEdited).toBeUndefined()
+  })
+
+  it('ignores colors that are not hex', async () => {
+    await db.parts.add(makePart())
+    expect((await updatePartDetails('part-1', { color: 'red' }))?.color).toBe('#7D9EC2')
+  })
+
+  it('mutes a part until a time and lifts the mute', async () => {
+    await db.parts.add(makePart())
+    await mutePart('part-1', Date.now() + 60_000)
+    expect(isPartMuted((await db.parts.get('part-1'))!)).toBe(true)
+    await mutePart('part-1', null)
+    expect(isPartMuted((await db.parts.get('part-1'))!)).toBe(false)
+  })
+
+  it('archives and restores a part, notifying subscribers', async () => {
+    const listener = vi.fn()
+    const unsubscribe = subscribePartsChanged(listener)
+    await db.parts.add(makePart())
+
+    await retirePart('part-1')
+    expect(await loadActiveParts()).toEqual([])
+    await restorePart('part-1')
+    expect(await loadActiveParts()).toHaveLength(1)
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    unsubscribe()
+  })
+
+  it('merges two emerged parts, moving memories and combining what they learned', async () => {
+    await db.parts.add(makePart({ id: 'a', learnedKeywords: ['escape'], learnedEmotions: ['anxious'] }))
+    await db.parts.add(makePart({ id: 'b', learnedKeywords: ['run', 'escape'], catchphrases: ['just go'] }))
+    await db.memories.add({ id: 'm1', partId: 'a', entryId: 'e1', content: 'wanted to leave', timestamp: 1 })
+
+    const merged = await mergeParts('a', 'b')
+    expect(merged?.learnedKeywords).toEqual(['run', 'escape'])
+    expect(merged?.learnedEmotions).toEqual(['anxious'])
+    expect(merged?.catchphrases).toEqual(['just go'])
+    expect((await db.memories.get('m1'))?.partId).toBe('b')
+    expect(await db.parts.get('a')).toMatchObject({ mergedInto: 'b' })
+    expect((await loadActiveParts()).map((p) => p.id)).toEqual(['b'])
+  })
+
+  it('refuses to merge seeded parts', async () => {
+    await db.parts.add(makePart({ id: 'a' }))
+    await db.parts.add(makePart({ id: 'watcher', isSeeded: true }))
+    expect(await mergeParts('a', 'watcher')).toBeNull()
+    expect(await mergeParts('watcher', 'a')).toBeNull()
+  })
+
+  it('records a merge as a new growth version of the target', async () => {
+    await db.parts.add(makePart({ id: 'a', name: 'The Fleer', learnedKeywords: ['escape'] }))
+    await db.parts.add(makePart({ id: 'b', growthVersion: 2 }))
+
+    await mergeParts('a', 'b')
+    const timeline = await loadGrowthTimeline('b')
+    expect(timeline.map((s) => [s.version, s.trigger])).toEqual([[2, 'baseline'], [3, 'merge']])
+    expect(timeline[1]).toMatchObject({ mergedFrom: 'The Fleer', state: { learnedKeywords: ['escape'] } })
+  })
+
+  it('reverts to an earlier version as a new version, keeping the history', async () => {
+    const v1 = makePart({ growthVersion: 1, systemPromptAddition: 'They write at night.', learnedKeywords: ['night'] })
+    const v2 = { ...v1, growthVersion: 2, systemPromptAddition: 'They avoid mornings.', learnedKeywords: ['night', 'morning'] }
+    await db.parts.add(v2)
+    await recordGrowthSnapshot({ partId: 'part-1', version: 1, trigger: 'baseline', state: growthStateOf(v1) })
+    await recordGrowthSnapshot({ partId: 'part-1', version: 2, trigger: 'growth', state: growthStateOf(v2) })
+
+    const reverted = await revertGrowth('part-1', 1)
+    expect(reverted).toMatchObject({
+      growthVersion: 3,
+      systemPromptAddition: 'They write at night.',
+      learnedKeywords: ['night'],
+    })
+    const timeline = await loadGrowthTimeline('part-1')
+    expect(timeline).toHaveLength(3)
+    expect(timeline[2]).toMatchObject({ version: 3, trigger: 'revert', revertedTo: 1 })
+    expect(await revertGrowth('part-1', 7)).toBeNull()
+  })
+})
@@ -0,0 +1,174 @@
+import { db, generateId } from './db'
+import { getGlobalConfig } from './globalConfig'
+import { trackEvent } from '../services/analytics'
+import { buildIntroducedPartPrompt } from '../ai/partPrompts'
+import { growthStateOf, ensureBaselineSnapshot, recordGrowthSnapshot } from './growthSnapshots'
+import type { Part, PartDraft } from '../types'
+
+// Writer-side edits to parts from the parts panel. A journal that is open
+// subscribes so its orchestrator reloads parts in place.
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+const listeners = new Set<() => void>()
+
+function notify() {
+  for (const fn of listeners) fn()
+}
+
+export function subscribePartsChanged(callback: () => void) {
+  listeners.add(callback)
+  return () => { listeners.delete(callback) }
+}
+
+export function isPartMuted(part: Part, now: number = Date.now()): boolean {
+  return !!part.mutedUntil && part.mutedUntil > now
+}
+
+/** Parts that take part in journaling and sessions — archived ones are left out. */
+export async function loadActiveParts(): Promise<Part[]> {
+  const parts = await db.parts.toArray()
+  return parts.filter((p) => !p.retiredAt)
+}
+
+export async function updatePartDetails(
+  partId: string,
+  details: { name?: string; color?: string; concern?: string },
+): Promise<Part | null> {
+  const part = await db.parts.get(partId)
+  if (!part) return null
+
+  const changes: Partial<Part> = {}
+  const name = details.name?.trim()
+  if (name && name !== part.name) {
+    changes.name = name.slice(0, 40)
+    changes.nameEdited = true
+  }
+  if (details.color && HEX_COLOR.test(details.color) && details.color !== part.color) {
+    changes.color = details.color
+    changes.colorLight = details.color + '25'
+  }
+  const concern = details.concern?.trim()
+  if (concern && concern !== part.concern) {
+    changes.concern = concern.slice(0, 200)
+    changes.concernEdited = true
+  }
+  if (Object.keys(changes).length === 0) return part
+
+  await db.parts.update(partId, changes)
+  trackEvent('part_edited', { fields: Object.keys(changes).join(',') })
+  notify()
+  return { ...part, ...changes }
+}
+
+/**
+ * Adds a part the writer introduced, once they have approved its draft. It
+ * joins journaling and sessions like an emerged part, starting with the
+ * draft's keywords so the orchestrator can pick it before it has grown.
+ */
+export async function introducePart(draft: PartDraft): Promise<Part> {
+  const color = HEX_COLOR.test(draft.color) ? draft.color : '#8A8A8A'
+  const part: Part = {
+    id: generateId(),
+    name: draft.name.trim().slice(0, 40),
+    color,
+    colorLight: color + '25',
+    ifsRole: draft.ifsRole,
+    voiceDescription: draft.voiceDescription.trim(),
+    concern: draft.concern.trim().slice(0, 200),
+    systemPrompt: buildIntroducedPartPrompt(draft),
+    isSeeded: false,
+    createdAt: Date.now(),
+    learnedKeywords: draft.keywords,
+    introducedByWriter: true,
+  }
+  await db.parts.add(part)
+  trackEvent('part_introduced', { role: draft.ifsRole })
+  notify()
+  return part
+}
+
+/** Silences a part until `until`; null lifts the mute. */
+export async function mutePart(partId: string, until: number | null): Promise<void> {
+  await db.parts.update(partId, { mutedUntil: until })
+  if (until) trackEvent('part_muted', { hours: Math.round((until - Date.now()) / 3_600_000) })
+  notify()
+}
+
+export async function retirePart(partId: string): Promise<void> {
+  await db.parts.update(partId, { retiredAt: Date.now() })
+  trackEvent('part_retired')
+  notify()
+}
+
+export async function restorePart(partId: string): Promise<void> {
+  await db.parts.update(partId, { retiredAt: null })
+  notify()
+}
+
+/**
+ * Folds one emerged part into another: memories move over, learned keywords,
+ * emotions and catchphrases are combined, and the source is archived.
+ * Seeded parts can't be merged.
+ */
+export async function mergeParts(sourceId: string, targetId: string): Promise<Part | null> {
+  if (sourceId === targetId) return null
+  const [source, target] = await Promise.all([db.parts.get(sourceId), db.parts.get(targetId)])
+  if (!source || !target || source.isSeeded || target.isSeeded) return null
+  if (source.retiredAt || target.retiredAt) return null
+
+  const memories = await db.memories.where('partId').equals(sourceId).toArray()
+  for (const memory of memories) {
+    await db.memories.update(memory.id, { partId: targetId })
+  }
+
+  const maxPhrases = getGlobalConfig()?.partIntelligence?.catchphraseMaxPerPart ?? 3
+  const changes: Partial<Part> = {
+    learnedKeywords: [...new Set([...(target.learnedKeywords ?? []), ...(source.learnedKeywords ?? [])])],
+    learnedEmotions: [...new Set([...(target.learnedEmotions ?? []), ...(source.learnedEmotions ?? [])])],
+    catchphrases: [...new Set([...(target.catchphrases ?? []), ...(source.catchphrases ?? [])])].slice(0, maxPhrases),
+    growthVersion: (target.growthVersion ?? 0) + 1,
+  }
+  await ensureBaselineSnapshot(target)
+  await db.parts.update(targetId, changes)
+  await recordGrowthSnapshot({
+    partId: targetId,
+    version: changes.growthVersion!,
+    trigger: 'merge',
+    mergedFrom: source.name,
+    state: growthStateOf({ ...target, ...changes }),
+  })
+  await db.parts.update(sourceId, { retiredAt: Date.now(), mergedInto: targetId })
+
+  trackEvent('parts_merged', { memories_moved: memories.length })
+  notify()
+  return { ...target, ...changes }
+}
+
+/**
+ * Restores a part's learned fields to an earlier version. The revert is
+ * itself a new version, so the timeline keeps everything that happened.
+ */
+export async function revertGrowth(partId: string, version: number): Promise<Part | null> {
+  const part = await db.parts.get(partId)
+  if (!part) return null
+  const snapshots = await db.growthSnapshots.where('partId').equals(partId).toArray()
+  const target = snapshots.filter((s) => s.version === version).sort((a, b) => b.createdAt - a.createdAt)[0]
+  if (!target) return null
+
+  const changes: Partial<Part> = {
+    ...target.state,
+    growthVersion: (part.growthVersion ?? 0) + 1,
+  }
+  await db.parts.update(partId, changes)
+  await recordGrowthSnapshot({
+    partId,
+    version: changes.growthVersion!,
+    trigger: 'revert',
+    revertedTo: version,
+    state: target.state,
+  })
+  trackEvent('part_growth_reverted', { versions_back: (part.growthVersion ?? 0) - version })
+  notify()
+  return { ...part, ...changes }
+}
@@ -0,0 +1,35 @@
+import { db } from './db'
+import { trackEvent } from '../services/analytics'
+import type { Session } from '../types'
+
+// Reopening a closed session happens from the sidebar or from the session
+// itself; an open SessionView subscribes so it picks up the change in place.
+
+const listeners = new Set<(session: Session) => void>()
+
+export function subscribeSessionResumed(callback: (session: Session) => void) {
+  listeners.add(callback)
+  return () => { listeners.delete(callback) }
+}
+
+/**
+ * Reopens a closed session so the conversation can continue. The session note
+ * stays until the session is ended again and a new one is written.
+ */
+export async function resumeSession(sessionId: string): Promise<Session | null> {
+  const session = await db.sessions.get(sessionId)
+  if (!session) return null
+  if (session.status !== 'closed') return session
+
+  const changes = {
+    status: 'active' as const,
+    endedAt: null,
+    resumedAtMessage: session.messageCount,
+  }
+  await db.sessions.update(sessionId, changes)
+  const resumed: Session = { ...session, ...changes }
+
+  trackEvent('session_resumed', { mode: session.mode ?? 'therapist' })
+  for (const fn of listeners) fn(resumed)
+  return resumed
+}
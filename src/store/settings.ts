@@ -1,6 +1,7 @@
 import { useSyncExternalStore } from 'react'
 import { getGlobalConfig } from './globalConfig'
 import { detectBrowserLanguage } from '../i18n/languages'
+import type { StorageMode } from './storageBackend'
 
 export interface AppSettings {
   // AI
@@ -20,6 +21,8 @@ export interface AppSettings {
   textHighlights: boolean
   ghostText: boolean
   bilateralStimulation: boolean
+  // Camera heart rhythm in the editor (still needs the biometric consent)
+  journalBiometrics: boolean
 
   // Appearance
   theme: 'light' | 'dark' | 'system'
@@ -29,8 +32,17 @@ export interface AppSettings {
 
   // Timezone (IANA, e.g. 'America/New_York')
   timezone: string
+
+  // Country for the crisis resources card (ISO code), or 'auto' to infer from timezone
+  crisisRegion: string
+
+  // Where the journal is stored — read once at startup
+  storageMode: StorageMode
 }
 
+/** Stored until the user picks a timezone — it says nothing about where they are */
+export const DEFAULT_TIMEZONE = 'America/New_York'
+
 const DEFAULTS: AppSettings = {
   openRouterModel: 'google/gemini-3-flash-preview',
   responseSpeed: 1.0,
@@ -40,9 +52,12 @@ const DEFAULTS: AppSettings = {
   textHighlights: true,
   ghostText: true,
   bilateralStimulation: true,
+  journalBiometrics: false,
   theme: 'system',
   language: detectBrowserLanguage(),
-  timezone: 'America/New_York',
+  timezone: DEFAULT_TIMEZONE,
+  crisisRegion: 'auto',
+  storageMode: 'cloud',
 }
 
 const STORAGE_KEY = 'undersurface:settings'
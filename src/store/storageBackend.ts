@@ -0,0 +1,45 @@
+import type { DocumentData } from 'firebase/firestore'
+
+/**
+ * Where a user's journal lives. `cloud` syncs through Firestore; `device`
+ * keeps everything in this browser's IndexedDB and never leaves the machine.
+ */
+export type StorageMode = 'cloud' | 'device'
+
+export type WhereOp = '==' | '>' | '>=' | '<' | '<='
+
+export interface WhereClause {
+  field: string
+  op: WhereOp
+  value: unknown
+}
+
+export interface QuerySpec {
+  where?: WhereClause[]
+  orderBy?: { field: string; direction: 'asc' | 'desc' }
+  // Cursor value for the orderBy field — results resume strictly after it
+  startAfter?: unknown
+  limit?: number
+  // Fields to keep on each returned document. The Firestore web SDK cannot
+  // project server-side, so this trims results rather than the download.
+  select?: string[]
+}
+
+/**
+ * Minimal document store the `db` proxy is built on. Collection paths are
+ * relative to the signed-in user's root, e.g. `entries` or
+ * `sessions/{id}/messages`.
+ */
+export interface StorageBackend {
+  readonly kind: StorageMode | 'memory'
+  get(path: string, id: string): Promise<DocumentData | undefined>
+  set(path: string, id: string, data: DocumentData): Promise<void>
+  update(path: string, id: string, partial: DocumentData): Promise<void>
+  delete(path: string, id: string): Promise<void>
+  bulkSet(path: string, items: DocumentData[]): Promise<void>
+  /** Partial updates to several existing documents in one write */
+  bulkUpdate(path: string, updates: Array<{ id: string; partial: DocumentData }>): Promise<void>
+  count(path: string): Promise<number>
+  query(path: string, spec?: QuerySpec): Promise<DocumentData[]>
+  subscribe(path: string, spec: QuerySpec, callback: (docs: DocumentData[]) => void): () => void
+}
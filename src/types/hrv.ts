@@ -1,3 +1,5 @@
+import type { PauseType } from './index'
+
 export type AutonomicState = 'calm' | 'activated' | 'transitioning'
 export type HrvTrend = 'rising' | 'falling' | 'steady'
 
@@ -25,12 +27,24 @@ export type HrvError =
   | { type: 'camera_unavailable' }
   | { type: 'camera_lost' }
   | { type: 'worker_error'; message: string }
+  | { type: 'source_unavailable'; message: string }
 
 export type HrvConversationEventType = 'user_message' | 'ai_response_start' | 'ai_response_complete'
 
-export interface HrvTimelineEvent {
+/** Moments in a journal entry that measurements are lined up against */
+export type HrvJournalEventType = 'pause' | 'part_thought' | 'paragraph'
+
+export interface HrvJournalEventDetails {
+  pauseType?: PauseType
+  partId?: string
+  partName?: string
+  /** What the writer had just written — kept in memory only, never persisted */
+  text?: string
+}
+
+export interface HrvTimelineEvent extends HrvJournalEventDetails {
   timestamp: number
-  type: 'measurement' | HrvConversationEventType
+  type: 'measurement' | HrvConversationEventType | HrvJournalEventType
   measurement?: HrvMeasurement
   messageIndex?: number
 }
@@ -39,8 +53,11 @@ export interface HrvShift {
   timestamp: number
   fromState: AutonomicState
   toState: AutonomicState
-  trigger: 'user_message' | 'ai_response' | 'unknown'
+  trigger: 'user_message' | 'ai_response' | HrvJournalEventType | 'unknown'
   triggerMessageIndex: number | null
+  triggerPartId?: string
+  triggerPartName?: string
+  triggerText?: string
   magnitude: number
 }
 
@@ -61,7 +78,14 @@ export interface HrvSignalDump {
 }
 
 export interface HrvSessionData {
+  /** One per recording; older recordings used the session or entry id */
   id: string
+  /** Absent on recordings made before journal mode existed */
+  source?: 'session' | 'journal'
+  /** The conversation recorded alongside (session recordings) */
+  sessionId?: string
+  /** The entry recorded alongside (journal recordings) */
+  entryId?: string
   startedAt: number
   endedAt: number
   calibrationBaseline: number
@@ -20,10 +20,72 @@ export interface Part {
   lastActiveAt?: number
   catchphrases?: string[]
   quietSince?: number
+  /** Set once the writer renames the part, so the chosen name wins over translations */
+  nameEdited?: boolean
+  /** Set once the writer rewrites the part's concern */
+  concernEdited?: boolean
+  /** The part stays silent in the journal until this time */
+  mutedUntil?: number | null
+  /** Archived parts keep their data but no longer speak */
+  retiredAt?: number | null
+  /** Part this one was merged into before being archived */
+  mergedInto?: string
+  /** Named and described by the writer rather than detected by emergence */
+  introducedByWriter?: boolean
+}
+
+/** A part the writer is introducing, drafted for their approval before it joins */
+export interface PartDraft {
+  name: string
+  ifsRole: IFSRole
+  color: string
+  concern: string
+  voiceDescription: string
+  /** Who the part is, in the second person — becomes the body of its system prompt */
+  character: string
+  /** A few lines in the part's voice, each wrapped in ... */
+  examples: string[]
+  keywords: string[]
+}
+
+/** The fields growth evolves — what a snapshot restores on revert */
+export interface PartGrowthState {
+  systemPromptAddition: string
+  learnedKeywords: string[]
+  learnedEmotions: EmotionalTone[]
+  catchphrases: string[]
+}
+
+export type GrowthTrigger = 'baseline' | 'growth' | 'merge' | 'revert'
+
+/** One version of a part's learned fields. Written once, never updated. */
+export interface PartGrowthSnapshot {
+  id: string
+  partId: string
+  /** The part's growthVersion once this snapshot applied */
+  version: number
+  createdAt: number
+  trigger: GrowthTrigger
+  /** growth: the memories the model grew from */
+  inputMemories?: string[]
+  /** growth: what the model proposed, before it was combined with what the part knew */
+  output?: {
+    promptAddition?: string
+    keywords?: string[]
+    emotions?: string[]
+    catchphrases?: string[]
+  }
+  /** revert: the version that was restored */
+  revertedTo?: number
+  /** merge: name of the part that was folded in */
+  mergedFrom?: string
+  state: PartGrowthState
 }
 
 export type MemoryType = 'observation' | 'interaction' | 'reflection' | 'pattern' | 'somatic'
 
+export type MemorySource = 'journal' | 'session' | 'manual'
+
 export interface PartMemory {
   id: string
   partId: string
@@ -31,12 +93,24 @@ export interface PartMemory {
   content: string
   type?: MemoryType
   timestamp: number
-  source?: 'journal' | 'session'
+  /** Where the memory came from — extracted from a journal entry or session, or a manual somatic check-in */
+  source?: MemorySource
   sessionId?: string
   bodyRegion?: string
   quote?: string
   emotion?: string
   intensity?: string
+  /** Pinned by the writer — always in the prompt, never retired */
+  pinned?: boolean
+  /** How often this memory has been put in front of the model */
+  retrievalCount?: number
+  lastRetrievedAt?: number
+  /** Set when consolidation retires the memory; kept for the writer to browse */
+  retiredAt?: number | null
+  /** Pattern memory this observation was folded into */
+  consolidatedInto?: string
+  /** Observations a pattern memory was distilled from */
+  consolidatedFrom?: string[]
 }
 
 export interface DiaryEntry {
@@ -84,6 +158,8 @@ export interface ThinkingOutLoudInteraction {
 }
 
 export type SessionPhase = 'opening' | 'deepening' | 'closing'
+// Why a message's phase differs from the previous one (or was held back)
+export type PhaseTransitionReason = 'message_count' | 'distress_hold' | 'wrap_up' | 'session_end'
 export type SessionOpeningMethod = 'auto' | 'user_chose' | 'open_invitation'
 export type EmergenceReason = 'emotional_gravity' | 'tension' | 'user_invitation'
 
@@ -105,6 +181,12 @@ export interface Session {
   favorited?: boolean
   isTherapistSession?: boolean
   mode?: SessionMode
+  /** Rolling summary of the messages before `summarizedThrough` */
+  runningSummary?: string
+  /** How many leading messages the running summary covers */
+  summarizedThrough?: number
+  /** Message count when a closed session was last continued */
+  resumedAtMessage?: number
 }
 
 export interface SessionMessage {
@@ -115,6 +197,7 @@ export interface SessionMessage {
   content: string
   timestamp: number
   phase: SessionPhase
+  phaseReason?: PhaseTransitionReason
   isEmergence: boolean
   emergenceReason?: EmergenceReason
 }
@@ -166,6 +249,21 @@ export interface EntrySummary {
   contentHash?: string
 }
 
+export type EmbeddingSourceType = 'entry' | 'summary' | 'memory'
+
+export interface EmbeddingRecord {
+  id: string // `${sourceType}:${sourceId}`
+  sourceType: EmbeddingSourceType
+  sourceId: string
+  entryId: string | null
+  /** When the source was written — retrieval filters by this age */
+  timestamp: number
+  /** Vectors from different models are never compared */
+  model: string
+  textHash: string
+  vector: number[]
+}
+
 export interface UserProfile {
   id: string // always 'current'
   recurringThemes: string[]
@@ -240,12 +338,28 @@ export interface ConsentRecord {
   privacyAccepted: boolean
 }
 
+// 'read': entries and conversations · 'write': create/append/favorite ·
+// 'inner-world': parts, memories, profile, body map, weather, letters
+export type ApiKeyScope = 'read' | 'write' | 'inner-world'
+
 export interface ApiKey {
   id: string
   hash: string
   name: string
   createdAt: number
   lastUsedAt: number | null
+  scopes?: ApiKeyScope[] // absent on keys created before scopes — treated as read-only
+}
+
+// Journal data key, wrapped with a key derived from the user's passphrase.
+// Present only when the user has turned on encryption.
+export interface EncryptionKeyRecord {
+  id: string // always 'primary'
+  salt: string
+  iv: string
+  wrappedKey: string
+  iterations: number
+  createdAt: number
 }
 
 export type BodyRegion = 'head' | 'eyes' | 'throat' | 'chest' | 'stomach' | 'shoulders' | 'hands' | 'back' | 'hips' | 'legs'
@@ -260,28 +374,34 @@ export interface SomaticSignal {
 export interface SomaticMemory {
   id: string
   partId: '_somatic'
+  /** Entry or session it was extracted from; empty for manual check-ins */
   entryId: string
   content: string
   type: 'somatic'
   bodyRegion: BodyRegion
+  /** The writer's words — quoted from the entry, or the note left with a check-in */
   quote: string
   emotion: string
   intensity: 'low' | 'medium' | 'high'
   timestamp: number
+  /** Older extracted memories have none */
+  source?: MemorySource
 }
 
 export interface HomunculusRegionState {
   signalCount: number
+  /** Signals the writer checked in by hand, out of signalCount */
+  manualCount: number
   dominantEmotions: Array<{ emotion: string; count: number; color: string }>
   sizeFactor: number
   fillColor: string
-  quotes: Array<{ text: string; date: string; entryId: string }>
+  quotes: Array<{ text: string; date: string; entryId: string; manual: boolean }>
 }
 
 export type HomunculusState = Record<BodyRegion, HomunculusRegionState>
 
 export type {
   AutonomicState, HrvTrend, HrvDerivedMetrics, HrvMeasurement, HrvError,
-  HrvConversationEventType, HrvTimelineEvent, HrvShift,
+  HrvConversationEventType, HrvJournalEventType, HrvJournalEventDetails, HrvTimelineEvent, HrvShift,
   HrvSignalDump, HrvSessionData, CameraHrvConsent,
 } from './hrv'